@@ -4,9 +4,14 @@
 import {
   BoundaryLineStrategy,
   Cell,
+  Easing,
   HexBoard,
-  HexCoordinates,
+  HexBoardEvents,
   ModelRegistry,
+  Parallel,
+  TurnManager,
+  Tween,
+  hexToWorld,
 } from 'hexboard';
 import { GameColorStrategy } from './gameColorStrategy.js';
 import { GameCellProps } from './types.js';
@@ -14,10 +19,10 @@ import * as THREE from 'three';
 
 console.log('Hexboard test application starting...');
 
-// Global state for movement mode
-let isMovementModeActive = false;
 let hexBoard: HexBoard<GameCellProps>;
-let activeMovementGroupIds: string[] = [];
+const turnManager = new TurnManager<GameCellProps>([
+  { id: 'player-1', name: 'Player 1' },
+]);
 
 // Create a metallic dodecahedron geometry for the entity
 function createDodecahedronModel(): THREE.Object3D {
@@ -33,96 +38,84 @@ function createDodecahedronModel(): THREE.Object3D {
   return mesh;
 }
 
-// Handle cell click for movement
-function handleCellClick(coords: HexCoordinates): void {
-  const cell = hexBoard.getCellAtCoords(coords);
-  if (!cell) return;
-
-  if (!isMovementModeActive) {
-    // Check if the clicked cell contains an entity
-    const entitiesAtCell = hexBoard.getEntitiesAt(cell.id);
-    if (entitiesAtCell.length > 0) {
-      const entity = entitiesAtCell[0];
-
-      // Calculate reachable hexes (2-step range, respecting impassable)
-      const reachableHexes = hexBoard.getHexGrid().getReachableHexes(
-        {
-          q: entity.cellPosition.q,
-          r: entity.cellPosition.r,
-          s: entity.cellPosition.s,
-        },
-        2,
-        { respectImpassable: true }
-      );
+// Start a movement session when an entity is picked up, so it can be dropped
+// on any hex within 2 movement points (respecting terrain cost and impassable).
+// Each entity moves once per turn.
+function handleEntityDragStart({
+  entity,
+}: HexBoardEvents<GameCellProps>['entityDragStart']): void {
+  if (hexBoard.hasEntityMoved(entity.id)) {
+    console.log(`Entity ${entity.id} has already moved this turn`);
+    return;
+  }
 
-      // Start movement mode
-      hexBoard.startEntityMovement(entity.id, reachableHexes);
-      isMovementModeActive = true;
-
-      // Highlight the entity and destination cells
-      const renderer = hexBoard.getRenderer();
-      if (renderer) {
-        // Convert coordinates to cells for highlighting
-        const reachableCells = reachableHexes
-          .map((coords) => hexBoard.getCellAtCoords(coords))
-          .filter((cell): cell is Cell<GameCellProps> => cell !== undefined);
-        const groupId = `movement-${entity.id}`;
-
-        // Remove existing highlight group for this entity if it exists
-        const existingGroupIndex = activeMovementGroupIds.findIndex(
-          (id) => id === groupId
-        );
-        if (existingGroupIndex !== -1) {
-          renderer.removeHighlightGroup(groupId);
-          activeMovementGroupIds.splice(existingGroupIndex, 1);
-        }
-
-        renderer.addHighlightGroup(groupId, reachableCells);
-        activeMovementGroupIds.push(groupId);
-      }
+  const reachableHexes = hexBoard
+    .getHexGrid()
+    .getReachableHexesWithCost(entity.cellPosition, 2, {
+      respectImpassable: true,
+    })
+    .map((reachable) => reachable.coordinates);
 
-      console.log(
-        `Started movement mode for entity ${entity.id} with ${reachableHexes.length} destinations`
-      );
-    }
-  } else {
-    // Already in movement mode, check if clicked destination is valid
-    const entitiesInMovement = hexBoard
-      .getAllEntities()
-      .filter((e) => e.isInMovementMode);
-    if (entitiesInMovement.length > 0) {
-      const entity = entitiesInMovement[0];
-      const destinations = hexBoard.getEntityMovementDestinations(entity.id);
-
-      const isValidDestination = destinations.some(
-        (dest) =>
-          dest.q === coords.q && dest.r === coords.r && dest.s === coords.s
-      );
+  if (!hexBoard.startEntityMovement(entity.id, reachableHexes)) {
+    console.log(`Entity ${entity.id} belongs to another player`);
+    return;
+  }
 
-      const renderer = hexBoard.getRenderer();
-      if (isValidDestination) {
-        // Move entity to the destination
-        hexBoard.moveEntity(entity.id, cell);
-        console.log(
-          `Moved entity ${entity.id} to ${coords.q},${coords.r},${coords.s}`
-        );
-      } else {
-        // Cancel movement
-        hexBoard.cancelEntityMovement(entity.id);
-        console.log(`Cancelled movement for entity ${entity.id}`);
-      }
+  // Highlight the destination cells while the entity is dragged
+  const reachableCells = reachableHexes
+    .map((coords) => hexBoard.getCellAtCoords(coords))
+    .filter((cell): cell is Cell<GameCellProps> => cell !== undefined);
+  hexBoard
+    .getRenderer()
+    ?.addHighlightGroup(`movement-${entity.id}`, reachableCells);
+
+  console.log(
+    `Started movement mode for entity ${entity.id} with ${reachableHexes.length} destinations`
+  );
+}
 
-      // Clear highlights
-      if (renderer) {
-        activeMovementGroupIds.forEach((groupId) => {
-          renderer.removeHighlightGroup(groupId);
-        });
-        activeMovementGroupIds = [];
-      }
+function handleEntityDrop({
+  entity,
+  cell,
+  moved,
+}: HexBoardEvents<GameCellProps>['entityDrop']): void {
+  hexBoard.getRenderer()?.removeHighlightGroup(`movement-${entity.id}`);
 
-      isMovementModeActive = false;
-    }
+  if (moved && cell) {
+    console.log(`Moved entity ${entity.id} to ${cell.q},${cell.r},${cell.s}`);
+  } else {
+    console.log(`Cancelled movement for entity ${entity.id}`);
+  }
+}
+
+// Glide the camera to center on a double-tapped cell, keeping its angle
+function handleCellDoubleTap({
+  cell,
+}: HexBoardEvents<GameCellProps>['cellDoubleTap']): void {
+  const renderer = hexBoard.getRenderer();
+  if (!renderer) {
+    return;
   }
+
+  const controls = renderer.getControls();
+  const camera = renderer.getCamera();
+  const center = hexToWorld(cell);
+  const offsetX = center.x - controls.target.x;
+  const offsetZ = center.z - controls.target.z;
+  const options = { duration: 400, easing: Easing.easeInOutCubic };
+
+  renderer
+    .getAnimator()
+    .play(
+      new Parallel([
+        new Tween(controls.target, { x: center.x, z: center.z }, options),
+        new Tween(
+          camera.position,
+          { x: camera.position.x + offsetX, z: camera.position.z + offsetZ },
+          options
+        ),
+      ])
+    );
 }
 
 async function initializeApp(): Promise<void> {
@@ -183,15 +176,15 @@ async function initializeApp(): Promise<void> {
     const passableCells = allCells.filter((cell) => !cell.isImpassable);
 
     if (passableCells.length > 0) {
-      const randomCell =
-        passableCells[Math.floor(Math.random() * passableCells.length)];
+      const randomCell = hexBoard.getRandom().pick(passableCells);
 
       hexBoard.addEntity({
         id: 'dodecahedron-1',
         type: 'unit',
         cellPosition: randomCell,
         modelKey: 'dodecahedron',
-        movementSpeed: 1,
+        movementSpeed: 3,
+        owner: 'player-1',
       });
 
       console.log(
@@ -199,11 +192,45 @@ async function initializeApp(): Promise<void> {
       );
     }
 
-    // Connect click handler to input system
-    const inputHandler = hexBoard.getInputHandler();
-    if (inputHandler) {
-      inputHandler.onCellClick = handleCellClick;
-    }
+    // Start the history after setup, so undo cannot take the map away
+    hexBoard.getHistory().clear();
+    window.addEventListener('keydown', (event) => {
+      if (!event.ctrlKey && !event.metaKey) {
+        return;
+      }
+      const key = event.key.toLowerCase();
+      if (key === 'y' || (key === 'z' && event.shiftKey)) {
+        hexBoard.redo();
+      } else if (key === 'z') {
+        hexBoard.undo();
+      }
+    });
+
+    // Drag entities to move them
+    hexBoard.setDragPathOptions({ respectImpassable: true });
+    hexBoard.on('entityDragStart', handleEntityDragStart);
+    hexBoard.on('entityDrop', handleEntityDrop);
+    hexBoard.on('cellDoubleTap', handleCellDoubleTap);
+    hexBoard.on('entityMovementComplete', ({ entity, to }) => {
+      console.log(`Entity ${entity.id} arrived at ${to.q},${to.r},${to.s}`);
+      // The only player has nothing left to do once their unit has arrived
+      turnManager.endTurn();
+    });
+
+    // Take turns; entities only move on their owner's turn
+    turnManager.on('turnStart', ({ player, turn }) => {
+      console.log(`Turn ${turn}: ${player.name}`);
+    });
+    hexBoard.setTurnManager(turnManager);
+    turnManager.start();
+
+    // Shift-drag to select cells and the entities on them
+    hexBoard.setSelectionOptions({ includeEntities: true });
+    hexBoard.getSelection().on('change', ({ cells, entities }) => {
+      console.log(
+        `Selected ${cells.length} cells and ${entities.length} entities`
+      );
+    });
 
     // Start the render loop
     hexBoard.start();
@@ -29,8 +29,16 @@ export default [
         document: 'readonly',
         HTMLElement: 'readonly',
         requestAnimationFrame: 'readonly',
+        performance: 'readonly',
+        setTimeout: 'readonly',
+        clearTimeout: 'readonly',
         MouseEvent: 'readonly',
+        PointerEvent: 'readonly',
+        PointerEventInit: 'readonly',
+        KeyboardEvent: 'readonly',
         window: 'readonly',
+        btoa: 'readonly',
+        atob: 'readonly',
       },
     },
     plugins: {
@@ -102,6 +110,9 @@ export default [
         Element: 'readonly',
         Event: 'readonly',
         MouseEvent: 'readonly',
+        PointerEvent: 'readonly',
+        PointerEventInit: 'readonly',
+        KeyboardEvent: 'readonly',
         performance: 'readonly',
         requestAnimationFrame: 'readonly',
         cancelAnimationFrame: 'readonly',
@@ -135,6 +146,8 @@ export default [
         Element: 'readonly',
         Event: 'readonly',
         requestAnimationFrame: 'readonly',
+        setTimeout: 'readonly',
+        clearTimeout: 'readonly',
         cancelAnimationFrame: 'readonly',
       },
     },
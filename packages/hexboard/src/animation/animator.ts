@@ -0,0 +1,155 @@
+// Drives animations and per-frame updaters from a clock
+
+import { Unsubscribe } from '../core/events';
+import { Clock, systemClock } from './clock';
+import { Animation } from './tween';
+
+/**
+ * Called on every update with the time since its previous call.
+ */
+export type Updater = (_deltaMs: number) => void;
+
+/**
+ * Controls an animation started with Animator.play.
+ */
+export interface AnimationHandle {
+  /**
+   * Resolves when the animation ends: with true if it ran to its end, or
+   * false if it was cancelled
+   */
+  readonly finished: Promise<boolean>;
+  /** Stops the animation where it is. Does nothing once it has ended. */
+  cancel(): void;
+  /** Whether the animation is still playing */
+  isActive(): boolean;
+}
+
+interface PlayingAnimation {
+  animation: Animation;
+  lastUpdate: number;
+  resolve: (_completed: boolean) => void;
+}
+
+/**
+ * Plays animations against a clock. Call update once per frame; each
+ * animation and updater is advanced by the time since it was last advanced,
+ * or since it was added, so it starts on time however the frame falls.
+ *
+ * The clock defaults to the browser's. Give the animator a ManualClock to
+ * step animations deterministically, for example in tests.
+ */
+export class Animator {
+  private clock: Clock;
+  private playing = new Set<PlayingAnimation>();
+  private updaters = new Map<Updater, number>();
+
+  /**
+   * Creates a new Animator.
+   * @param clock - The clock that times animations. Defaults to systemClock
+   */
+  constructor(clock: Clock = systemClock) {
+    this.clock = clock;
+  }
+
+  /**
+   * Starts playing an animation. It first advances on the next update.
+   *
+   * @param animation - The animation to play
+   * @returns A handle to wait for or cancel the animation
+   */
+  play(animation: Animation): AnimationHandle {
+    let resolve!: (_completed: boolean) => void;
+    const finished = new Promise<boolean>((done) => (resolve = done));
+    const entry: PlayingAnimation = {
+      animation,
+      lastUpdate: this.clock.now(),
+      resolve,
+    };
+    this.playing.add(entry);
+
+    return {
+      finished,
+      cancel: (): void => this.end(entry, false),
+      isActive: (): boolean => this.playing.has(entry),
+    };
+  }
+
+  /**
+   * Adds a function to call on every update, for effects that run until
+   * stopped rather than for a set time.
+   *
+   * @param updater - Called with the milliseconds since its previous call
+   * @returns A function that removes the updater
+   */
+  addUpdater(updater: Updater): Unsubscribe {
+    this.updaters.set(updater, this.clock.now());
+    return () => {
+      this.updaters.delete(updater);
+    };
+  }
+
+  /**
+   * Advances every playing animation and calls every updater. Animations
+   * that finish are removed and their handles resolve with true.
+   *
+   * An animation or updater that throws is reported with console.error and
+   * removed, so it cannot stop the others or the render loop.
+   */
+  update(): void {
+    const now = this.clock.now();
+
+    for (const [updater, lastUpdate] of [...this.updaters]) {
+      this.updaters.set(updater, now);
+      try {
+        updater(now - lastUpdate);
+      } catch (error) {
+        console.error('Error in animation updater:', error);
+        this.updaters.delete(updater);
+      }
+    }
+
+    for (const entry of [...this.playing]) {
+      // Skip animations cancelled by an earlier one this update
+      if (!this.playing.has(entry)) {
+        continue;
+      }
+      const delta = now - entry.lastUpdate;
+      entry.lastUpdate = now;
+      try {
+        entry.animation.update(delta);
+      } catch (error) {
+        console.error('Error in animation:', error);
+        this.end(entry, false);
+        continue;
+      }
+      if (entry.animation.isFinished()) {
+        this.end(entry, true);
+      }
+    }
+  }
+
+  /**
+   * Checks whether any animation is playing.
+   */
+  isAnimating(): boolean {
+    return this.playing.size > 0;
+  }
+
+  /**
+   * Cancels every playing animation and removes every updater.
+   */
+  clear(): void {
+    [...this.playing].forEach((entry) => this.end(entry, false));
+    this.updaters.clear();
+  }
+
+  getClock(): Clock {
+    return this.clock;
+  }
+
+  private end(entry: PlayingAnimation, completed: boolean): void {
+    if (this.playing.delete(entry)) {
+      entry.resolve(completed);
+    }
+  }
+}
@@ -0,0 +1,46 @@
+// Sources of time for animations
+
+/**
+ * Tells the time, in milliseconds, for timing animations.
+ */
+export interface Clock {
+  now(): number;
+}
+
+/**
+ * The browser's high-resolution clock. Jest's fake timers control it too.
+ */
+export const systemClock: Clock = {
+  now: (): number => performance.now(),
+};
+
+/**
+ * A clock that only moves when told to, for stepping animations
+ * deterministically in tests and replays.
+ */
+export class ManualClock implements Clock {
+  private time: number;
+
+  /**
+   * @param time - The time to start at, in milliseconds
+   */
+  constructor(time = 0) {
+    this.time = time;
+  }
+
+  now(): number {
+    return this.time;
+  }
+
+  /**
+   * Moves the clock forward.
+   *
+   * @param ms - How many milliseconds to move forward; must not be negative
+   */
+  advance(ms: number): void {
+    if (ms < 0) {
+      throw new Error(`Cannot move a clock backwards by ${-ms}ms`);
+    }
+    this.time += ms;
+  }
+}
@@ -0,0 +1,24 @@
+// Easing functions that shape how animations progress over time
+
+/**
+ * Maps linear progress through an animation, from 0 to 1, to eased progress.
+ * Easing functions return 0 at 0 and 1 at 1.
+ */
+export type EasingFunction = (_t: number) => number;
+
+/**
+ * The built-in easing functions. "In" eases start slowly, "out" eases end
+ * slowly, and "inOut" eases do both.
+ */
+export const Easing = {
+  linear: (t: number): number => t,
+  easeInQuad: (t: number): number => t * t,
+  easeOutQuad: (t: number): number => t * (2 - t),
+  easeInOutQuad: (t: number): number =>
+    t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2,
+  easeInCubic: (t: number): number => t * t * t,
+  easeOutCubic: (t: number): number => 1 - Math.pow(1 - t, 3),
+  easeInOutCubic: (t: number): number =>
+    t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2,
+  easeInOutSine: (t: number): number => -(Math.cos(Math.PI * t) - 1) / 2,
+} satisfies Record<string, EasingFunction>;
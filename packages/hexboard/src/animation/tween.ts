@@ -0,0 +1,204 @@
+// Animations that advance by time steps: tweens, pauses, and groups of them
+
+import { Easing, EasingFunction } from './easing';
+
+/**
+ * Something that changes over time, advanced by an Animator or by an
+ * enclosing Sequence or Parallel group.
+ */
+export interface Animation {
+  /**
+   * Advances the animation.
+   *
+   * @param deltaMs - The time since the previous update, in milliseconds
+   * @returns The part of deltaMs left over once the animation finished, so
+   * whatever follows it can start on time; 0 while it is still running
+   */
+  update(deltaMs: number): number;
+  /** Whether the animation has run to its end */
+  isFinished(): boolean;
+}
+
+/**
+ * The numeric properties of a tween's target, with the values to tween them to.
+ */
+export type TweenValues<T> = {
+  [K in keyof T as T[K] extends number ? K : never]?: number;
+};
+
+export interface TweenOptions<T> {
+  /** How long the tween takes, in milliseconds */
+  duration: number;
+  /** Shapes the tween's progress. Defaults to Easing.linear. */
+  easing?: EasingFunction;
+  /** How long to wait before starting, in milliseconds. Defaults to 0. */
+  delay?: number;
+  /** Called with the target after each change, for example to refresh a material */
+  onUpdate?: (_target: T) => void;
+}
+
+/**
+ * Moves numeric properties of an object from their values when the tween
+ * starts to new values. Vectors, colors and materials all have numeric
+ * properties, so one tween covers positions and scales (x, y, z), colors
+ * (r, g, b) and opacity alike:
+ *
+ * ```ts
+ * animator.play(new Tween(camera.position, { x: 0, z: 10 }, { duration: 500 }));
+ * animator.play(new Tween(material, { opacity: 0 }, { duration: 300 }));
+ * ```
+ *
+ * The starting values are read on the tween's first update after its delay,
+ * so a tween in a Sequence starts from wherever the steps before it left off.
+ */
+export class Tween<T extends object> implements Animation {
+  private target: T;
+  private to: TweenValues<T>;
+  private duration: number;
+  private easing: EasingFunction;
+  private delay: number;
+  private onUpdate?: (_target: T) => void;
+  private from?: Record<string, number>;
+  private elapsed = 0;
+  private finished = false;
+
+  /**
+   * Creates a new Tween.
+   * @param target - The object whose properties to change
+   * @param to - The values to change them to
+   * @param options - The duration, easing and delay of the change
+   */
+  constructor(target: T, to: TweenValues<T>, options: TweenOptions<T>) {
+    this.target = target;
+    this.to = to;
+    this.duration = options.duration;
+    this.easing = options.easing ?? Easing.linear;
+    this.delay = options.delay ?? 0;
+    this.onUpdate = options.onUpdate;
+  }
+
+  update(deltaMs: number): number {
+    if (this.finished) {
+      return deltaMs;
+    }
+
+    this.elapsed += deltaMs;
+    const active = this.elapsed - this.delay;
+    if (active < 0) {
+      return 0;
+    }
+
+    const values = this.target as Record<string, number>;
+    const to = this.to as Record<string, number>;
+    if (!this.from) {
+      this.from = {};
+      for (const key of Object.keys(to)) {
+        this.from[key] = values[key];
+      }
+    }
+
+    const progress =
+      this.duration > 0 ? Math.min(active / this.duration, 1) : 1;
+    const eased = this.easing(progress);
+    for (const [key, from] of Object.entries(this.from)) {
+      values[key] = from + (to[key] - from) * eased;
+    }
+    this.onUpdate?.(this.target);
+
+    if (progress < 1) {
+      return 0;
+    }
+    this.finished = true;
+    return active - this.duration;
+  }
+
+  isFinished(): boolean {
+    return this.finished;
+  }
+}
+
+/**
+ * Does nothing for a while, to space out the steps of a Sequence.
+ */
+export class Delay implements Animation {
+  private remaining: number;
+
+  /**
+   * @param duration - How long to wait, in milliseconds
+   */
+  constructor(duration: number) {
+    this.remaining = duration;
+  }
+
+  update(deltaMs: number): number {
+    this.remaining -= deltaMs;
+    return Math.max(-this.remaining, 0);
+  }
+
+  isFinished(): boolean {
+    return this.remaining <= 0;
+  }
+}
+
+/**
+ * Runs animations one after another. Time left over when one finishes goes
+ * to the next, so a sequence takes the sum of its steps' durations whatever
+ * the frame rate.
+ */
+export class Sequence implements Animation {
+  private animations: Animation[];
+  private index = 0;
+
+  /**
+   * @param animations - The animations to run, in order
+   */
+  constructor(animations: Animation[]) {
+    this.animations = animations;
+  }
+
+  update(deltaMs: number): number {
+    let remaining = deltaMs;
+    while (this.index < this.animations.length) {
+      const current = this.animations[this.index];
+      remaining = current.update(remaining);
+      if (!current.isFinished()) {
+        return 0;
+      }
+      this.index++;
+    }
+    return remaining;
+  }
+
+  isFinished(): boolean {
+    return this.index >= this.animations.length;
+  }
+}
+
+/**
+ * Runs animations side by side, finishing when the last of them does.
+ */
+export class Parallel implements Animation {
+  private animations: Animation[];
+
+  /**
+   * @param animations - The animations to run together
+   */
+  constructor(animations: Animation[]) {
+    this.animations = animations;
+  }
+
+  update(deltaMs: number): number {
+    let remaining = deltaMs;
+    for (const animation of this.animations) {
+      if (!animation.isFinished()) {
+        // The animation that finishes last leaves the least time over
+        remaining = Math.min(remaining, animation.update(deltaMs));
+      }
+    }
+    return this.isFinished() ? remaining : 0;
+  }
+
+  isFinished(): boolean {
+    return this.animations.every((animation) => animation.isFinished());
+  }
+}
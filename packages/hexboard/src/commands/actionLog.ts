@@ -0,0 +1,80 @@
+// Recording a game as its starting board and the changes made to it
+
+import { Unsubscribe } from '../core/events';
+import { HexBoard } from '../hexBoard';
+import { SerializedBoardState, cloneJson } from '../serialization/boardState';
+import { BoardCommand } from './boardCommand';
+
+/**
+ * The schema version written by ActionRecorder. Bump this whenever the shape
+ * of ActionLog or BoardCommand changes.
+ */
+export const ACTION_LOG_VERSION = 1;
+
+/**
+ * A recorded game: the board it started from and every change made to it, in
+ * order. Contains only plain data, so it can be passed through JSON.stringify
+ * and JSON.parse unchanged, and played back with Replay.
+ */
+export interface ActionLog<
+  CustomProps extends Record<string, unknown> = Record<string, never>,
+> {
+  version: number;
+  initialState: SerializedBoardState<CustomProps>;
+  actions: BoardCommand<CustomProps>[];
+}
+
+/**
+ * Records the changes made to a board into an ActionLog.
+ *
+ * Every change made through the board's commands is recorded as it is
+ * applied, so undos and redos are logged as the changes they make and a
+ * replay ends where the game did. loadMap and deserialize replace the board
+ * without commands; start a new recording after calling them.
+ */
+export class ActionRecorder<
+  CustomProps extends Record<string, unknown> = Record<string, never>,
+> {
+  private initialState: SerializedBoardState<CustomProps>;
+  private actions: BoardCommand<CustomProps>[] = [];
+  private unsubscribe: Unsubscribe | null;
+
+  /**
+   * Starts recording, taking the board as it is now as the initial state.
+   * @param board - The board to record
+   */
+  constructor(board: HexBoard<CustomProps>) {
+    this.initialState = board.serialize();
+    this.unsubscribe = board.on('commandApplied', ({ command }) => {
+      // Copy the command, so later changes to what it refers to are not logged
+      this.actions.push(cloneJson(command));
+    });
+  }
+
+  /**
+   * Stops recording. The log recorded so far is kept.
+   */
+  stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+  }
+
+  isRecording(): boolean {
+    return this.unsubscribe !== null;
+  }
+
+  getActionCount(): number {
+    return this.actions.length;
+  }
+
+  /**
+   * Gets a copy of the log recorded so far. Recording may carry on.
+   */
+  getLog(): ActionLog<CustomProps> {
+    return cloneJson({
+      version: ACTION_LOG_VERSION,
+      initialState: this.initialState,
+      actions: this.actions,
+    });
+  }
+}
@@ -0,0 +1,49 @@
+// Serializable descriptions of every change to a board's cells and entities
+
+import { CellDefinition } from '../core/cell';
+import { HexCoordinates } from '../core/coordinates';
+import { SerializedEntity } from '../serialization/boardState';
+
+/**
+ * The properties of a cell, apart from where it is.
+ */
+export type CellProperties<
+  CustomProps extends Record<string, unknown> = Record<string, never>,
+> = Omit<CellDefinition<CustomProps>, 'q' | 'r' | 's'>;
+
+/**
+ * A change to a board, as executed by HexBoard.executeCommand. Commands are
+ * plain data, so they can be stored, sent over the network and passed
+ * through JSON.stringify and JSON.parse unchanged.
+ */
+export type BoardCommand<
+  CustomProps extends Record<string, unknown> = Record<string, never>,
+> =
+  /** Puts a cell at coordinates, replacing any cell already there */
+  | {
+      type: 'setCell';
+      coordinates: HexCoordinates;
+      cell: Partial<CellProperties<CustomProps>>;
+    }
+  /** Changes some properties of an existing cell, keeping the rest */
+  | {
+      type: 'updateCell';
+      coordinates: HexCoordinates;
+      changes: Partial<CellProperties<CustomProps>>;
+    }
+  /** Removes the cell at coordinates, which must have no entities on it */
+  | { type: 'removeCell'; coordinates: HexCoordinates }
+  /** Adds an entity on the cell at its position */
+  | { type: 'addEntity'; entity: SerializedEntity<CustomProps> }
+  /** Removes an entity */
+  | { type: 'removeEntity'; entityId: string }
+  /**
+   * Puts an entity on another cell, ending any movement session it had. If
+   * moved is given, it also records whether the entity has moved this turn.
+   */
+  | {
+      type: 'moveEntity';
+      entityId: string;
+      to: HexCoordinates;
+      moved?: boolean;
+    };
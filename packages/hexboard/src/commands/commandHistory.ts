@@ -0,0 +1,300 @@
+// Undo and redo for changes expressed as reversible commands
+
+import { EventEmitter, EventHandler, Unsubscribe } from '../core/events';
+
+/**
+ * Carries out a command and returns the command that reverses it. Throws,
+ * having changed nothing, if the command cannot be carried out.
+ */
+export type CommandApplier<Command> = (_command: Command) => Command;
+
+export interface CommandHistoryOptions {
+  /** How many steps can be undone; older steps are forgotten. Defaults to 100. */
+  maxDepth?: number;
+}
+
+/**
+ * What a history change did: a step was executed, undone or redone, or the
+ * history was cleared.
+ */
+export type HistoryAction = 'execute' | 'undo' | 'redo' | 'clear';
+
+/**
+ * The events a CommandHistory emits.
+ */
+export interface CommandHistoryEvents<Command> {
+  /**
+   * The history changed; commands are the ones just applied, in order, which
+   * for an undo are the reversing commands
+   */
+  change: { action: HistoryAction; commands: Command[] };
+}
+
+/**
+ * One undoable step: the commands it applied and the commands that reverse
+ * them, both in the order they were applied.
+ */
+interface HistoryStep<Command> {
+  commands: Command[];
+  inverses: Command[];
+}
+
+/**
+ * Executes commands and keeps what is needed to undo and redo them.
+ *
+ * Each executed command is one step, unless it runs inside a transaction,
+ * which makes every command executed before the transaction is committed a
+ * single step. Executing a new step discards the steps that could be redone.
+ *
+ * The history assumes whatever it changes is only changed through it;
+ * changing it directly may leave steps that can no longer be undone. Clear
+ * the history after such changes.
+ */
+export class CommandHistory<Command> {
+  private apply: CommandApplier<Command>;
+  private maxDepth = 100;
+  private undoStack: HistoryStep<Command>[] = [];
+  private redoStack: HistoryStep<Command>[] = [];
+  private openTransaction: HistoryStep<Command> | null = null;
+  private events = new EventEmitter<CommandHistoryEvents<Command>>();
+
+  /**
+   * Creates a new CommandHistory.
+   * @param apply - Carries out a command and returns its reverse
+   * @param options - How many steps to keep
+   * @throws Error if maxDepth is negative
+   */
+  constructor(
+    apply: CommandApplier<Command>,
+    options: CommandHistoryOptions = {}
+  ) {
+    this.apply = apply;
+    this.setMaxDepth(options.maxDepth ?? 100);
+  }
+
+  /**
+   * Carries out a command and records it, as a step of its own or as part of
+   * the open transaction. Nothing is recorded if the command throws.
+   *
+   * @param command - The command to execute
+   */
+  execute(command: Command): void {
+    const inverse = this.apply(command);
+
+    if (this.openTransaction) {
+      this.openTransaction.commands.push(command);
+      this.openTransaction.inverses.push(inverse);
+      return;
+    }
+    this.record({ commands: [command], inverses: [inverse] });
+  }
+
+  /**
+   * Reverses the most recent step.
+   *
+   * @returns True if a step was undone, or false if there was none
+   * @throws Error if a transaction is open
+   */
+  undo(): boolean {
+    this.assertNoTransaction('undo');
+    const step = this.undoStack.pop();
+    if (!step) {
+      return false;
+    }
+
+    const applied = [...step.inverses].reverse();
+    const redoCommands = applied.map((inverse) => this.apply(inverse));
+    this.redoStack.push({
+      commands: redoCommands.reverse(),
+      inverses: step.inverses,
+    });
+    this.events.emit('change', { action: 'undo', commands: applied });
+    return true;
+  }
+
+  /**
+   * Carries out the most recently undone step again.
+   *
+   * @returns True if a step was redone, or false if there was none
+   * @throws Error if a transaction is open
+   */
+  redo(): boolean {
+    this.assertNoTransaction('redo');
+    const step = this.redoStack.pop();
+    if (!step) {
+      return false;
+    }
+
+    const inverses = step.commands.map((command) => this.apply(command));
+    this.undoStack.push({ commands: step.commands, inverses });
+    this.events.emit('change', { action: 'redo', commands: step.commands });
+    return true;
+  }
+
+  canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  /**
+   * Gets how many steps can be undone.
+   */
+  getUndoDepth(): number {
+    return this.undoStack.length;
+  }
+
+  /**
+   * Gets how many steps can be redone.
+   */
+  getRedoDepth(): number {
+    return this.redoStack.length;
+  }
+
+  /**
+   * Sets how many steps can be undone, forgetting the oldest steps if there
+   * are more.
+   *
+   * @param maxDepth - The number of steps to keep; 0 keeps none
+   * @throws Error if maxDepth is negative
+   */
+  setMaxDepth(maxDepth: number): void {
+    if (maxDepth < 0) {
+      throw new Error(`History depth must not be negative, got ${maxDepth}`);
+    }
+    this.maxDepth = maxDepth;
+    this.trim();
+  }
+
+  getMaxDepth(): number {
+    return this.maxDepth;
+  }
+
+  // Transactions
+  /**
+   * Opens a transaction. Commands executed until it is committed are undone
+   * and redone together as one step.
+   *
+   * @throws Error if a transaction is already open
+   */
+  beginTransaction(): void {
+    if (this.openTransaction) {
+      throw new Error('A transaction is already open');
+    }
+    this.openTransaction = { commands: [], inverses: [] };
+  }
+
+  /**
+   * Closes the open transaction, recording its commands as one step. A
+   * transaction that executed nothing records nothing.
+   *
+   * @throws Error if no transaction is open
+   */
+  commitTransaction(): void {
+    const step = this.takeTransaction();
+    if (step.commands.length > 0) {
+      this.record(step);
+    }
+  }
+
+  /**
+   * Closes the open transaction, reversing every command it executed.
+   *
+   * @throws Error if no transaction is open
+   */
+  rollbackTransaction(): void {
+    const step = this.takeTransaction();
+    [...step.inverses].reverse().forEach((inverse) => this.apply(inverse));
+  }
+
+  /**
+   * Runs a function in a transaction, so everything it executes is one step.
+   * If the function throws, what it executed is reversed and the error is
+   * rethrown.
+   *
+   * @param fn - Executes the commands of the step
+   * @returns What fn returns
+   * @throws Error if a transaction is already open
+   */
+  transaction<T>(fn: () => T): T {
+    this.beginTransaction();
+    let result: T;
+    try {
+      result = fn();
+    } catch (error) {
+      this.rollbackTransaction();
+      throw error;
+    }
+    this.commitTransaction();
+    return result;
+  }
+
+  isInTransaction(): boolean {
+    return this.openTransaction !== null;
+  }
+
+  /**
+   * Forgets every step. An open transaction stays open, but what it has
+   * executed so far can no longer be rolled back.
+   */
+  clear(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+    if (this.openTransaction) {
+      this.openTransaction = { commands: [], inverses: [] };
+    }
+    this.events.emit('change', { action: 'clear', commands: [] });
+  }
+
+  /**
+   * Adds a listener for history events.
+   *
+   * @returns A function that removes the listener
+   */
+  on<K extends keyof CommandHistoryEvents<Command>>(
+    event: K,
+    handler: EventHandler<CommandHistoryEvents<Command>[K]>
+  ): Unsubscribe {
+    return this.events.on(event, handler);
+  }
+
+  /**
+   * Removes a listener added with on.
+   */
+  off<K extends keyof CommandHistoryEvents<Command>>(
+    event: K,
+    handler: EventHandler<CommandHistoryEvents<Command>[K]>
+  ): void {
+    this.events.off(event, handler);
+  }
+
+  private record(step: HistoryStep<Command>): void {
+    this.undoStack.push(step);
+    this.redoStack = [];
+    this.trim();
+    this.events.emit('change', { action: 'execute', commands: step.commands });
+  }
+
+  private trim(): void {
+    if (this.undoStack.length > this.maxDepth) {
+      this.undoStack.splice(0, this.undoStack.length - this.maxDepth);
+    }
+  }
+
+  private takeTransaction(): HistoryStep<Command> {
+    const step = this.openTransaction;
+    if (!step) {
+      throw new Error('No transaction is open');
+    }
+    this.openTransaction = null;
+    return step;
+  }
+
+  private assertNoTransaction(action: HistoryAction): void {
+    if (this.openTransaction) {
+      throw new Error(`Cannot ${action} while a transaction is open`);
+    }
+  }
+}
@@ -0,0 +1,224 @@
+// Playing a recorded game back onto a board
+
+import { AnimationHandle, Animator } from '../animation/animator';
+import { Animation } from '../animation/tween';
+import { HexBoard } from '../hexBoard';
+import { SerializedBoardState } from '../serialization/boardState';
+import { ACTION_LOG_VERSION, ActionLog } from './actionLog';
+import { BoardCommand } from './boardCommand';
+
+export interface ReplayOptions {
+  /**
+   * How many actions apart to keep snapshots of the board, so seeking
+   * backwards replays at most this many actions. Defaults to 50.
+   */
+  checkpointInterval?: number;
+}
+
+export interface ReplayPlaybackOptions {
+  /** How many actions to apply per second. Defaults to 2. */
+  actionsPerSecond?: number;
+  /** The position to stop at. Defaults to the end of the log. */
+  to?: number;
+}
+
+/**
+ * Plays an ActionLog back onto a board. The position is the number of actions
+ * applied: 0 shows the initial state, and the log's length shows the board as
+ * the recording ended.
+ *
+ * The board is reset to the log's initial state when the replay is created,
+ * and only the replay should change it afterwards. The board's history is
+ * cleared as the replay moves, since replayed actions are not the viewer's to
+ * undo.
+ */
+export class Replay<
+  CustomProps extends Record<string, unknown> = Record<string, never>,
+> {
+  private board: HexBoard<CustomProps>;
+  private actions: BoardCommand<CustomProps>[];
+  private checkpointInterval: number;
+  private checkpoints = new Map<number, SerializedBoardState<CustomProps>>();
+  private position = 0;
+
+  /**
+   * Creates a new Replay and shows the log's initial state on the board.
+   * @param board - An initialized board to play the log onto
+   * @param log - The recorded game
+   * @param options - How often to take snapshots for seeking
+   * @throws Error if the log's version is unsupported or its initial state is
+   * invalid
+   */
+  constructor(
+    board: HexBoard<CustomProps>,
+    log: ActionLog<CustomProps>,
+    options: ReplayOptions = {}
+  ) {
+    if (log.version !== ACTION_LOG_VERSION) {
+      throw new Error(
+        `Unsupported action log version ${log.version}; expected ${ACTION_LOG_VERSION}`
+      );
+    }
+    this.board = board;
+    this.actions = log.actions;
+    this.checkpointInterval = Math.max(1, options.checkpointInterval ?? 50);
+    this.checkpoints.set(0, log.initialState);
+    this.restore(0);
+  }
+
+  /**
+   * Gets how many actions have been applied.
+   */
+  getPosition(): number {
+    return this.position;
+  }
+
+  /**
+   * Gets how many actions the log has.
+   */
+  getLength(): number {
+    return this.actions.length;
+  }
+
+  isAtEnd(): boolean {
+    return this.position >= this.actions.length;
+  }
+
+  /**
+   * Gets the action at an index, which is applied when moving from that
+   * position to the next.
+   */
+  getAction(index: number): BoardCommand<CustomProps> | undefined {
+    return this.actions[index];
+  }
+
+  /**
+   * Applies the next action.
+   *
+   * @returns True if an action was applied, or false at the end of the log
+   */
+  step(): boolean {
+    if (this.isAtEnd()) {
+      return false;
+    }
+    this.applyNext();
+    this.board.getHistory().clear();
+    return true;
+  }
+
+  /**
+   * Goes back one action.
+   *
+   * @returns True if the replay went back, or false at the start of the log
+   */
+  stepBack(): boolean {
+    if (this.position === 0) {
+      return false;
+    }
+    this.seek(this.position - 1);
+    return true;
+  }
+
+  /**
+   * Shows the board as it was after a number of actions. Seeking forwards
+   * applies the actions in between; seeking backwards restores the nearest
+   * earlier snapshot and applies the actions from there.
+   *
+   * @param position - The number of actions to have applied
+   * @throws Error if the position is outside the log
+   */
+  seek(position: number): void {
+    if (
+      !Number.isInteger(position) ||
+      position < 0 ||
+      position > this.actions.length
+    ) {
+      throw new Error(
+        `Position ${position} is outside the action log of length ${this.actions.length}`
+      );
+    }
+
+    if (position < this.position) {
+      const checkpoint =
+        Math.floor(position / this.checkpointInterval) *
+        this.checkpointInterval;
+      this.restore(checkpoint);
+    }
+    while (this.position < position) {
+      this.applyNext();
+    }
+    this.board.getHistory().clear();
+  }
+
+  /**
+   * Plays the replay forwards at a steady pace on an animator, such as the
+   * board renderer's. Playback stops at its end position, or straight away if
+   * the replay is already past it.
+   *
+   * @param animator - The animator that times the playback
+   * @param options - The pace and end position of the playback
+   * @returns A handle to wait for or stop the playback
+   * @throws Error if actionsPerSecond is not positive
+   */
+  play(
+    animator: Animator,
+    options: ReplayPlaybackOptions = {}
+  ): AnimationHandle {
+    const actionsPerSecond = options.actionsPerSecond ?? 2;
+    if (!(actionsPerSecond > 0)) {
+      throw new Error(
+        `Actions per second must be positive, got ${actionsPerSecond}`
+      );
+    }
+    const to = Math.min(options.to ?? this.actions.length, this.actions.length);
+    return animator.play(new Playback(this, 1000 / actionsPerSecond, to));
+  }
+
+  private applyNext(): void {
+    this.board.executeCommand(this.actions[this.position]);
+    this.position++;
+    if (
+      this.position % this.checkpointInterval === 0 &&
+      !this.checkpoints.has(this.position)
+    ) {
+      this.checkpoints.set(this.position, this.board.serialize());
+    }
+  }
+
+  private restore(checkpoint: number): void {
+    this.board.deserialize(this.checkpoints.get(checkpoint)!);
+    this.position = checkpoint;
+  }
+}
+
+/**
+ * Steps a replay once per interval until it reaches a position.
+ */
+class Playback<
+  CustomProps extends Record<string, unknown> = Record<string, never>,
+> implements Animation
+{
+  private replay: Replay<CustomProps>;
+  private interval: number;
+  private to: number;
+  private elapsed = 0;
+
+  constructor(replay: Replay<CustomProps>, interval: number, to: number) {
+    this.replay = replay;
+    this.interval = interval;
+    this.to = to;
+  }
+
+  update(deltaMs: number): number {
+    this.elapsed += deltaMs;
+    while (!this.isFinished() && this.elapsed >= this.interval) {
+      this.elapsed -= this.interval;
+      this.replay.step();
+    }
+    return this.isFinished() ? this.elapsed : 0;
+  }
+
+  isFinished(): boolean {
+    return this.replay.getPosition() >= this.to;
+  }
+}
@@ -1,11 +1,36 @@
 // Coordinate system for hexagonal grids
 
+import { Direction } from './types';
+
 export interface HexCoordinates {
   q: number;
   r: number;
   s: number; // Invariant: q + r + s = 0
 }
 
+/**
+ * Offsets from a hex to each of its six neighbors, indexed by {@link Direction}.
+ *
+ * These are the same offsets used by HexGrid.getNeighborCoordinates, so every
+ * function in this module agrees with the grid about which hexes are adjacent.
+ * Note that neighbors differ by (±1, 0), (0, ±1) or ±(1, 1) in (q, r).
+ */
+export const HEX_DIRECTIONS: readonly HexCoordinates[] = [
+  { q: -1, r: -1, s: 2 }, // North
+  { q: 0, r: -1, s: 1 }, // Northeast
+  { q: 1, r: 0, s: -1 }, // Southeast
+  { q: 1, r: 1, s: -2 }, // South
+  { q: 0, r: 1, s: -1 }, // Southwest
+  { q: -1, r: 0, s: 1 }, // Northwest
+];
+
+const ORIGIN: HexCoordinates = { q: 0, r: 0, s: 0 };
+
+/**
+ * Tiny offset applied to line samples to break rounding ties
+ */
+const LINE_NUDGE: HexCoordinates = { q: 1e-6, r: 2e-6, s: -3e-6 };
+
 /**
  * Convert axial coordinates (q, r) to cubic coordinates (q, r, s)
  */
@@ -19,3 +44,213 @@ export function axialToCubic(q: number, r: number): HexCoordinates {
 export function isValidHexCoordinate(coords: HexCoordinates): boolean {
   return coords.q + coords.r + coords.s === 0;
 }
+
+/**
+ * Test whether two coordinates refer to the same hex
+ */
+export function hexEquals(a: HexCoordinates, b: HexCoordinates): boolean {
+  return a.q === b.q && a.r === b.r && a.s === b.s;
+}
+
+/**
+ * Add two coordinates component-wise
+ */
+export function hexAdd(a: HexCoordinates, b: HexCoordinates): HexCoordinates {
+  return { q: a.q + b.q, r: a.r + b.r, s: a.s + b.s };
+}
+
+/**
+ * Subtract coordinate b from coordinate a component-wise
+ */
+export function hexSubtract(
+  a: HexCoordinates,
+  b: HexCoordinates
+): HexCoordinates {
+  return { q: a.q - b.q, r: a.r - b.r, s: a.s - b.s };
+}
+
+/**
+ * Multiply each component of a coordinate by a scalar
+ */
+export function hexScale(
+  coords: HexCoordinates,
+  factor: number
+): HexCoordinates {
+  return { q: coords.q * factor, r: coords.r * factor, s: coords.s * factor };
+}
+
+/**
+ * Count the neighbor-to-neighbor steps between two hexes.
+ *
+ * Because neighbors differ by (±1, 0), (0, ±1) or ±(1, 1) in (q, r), the
+ * number of steps is the largest of |Δq|, |Δr| and |Δq − Δr|.
+ */
+export function hexDistance(a: HexCoordinates, b: HexCoordinates): number {
+  const dq = a.q - b.q;
+  const dr = a.r - b.r;
+  return Math.max(Math.abs(dq), Math.abs(dr), Math.abs(dq - dr));
+}
+
+/**
+ * Get the adjacent hex in the given direction
+ */
+export function hexNeighbor(
+  coords: HexCoordinates,
+  direction: Direction
+): HexCoordinates {
+  return hexAdd(coords, HEX_DIRECTIONS[direction]);
+}
+
+/**
+ * Get the direction of the first step from one hex toward another.
+ *
+ * For adjacent hexes this is exactly the direction of the neighbor. For hexes
+ * further apart it is the direction whose neighbor is closest to the target;
+ * when two directions are equally close the one listed first in
+ * {@link Direction} wins.
+ *
+ * @returns The direction to step in, or null if the hexes are the same
+ */
+export function hexDirectionTo(
+  from: HexCoordinates,
+  to: HexCoordinates
+): Direction | null {
+  if (hexEquals(from, to)) {
+    return null;
+  }
+
+  let best = Direction.North;
+  let bestDistance = Infinity;
+  HEX_DIRECTIONS.forEach((offset, direction) => {
+    const distance = hexDistance(hexAdd(from, offset), to);
+    if (distance < bestDistance) {
+      best = direction;
+      bestDistance = distance;
+    }
+  });
+
+  return best;
+}
+
+/**
+ * Rotate a hex around a center in 60° steps.
+ *
+ * Positive steps rotate clockwise, following the order of {@link Direction}
+ * (North to Northeast and so on); negative steps rotate counter-clockwise.
+ */
+export function hexRotate(
+  coords: HexCoordinates,
+  steps: number,
+  center: HexCoordinates = ORIGIN
+): HexCoordinates {
+  const turns = ((Math.round(steps) % 6) + 6) % 6;
+  let { q, r } = hexSubtract(coords, center);
+
+  for (let i = 0; i < turns; i++) {
+    // One clockwise step maps each direction offset onto the next one
+    [q, r] = [q - r, q];
+  }
+
+  return hexAdd(center, axialToCubic(q, r));
+}
+
+/**
+ * Mirror a hex across the line running through a center along an axis.
+ *
+ * The axis is given as a direction; the line runs through that direction and
+ * its opposite, so North and South describe the same axis. Hexes on the line
+ * are unchanged.
+ */
+export function hexReflect(
+  coords: HexCoordinates,
+  axis: Direction,
+  center: HexCoordinates = ORIGIN
+): HexCoordinates {
+  // Rotate the axis onto North-South, where mirroring swaps q and r, then rotate back
+  const aligned = hexRotate(coords, -axis, center);
+  const offset = hexSubtract(aligned, center);
+  const mirrored = hexAdd(center, axialToCubic(offset.r, offset.q));
+  return hexRotate(mirrored, axis, center);
+}
+
+/**
+ * Rounds fractional hex coordinates to the nearest valid integer coordinates.
+ */
+export function roundHexCoordinates({
+  q,
+  r,
+  s,
+}: HexCoordinates): HexCoordinates {
+  let rq = Math.round(q);
+  let rr = Math.round(r);
+  let rs = Math.round(s);
+
+  const q_diff = Math.abs(rq - q);
+  const r_diff = Math.abs(rr - r);
+  const s_diff = Math.abs(rs - s);
+
+  if (q_diff > r_diff && q_diff > s_diff) {
+    rq = -rr - rs;
+  } else if (r_diff > s_diff) {
+    rr = -rq - rs;
+  } else {
+    rs = -rq - rr;
+  }
+
+  return { q: rq, r: rr, s: rs };
+}
+
+/**
+ * Linearly interpolate between two hexes.
+ *
+ * The result is generally fractional; t = 0 returns a and t = 1 returns b.
+ */
+export function hexLerp(
+  a: HexCoordinates,
+  b: HexCoordinates,
+  t: number
+): HexCoordinates {
+  return {
+    q: a.q + (b.q - a.q) * t,
+    r: a.r + (b.r - a.r) * t,
+    s: a.s + (b.s - a.s) * t,
+  };
+}
+
+/**
+ * Get every hex on the straight line between two hexes, endpoints included.
+ *
+ * The line is sampled once per step with {@link hexLerp} and each sample is
+ * rounded to the nearest hex, so consecutive results are always neighbors.
+ * Samples are nudged slightly to one side so that points falling exactly
+ * between two hexes round consistently.
+ */
+export function hexLine(
+  a: HexCoordinates,
+  b: HexCoordinates
+): HexCoordinates[] {
+  const steps = hexDistance(a, b);
+  const start = hexAdd(toConventionalCube(a), LINE_NUDGE);
+  const end = hexAdd(toConventionalCube(b), LINE_NUDGE);
+  const line: HexCoordinates[] = [];
+
+  for (let i = 0; i <= steps; i++) {
+    const t = steps === 0 ? 0 : i / steps;
+    const rounded = roundHexCoordinates(hexLerp(start, end, t));
+    line.push(toConventionalCube(rounded));
+  }
+
+  return line;
+}
+
+/**
+ * Maps between this grid's coordinates and conventional cube coordinates.
+ *
+ * Negating r turns the neighbor offsets in {@link HEX_DIRECTIONS} into the
+ * conventional cube neighbor offsets, where rounding to the nearest hex works
+ * as described at https://www.redblobgames.com/grids/hexagons/. The mapping
+ * is its own inverse. The subtraction keeps a zero r from turning into -0.
+ */
+function toConventionalCube(coords: HexCoordinates): HexCoordinates {
+  return axialToCubic(coords.q, 0 - coords.r);
+}
@@ -1,6 +1,6 @@
 import * as THREE from 'three';
 import { Cell } from './cell';
-import { HexCoordinates } from './coordinates';
+import { HexCoordinates, hexEquals } from './coordinates';
 
 /**
  * Definition for creating an entity.
@@ -15,6 +15,7 @@ export interface EntityDefinition<
   movementSpeed?: number;
   customProps?: CustomProps;
   modelKey?: string; // Optional reference to a 3D model in the ModelRegistry
+  owner?: string; // Optional ID of the player who controls the entity
 }
 
 /**
@@ -26,10 +27,13 @@ export interface Entity<
   CustomProps extends Record<string, unknown> = Record<string, never>,
 > {
   id: string;
+  type: string;
   cellPosition: Cell<CustomProps>;
   model: THREE.Object3D; // TODO: This will be removed in a future update in favor of modelKey
   movementSpeed?: number;
+  customProps: CustomProps;
   modelKey?: string; // Optional reference to a 3D model in the ModelRegistry
+  owner?: string; // Optional ID of the player who controls the entity
   isInMovementMode: boolean; // Indicates if the entity is in movement mode
 }
 
@@ -42,6 +46,8 @@ export class EntityManager<
   private entities: Map<string, Entity<CustomProps>> = new Map();
   private entityPositions: Map<string, string[]> = new Map(); // cellId -> entityId[]
   private movementSessions: Map<string, HexCoordinates[]> = new Map(); // entityId -> available destinations
+  private movedEntities: Set<string> = new Set(); // entityIds that have moved this turn
+  private actedEntities: Set<string> = new Set(); // entityIds that have acted this turn
 
   constructor() {}
 
@@ -54,10 +60,13 @@ export class EntityManager<
     // Convert EntityDefinition to Entity
     const entity: Entity<CustomProps> = {
       id: entityDef.id,
+      type: entityDef.type,
       cellPosition: entityDef.cellPosition,
       model: {} as THREE.Object3D, // Placeholder for 3D model (deprecated)
       movementSpeed: entityDef.movementSpeed ?? 1, // Default movement speed is 1
+      customProps: entityDef.customProps ?? ({} as CustomProps),
       modelKey: entityDef.modelKey, // Copy model key for rendering layer
+      owner: entityDef.owner, // Copy owner for per-player views
       isInMovementMode: false, // Initialize movement mode to false
     };
 
@@ -78,8 +87,10 @@ export class EntityManager<
       const cellId = this.getCellId(entity.cellPosition);
       this.removeEntityFromPosition(cellId, entityId);
 
-      // Clear any movement session
+      // Clear any movement session and turn records
       this.movementSessions.delete(entityId);
+      this.movedEntities.delete(entityId);
+      this.actedEntities.delete(entityId);
 
       // Remove entity from map
       this.entities.delete(entityId);
@@ -87,6 +98,16 @@ export class EntityManager<
     // Handle removing non-existent entity gracefully (no error thrown)
   }
 
+  /**
+   * Removes every entity and cancels every movement session.
+   */
+  clear(): void {
+    this.entities.clear();
+    this.entityPositions.clear();
+    this.movementSessions.clear();
+    this.clearTurnRecords();
+  }
+
   getEntity(entityId: string): Entity<CustomProps> | undefined {
     return this.entities.get(entityId);
   }
@@ -159,6 +180,19 @@ export class EntityManager<
   }
 
   moveEntity(entityId: string, newCell: Cell<CustomProps>): void {
+    this.validateMove(entityId, newCell);
+    this.placeEntity(entityId, newCell);
+  }
+
+  /**
+   * Checks that an entity may move to a cell: it must be in movement mode, and
+   * the cell must be one of its session's destinations.
+   *
+   * @param entityId The ID of the entity to move
+   * @param newCell The cell to move it to
+   * @throws Error if the entity is not found or may not move to the cell
+   */
+  validateMove(entityId: string, newCell: Cell<CustomProps>): void {
     const entity = this.entities.get(entityId);
     if (!entity) {
       throw new Error(`Entity with ID ${entityId} not found`);
@@ -176,9 +210,8 @@ export class EntityManager<
     }
 
     // Check if destination is valid
-    const isValidDestination = destinations.some(
-      (dest) =>
-        dest.q === newCell.q && dest.r === newCell.r && dest.s === newCell.s
+    const isValidDestination = destinations.some((dest) =>
+      hexEquals(dest, newCell)
     );
 
     if (!isValidDestination) {
@@ -186,6 +219,21 @@ export class EntityManager<
         'Destination cell is not in the list of available destinations'
       );
     }
+  }
+
+  /**
+   * Puts an entity on a cell without checking any movement session, as a map
+   * editor or an undo does. Any movement session the entity had ends.
+   *
+   * @param entityId The ID of the entity to place
+   * @param newCell The cell to place it on
+   * @throws Error if the entity is not found
+   */
+  placeEntity(entityId: string, newCell: Cell<CustomProps>): void {
+    const entity = this.entities.get(entityId);
+    if (!entity) {
+      throw new Error(`Entity with ID ${entityId} not found`);
+    }
 
     // Clear old position tracking
     const oldCellId = this.getCellId(entity.cellPosition);
@@ -203,6 +251,63 @@ export class EntityManager<
     this.movementSessions.delete(entityId);
   }
 
+  /**
+   * Points the entities on a cell's coordinates at a new Cell object for
+   * them, as when the cell's properties change. Unlike placeEntity, it keeps
+   * their movement sessions.
+   *
+   * @param cell The cell that now stands at its coordinates
+   */
+  replaceCell(cell: Cell<CustomProps>): void {
+    for (const entity of this.getEntitiesAt(this.getCellId(cell))) {
+      entity.cellPosition = cell;
+    }
+  }
+
+  /**
+   * Records whether an entity has moved this turn.
+   *
+   * @param entityId The ID of the entity
+   * @param moved False to forget the move, as when it is undone
+   */
+  setMoved(entityId: string, moved = true): void {
+    if (moved) {
+      this.movedEntities.add(entityId);
+    } else {
+      this.movedEntities.delete(entityId);
+    }
+  }
+
+  /**
+   * Records whether an entity has acted this turn, for example by attacking.
+   *
+   * @param entityId The ID of the entity
+   * @param acted False to forget the action
+   */
+  setActed(entityId: string, acted = true): void {
+    if (acted) {
+      this.actedEntities.add(entityId);
+    } else {
+      this.actedEntities.delete(entityId);
+    }
+  }
+
+  hasMoved(entityId: string): boolean {
+    return this.movedEntities.has(entityId);
+  }
+
+  hasActed(entityId: string): boolean {
+    return this.actedEntities.has(entityId);
+  }
+
+  /**
+   * Forgets which entities have moved or acted, as when a new turn starts.
+   */
+  clearTurnRecords(): void {
+    this.movedEntities.clear();
+    this.actedEntities.clear();
+  }
+
   private getCellId(cell: Cell<CustomProps>): string {
     return `${cell.q},${cell.r},${cell.s}`;
   }
@@ -0,0 +1,174 @@
+// Typed events emitted by a HexBoard, and the emitter that dispatches them
+
+import { BoardCommand } from '../commands/boardCommand';
+import { Cell } from './cell';
+import { HexCoordinates } from './coordinates';
+import { Entity } from './entity';
+
+/**
+ * The events a HexBoard emits, keyed by name, with the payload each carries.
+ */
+export interface HexBoardEvents<
+  CustomProps extends Record<string, unknown> = Record<string, never>,
+> {
+  /** A cell on the board was clicked */
+  cellClick: { cell: Cell<CustomProps> };
+  /** The pointer moved onto a different cell, or off the board (null) */
+  cellHover: { cell: Cell<CustomProps> | null };
+  /** The pointer moved onto a cell */
+  cellEnter: { cell: Cell<CustomProps> };
+  /** The pointer moved off a cell */
+  cellLeave: { cell: Cell<CustomProps> };
+  /**
+   * An entity's model, or the cell of an entity without a model, was clicked;
+   * fired after cellClick for the entity's cell
+   */
+  entityClick: { entity: Entity<CustomProps>; cell: Cell<CustomProps> };
+  /**
+   * A cell was tapped twice in quick succession, after the cellClick of the
+   * second tap; entity is the one tapped, picked as for entityClick
+   */
+  cellDoubleTap: { cell: Cell<CustomProps>; entity?: Entity<CustomProps> };
+  /** A cell was pressed and held without moving; entity as for cellDoubleTap */
+  cellLongPress: { cell: Cell<CustomProps>; entity?: Entity<CustomProps> };
+  /**
+   * Dragging started on an entity. Listeners may call startEntityMovement to
+   * let the entity be dropped on a destination; without a movement session
+   * the drag only moves the camera.
+   */
+  entityDragStart: { entity: Entity<CustomProps>; cell: Cell<CustomProps> };
+  /**
+   * A dragged entity moved over a different cell, or off the board (null);
+   * path is the previewed route to a movement destination, or empty
+   */
+  entityDrag: {
+    entity: Entity<CustomProps>;
+    cell: Cell<CustomProps> | null;
+    path: HexCoordinates[];
+  };
+  /**
+   * A dragged entity was dropped. moved is true if the cell was a movement
+   * destination and the entity moved there, after entityMoved. Otherwise its
+   * movement session was cancelled, or the move failed and was logged
+   */
+  entityDrop: {
+    entity: Entity<CustomProps>;
+    cell: Cell<CustomProps> | null;
+    moved: boolean;
+  };
+  /** The pointer moved onto an entity's model, or off it (null) */
+  entityHover: { entity: Entity<CustomProps> | null };
+  /**
+   * The keyboard cursor moved to a cell; entity is set when it was reached by
+   * tabbing through entities
+   */
+  cellFocus: { cell: Cell<CustomProps>; entity?: Entity<CustomProps> };
+  /** The cancel key was pressed; cell is the focused cell, if any */
+  cancel: { cell: Cell<CustomProps> | null };
+  entityAdded: { entity: Entity<CustomProps> };
+  entityMoved: {
+    entity: Entity<CustomProps>;
+    from: Cell<CustomProps>;
+    to: Cell<CustomProps>;
+  };
+  /**
+   * An entity's model finished walking to the cell it was moved to with
+   * moveEntityAlongPath, after that move's entityMoved
+   */
+  entityMovementComplete: {
+    entity: Entity<CustomProps>;
+    to: Cell<CustomProps>;
+  };
+  entityRemoved: { entity: Entity<CustomProps> };
+  /**
+   * A cell was set or updated, or a removed cell was put back by an undo;
+   * previous is the cell it replaced
+   */
+  cellChanged: { cell: Cell<CustomProps>; previous?: Cell<CustomProps> };
+  /** A cell was removed, or a set cell was taken away by an undo */
+  cellRemoved: { cell: Cell<CustomProps> };
+  /**
+   * A change was made to the board's cells or entities, whether executed,
+   * undone, redone or rolled back; fired after the change's own event
+   */
+  commandApplied: { command: BoardCommand<CustomProps> };
+}
+
+export type EventHandler<Payload> = (_payload: Payload) => void;
+
+/** Removes the listener it was returned for. Safe to call more than once. */
+export type Unsubscribe = () => void;
+
+/**
+ * Dispatches typed events to any number of listeners per event.
+ *
+ * Listeners run in the order they were added. A listener that throws is
+ * reported with console.error and does not stop the remaining listeners.
+ */
+export class EventEmitter<Events extends object> {
+  private listeners: Map<keyof Events, Set<EventHandler<never>>> = new Map();
+
+  /**
+   * Adds a listener for an event.
+   *
+   * @param event - The event to listen for
+   * @param handler - Called with the event's payload each time it is emitted
+   * @returns A function that removes the listener
+   */
+  on<K extends keyof Events>(
+    event: K,
+    handler: EventHandler<Events[K]>
+  ): Unsubscribe {
+    let handlers = this.listeners.get(event);
+    if (!handlers) {
+      handlers = new Set();
+      this.listeners.set(event, handlers);
+    }
+    handlers.add(handler);
+
+    return () => this.off(event, handler);
+  }
+
+  /**
+   * Removes a listener added with on. Does nothing if it is not registered.
+   */
+  off<K extends keyof Events>(
+    event: K,
+    handler: EventHandler<Events[K]>
+  ): void {
+    this.listeners.get(event)?.delete(handler);
+  }
+
+  /**
+   * Calls every listener of an event with a payload. Listeners added or
+   * removed by a listener take effect from the next emit.
+   */
+  emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+    const handlers = this.listeners.get(event);
+    if (!handlers) {
+      return;
+    }
+
+    for (const handler of [...handlers] as EventHandler<Events[K]>[]) {
+      try {
+        handler(payload);
+      } catch (error) {
+        console.error(`Error in '${String(event)}' event listener:`, error);
+      }
+    }
+  }
+
+  /**
+   * Checks whether an event has any listeners.
+   */
+  hasListeners(event: keyof Events): boolean {
+    return (this.listeners.get(event)?.size ?? 0) > 0;
+  }
+
+  /**
+   * Removes every listener of every event.
+   */
+  removeAllListeners(): void {
+    this.listeners.clear();
+  }
+}
@@ -0,0 +1,240 @@
+// Fog of war state tracked separately for each player
+
+import { HexCoordinates } from './coordinates';
+import { Entity, EntityManager } from './entity';
+import { HexGrid } from './hexGrid';
+import { LineOfSightOptions } from './visibility';
+
+/**
+ * What a player knows about a cell.
+ */
+export enum CellVisibility {
+  /** The player has never seen the cell */
+  Unexplored = 'unexplored',
+  /** The player has seen the cell before but cannot see it now */
+  Explored = 'explored',
+  /** One of the player's entities can see the cell right now */
+  Visible = 'visible',
+}
+
+/**
+ * Options controlling how far and how well entities see.
+ */
+export interface FogOfWarOptions<
+  CustomProps extends Record<string, unknown> = Record<string, never>,
+> {
+  /** Sight radius used for every entity unless getSightRadius is given. Defaults to 3. */
+  sightRadius?: number;
+  /** Sight radius of a particular entity, for units that see further than others. */
+  getSightRadius?: (_entity: Entity<CustomProps>) => number;
+  /** What blocks sight. Passed through to HexGrid.computeVisibleCells. */
+  lineOfSight?: LineOfSightOptions<CustomProps>;
+}
+
+/**
+ * Tracks which cells each player has explored and can currently see.
+ *
+ * A player sees whatever the entities they own can see, as computed by
+ * HexGrid.computeVisibleCells from each entity's position. Every cell a player
+ * has ever seen stays explored after it drops out of sight. The state only
+ * changes when update() is called, so call it after entities move or the
+ * terrain changes.
+ */
+export class FogOfWar<
+  CustomProps extends Record<string, unknown> = Record<string, never>,
+> {
+  private hexGrid: HexGrid<CustomProps>;
+  private entityManager: EntityManager<CustomProps>;
+  private options: FogOfWarOptions<CustomProps>;
+  private visibleCells: Map<string, Set<string>> = new Map(); // playerId -> cellIds
+  private exploredCells: Map<string, Set<string>> = new Map(); // playerId -> cellIds
+
+  constructor(
+    hexGrid: HexGrid<CustomProps>,
+    entityManager: EntityManager<CustomProps>,
+    options: FogOfWarOptions<CustomProps> = {}
+  ) {
+    this.hexGrid = hexGrid;
+    this.entityManager = entityManager;
+    this.options = options;
+  }
+
+  /**
+   * Starts tracking a player. Players who own entities are tracked
+   * automatically; this is only needed for players who have none yet.
+   *
+   * @param playerId The ID of the player to track
+   */
+  addPlayer(playerId: string): void {
+    if (!this.visibleCells.has(playerId)) {
+      this.visibleCells.set(playerId, new Set());
+      this.exploredCells.set(playerId, new Set());
+    }
+  }
+
+  /**
+   * Stops tracking a player and forgets everything they have explored.
+   *
+   * @param playerId The ID of the player to forget
+   */
+  removePlayer(playerId: string): void {
+    this.visibleCells.delete(playerId);
+    this.exploredCells.delete(playerId);
+  }
+
+  /**
+   * Gets the IDs of all tracked players.
+   *
+   * @returns The player IDs in the order they were first tracked
+   */
+  getPlayerIds(): string[] {
+    return Array.from(this.visibleCells.keys());
+  }
+
+  /**
+   * Recomputes what every tracked player can see from their entities'
+   * current positions. Cells that drop out of sight become explored.
+   */
+  update(): void {
+    for (const entity of this.entityManager.getAllEntities()) {
+      if (entity.owner !== undefined) {
+        this.addPlayer(entity.owner);
+      }
+    }
+
+    for (const playerId of this.getPlayerIds()) {
+      this.updatePlayer(playerId);
+    }
+  }
+
+  /**
+   * Recomputes what a single player can see from their entities' current
+   * positions.
+   *
+   * @param playerId The ID of the player to update
+   */
+  updatePlayer(playerId: string): void {
+    const { sightRadius = 3, getSightRadius, lineOfSight } = this.options;
+
+    this.addPlayer(playerId);
+    const visible = new Set<string>();
+    const explored = this.exploredCells.get(playerId)!;
+
+    for (const entity of this.entityManager.getAllEntities()) {
+      if (entity.owner !== playerId) {
+        continue;
+      }
+
+      const radius = getSightRadius ? getSightRadius(entity) : sightRadius;
+      const cells = this.hexGrid.computeVisibleCells(
+        entity.cellPosition,
+        radius,
+        lineOfSight
+      );
+      for (const cell of cells) {
+        visible.add(cell.id);
+        explored.add(cell.id);
+      }
+    }
+
+    this.visibleCells.set(playerId, visible);
+  }
+
+  /**
+   * Marks cells as explored without making them visible, for example when a
+   * player is handed a map of an area.
+   *
+   * @param playerId The ID of the player who learns about the cells
+   * @param coordinatesList The cells to mark as explored
+   */
+  reveal(playerId: string, coordinatesList: HexCoordinates[]): void {
+    this.addPlayer(playerId);
+    const explored = this.exploredCells.get(playerId)!;
+
+    for (const coordinates of coordinatesList) {
+      const cell = this.hexGrid.getCellByCoords(coordinates);
+      if (cell) {
+        explored.add(cell.id);
+      }
+    }
+  }
+
+  /**
+   * Gets what a player knows about a cell. Unknown players and coordinates
+   * without a cell are unexplored.
+   *
+   * @param playerId The ID of the player
+   * @param coordinates The coordinates of the cell
+   * @returns The player's visibility of the cell
+   */
+  getCellVisibility(
+    playerId: string,
+    coordinates: HexCoordinates
+  ): CellVisibility {
+    const cell = this.hexGrid.getCellByCoords(coordinates);
+    if (!cell) {
+      return CellVisibility.Unexplored;
+    }
+    if (this.visibleCells.get(playerId)?.has(cell.id)) {
+      return CellVisibility.Visible;
+    }
+    if (this.exploredCells.get(playerId)?.has(cell.id)) {
+      return CellVisibility.Explored;
+    }
+    return CellVisibility.Unexplored;
+  }
+
+  /**
+   * Checks whether a player can currently see a cell.
+   *
+   * @param playerId The ID of the player
+   * @param coordinates The coordinates of the cell
+   * @returns True if the cell is visible to the player
+   */
+  isCellVisible(playerId: string, coordinates: HexCoordinates): boolean {
+    return (
+      this.getCellVisibility(playerId, coordinates) === CellVisibility.Visible
+    );
+  }
+
+  /**
+   * Checks whether a player can currently see an entity. Players always see
+   * their own entities; anyone else's are seen only while their cell is
+   * visible.
+   *
+   * @param playerId The ID of the player
+   * @param entityId The ID of the entity
+   * @returns True if the entity is visible to the player
+   */
+  isEntityVisible(playerId: string, entityId: string): boolean {
+    const entity = this.entityManager.getEntity(entityId);
+    if (!entity) {
+      return false;
+    }
+    return (
+      entity.owner === playerId ||
+      this.isCellVisible(playerId, entity.cellPosition)
+    );
+  }
+
+  /**
+   * Gets the IDs of every cell a player can currently see.
+   *
+   * @param playerId The ID of the player
+   * @returns The visible cell IDs, or an empty array for unknown players
+   */
+  getVisibleCellIds(playerId: string): string[] {
+    return Array.from(this.visibleCells.get(playerId) ?? []);
+  }
+
+  /**
+   * Gets the IDs of every cell a player has ever seen, including the ones
+   * they can see now.
+   *
+   * @param playerId The ID of the player
+   * @returns The explored cell IDs, or an empty array for unknown players
+   */
+  getExploredCellIds(playerId: string): string[] {
+    return Array.from(this.exploredCells.get(playerId) ?? []);
+  }
+}
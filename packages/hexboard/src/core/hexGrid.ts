@@ -1,7 +1,36 @@
 // HexGrid logic class
 import { Cell, CellDefinition } from './cell';
-import { HexCoordinates, axialToCubic } from './coordinates';
+import {
+  HEX_DIRECTIONS,
+  HexCoordinates,
+  axialToCubic,
+  hexDistance,
+  hexNeighbor,
+} from './coordinates';
+import {
+  MovementCostFunction,
+  MovementRules,
+  PathResult,
+  PathfindingOptions,
+  PriorityQueue,
+  ReachabilityOptions,
+  ReachableHex,
+  applyMovementRules,
+  defaultMovementCost,
+} from './pathfinding';
 import { BoundaryMap, Direction } from './types';
+import {
+  HorizonProfile,
+  LineOfSightOptions,
+  getRingHex,
+  getRingIndex,
+  getSightSlope,
+} from './visibility';
+import {
+  MapDefinition,
+  formatMapValidationErrors,
+  validateMapDefinition,
+} from '../map/mapDefinition';
 
 export class HexGrid<
   CustomProps extends Record<string, unknown> = Record<string, never>,
@@ -22,6 +51,49 @@ export class HexGrid<
     this.defaultIsImpassable = defaultIsImpassable;
   }
 
+  /**
+   * Creates a grid populated with the cells of a map definition.
+   *
+   * <p>The map's {@code defaults} become the grid's defaults, so every cell property
+   * a {@link CellDefinition} omits is taken from them. Default custom properties are
+   * merged beneath each cell's own custom properties rather than replaced by them.
+   *
+   * <p>The whole definition is validated before any cell is created. Rather than
+   * stopping at the first problem, every invalid coordinate and duplicate cell is
+   * collected and reported together in a single error, each identified by its index
+   * in the {@code cells} array.
+   *
+   * @param {MapDefinition<CustomProps>} definition the map to load
+   * @returns {HexGrid<CustomProps>} a new grid containing every cell of the map
+   * @throws {Error} listing every invalid or duplicate cell if the definition is invalid
+   * @see validateMapDefinition
+   * @since 1.0
+   */
+  static fromMapDefinition<
+    CustomProps extends Record<string, unknown> = Record<string, never>,
+  >(definition: MapDefinition<CustomProps>): HexGrid<CustomProps> {
+    const errors = validateMapDefinition(definition);
+    if (errors.length > 0) {
+      throw new Error(formatMapValidationErrors(definition, errors));
+    }
+
+    const { defaults } = definition;
+    const grid = new HexGrid<CustomProps>(
+      defaults.elevation,
+      defaults.movementCost,
+      defaults.isImpassable
+    );
+
+    grid.addCells(
+      definition.cells.map((cell) => ({
+        ...cell,
+        customProps: { ...defaults.customProps, ...cell.customProps },
+      }))
+    );
+
+    return grid;
+  }
+
   /**
    * Creates a unique string identifier for a cell based on its hexagonal coordinates.
    *
@@ -145,6 +217,30 @@ export class HexGrid<
     return createdCells;
   }
 
+  /**
+   * Adds a cell at every coordinate of a shape, all sharing the same properties.
+   *
+   * <p>Shapes are plain coordinate arrays such as those produced by
+   * {@link hexagonShape}, {@link ringShape} or {@link rectangleShape}, which makes
+   * it possible to populate a whole board in one call. Properties omitted from
+   * the defaults fall back to the grid's defaults, exactly as in {@link addCell}.
+   *
+   * @param {HexCoordinates[]} shape the coordinates at which to add cells
+   * @param {Omit<CellDefinition<CustomProps>, 'q' | 'r' | 's'>} [defaults] properties to apply to every added cell
+   * @returns {Cell<CustomProps>[]} an array containing all newly created Cell instances in shape order
+   * @throws {Error} if any coordinate already contains a cell or violates the cubic coordinate constraint
+   * @see addCells
+   * @since 1.0
+   */
+  addCellsFromShape(
+    shape: HexCoordinates[],
+    defaults: Omit<CellDefinition<CustomProps>, 'q' | 'r' | 's'> = {}
+  ): Cell<CustomProps>[] {
+    return this.addCells(
+      shape.map(({ q, r, s }) => ({ ...defaults, q, r, s }))
+    );
+  }
+
   /**
    * Retrieves a cell from the grid by its hexagonal coordinates.
    *
@@ -484,7 +580,8 @@ export class HexGrid<
    * Returns the six neighboring coordinates for a flat-top hexagonal layout.
    *
    * <p>In a flat-top layout, each hex has neighbors in these directions:
-   * North, Northeast, Southeast, South, Southwest, and Northwest.
+   * North, Northeast, Southeast, South, Southwest, and Northwest. The offsets are
+   * defined by {@link HEX_DIRECTIONS} and the results are in {@link Direction} order.
    *
    * @param {number} q the q-axis coordinate of the center hex
    * @param {number} r the r-axis coordinate of the center hex
@@ -492,20 +589,10 @@ export class HexGrid<
    * @since 1.0
    */
   getNeighborCoordinates(q: number, r: number): HexCoordinates[] {
-    const neighbors = [
-      { q: q - 1, r: r - 1 }, // North
-      { q, r: r - 1 }, // Northeast
-      { q: q + 1, r }, // Southeast
-      { q: q + 1, r: r + 1 }, // South
-      { q, r: r + 1 }, // Southwest
-      { q: q - 1, r }, // Northwest
-    ];
-
-    return neighbors.map((neighbor) => ({
-      q: neighbor.q,
-      r: neighbor.r,
-      s: -neighbor.q - neighbor.r,
-    }));
+    // Offsets are listed in Direction order: North, Northeast, Southeast, South, Southwest, Northwest
+    return HEX_DIRECTIONS.map((offset) =>
+      axialToCubic(q + offset.q, r + offset.r)
+    );
   }
 
   /**
@@ -537,15 +624,16 @@ export class HexGrid<
    * @param {number} range the maximum movement range (0 returns only the start cell)
    * @param {Object} [options] optional configuration for the pathfinding behavior
    * @param {boolean} [options.respectImpassable=true] whether to exclude impassable cells from results
+   * @param {MovementRules} [options.movementRules] elevation rules; only the climb and descent limits apply since steps are counted rather than costed
    * @returns {HexCoordinates[]} an array of coordinates that are reachable within the specified range
    * @since 1.0
    */
   getReachableHexes(
     start: HexCoordinates,
     range: number,
-    options: { respectImpassable?: boolean } = {}
+    options: { respectImpassable?: boolean; movementRules?: MovementRules } = {}
   ): HexCoordinates[] {
-    const { respectImpassable = true } = options;
+    const { respectImpassable = true, movementRules } = options;
 
     // If start coordinate doesn't exist on the grid, return empty array
     if (!this.hasCellAtCoords(start)) {
@@ -601,6 +689,19 @@ export class HexGrid<
           continue;
         }
 
+        // Check if the elevation change is within the climb and descent limits
+        if (
+          movementRules &&
+          applyMovementRules(
+            1,
+            this.getCellByCoords(current.coords)!,
+            neighborCell,
+            movementRules
+          ) === Infinity
+        ) {
+          continue;
+        }
+
         // Mark as visited and add to results
         visited.add(neighborId);
         reachable.push(neighbor);
@@ -611,6 +712,444 @@ export class HexGrid<
     return reachable;
   }
 
+  /**
+   * Finds the cheapest route between two coordinates, weighting each step by movement cost.
+   *
+   * <p>This method performs an A* search over the cells that exist in the grid. Each step
+   * into a neighboring cell costs that cell's {@code movementCost} unless a custom
+   * {@code getMovementCost} callback is supplied. A step whose cost is {@code Infinity}
+   * is treated as blocked. Without a {@code heuristic} the search degrades gracefully to
+   * Dijkstra's algorithm, which is always optimal.
+   *
+   * <p>When {@code movementRules} are supplied, each step's cost is further adjusted by the
+   * elevation change between the two cells: steps that climb or drop too far are forbidden,
+   * climbs cost extra and descents can be discounted. See {@link applyMovementRules}.
+   *
+   * <p>The {@code respectImpassable} option behaves as it does for {@link getReachableHexes}:
+   * when {@code true}, impassable cells can be neither entered nor used as the goal.
+   *
+   * @param {HexCoordinates} start the coordinate to search from
+   * @param {HexCoordinates} goal the coordinate to search to
+   * @param {PathfindingOptions<CustomProps>} [options] optional configuration for the search
+   * @param {boolean} [options.respectImpassable=true] whether impassable cells block movement
+   * @param {MovementCostFunction<CustomProps>} [options.getMovementCost] cost of entering a neighboring cell
+   * @param {MovementRules} [options.movementRules] elevation rules such as climb limits and slope costs
+   * @param {PathHeuristic} [options.heuristic] admissible estimate of the remaining cost to the goal
+   * @returns {PathResult | null} the ordered path from start to goal with its total cost, or null if the goal cannot be reached
+   * @throws {Error} if the movement cost callback returns a negative cost
+   * @see getReachableHexes
+   * @since 1.0
+   */
+  findPath(
+    start: HexCoordinates,
+    goal: HexCoordinates,
+    options: PathfindingOptions<CustomProps> = {}
+  ): PathResult | null {
+    const {
+      respectImpassable = true,
+      getMovementCost = defaultMovementCost,
+      movementRules,
+      heuristic = (): number => 0,
+    } = options;
+
+    const startCell = this.getCellByCoords(start);
+    const goalCell = this.getCellByCoords(goal);
+    if (!startCell || !goalCell) {
+      return null;
+    }
+
+    if (startCell.id === goalCell.id) {
+      return {
+        path: [{ q: startCell.q, r: startCell.r, s: startCell.s }],
+        cost: 0,
+      };
+    }
+
+    if (respectImpassable && goalCell.isImpassable) {
+      return null;
+    }
+
+    const costSoFar = new Map<string, number>([[startCell.id, 0]]);
+    const cameFrom = new Map<string, string>();
+    const closed = new Set<string>();
+    const frontier = new PriorityQueue<Cell<CustomProps>>();
+    frontier.push(startCell, heuristic(startCell, goalCell));
+
+    while (!frontier.isEmpty()) {
+      const current = frontier.pop()!;
+
+      if (current.id === goalCell.id) {
+        return {
+          path: this.reconstructPath(cameFrom, goalCell.id),
+          cost: costSoFar.get(goalCell.id)!,
+        };
+      }
+
+      if (closed.has(current.id)) {
+        continue;
+      }
+      closed.add(current.id);
+
+      for (const neighbor of this.getNeighborCoordinatesFromCoords(current)) {
+        const neighborCell = this.getCellByCoords(neighbor);
+        if (!neighborCell || closed.has(neighborCell.id)) {
+          continue;
+        }
+
+        const stepCost = this.getStepCost(
+          current,
+          neighborCell,
+          respectImpassable,
+          getMovementCost,
+          movementRules
+        );
+        if (stepCost === Infinity) {
+          continue;
+        }
+
+        const newCost = costSoFar.get(current.id)! + stepCost;
+        const knownCost = costSoFar.get(neighborCell.id);
+        if (knownCost === undefined || newCost < knownCost) {
+          costSoFar.set(neighborCell.id, newCost);
+          cameFrom.set(neighborCell.id, current.id);
+          frontier.push(
+            neighborCell,
+            newCost + heuristic(neighborCell, goalCell)
+          );
+        }
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Returns every hex reachable within a movement-point budget, with the cheapest cost to reach it.
+   *
+   * <p>Unlike {@link getReachableHexes}, which counts steps, this method treats {@code budget}
+   * as movement points and sums the movement cost of each cell entered along the cheapest
+   * route. A hex is reachable if that cost does not exceed the budget. Each result carries its
+   * cost, the budget remaining on arrival, and the coordinate it is reached from, so callers
+   * can rebuild the route to any result by following {@code previous} back to the start.
+   *
+   * <p>Results are ordered by increasing cost, beginning with the start coordinate at cost
+   * {@code 0}. Step costs and impassable handling follow the same rules as {@link findPath}.
+   *
+   * @param {HexCoordinates} start the starting coordinate for the search
+   * @param {number} budget the movement points available (0 returns only the start cell)
+   * @param {ReachabilityOptions<CustomProps>} [options] optional configuration for the search
+   * @param {boolean} [options.respectImpassable=true] whether impassable cells block movement
+   * @param {MovementCostFunction<CustomProps>} [options.getMovementCost] cost of entering a neighboring cell
+   * @param {MovementRules} [options.movementRules] elevation rules such as climb limits and slope costs
+   * @returns {ReachableHex[]} the reachable hexes with their costs and predecessors, or an empty array if the start is not on the grid
+   * @throws {Error} if the movement cost callback returns a negative cost
+   * @see findPath
+   * @since 1.0
+   */
+  getReachableHexesWithCost(
+    start: HexCoordinates,
+    budget: number,
+    options: ReachabilityOptions<CustomProps> = {}
+  ): ReachableHex[] {
+    const {
+      respectImpassable = true,
+      getMovementCost = defaultMovementCost,
+      movementRules,
+    } = options;
+
+    const startCell = this.getCellByCoords(start);
+    if (!startCell || budget < 0) {
+      return [];
+    }
+
+    const costSoFar = new Map<string, number>([[startCell.id, 0]]);
+    const cameFrom = new Map<string, Cell<CustomProps>>();
+    const settled = new Set<string>();
+    const reachable: ReachableHex[] = [];
+    const frontier = new PriorityQueue<Cell<CustomProps>>();
+    frontier.push(startCell, 0);
+
+    while (!frontier.isEmpty()) {
+      const current = frontier.pop()!;
+      if (settled.has(current.id)) {
+        continue;
+      }
+      settled.add(current.id);
+
+      const cost = costSoFar.get(current.id)!;
+      const previous = cameFrom.get(current.id);
+      reachable.push({
+        coordinates: { q: current.q, r: current.r, s: current.s },
+        cost,
+        remaining: budget - cost,
+        previous: previous
+          ? { q: previous.q, r: previous.r, s: previous.s }
+          : null,
+      });
+
+      for (const neighbor of this.getNeighborCoordinatesFromCoords(current)) {
+        const neighborCell = this.getCellByCoords(neighbor);
+        if (!neighborCell || settled.has(neighborCell.id)) {
+          continue;
+        }
+
+        const stepCost = this.getStepCost(
+          current,
+          neighborCell,
+          respectImpassable,
+          getMovementCost,
+          movementRules
+        );
+        const newCost = cost + stepCost;
+        if (stepCost === Infinity || newCost > budget) {
+          continue;
+        }
+
+        const knownCost = costSoFar.get(neighborCell.id);
+        if (knownCost === undefined || newCost < knownCost) {
+          costSoFar.set(neighborCell.id, newCost);
+          cameFrom.set(neighborCell.id, current);
+          frontier.push(neighborCell, newCost);
+        }
+      }
+    }
+
+    return reachable;
+  }
+
+  /**
+   * Computes the cost of stepping between two adjacent cells for the cost-weighted searches.
+   *
+   * @param {Cell<CustomProps>} from the cell being left
+   * @param {Cell<CustomProps>} to the cell being entered
+   * @param {boolean} respectImpassable whether impassable cells block movement
+   * @param {MovementCostFunction<CustomProps>} getMovementCost the step cost callback
+   * @param {MovementRules} [movementRules] elevation rules applied on top of the step cost
+   * @returns {number} the step cost, or Infinity if the step is not allowed
+   * @throws {Error} if the movement cost callback returns a negative cost
+   */
+  private getStepCost(
+    from: Cell<CustomProps>,
+    to: Cell<CustomProps>,
+    respectImpassable: boolean,
+    getMovementCost: MovementCostFunction<CustomProps>,
+    movementRules?: MovementRules
+  ): number {
+    if (respectImpassable && to.isImpassable) {
+      return Infinity;
+    }
+
+    const stepCost = getMovementCost(from, to);
+    if (stepCost < 0) {
+      throw new Error(
+        `Invalid movement cost ${stepCost} from ${from.id} to ${to.id}. Costs must be non-negative`
+      );
+    }
+
+    return movementRules
+      ? applyMovementRules(stepCost, from, to, movementRules)
+      : stepCost;
+  }
+
+  /**
+   * Walks a predecessor map back from the given cell ID to build an ordered path.
+   *
+   * @param {Map<string, string>} cameFrom map of cell IDs to the ID of the cell they were reached from
+   * @param {string} endId the ID of the final cell in the path
+   * @returns {HexCoordinates[]} the coordinates from the search origin to the final cell
+   */
+  private reconstructPath(
+    cameFrom: Map<string, string>,
+    endId: string
+  ): HexCoordinates[] {
+    const path: HexCoordinates[] = [];
+    let currentId: string | undefined = endId;
+
+    while (currentId !== undefined) {
+      const cell = this.getCellById(currentId)!;
+      path.unshift({ q: cell.q, r: cell.r, s: cell.s });
+      currentId = cameFrom.get(currentId);
+    }
+
+    return path;
+  }
+
+  /**
+   * Tests whether one hex can be seen from another.
+   *
+   * <p>The sight line passes through the same hexes as {@link hexLine}, and each cell strictly
+   * between the two endpoints is checked for obstruction. A cell obstructs the line if it is
+   * impassable (unless {@code impassableBlocksSight} is {@code false}), if the
+   * {@code isBlocking} callback returns {@code true} for it, or if its elevation rises above the
+   * sight line. Where the line passes exactly between two hexes, both sides are traced and the
+   * target is visible if either of them is unobstructed.
+   *
+   * <p>The sight line runs from the viewer's eye, {@code viewerHeight} above the top of the
+   * start cell, to a point {@code targetHeight} above the top of the target cell, and is
+   * interpolated linearly in between. Coordinates along the line that have no cell do not
+   * block sight.
+   *
+   * @param {HexCoordinates} from the viewer's coordinate
+   * @param {HexCoordinates} to the target's coordinate
+   * @param {LineOfSightOptions<CustomProps>} [options] optional configuration for the query
+   * @param {boolean} [options.impassableBlocksSight=true] whether impassable cells block sight
+   * @param {boolean} [options.elevationBlocksSight=true] whether terrain above the sight line blocks sight
+   * @param {number} [options.viewerHeight=0] eye height above the top of the viewer's cell
+   * @param {number} [options.targetHeight=0] height above the top of the target cell to look at
+   * @param {function(Cell<CustomProps>): boolean} [options.isBlocking] additional blockers such as occupied cells
+   * @returns {boolean} true if nothing obstructs the line, false if it is obstructed or either endpoint is not on the grid
+   * @see hexLine
+   * @see computeVisibleCells
+   * @since 1.0
+   */
+  hasLineOfSight(
+    from: HexCoordinates,
+    to: HexCoordinates,
+    options: LineOfSightOptions<CustomProps> = {}
+  ): boolean {
+    const { viewerHeight = 0, targetHeight = 0 } = options;
+
+    const fromCell = this.getCellByCoords(from);
+    const toCell = this.getCellByCoords(to);
+    if (!fromCell || !toCell) {
+      return false;
+    }
+
+    // Adjacent hexes have nothing between them to block the view
+    const distance = hexDistance(fromCell, toCell);
+    if (distance < 2) {
+      return true;
+    }
+
+    const index = getRingIndex(fromCell, toCell);
+    const eyeHeight = fromCell.elevation + viewerHeight;
+    const targetSlope =
+      (toCell.elevation + targetHeight - eyeHeight) / distance;
+
+    // The line crosses ring k at position index * k / distance. Rounding that position down and
+    // up on exact halves gives the hexes on either side of the line, which only differ when it
+    // passes exactly between two of them.
+    let horizonBefore = -Infinity;
+    let horizonAfter = -Infinity;
+    for (let k = 1; k < distance; k++) {
+      const crossing = 2 * index * k;
+      const before = Math.ceil((crossing - distance) / (2 * distance));
+      const after = Math.floor((crossing + distance) / (2 * distance));
+
+      const slopeBefore = this.getSightSlopeOnRing(
+        fromCell,
+        k,
+        before,
+        eyeHeight,
+        options
+      );
+      const slopeAfter =
+        after === before
+          ? slopeBefore
+          : this.getSightSlopeOnRing(fromCell, k, after, eyeHeight, options);
+
+      horizonBefore = Math.max(horizonBefore, slopeBefore);
+      horizonAfter = Math.max(horizonAfter, slopeAfter);
+    }
+
+    return targetSlope >= Math.min(horizonBefore, horizonAfter);
+  }
+
+  /**
+   * Returns every cell visible from a viewer standing on the given cell.
+   *
+   * <p>Visibility follows exactly the same rules as {@link hasLineOfSight}: impassable cells,
+   * cells matching {@code isBlocking} and terrain rising above the sight line hide whatever lies
+   * behind them, while the blocking cells themselves remain visible. Rather than tracing a line to
+   * every cell, the scan moves outward one ring at a time, shadowcasting style, and keeps the
+   * steepest blocking slope seen so far in every direction. Each ring only has to be compared
+   * against that horizon, so boards with thousands of cells can be scanned every turn.
+   *
+   * <p>The viewer's own cell is always included and comes first; the remaining cells are ordered
+   * by distance from the viewer. Coordinates without a cell neither appear in the results nor
+   * block sight.
+   *
+   * @param {HexCoordinates} origin the coordinate the viewer is standing on
+   * @param {number} radius the maximum distance, in steps, at which cells can be seen
+   * @param {LineOfSightOptions<CustomProps>} [options] optional configuration, shared with {@link hasLineOfSight}
+   * @param {boolean} [options.impassableBlocksSight=true] whether impassable cells block sight
+   * @param {boolean} [options.elevationBlocksSight=true] whether terrain above the sight line blocks sight
+   * @param {number} [options.viewerHeight=0] eye height above the top of the viewer's cell
+   * @param {number} [options.targetHeight=0] height above the top of each cell that must be seen
+   * @param {function(Cell<CustomProps>): boolean} [options.isBlocking] additional blockers such as occupied cells
+   * @returns {Cell<CustomProps>[]} the visible cells, or an empty array if the origin is not on the grid
+   * @see hasLineOfSight
+   * @since 1.0
+   */
+  computeVisibleCells(
+    origin: HexCoordinates,
+    radius: number,
+    options: LineOfSightOptions<CustomProps> = {}
+  ): Cell<CustomProps>[] {
+    const { viewerHeight = 0, targetHeight = 0 } = options;
+
+    const originCell = this.getCellByCoords(origin);
+    if (!originCell) {
+      return [];
+    }
+
+    const visible: Cell<CustomProps>[] = [originCell];
+    const eyeHeight = originCell.elevation + viewerHeight;
+
+    // Scanning past the farthest cell would only visit empty coordinates
+    let farthest = 0;
+    for (const cell of this.cells.values()) {
+      farthest = Math.max(farthest, hexDistance(originCell, cell));
+    }
+    const maxDistance = Math.min(Math.floor(radius), farthest);
+
+    const horizon = new HorizonProfile();
+
+    for (let distance = 1; distance <= maxDistance; distance++) {
+      const ringSize = distance * 6;
+      const ringSlopes: number[] = [];
+      let coords = getRingHex(originCell, distance, 0);
+
+      for (let index = 0; index < ringSize; index++) {
+        const cell = this.getCellByCoords(coords);
+
+        if (cell) {
+          const targetSlope =
+            (cell.elevation + targetHeight - eyeHeight) / distance;
+          if (targetSlope >= horizon.getSlopeAt(index / ringSize)) {
+            visible.push(cell);
+          }
+        }
+
+        ringSlopes.push(getSightSlope(cell, distance, eyeHeight, options));
+        coords = hexNeighbor(coords, Math.floor(index / distance));
+      }
+
+      horizon.addRing(ringSlopes);
+    }
+
+    return visible;
+  }
+
+  /**
+   * Looks up the blocking slope of the hex at a position along a ring around the viewer.
+   */
+  private getSightSlopeOnRing(
+    center: HexCoordinates,
+    radius: number,
+    index: number,
+    eyeHeight: number,
+    options: LineOfSightOptions<CustomProps>
+  ): number {
+    const coords = getRingHex(center, radius, index % (radius * 6));
+    return getSightSlope(
+      this.getCellByCoords(coords),
+      radius,
+      eyeHeight,
+      options
+    );
+  }
+
   /**
    * Identifies boundary faces for a collection of cells.
    * A face is considered a boundary if the cell on one side is in the selection
@@ -0,0 +1,156 @@
+// Seeded 2D noise for generating smooth, natural-looking terrain
+
+import { Random } from './random';
+
+/**
+ * Smooth noise over the plane: nearby points give similar values, and every
+ * value is from 0 to 1. The same point always gives the same value.
+ */
+export type Noise2D = (_x: number, _y: number) => number;
+
+export interface FractalNoiseOptions {
+  /** How many layers of ever finer noise to add together. Defaults to 4. */
+  octaves?: number;
+  /** How much each layer's strength is multiplied by. Defaults to 0.5. */
+  persistence?: number;
+  /** How much each layer's detail is multiplied by. Defaults to 2. */
+  lacunarity?: number;
+}
+
+const TABLE_SIZE = 256;
+
+/** The gradient directions of simplex noise */
+const GRADIENTS: readonly [number, number][] = [
+  [1, 1],
+  [-1, 1],
+  [1, -1],
+  [-1, -1],
+  [1, 0],
+  [-1, 0],
+  [0, 1],
+  [0, -1],
+];
+
+/** Skews the plane onto the simplex grid, and back */
+const F2 = (Math.sqrt(3) - 1) / 2;
+const G2 = (3 - Math.sqrt(3)) / 6;
+
+/**
+ * Creates value noise: random values at the corners of a unit grid, blended
+ * smoothly in between. Cheap, with a blocky, grid-aligned character.
+ *
+ * @param random - Draws the values; the same state gives the same noise
+ */
+export function createValueNoise(random: Random): Noise2D {
+  const hash = createHash(random);
+  const values = Array.from({ length: TABLE_SIZE }, () => random.next());
+
+  return (x, y) => {
+    const x0 = Math.floor(x);
+    const y0 = Math.floor(y);
+    const u = fade(x - x0);
+    const v = fade(y - y0);
+    const at = (i: number, j: number): number => values[hash(i, j)];
+
+    return lerp(
+      lerp(at(x0, y0), at(x0 + 1, y0), u),
+      lerp(at(x0, y0 + 1), at(x0 + 1, y0 + 1), u),
+      v
+    );
+  };
+}
+
+/**
+ * Creates simplex noise: random gradients on a triangular grid. Smoother and
+ * less grid-aligned than value noise, which suits hex boards.
+ *
+ * @param random - Draws the gradients; the same state gives the same noise
+ */
+export function createSimplexNoise(random: Random): Noise2D {
+  const hash = createHash(random);
+
+  const corner = (i: number, j: number, dx: number, dy: number): number => {
+    const t = 0.5 - dx * dx - dy * dy;
+    if (t < 0) {
+      return 0;
+    }
+    const [gx, gy] = GRADIENTS[hash(i, j) % GRADIENTS.length];
+    return t * t * t * t * (gx * dx + gy * dy);
+  };
+
+  return (x, y) => {
+    // Find the triangle the point is in, and the point's offset from its corners
+    const skew = (x + y) * F2;
+    const i = Math.floor(x + skew);
+    const j = Math.floor(y + skew);
+    const unskew = (i + j) * G2;
+    const x0 = x - (i - unskew);
+    const y0 = y - (j - unskew);
+    const [i1, j1] = x0 > y0 ? [1, 0] : [0, 1];
+
+    const sum =
+      corner(i, j, x0, y0) +
+      corner(i + i1, j + j1, x0 - i1 + G2, y0 - j1 + G2) +
+      corner(i + 1, j + 1, x0 - 1 + 2 * G2, y0 - 1 + 2 * G2);
+
+    // The sum stays within about ±1/70
+    return Math.min(Math.max(0.5 + 35 * sum, 0), 1);
+  };
+}
+
+/**
+ * Layers noise at finer and finer scales, adding detail to broad shapes the
+ * way real terrain has hills on its mountains and bumps on its hills.
+ *
+ * @param noise - The noise to layer
+ * @param options - How many layers, and how they shrink
+ * @returns Noise whose values are still from 0 to 1
+ * @throws Error if octaves is not a positive integer
+ */
+export function fractalNoise(
+  noise: Noise2D,
+  options: FractalNoiseOptions = {}
+): Noise2D {
+  const octaves = options.octaves ?? 4;
+  const persistence = options.persistence ?? 0.5;
+  const lacunarity = options.lacunarity ?? 2;
+  if (!Number.isInteger(octaves) || octaves < 1) {
+    throw new Error(`Octaves must be a positive integer, got ${octaves}`);
+  }
+
+  return (x, y) => {
+    let sum = 0;
+    let total = 0;
+    let amplitude = 1;
+    let frequency = 1;
+    for (let octave = 0; octave < octaves; octave++) {
+      // Offset each layer so their features do not line up at the origin
+      const offset = octave * 31.7;
+      sum += amplitude * noise(x * frequency + offset, y * frequency - offset);
+      total += amplitude;
+      amplitude *= persistence;
+      frequency *= lacunarity;
+    }
+    return total > 0 ? sum / total : 0;
+  };
+}
+
+/**
+ * Creates a hash of grid points from a shuffled permutation table.
+ */
+function createHash(random: Random): (_i: number, _j: number) => number {
+  const permutation = random.shuffle(
+    Array.from({ length: TABLE_SIZE }, (_, index) => index)
+  );
+  const mask = TABLE_SIZE - 1;
+  return (i, j) => permutation[(permutation[i & mask] + j) & mask];
+}
+
+/** Eases from 0 to 1 with zero slope and curvature at both ends */
+function fade(t: number): number {
+  return t * t * t * (t * (t * 6 - 15) + 10);
+}
+
+function lerp(a: number, b: number, t: number): number {
+  return a + (b - a) * t;
+}
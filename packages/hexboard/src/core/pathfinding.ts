@@ -0,0 +1,235 @@
+// Pathfinding types and helpers shared by the HexGrid search methods
+
+import { Cell } from './cell';
+import { HexCoordinates } from './coordinates';
+
+/**
+ * Computes the cost of stepping from one cell into an adjacent cell.
+ * Return {@code Infinity} to forbid the step entirely.
+ */
+export type MovementCostFunction<
+  CustomProps extends Record<string, unknown> = Record<string, never>,
+> = (_from: Cell<CustomProps>, _to: Cell<CustomProps>) => number;
+
+/**
+ * Estimates the remaining cost between two coordinates. To keep the search
+ * optimal the estimate must never exceed the real cheapest cost.
+ */
+export type PathHeuristic = (
+  _from: HexCoordinates,
+  _to: HexCoordinates
+) => number;
+
+/**
+ * Elevation-aware rules layered on top of per-cell movement costs. Elevation
+ * deltas are measured as {@code to.elevation - from.elevation}, so a positive
+ * delta is a climb and a negative delta is a descent.
+ */
+export interface MovementRules {
+  /** Largest elevation gain allowed in a single step. Steeper climbs are forbidden. */
+  maxClimb?: number;
+  /** Largest elevation loss allowed in a single step. Steeper drops are forbidden. */
+  maxDescent?: number;
+  /** Extra cost added per unit of elevation gained. Defaults to 0. */
+  climbCostPerUnit?: number;
+  /** Cost removed per unit of elevation lost. Defaults to 0. */
+  descentDiscountPerUnit?: number;
+  /** Lowest cost a step can be discounted to by descending. Defaults to 0. */
+  minStepCost?: number;
+}
+
+/**
+ * Options controlling cost-weighted searches on a HexGrid.
+ */
+export interface PathfindingOptions<
+  CustomProps extends Record<string, unknown> = Record<string, never>,
+> {
+  /** Whether impassable cells block movement. Defaults to true. */
+  respectImpassable?: boolean;
+  /**
+   * Cost of entering a neighboring cell. Defaults to the destination cell's
+   * movementCost.
+   */
+  getMovementCost?: MovementCostFunction<CustomProps>;
+  /** Elevation rules applied on top of each step's movement cost. */
+  movementRules?: MovementRules;
+  /**
+   * Remaining cost estimate used to guide the search toward the goal.
+   * Defaults to zero, which makes the search a plain Dijkstra search.
+   * {@link hexDistance} is a suitable heuristic when no step costs less than 1.
+   */
+  heuristic?: PathHeuristic;
+}
+
+/**
+ * Options controlling budgeted reachability searches on a HexGrid. These are
+ * the same as {@link PathfindingOptions} minus the heuristic, since there is
+ * no single goal to estimate toward.
+ */
+export type ReachabilityOptions<
+  CustomProps extends Record<string, unknown> = Record<string, never>,
+> = Omit<PathfindingOptions<CustomProps>, 'heuristic'>;
+
+/**
+ * A hex that can be reached within a movement budget, along with the cheapest
+ * way of getting there.
+ */
+export interface ReachableHex {
+  /** The reachable coordinate */
+  coordinates: HexCoordinates;
+  /** Cheapest total cost to reach this coordinate from the start */
+  cost: number;
+  /** Budget left over after reaching this coordinate */
+  remaining: number;
+  /** The coordinate this hex is reached from, or null for the start */
+  previous: HexCoordinates | null;
+}
+
+/**
+ * The cheapest route between two coordinates.
+ */
+export interface PathResult {
+  /** Ordered coordinates from start to goal, both inclusive */
+  path: HexCoordinates[];
+  /** Sum of the movement costs of every step along the path */
+  cost: number;
+}
+
+/**
+ * The default step cost: the movement cost of the cell being entered.
+ */
+export function defaultMovementCost<
+  CustomProps extends Record<string, unknown> = Record<string, never>,
+>(_from: Cell<CustomProps>, to: Cell<CustomProps>): number {
+  return to.movementCost;
+}
+
+/**
+ * Applies elevation movement rules to the cost of a single step.
+ *
+ * Climbs beyond {@code maxClimb} and drops beyond {@code maxDescent} are
+ * forbidden and cost {@code Infinity}. Otherwise climbing adds
+ * {@code climbCostPerUnit} for every unit gained, and descending removes
+ * {@code descentDiscountPerUnit} for every unit lost, never going below
+ * {@code minStepCost}.
+ *
+ * @param baseCost - The step cost before elevation is considered
+ * @param from - The cell being left
+ * @param to - The cell being entered
+ * @param rules - The elevation rules to apply
+ * @returns The adjusted step cost, or Infinity if the step is forbidden
+ */
+export function applyMovementRules(
+  baseCost: number,
+  from: { elevation: number },
+  to: { elevation: number },
+  rules: MovementRules
+): number {
+  const {
+    maxClimb = Infinity,
+    maxDescent = Infinity,
+    climbCostPerUnit = 0,
+    descentDiscountPerUnit = 0,
+    minStepCost = 0,
+  } = rules;
+
+  const delta = to.elevation - from.elevation;
+
+  if (delta > maxClimb || -delta > maxDescent) {
+    return Infinity;
+  }
+
+  if (delta > 0) {
+    return baseCost + delta * climbCostPerUnit;
+  }
+
+  if (delta < 0 && descentDiscountPerUnit > 0) {
+    const discounted = baseCost + delta * descentDiscountPerUnit;
+    return Math.max(discounted, Math.min(minStepCost, baseCost));
+  }
+
+  return baseCost;
+}
+
+/**
+ * Minimal binary min-heap keyed by a numeric priority. Items with equal
+ * priority are returned in insertion order so that searches are deterministic.
+ */
+export class PriorityQueue<T> {
+  private heap: Array<{ item: T; priority: number; order: number }> = [];
+  private insertions = 0;
+
+  get size(): number {
+    return this.heap.length;
+  }
+
+  isEmpty(): boolean {
+    return this.heap.length === 0;
+  }
+
+  push(item: T, priority: number): void {
+    this.heap.push({ item, priority, order: this.insertions++ });
+    this.bubbleUp(this.heap.length - 1);
+  }
+
+  pop(): T | undefined {
+    if (this.heap.length === 0) {
+      return undefined;
+    }
+
+    const top = this.heap[0];
+    const last = this.heap.pop()!;
+    if (this.heap.length > 0) {
+      this.heap[0] = last;
+      this.sinkDown(0);
+    }
+    return top.item;
+  }
+
+  private isBefore(a: number, b: number): boolean {
+    const left = this.heap[a];
+    const right = this.heap[b];
+    if (left.priority !== right.priority) {
+      return left.priority < right.priority;
+    }
+    return left.order < right.order;
+  }
+
+  private swap(a: number, b: number): void {
+    const temp = this.heap[a];
+    this.heap[a] = this.heap[b];
+    this.heap[b] = temp;
+  }
+
+  private bubbleUp(index: number): void {
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (!this.isBefore(index, parent)) {
+        break;
+      }
+      this.swap(index, parent);
+      index = parent;
+    }
+  }
+
+  private sinkDown(index: number): void {
+    const length = this.heap.length;
+    for (;;) {
+      const left = index * 2 + 1;
+      const right = left + 1;
+      let smallest = index;
+
+      if (left < length && this.isBefore(left, smallest)) {
+        smallest = left;
+      }
+      if (right < length && this.isBefore(right, smallest)) {
+        smallest = right;
+      }
+      if (smallest === index) {
+        break;
+      }
+      this.swap(index, smallest);
+      index = smallest;
+    }
+  }
+}
@@ -0,0 +1,193 @@
+// A seedable random number generator, for reproducible maps, dice and AI
+
+/**
+ * The whole state of a Random, as four unsigned 32-bit integers. Plain data,
+ * so it can be saved with a board and restored to resume the same sequence.
+ */
+export type RandomState = [number, number, number, number];
+
+/**
+ * Generates pseudo-random numbers from a seed. The same seed always gives the
+ * same sequence, so anything drawn from it, from generated maps to dice rolls,
+ * can be reproduced; pass a Random wherever the library accepts one.
+ *
+ * The generator is sfc32, which is fast and passes common statistical tests.
+ * It is not suitable for cryptography.
+ */
+export class Random {
+  private state: RandomState;
+
+  /**
+   * Creates a new Random.
+   * @param seed - Any number or string; the same seed gives the same
+   * sequence. Defaults to a seed that differs on every call.
+   */
+  constructor(seed: number | string = Math.random()) {
+    this.state = hashSeed(String(seed));
+    // Mix the seed through before the first number is drawn
+    for (let i = 0; i < 12; i++) {
+      this.nextUint32();
+    }
+  }
+
+  /**
+   * Creates a Random that continues from a saved state.
+   *
+   * @param state - A state returned by getState
+   * @throws Error if the state is not four unsigned 32-bit integers
+   */
+  static fromState(state: RandomState): Random {
+    const random = new Random(0);
+    random.setState(state);
+    return random;
+  }
+
+  /**
+   * Draws a number from 0 (inclusive) to 1 (exclusive), like Math.random.
+   */
+  next(): number {
+    return this.nextUint32() / 4294967296;
+  }
+
+  /**
+   * Draws a whole number from min to max, both inclusive.
+   *
+   * @param min - The smallest number to draw
+   * @param max - The largest number to draw
+   * @throws Error if min or max is not an integer, or min is greater than max
+   */
+  integer(min: number, max: number): number {
+    if (!Number.isInteger(min) || !Number.isInteger(max) || min > max) {
+      throw new Error(`Invalid integer range ${min} to ${max}`);
+    }
+    return min + Math.floor(this.next() * (max - min + 1));
+  }
+
+  /**
+   * Draws true with a given probability.
+   *
+   * @param probability - How likely true is, from 0 (never) to 1 (always)
+   */
+  chance(probability: number): boolean {
+    return this.next() < probability;
+  }
+
+  /**
+   * Picks one item, each equally likely.
+   *
+   * @throws Error if there are no items
+   */
+  pick<T>(items: readonly T[]): T {
+    if (items.length === 0) {
+      throw new Error('Cannot pick from an empty list');
+    }
+    return items[this.integer(0, items.length - 1)];
+  }
+
+  /**
+   * Returns a shuffled copy of a list, leaving the list itself unchanged.
+   */
+  shuffle<T>(items: readonly T[]): T[] {
+    const shuffled = [...items];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = this.integer(0, i);
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    return shuffled;
+  }
+
+  /**
+   * Creates a child generator with a sequence of its own, seeded from this
+   * one. Give each subsystem its own fork, so drawing more numbers in one does
+   * not change what the others draw. Forking advances this generator.
+   *
+   * @param name - Tells forks taken at the same point apart
+   * @returns A generator independent of this one from now on
+   */
+  fork(name = ''): Random {
+    const state = hashSeed(name).map(
+      (salt) => (this.nextUint32() ^ salt) >>> 0
+    ) as RandomState;
+    return Random.fromState(state);
+  }
+
+  /**
+   * Gets a copy of the state, to save and later resume from.
+   */
+  getState(): RandomState {
+    return [...this.state];
+  }
+
+  /**
+   * Resumes from a saved state.
+   *
+   * @param state - A state returned by getState
+   * @throws Error if the state is not four unsigned 32-bit integers
+   */
+  setState(state: RandomState): void {
+    if (!isRandomState(state)) {
+      throw new Error(
+        'Random state must be four unsigned 32-bit integers, got ' +
+          JSON.stringify(state)
+      );
+    }
+    this.state = [
+      state[0] >>> 0,
+      state[1] >>> 0,
+      state[2] >>> 0,
+      state[3] >>> 0,
+    ];
+  }
+
+  private nextUint32(): number {
+    let [a, b, c, d] = this.state;
+    let t = (a + b) | 0;
+    a = b ^ (b >>> 9);
+    b = (c + (c << 3)) | 0;
+    c = (c << 21) | (c >>> 11);
+    d = (d + 1) | 0;
+    t = (t + d) | 0;
+    c = (c + t) | 0;
+    this.state = [a >>> 0, b >>> 0, c >>> 0, d >>> 0];
+    return t >>> 0;
+  }
+}
+
+/**
+ * Checks whether a value is a valid RandomState.
+ */
+export function isRandomState(value: unknown): value is RandomState {
+  return (
+    Array.isArray(value) &&
+    value.length === 4 &&
+    value.every(
+      (word) => Number.isInteger(word) && word >= 0 && word <= 0xffffffff
+    )
+  );
+}
+
+/**
+ * Hashes a seed into a generator state with cyrb128.
+ */
+function hashSeed(seed: string): RandomState {
+  let h1 = 1779033703;
+  let h2 = 3144134277;
+  let h3 = 1013904242;
+  let h4 = 2773480762;
+  for (let i = 0; i < seed.length; i++) {
+    const k = seed.charCodeAt(i);
+    h1 = h2 ^ Math.imul(h1 ^ k, 597399067);
+    h2 = h3 ^ Math.imul(h2 ^ k, 2869860233);
+    h3 = h4 ^ Math.imul(h3 ^ k, 951274213);
+    h4 = h1 ^ Math.imul(h4 ^ k, 2716044179);
+  }
+  h1 = Math.imul(h3 ^ (h1 >>> 18), 597399067);
+  h2 = Math.imul(h4 ^ (h2 >>> 22), 2869860233);
+  h3 = Math.imul(h1 ^ (h3 >>> 17), 951274213);
+  h4 = Math.imul(h2 ^ (h4 >>> 19), 2716044179);
+  h1 ^= h2 ^ h3 ^ h4;
+  h2 ^= h1;
+  h3 ^= h1;
+  h4 ^= h1;
+  return [h1 >>> 0, h2 >>> 0, h3 >>> 0, h4 >>> 0];
+}
@@ -0,0 +1,167 @@
+// Shape generators that produce sets of hex coordinates for building boards
+
+import { Direction } from './types';
+import {
+  HEX_DIRECTIONS,
+  HexCoordinates,
+  axialToCubic,
+  hexAdd,
+  hexScale,
+} from './coordinates';
+
+const ORIGIN: HexCoordinates = { q: 0, r: 0, s: 0 };
+
+/**
+ * Every hex within a radius of a center, ordered by q and then r.
+ *
+ * A radius of 0 gives just the center; a radius of N gives 3N(N + 1) + 1 hexes.
+ */
+export function hexagonShape(
+  radius: number,
+  center: HexCoordinates = ORIGIN
+): HexCoordinates[] {
+  assertSize('radius', radius);
+  const shape: HexCoordinates[] = [];
+
+  for (let q = -radius; q <= radius; q++) {
+    // Neighbors differ by (1, 1), so |q - r| is bounded by the radius too
+    const minR = Math.max(-radius, q - radius);
+    const maxR = Math.min(radius, q + radius);
+    for (let r = minR; r <= maxR; r++) {
+      shape.push(hexAdd(center, axialToCubic(q, r)));
+    }
+  }
+
+  return shape;
+}
+
+/**
+ * The hexes exactly a radius away from a center, in clockwise order.
+ *
+ * The ring starts at the hex reached by walking the radius to the Southwest and
+ * then steps around the ring one neighbor at a time, heading North first. A
+ * radius of 0 gives just the center; a radius of N gives 6N hexes.
+ */
+export function ringShape(
+  radius: number,
+  center: HexCoordinates = ORIGIN
+): HexCoordinates[] {
+  assertSize('radius', radius);
+  if (radius === 0) {
+    return [hexAdd(center, ORIGIN)];
+  }
+
+  const shape: HexCoordinates[] = [];
+  let current = hexAdd(
+    center,
+    hexScale(HEX_DIRECTIONS[Direction.Southwest], radius)
+  );
+
+  for (let side = 0; side < 6; side++) {
+    for (let step = 0; step < radius; step++) {
+      shape.push(current);
+      current = hexAdd(current, HEX_DIRECTIONS[side]);
+    }
+  }
+
+  return shape;
+}
+
+/**
+ * Every hex within a radius of a center, ordered from the center outward one
+ * ring at a time. Each ring follows the order of {@link ringShape}.
+ */
+export function spiralShape(
+  radius: number,
+  center: HexCoordinates = ORIGIN
+): HexCoordinates[] {
+  assertSize('radius', radius);
+  const shape: HexCoordinates[] = [];
+
+  for (let ring = 0; ring <= radius; ring++) {
+    shape.push(...ringShape(ring, center));
+  }
+
+  return shape;
+}
+
+/**
+ * A parallelogram spanning width hexes along q and height hexes along r,
+ * starting at a corner. Rows of constant r are listed in order of q.
+ */
+export function parallelogramShape(
+  width: number,
+  height: number,
+  corner: HexCoordinates = ORIGIN
+): HexCoordinates[] {
+  assertSize('width', width);
+  assertSize('height', height);
+  const shape: HexCoordinates[] = [];
+
+  for (let r = 0; r < height; r++) {
+    for (let q = 0; q < width; q++) {
+      shape.push(hexAdd(corner, axialToCubic(q, r)));
+    }
+  }
+
+  return shape;
+}
+
+/**
+ * A triangle with sides of the given number of hexes, starting at a corner.
+ *
+ * Row r holds the hexes from q = r to q = size - 1, so the rows shrink by one
+ * hex each and the triangle holds size(size + 1) / 2 hexes.
+ */
+export function triangleShape(
+  size: number,
+  corner: HexCoordinates = ORIGIN
+): HexCoordinates[] {
+  assertSize('size', size);
+  const shape: HexCoordinates[] = [];
+
+  for (let r = 0; r < size; r++) {
+    for (let q = r; q < size; q++) {
+      shape.push(hexAdd(corner, axialToCubic(q, r)));
+    }
+  }
+
+  return shape;
+}
+
+/**
+ * A rectangle of height rows with width hexes in each, starting at a corner.
+ *
+ * Rows are lines of constant r. Moving to the next row shifts it half a hex
+ * sideways, so every second row is offset by one in q to keep the rows lined
+ * up, the same way offset coordinates lay out a rectangular board.
+ */
+export function rectangleShape(
+  width: number,
+  height: number,
+  corner: HexCoordinates = ORIGIN
+): HexCoordinates[] {
+  assertSize('width', width);
+  assertSize('height', height);
+  const shape: HexCoordinates[] = [];
+
+  for (let r = 0; r < height; r++) {
+    const offset = Math.floor(r / 2);
+    for (let col = 0; col < width; col++) {
+      shape.push(hexAdd(corner, axialToCubic(col + offset, r)));
+    }
+  }
+
+  return shape;
+}
+
+/**
+ * Throws unless a shape dimension is a non-negative integer.
+ */
+function assertSize(name: string, value: number): void {
+  if (!Number.isInteger(value) || value < 0) {
+    throw new Error(
+      `Invalid shape ${name}: ${value}. Must be a non-negative integer`
+    );
+  }
+}
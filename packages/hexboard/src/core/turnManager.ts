@@ -0,0 +1,259 @@
+// Players, turns and phases for turn-based games
+
+import { Entity } from './entity';
+import { EventEmitter, EventHandler, Unsubscribe } from './events';
+
+/**
+ * A player taking turns. Entities belong to the player whose id is their owner.
+ */
+export interface Player {
+  id: string;
+  name?: string;
+}
+
+export interface TurnManagerOptions {
+  /** The phases of every turn, in order. Defaults to ['move', 'act', 'end']. */
+  phases?: string[];
+}
+
+/**
+ * The events a TurnManager emits.
+ */
+export interface TurnEvents {
+  /** A player's turn began, in its first phase; turn counts from 1 */
+  turnStart: { player: Player; turn: number; round: number };
+  /** A player's turn ended, before the next player's turnStart */
+  turnEnd: { player: Player; turn: number; round: number };
+  /** The turn moved on to another phase; not emitted for a turn's first phase */
+  phaseChange: { player: Player; phase: string; previous: string };
+}
+
+/**
+ * Takes an ordered roster of players through turns, and each turn through
+ * its phases.
+ *
+ * Turns go round the roster in order; a round ends when the last player's
+ * turn does. Entities can only be controlled by the player whose turn it is.
+ * Which entities have moved or acted is recorded by the EntityManager; a
+ * HexBoard with a turn manager forgets those records as each turn starts.
+ */
+export class TurnManager<
+  CustomProps extends Record<string, unknown> = Record<string, never>,
+> {
+  private players: Player[];
+  private phases: string[];
+  private activeIndex = -1;
+  private phaseIndex = 0;
+  private turn = 0;
+  private round = 0;
+  private events = new EventEmitter<TurnEvents>();
+
+  /**
+   * Creates a new TurnManager. No turn is under way until start is called.
+   * @param players - The roster, in turn order
+   * @param options - The phases of each turn
+   * @throws Error if two players share an id or there are no phases
+   */
+  constructor(players: Player[] = [], options: TurnManagerOptions = {}) {
+    this.phases = options.phases ?? ['move', 'act', 'end'];
+    if (this.phases.length === 0) {
+      throw new Error('A turn must have at least one phase');
+    }
+    this.players = [];
+    players.forEach((player) => this.addPlayer(player));
+  }
+
+  /**
+   * Starts the first turn, for the first player in the roster. Starting
+   * again begins a new game from the first turn.
+   *
+   * @throws Error if the roster is empty
+   */
+  start(): void {
+    if (this.players.length === 0) {
+      throw new Error('Cannot start turns without players');
+    }
+    this.turn = 0;
+    this.round = 1;
+    this.beginTurn(0);
+  }
+
+  /**
+   * Whether a turn is under way.
+   */
+  isStarted(): boolean {
+    return this.activeIndex !== -1;
+  }
+
+  /**
+   * Moves on to the next phase of the turn, or ends the turn after its last phase.
+   */
+  nextPhase(): void {
+    const player = this.getActivePlayer();
+    if (!player) {
+      return;
+    }
+    if (this.phaseIndex === this.phases.length - 1) {
+      this.endTurn();
+      return;
+    }
+
+    const previous = this.phases[this.phaseIndex];
+    this.phaseIndex++;
+    this.events.emit('phaseChange', {
+      player,
+      phase: this.phases[this.phaseIndex],
+      previous,
+    });
+  }
+
+  /**
+   * Ends the active player's turn, whatever its phase, and starts the next
+   * player's turn.
+   */
+  endTurn(): void {
+    const player = this.getActivePlayer();
+    if (!player) {
+      return;
+    }
+    this.emitTurnEnd(player);
+
+    // A turnEnd listener may have removed players or restarted the game
+    if (this.getActivePlayer() !== player) {
+      return;
+    }
+    const next = (this.activeIndex + 1) % this.players.length;
+    if (next === 0) {
+      this.round++;
+    }
+    this.beginTurn(next);
+  }
+
+  getActivePlayer(): Player | null {
+    return this.players[this.activeIndex] ?? null;
+  }
+
+  /**
+   * Gets the phase of the turn under way, or null before the first turn.
+   */
+  getCurrentPhase(): string | null {
+    return this.isStarted() ? this.phases[this.phaseIndex] : null;
+  }
+
+  getPhases(): string[] {
+    return [...this.phases];
+  }
+
+  /**
+   * Gets how many turns have started, counting the one under way.
+   */
+  getTurn(): number {
+    return this.turn;
+  }
+
+  /**
+   * Gets which round the game is in; every player has one turn per round.
+   */
+  getRound(): number {
+    return this.round;
+  }
+
+  // Roster
+  getPlayers(): Player[] {
+    return [...this.players];
+  }
+
+  getPlayer(playerId: string): Player | undefined {
+    return this.players.find((player) => player.id === playerId);
+  }
+
+  /**
+   * Adds a player to the end of the turn order.
+   *
+   * @throws Error if a player with the same id is already in the roster
+   */
+  addPlayer(player: Player): void {
+    if (this.getPlayer(player.id)) {
+      throw new Error(`Player with ID ${player.id} already exists`);
+    }
+    this.players.push(player);
+  }
+
+  /**
+   * Removes a player from the roster. Removing the active player ends their
+   * turn and starts the next player's; removing the last player stops turns.
+   *
+   * @returns True if the player was in the roster
+   */
+  removePlayer(playerId: string): boolean {
+    const index = this.players.findIndex((player) => player.id === playerId);
+    if (index === -1) {
+      return false;
+    }
+
+    if (index === this.activeIndex) {
+      if (this.players.length > 1) {
+        this.endTurn();
+      } else {
+        this.emitTurnEnd(this.players[index]);
+        this.activeIndex = -1;
+      }
+    }
+    this.players.splice(index, 1);
+    if (index < this.activeIndex) {
+      this.activeIndex--;
+    }
+    return true;
+  }
+
+  // Entity control
+  /**
+   * Checks whether the active player may control an entity, which they may
+   * only if they own it.
+   */
+  canControl(entity: Entity<CustomProps>): boolean {
+    const player = this.getActivePlayer();
+    return player !== null && entity.owner === player.id;
+  }
+
+  /**
+   * Adds a listener for turn events.
+   *
+   * @returns A function that removes the listener
+   */
+  on<K extends keyof TurnEvents>(
+    event: K,
+    handler: EventHandler<TurnEvents[K]>
+  ): Unsubscribe {
+    return this.events.on(event, handler);
+  }
+
+  /**
+   * Removes a listener added with on.
+   */
+  off<K extends keyof TurnEvents>(
+    event: K,
+    handler: EventHandler<TurnEvents[K]>
+  ): void {
+    this.events.off(event, handler);
+  }
+
+  private emitTurnEnd(player: Player): void {
+    this.events.emit('turnEnd', {
+      player,
+      turn: this.turn,
+      round: this.round,
+    });
+  }
+
+  private beginTurn(index: number): void {
+    this.activeIndex = index;
+    this.phaseIndex = 0;
+    this.turn++;
+    this.events.emit('turnStart', {
+      player: this.players[index],
+      turn: this.turn,
+      round: this.round,
+    });
+  }
+}
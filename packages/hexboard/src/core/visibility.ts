@@ -0,0 +1,215 @@
+// Visibility types shared by the HexGrid line-of-sight and field-of-view queries
+
+import { Cell } from './cell';
+import {
+  HEX_DIRECTIONS,
+  HexCoordinates,
+  hexAdd,
+  hexDistance,
+  hexEquals,
+  hexScale,
+} from './coordinates';
+import { Direction } from './types';
+
+/**
+ * Options controlling line-of-sight and field-of-view queries on a HexGrid.
+ *
+ * Only the cells between the two endpoints can block sight; the viewer's and
+ * the target's own cells never do.
+ */
+export interface LineOfSightOptions<
+  CustomProps extends Record<string, unknown> = Record<string, never>,
+> {
+  /** Whether impassable cells block sight. Defaults to true. */
+  impassableBlocksSight?: boolean;
+  /**
+   * Whether cells rising above the sight line block sight. The sight line
+   * runs from the viewer's eye to the top of the target. Defaults to true.
+   */
+  elevationBlocksSight?: boolean;
+  /** Height of the viewer's eye above the top of its cell. Defaults to 0. */
+  viewerHeight?: number;
+  /** Height above the top of a target cell that must be seen. Defaults to 0. */
+  targetHeight?: number;
+  /**
+   * Additional blockers, such as cells occupied by entities. Return true for
+   * cells that block sight.
+   */
+  isBlocking?: (_cell: Cell<CustomProps>) => boolean;
+}
+
+/**
+ * Visibility options for HexBoard, which can also treat entities as
+ * blockers since the board knows where they are.
+ */
+export interface BoardLineOfSightOptions<
+  CustomProps extends Record<string, unknown> = Record<string, never>,
+> extends LineOfSightOptions<CustomProps> {
+  /** Whether cells occupied by entities block sight. Defaults to false. */
+  entitiesBlockSight?: boolean;
+}
+
+/**
+ * How steeply a cell blocks the view from a viewer's eye, as the slope from
+ * the eye to the top of the cell. Opaque cells block everything behind them
+ * and return Infinity; cells that cannot block return -Infinity.
+ *
+ * @param cell - The cell between the viewer and a target, if there is one
+ * @param distance - Steps from the viewer to the cell
+ * @param eyeHeight - Absolute height of the viewer's eye
+ * @param options - The visibility options in effect
+ * @returns The blocking slope of the cell
+ */
+export function getSightSlope<
+  CustomProps extends Record<string, unknown> = Record<string, never>,
+>(
+  cell: Cell<CustomProps> | null,
+  distance: number,
+  eyeHeight: number,
+  options: LineOfSightOptions<CustomProps>
+): number {
+  const {
+    impassableBlocksSight = true,
+    elevationBlocksSight = true,
+    isBlocking,
+  } = options;
+
+  if (!cell) {
+    return -Infinity;
+  }
+  if (
+    (impassableBlocksSight && cell.isImpassable) ||
+    (isBlocking && isBlocking(cell))
+  ) {
+    return Infinity;
+  }
+  return elevationBlocksSight
+    ? (cell.elevation - eyeHeight) / distance
+    : -Infinity;
+}
+
+/**
+ * Get the hex at a position along the ring of the given radius around a
+ * center. Rings are walked from their southwest corner, heading north first
+ * and turning clockwise at each corner, so position 0 is the southwest corner
+ * and positions run up to 6 * radius - 1.
+ */
+export function getRingHex(
+  center: HexCoordinates,
+  radius: number,
+  index: number
+): HexCoordinates {
+  const side = Math.floor(index / radius);
+  const corner = hexScale(
+    HEX_DIRECTIONS[(Direction.Southwest + side) % 6],
+    radius
+  );
+  return hexAdd(
+    center,
+    hexAdd(corner, hexScale(HEX_DIRECTIONS[side], index - side * radius))
+  );
+}
+
+/**
+ * Get the position of a hex along the ring around a center that passes
+ * through it. This is the inverse of {@link getRingHex}.
+ */
+export function getRingIndex(
+  center: HexCoordinates,
+  coords: HexCoordinates
+): number {
+  const radius = hexDistance(center, coords);
+  for (let side = 0; side < 6; side++) {
+    const corner = getRingHex(center, radius, side * radius);
+    const offset = hexDistance(corner, coords);
+    if (
+      offset < radius &&
+      hexEquals(getRingHex(center, radius, side * radius + offset), coords)
+    ) {
+      return side * radius + offset;
+    }
+  }
+  return 0;
+}
+
+/**
+ * The steepest blocking slope in every direction around a viewer, built up
+ * one ring at a time.
+ *
+ * Directions are measured as the fraction of the way around a ring, which is
+ * the same for every ring since rings are scaled copies of each other. The
+ * hex at position j of a ring of n hexes covers the directions within half a
+ * hex of j / n, which are exactly the lines that pass closer to it than to
+ * its neighbors. The profile is stored as sorted breakpoints, each starting a
+ * run of equal slopes that lasts until the next one.
+ */
+export class HorizonProfile {
+  private starts: number[] = [0];
+  private slopes: number[] = [-Infinity];
+
+  /**
+   * Get the horizon in a direction. A line exactly on the boundary between
+   * two runs passes between two hexes, and is blocked only if both sides are.
+   */
+  getSlopeAt(direction: number): number {
+    let low = 0;
+    let high = this.starts.length - 1;
+    while (low < high) {
+      const middle = (low + high + 1) >> 1;
+      if (this.starts[middle] <= direction) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+
+    const after = this.slopes[low];
+    if (this.starts[low] !== direction) {
+      return after;
+    }
+    const before =
+      this.slopes[(low + this.slopes.length - 1) % this.slopes.length];
+    return Math.min(before, after);
+  }
+
+  /**
+   * Raises the horizon to cover a complete ring, given the blocking slope of
+   * each of its hexes in ring order.
+   */
+  addRing(ringSlopes: number[]): void {
+    const size = ringSlopes.length;
+    const starts: number[] = [];
+    const slopes: number[] = [];
+
+    // Hex j of the ring starts half a hex before j / size. Hex 0 straddles
+    // direction 0, so it starts the ring and is repeated as piece size.
+    let current = 0;
+    let ring = 0;
+    while (current < this.starts.length || ring <= size) {
+      const nextCurrent =
+        current < this.starts.length ? this.starts[current] : Infinity;
+      const nextRing =
+        ring === 0 ? 0 : ring <= size ? (2 * ring - 1) / (2 * size) : Infinity;
+      const start = Math.min(nextCurrent, nextRing);
+
+      if (nextCurrent === start) {
+        current++;
+      }
+      if (nextRing === start) {
+        ring++;
+      }
+
+      const slope = Math.max(
+        this.slopes[current - 1],
+        ringSlopes[(ring - 1) % size]
+      );
+      if (slopes.length === 0 || slopes[slopes.length - 1] !== slope) {
+        starts.push(start);
+        slopes.push(slope);
+      }
+    }
+
+    this.starts = starts;
+    this.slopes = slopes;
+  }
+}
@@ -1,16 +1,64 @@
 import { HexGrid } from './core/hexGrid';
 import { Cell, CellDefinition } from './core/cell';
-import { HexCoordinates } from './core/coordinates';
+import { HexCoordinates, hexEquals } from './core/coordinates';
 import { Entity, EntityDefinition, EntityManager } from './core/entity';
-import { BoardRenderer } from './rendering/boardRenderer';
+import {
+  EventEmitter,
+  EventHandler,
+  HexBoardEvents,
+  Unsubscribe,
+} from './core/events';
+import { FogOfWar, FogOfWarOptions } from './core/fogOfWar';
+import { PathfindingOptions } from './core/pathfinding';
+import { Random } from './core/random';
+import { SelectionMode, SelectionModel } from './core/selection';
+import { TurnManager } from './core/turnManager';
+import { MapDefinition } from './map/mapDefinition';
+import { BoardCommand, CellProperties } from './commands/boardCommand';
+import { CommandHistory } from './commands/commandHistory';
+import {
+  BOARD_STATE_VERSION,
+  SerializedBoardState,
+  cloneJson,
+  copyCoordinates,
+  restoreBoardState,
+  serializeBoardState,
+  serializeCell,
+  serializeEntity,
+} from './serialization/boardState';
+import { MigrationRegistry, MigrationReport } from './serialization/migrations';
+import { BoardLineOfSightOptions, LineOfSightOptions } from './core/visibility';
+import { BoardRenderer, FogOfWarStyle } from './rendering/boardRenderer';
 import { InputHandler } from './rendering/inputHandler';
-import { EntityRenderer } from './rendering/entityRenderer';
+import { GesturePoint } from './rendering/gestureRecognizer';
+import { hexToWorld } from './rendering/hexLayout';
+import {
+  SelectionOptions,
+  getSelectionPolygon,
+  isPointInPolygon,
+} from './rendering/selectionShape';
+import {
+  KEY_ACTION_DIRECTIONS,
+  KeyAction,
+  KeyBindings,
+} from './rendering/keyBindings';
+import { CellDescriber, KeyboardCursor } from './rendering/keyboardCursor';
+import {
+  EntityRenderer,
+  MovementAnimationOptions,
+} from './rendering/entityRenderer';
 import { ModelRegistry } from './rendering/modelRegistry';
 import {
   CellColorStrategy,
   DefaultCellColorStrategy,
 } from './rendering/cellColorStrategy';
 
+/** The id of the path BoardRenderer draws while an entity is dragged */
+const DRAG_PATH_ID = 'entity-drag';
+
+/** The id of the highlight group that shows the selected cells */
+const SELECTION_GROUP_ID = 'selection';
+
 export class HexBoard<
   CustomProps extends Record<string, unknown> = Record<string, never>,
 > {
@@ -23,10 +71,31 @@ export class HexBoard<
   private isInitialized = false;
   private colorStrategy?: CellColorStrategy<CustomProps>;
   private isRunning = false;
+  private fogOfWar?: FogOfWar<CustomProps>;
+  private fogOfWarViewer?: string;
+  private keyboardCursor?: KeyboardCursor<CustomProps>;
+  private events = new EventEmitter<HexBoardEvents<CustomProps>>();
+  private hoveredCell: Cell<CustomProps> | null = null;
+  private entityDrag: {
+    entity: Entity<CustomProps>;
+    target: Cell<CustomProps> | null;
+  } | null = null;
+  private dragPathOptions: PathfindingOptions<CustomProps> = {};
+  private selection = new SelectionModel<CustomProps>();
+  private selectionOptions: SelectionOptions = {};
+  private turnManager?: TurnManager<CustomProps>;
+  private unsubscribeTurnStart?: Unsubscribe;
+  private random = new Random();
+  private history = new CommandHistory<BoardCommand<CustomProps>>((command) => {
+    const inverse = this.applyCommand(command);
+    this.events.emit('commandApplied', { command });
+    return inverse;
+  });
 
   constructor(colorStrategy?: CellColorStrategy<CustomProps>) {
     this.hexGrid = new HexGrid<CustomProps>();
     this.colorStrategy = colorStrategy;
+    this.selection.on('change', ({ cells }) => this.highlightSelection(cells));
   }
 
   public async init(
@@ -65,6 +134,20 @@ export class HexBoard<
     // Connect input events to game logic
     this.inputHandler.onCellClick = this.handleCellClick.bind(this);
     this.inputHandler.onCellHover = this.handleCellHover.bind(this);
+    this.inputHandler.onEntityClick = this.handleEntityClick.bind(this);
+    this.inputHandler.onEntityHover = this.handleEntityHover.bind(this);
+    this.inputHandler.onCellDoubleTap = this.handleCellDoubleTap.bind(this);
+    this.inputHandler.onCellLongPress = this.handleCellLongPress.bind(this);
+    this.inputHandler.onDragStart = this.handleDragStart.bind(this);
+    this.inputHandler.onDrag = this.handleDrag.bind(this);
+    this.inputHandler.onDragEnd = this.handleDragEnd.bind(this);
+    this.inputHandler.onDragCancel = (): void => this.finishEntityDrag(null);
+    this.inputHandler.onSelectionStart = (): void =>
+      this.setCameraControlsEnabled(false);
+    this.inputHandler.onSelectionEnd = this.handleSelectionEnd.bind(this);
+    this.inputHandler.onSelectionCancel = (): void =>
+      this.setCameraControlsEnabled(true);
+    this.inputHandler.onKeyAction = this.handleKeyAction.bind(this);
 
     // Initialize input handling
     this.inputHandler.initialize();
@@ -72,12 +155,21 @@ export class HexBoard<
     // Create EntityManager
     this.entityManager = new EntityManager<CustomProps>();
 
+    // Create the keyboard cursor, which only announces entities the viewer sees
+    this.keyboardCursor = new KeyboardCursor<CustomProps>(
+      this.hexGrid,
+      this.renderer,
+      container,
+      { getEntitiesAt: this.getEntitiesShownAt.bind(this) }
+    );
+
     // Create EntityRenderer if ModelRegistry is provided
     if (modelRegistry) {
       this.entityRenderer = new EntityRenderer<CustomProps>(
         this.entityManager,
         this.renderer.getScene(),
-        modelRegistry
+        modelRegistry,
+        this.renderer.getAnimator()
       );
 
       // Connect EntityRenderer to BoardRenderer
@@ -95,15 +187,25 @@ export class HexBoard<
     // Stop render loop
     this.stop();
 
+    // Deselect everything, since the entities are discarded below
+    this.selection.clear();
+
     // Clean up EntityRenderer
     if (this.entityRenderer) {
       this.entityRenderer.dispose();
       this.entityRenderer = undefined;
     }
 
-    // Clean up EntityManager
+    // Clean up EntityManager and the fog of war that depends on it
+    this.fogOfWar = undefined;
     this.entityManager = undefined;
 
+    // Clean up the keyboard cursor and its live region
+    if (this.keyboardCursor) {
+      this.keyboardCursor.dispose();
+      this.keyboardCursor = undefined;
+    }
+
     // Clean up input handler
     if (this.inputHandler) {
       this.inputHandler.dispose();
@@ -123,35 +225,114 @@ export class HexBoard<
     }
 
     this.container = undefined;
+    this.hoveredCell = null;
+    this.entityDrag = null;
+    this.history.clear();
     this.isInitialized = false;
   }
 
+  // Event methods
+  /**
+   * Adds a listener for a board event. Any number of listeners may listen to
+   * the same event, and listeners may be added before init().
+   *
+   * @param event - The event to listen for
+   * @param handler - Called with the event's payload each time it fires
+   * @returns A function that removes the listener
+   */
+  public on<K extends keyof HexBoardEvents<CustomProps>>(
+    event: K,
+    handler: EventHandler<HexBoardEvents<CustomProps>[K]>
+  ): Unsubscribe {
+    return this.events.on(event, handler);
+  }
+
+  /**
+   * Removes a listener added with on().
+   */
+  public off<K extends keyof HexBoardEvents<CustomProps>>(
+    event: K,
+    handler: EventHandler<HexBoardEvents<CustomProps>[K]>
+  ): void {
+    this.events.off(event, handler);
+  }
+
   // Core hex grid methods
+  /**
+   * Puts a cell at coordinates, replacing any cell already there. The change
+   * can be undone.
+   *
+   * @param coords - Where to put the cell
+   * @param cellData - The cell's properties; any left out take their defaults
+   */
   public setCellAtCoords(
     coords: HexCoordinates,
     cellData: Partial<CellDefinition<CustomProps>>
   ): void {
-    const cellDefinition: CellDefinition<CustomProps> = {
-      q: coords.q,
-      r: coords.r,
-      s: coords.s,
-      elevation: cellData.elevation,
-      movementCost: cellData.movementCost,
-      isImpassable: cellData.isImpassable,
-      customProps: cellData.customProps,
-    };
+    this.history.execute({
+      type: 'setCell',
+      coordinates: copyCoordinates(coords),
+      cell: {
+        elevation: cellData.elevation,
+        movementCost: cellData.movementCost,
+        isImpassable: cellData.isImpassable,
+        customProps: cellData.customProps,
+      },
+    });
+  }
 
-    // Remove existing cell if present
-    if (this.hexGrid.hasCellAtCoords(coords)) {
-      this.hexGrid.removeCellByCoords(coords);
+  /**
+   * Changes some properties of the cell at coordinates, keeping the rest. The
+   * change can be undone.
+   *
+   * @param coords - The cell to change
+   * @param changes - The properties to change
+   * @returns The changed cell, or undefined if there is no cell there
+   */
+  public updateCellAtCoords(
+    coords: HexCoordinates,
+    changes: Partial<CellProperties<CustomProps>>
+  ): Cell<CustomProps> | undefined {
+    if (!this.hasCellAtCoords(coords)) {
+      return undefined;
     }
+    this.history.execute({
+      type: 'updateCell',
+      coordinates: copyCoordinates(coords),
+      changes,
+    });
+    return this.getCellAtCoords(coords);
+  }
 
-    this.hexGrid.addCell(cellDefinition);
+  /**
+   * Removes the cell at coordinates, and any entities on it. The change can
+   * be undone as one step, which restores the cell and its entities.
+   *
+   * @param coords - The cell to remove
+   * @returns True if there was a cell to remove
+   */
+  public removeCellAtCoords(coords: HexCoordinates): boolean {
+    const cell = this.getCellAtCoords(coords);
+    if (!cell) {
+      return false;
+    }
 
-    // Re-render the specific cell if renderer is available
-    if (this.renderer) {
-      this.renderer.renderHexCell(coords);
+    const removeCellAndEntities = (): void => {
+      for (const entity of this.entityManager?.getEntitiesAt(cell.id) ?? []) {
+        this.history.execute({ type: 'removeEntity', entityId: entity.id });
+      }
+      this.history.execute({
+        type: 'removeCell',
+        coordinates: copyCoordinates(coords),
+      });
+    };
+    // Join a transaction the caller already has open
+    if (this.history.isInTransaction()) {
+      removeCellAndEntities();
+    } else {
+      this.history.transaction(removeCellAndEntities);
     }
+    return true;
   }
 
   public getCellAtCoords(
@@ -169,6 +350,76 @@ export class HexBoard<
     return this.hexGrid.getAllCells();
   }
 
+  /**
+   * Replaces every cell on the board with the cells of a map definition and
+   * redraws the board. The map is validated first; if it has any invalid or
+   * duplicate cells, an error listing all of them is thrown and the board is
+   * left unchanged. Entities stay where they are, so every entity must stand
+   * on a cell the map has; remove the others first. The history is cleared,
+   * since it cannot be undone, and so are the selection, the hovered cell and
+   * any entity drag.
+   *
+   * @param definition - The map to load
+   * @param migrations - Optional migrations that upgrade older maps first
+   * @returns What the migrations changed, if migrations were given
+   * @throws Error listing every invalid cell if the definition is invalid, or
+   * every entity standing on a cell the map lacks
+   */
+  public loadMap(
+    definition: MapDefinition<CustomProps>,
+    migrations?: MigrationRegistry<MapDefinition<CustomProps>>
+  ): MigrationReport | undefined {
+    const migrated = migrations?.migrate(definition);
+    const grid = HexGrid.fromMapDefinition(
+      migrated ? migrated.document : definition
+    );
+    const orphans = (this.entityManager?.getAllEntities() ?? []).filter(
+      (entity) => !grid.hasCellAtCoords(entity.cellPosition)
+    );
+    if (orphans.length > 0) {
+      // An entity must always stand on a cell, or the board cannot be saved
+      const list = orphans
+        .map(
+          ({ id, cellPosition: { q, r, s } }) =>
+            `${id} at q=${q}, r=${r}, s=${s}`
+        )
+        .join('; ');
+      throw new Error(`The map has no cells for these entities: ${list}`);
+    }
+
+    this.resetInteraction();
+    if (this.renderer) {
+      for (const cell of this.hexGrid.getAllCells()) {
+        this.renderer.removeHexCell(cell);
+      }
+    }
+
+    this.hexGrid.clear();
+    this.hexGrid.addCells(grid.getAllCells());
+    for (const cell of this.hexGrid.getAllCells()) {
+      this.entityManager?.replaceCell(cell);
+    }
+    this.history.clear();
+
+    this.renderer?.renderHexGrid();
+    this.updateFogOfWar();
+    return migrated?.report;
+  }
+
+  /**
+   * Forgets the selection, the hovered cell and any entity drag, which may
+   * hold cells and entities that are about to be replaced.
+   */
+  private resetInteraction(): void {
+    this.selection.clear();
+    this.hoveredCell = null;
+    if (this.entityDrag) {
+      this.entityDrag = null;
+      this.renderer?.removePath(DRAG_PATH_ID);
+      this.setCameraControlsEnabled(true);
+    }
+  }
+
   // Rendering methods
   public renderAll(): void {
     if (this.renderer) {
@@ -181,29 +432,338 @@ export class HexBoard<
 
   // Input event handlers
   private handleCellClick(coords: HexCoordinates): void {
-    // TODO: Implement game-specific click logic here
-    // Basic click handling - can be extended for game mechanics
+    const cell = this.getCellAtCoords(coords);
+    if (!cell) {
+      return;
+    }
+
+    this.events.emit('cellClick', { cell });
 
-    // Get the cell data for potential game logic
+    // Entities without a rendered model can only be picked through their cell
+    const entity = this.entityManager?.getEntitiesAt(cell.id)[0];
+    if (entity && !this.entityRenderer?.getEntityModel(entity.id)) {
+      this.events.emit('entityClick', { entity, cell });
+    }
+  }
+
+  private handleEntityClick(entityId: string, coords: HexCoordinates): void {
+    const entity = this.entityManager?.getEntity(entityId);
+    const cell = this.getCellAtCoords(coords);
+    if (entity && cell) {
+      this.events.emit('entityClick', { entity, cell });
+    }
+  }
+
+  private handleEntityHover(entityId: string | null): void {
+    const entity =
+      (entityId !== null && this.entityManager?.getEntity(entityId)) || null;
+    this.events.emit('entityHover', { entity });
+  }
+
+  private handleCellDoubleTap(coords: HexCoordinates, entityId?: string): void {
+    const cell = this.getCellAtCoords(coords);
+    if (cell) {
+      const entity = this.findTappedEntity(cell, entityId);
+      this.events.emit('cellDoubleTap', { cell, entity });
+    }
+  }
+
+  private handleCellLongPress(coords: HexCoordinates, entityId?: string): void {
     const cell = this.getCellAtCoords(coords);
     if (cell) {
-      // TODO: Implement game-specific cell interaction logic
-      // Example: select unit, move piece, show cell info, etc.
+      const entity = this.findTappedEntity(cell, entityId);
+      this.events.emit('cellLongPress', { cell, entity });
+    }
+  }
+
+  private handleDragStart(
+    coords: HexCoordinates | null,
+    entityId?: string
+  ): void {
+    const cell = coords ? this.getCellAtCoords(coords) : undefined;
+    const entity = cell ? this.findTappedEntity(cell, entityId) : undefined;
+    if (!cell || !entity) {
+      return;
+    }
+
+    // Listeners may start the entity's movement session here; without one the
+    // drag is left to the camera
+    this.events.emit('entityDragStart', { entity, cell });
+    if (!entity.isInMovementMode) {
+      return;
+    }
+
+    this.entityDrag = { entity, target: null };
+    this.setCameraControlsEnabled(false);
+  }
+
+  private handleDrag(coords: HexCoordinates | null): void {
+    const drag = this.entityDrag;
+    if (!drag) {
+      return;
+    }
+
+    const cell = (coords && this.getCellAtCoords(coords)) || null;
+    if (cell === drag.target) {
+      return;
+    }
+    drag.target = cell;
+
+    const path = cell ? this.findDragPath(drag.entity, cell) : [];
+    if (path.length > 0) {
+      this.renderer?.showPath(
+        DRAG_PATH_ID,
+        path
+          .map((step) => this.getCellAtCoords(step))
+          .filter((step): step is Cell<CustomProps> => step !== undefined)
+      );
     } else {
-      // TODO: Handle clicks on empty cells (e.g., move unit, place building)
+      this.renderer?.removePath(DRAG_PATH_ID);
     }
+
+    this.events.emit('entityDrag', { entity: drag.entity, cell, path });
   }
 
-  private handleCellHover(coords: HexCoordinates | null): void {
-    // TODO: Implement visual feedback for hover events
-    // Example: highlight cell, show tooltip, preview movement range, etc.
-    if (coords) {
-      // TODO: Show hover feedback for occupied cell
+  private handleDragEnd(coords: HexCoordinates | null): void {
+    this.finishEntityDrag((coords && this.getCellAtCoords(coords)) || null);
+  }
+
+  /**
+   * Ends an entity drag, moving the entity if it was dropped on one of its
+   * movement destinations and cancelling its movement session otherwise.
+   */
+  private finishEntityDrag(cell: Cell<CustomProps> | null): void {
+    const drag = this.entityDrag;
+    if (!drag) {
+      return;
+    }
+    this.entityDrag = null;
+    this.renderer?.removePath(DRAG_PATH_ID);
+    this.setCameraControlsEnabled(true);
+
+    const { entity } = drag;
+    let moved = false;
+    if (cell !== null && this.isMovementDestination(entity, cell)) {
+      // Walk the previewed route, or straight there if it cannot be found
+      const path = this.findDragPath(entity, cell);
+      this.moveEntityAlongPath(
+        entity.id,
+        path.length > 0 ? path : [entity.cellPosition, cell]
+      ).catch((error: unknown): void => {
+        console.warn('HexBoard: Error moving dropped entity:', error);
+      });
+      // The move itself happens at once; only the walk is awaited
+      moved = hexEquals(entity.cellPosition, cell);
+    } else {
+      this.cancelEntityMovement(entity.id);
+    }
+
+    this.events.emit('entityDrop', { entity, cell, moved });
+  }
+
+  /**
+   * Finds the route shown while dragging an entity to a cell, or an empty
+   * path if the cell is not one of its movement destinations.
+   */
+  private findDragPath(
+    entity: Entity<CustomProps>,
+    cell: Cell<CustomProps>
+  ): HexCoordinates[] {
+    if (!this.isMovementDestination(entity, cell)) {
+      return [];
+    }
+    return (
+      this.hexGrid.findPath(entity.cellPosition, cell, this.dragPathOptions)
+        ?.path ?? []
+    );
+  }
+
+  private isMovementDestination(
+    entity: Entity<CustomProps>,
+    cell: Cell<CustomProps>
+  ): boolean {
+    return this.getEntityMovementDestinations(entity.id).some((destination) =>
+      hexEquals(destination, cell)
+    );
+  }
+
+  private handleSelectionEnd(
+    points: GesturePoint[],
+    mode: SelectionMode
+  ): void {
+    this.setCameraControlsEnabled(true);
+
+    const polygon = getSelectionPolygon(
+      this.selectionOptions.shape ?? 'box',
+      points
+    );
+    const cells =
+      polygon.length === 0
+        ? []
+        : this.getAllCells().filter((cell) => {
+            const center = this.projectCellCenter(cell);
+            return center !== null && isPointInPolygon(center, polygon);
+          });
+    const entities = this.selectionOptions.includeEntities
+      ? cells.flatMap((cell) => this.getEntitiesShownAt(cell.id))
+      : [];
+
+    this.selection.select(cells, entities, mode);
+  }
+
+  /**
+   * Finds where the center of a cell's top appears on the canvas.
+   */
+  private projectCellCenter(cell: Cell<CustomProps>): GesturePoint | null {
+    const center = hexToWorld(cell);
+    center.y = cell.elevation;
+    return this.inputHandler?.projectToClient(center) ?? null;
+  }
+
+  private highlightSelection(cells: Cell<CustomProps>[]): void {
+    if (cells.length > 0) {
+      this.renderer?.addHighlightGroup(SELECTION_GROUP_ID, cells);
     } else {
-      // TODO: Clear hover feedback
+      this.renderer?.removeHighlightGroup(SELECTION_GROUP_ID);
+    }
+  }
+
+  private setCameraControlsEnabled(enabled: boolean): void {
+    const controls = this.renderer?.getControls();
+    if (controls) {
+      controls.enabled = enabled;
     }
   }
 
+  /**
+   * Finds the entity a gesture on a cell was aimed at: the one whose model was
+   * picked, or else the first entity on the cell that has no model.
+   */
+  private findTappedEntity(
+    cell: Cell<CustomProps>,
+    entityId?: string
+  ): Entity<CustomProps> | undefined {
+    if (entityId !== undefined) {
+      return this.entityManager?.getEntity(entityId);
+    }
+    const entity = this.entityManager?.getEntitiesAt(cell.id)[0];
+    return entity && !this.entityRenderer?.getEntityModel(entity.id)
+      ? entity
+      : undefined;
+  }
+
+  private handleKeyAction(action: KeyAction): void {
+    const cursor = this.keyboardCursor;
+    if (!cursor) {
+      return;
+    }
+
+    const direction = KEY_ACTION_DIRECTIONS[action];
+    if (direction !== undefined) {
+      const cell = cursor.move(direction);
+      if (cell) {
+        this.events.emit('cellFocus', { cell });
+      }
+      return;
+    }
+
+    switch (action) {
+      case 'nextEntity':
+      case 'previousEntity': {
+        const entities = (this.entityManager?.getAllEntities() ?? []).filter(
+          (entity) => this.isEntityShownToViewer(entity)
+        );
+        const entity = cursor.focusNextEntity(
+          entities,
+          action === 'nextEntity' ? 1 : -1
+        );
+        const cell = cursor.getFocusedCell();
+        if (entity && cell) {
+          this.events.emit('cellFocus', { cell, entity });
+        }
+        break;
+      }
+      case 'confirm': {
+        // Confirming acts like clicking the focused cell and the entity on it
+        const cell = cursor.getFocusedCell();
+        if (!cell) {
+          break;
+        }
+        this.events.emit('cellClick', { cell });
+
+        const entities = this.getEntitiesShownAt(cell.id);
+        const entity =
+          entities.find(({ id }) => id === cursor.getFocusedEntityId()) ??
+          entities[0];
+        if (entity) {
+          this.events.emit('entityClick', { entity, cell });
+        }
+        break;
+      }
+      case 'cancel':
+        this.events.emit('cancel', { cell: cursor.getFocusedCell() });
+        break;
+    }
+  }
+
+  // Keyboard methods
+  /**
+   * Rebinds keyboard keys. Actions not given keep their current keys; give an
+   * empty array to unbind an action.
+   *
+   * @param bindings - The keys to bind to each action
+   */
+  public setKeyBindings(bindings: Partial<KeyBindings>): void {
+    if (!this.inputHandler) {
+      console.warn(
+        'HexBoard: InputHandler not initialized. Call init() first.'
+      );
+      return;
+    }
+    this.inputHandler.setKeyBindings(bindings);
+  }
+
+  /**
+   * Moves the keyboard cursor to a cell, for example to follow a mouse click.
+   *
+   * @param coords - The cell to focus
+   * @returns The focused cell, or undefined if there is no cell there
+   */
+  public focusCell(coords: HexCoordinates): Cell<CustomProps> | undefined {
+    const cell = this.keyboardCursor?.focusCell(coords);
+    if (cell) {
+      this.events.emit('cellFocus', { cell });
+    }
+    return cell ?? undefined;
+  }
+
+  /**
+   * Sets how the focused cell is described to screen readers.
+   *
+   * @param describer - Builds the text announced for a cell and its entities
+   */
+  public setCellDescriber(describer: CellDescriber<CustomProps>): void {
+    this.keyboardCursor?.setCellDescriber(describer);
+  }
+
+  private handleCellHover(coords: HexCoordinates | null): void {
+    const cell = (coords && this.getCellAtCoords(coords)) || null;
+    if (cell === this.hoveredCell) {
+      return;
+    }
+
+    const previous = this.hoveredCell;
+    this.hoveredCell = cell;
+
+    if (previous) {
+      this.events.emit('cellLeave', { cell: previous });
+    }
+    if (cell) {
+      this.events.emit('cellEnter', { cell });
+    }
+    this.events.emit('cellHover', { cell });
+  }
+
   // Render control methods
   public start(): void {
     if (!this.isInitialized) {
@@ -228,7 +788,162 @@ export class HexBoard<
     requestAnimationFrame(() => this.animate());
   }
 
+  // Visibility methods
+  /**
+   * Tests whether one hex can be seen from another. Accepts the same options as
+   * HexGrid.hasLineOfSight, and can additionally treat cells occupied by
+   * entities as blockers.
+   *
+   * @param from - The viewer's coordinates
+   * @param to - The target's coordinates
+   * @param options - Line-of-sight options
+   * @returns True if nothing obstructs the line of sight
+   */
+  public hasLineOfSight(
+    from: HexCoordinates,
+    to: HexCoordinates,
+    options: BoardLineOfSightOptions<CustomProps> = {}
+  ): boolean {
+    return this.hexGrid.hasLineOfSight(
+      from,
+      to,
+      this.withEntityBlockers(options)
+    );
+  }
+
+  /**
+   * Returns every cell visible from the given coordinates within a radius.
+   * Accepts the same options as hasLineOfSight.
+   *
+   * @param origin - The coordinates the viewer is standing on
+   * @param radius - The maximum viewing distance in steps
+   * @param options - Visibility options
+   * @returns The visible cells, starting with the viewer's own cell
+   */
+  public computeVisibleCells(
+    origin: HexCoordinates,
+    radius: number,
+    options: BoardLineOfSightOptions<CustomProps> = {}
+  ): Cell<CustomProps>[] {
+    return this.hexGrid.computeVisibleCells(
+      origin,
+      radius,
+      this.withEntityBlockers(options)
+    );
+  }
+
+  /**
+   * Converts board visibility options to grid options, folding occupied cells
+   * into the isBlocking predicate when entities block sight.
+   */
+  private withEntityBlockers(
+    options: BoardLineOfSightOptions<CustomProps>
+  ): LineOfSightOptions<CustomProps> {
+    const { entitiesBlockSight = false, ...gridOptions } = options;
+    const entityManager = this.entityManager;
+
+    if (entitiesBlockSight && entityManager) {
+      const isBlocking = gridOptions.isBlocking;
+      gridOptions.isBlocking = (cell): boolean =>
+        entityManager.getEntitiesAt(cell.id).length > 0 ||
+        (isBlocking ? isBlocking(cell) : false);
+    }
+
+    return gridOptions;
+  }
+
+  // Fog of war methods
+  /**
+   * Starts tracking what each player can see. Entities are assigned to players
+   * through their owner, and the fog of war is kept up to date as entities are
+   * added, moved and removed through the board.
+   *
+   * @param options - Sight radius and line-of-sight options
+   * @returns The fog of war state, or undefined if the board is not initialized
+   */
+  public enableFogOfWar(
+    options: FogOfWarOptions<CustomProps> = {}
+  ): FogOfWar<CustomProps> | undefined {
+    if (!this.entityManager) {
+      console.warn(
+        'HexBoard: EntityManager not initialized. Call init() first.'
+      );
+      return undefined;
+    }
+    this.fogOfWar = new FogOfWar(this.hexGrid, this.entityManager, options);
+    this.fogOfWar.update();
+    return this.fogOfWar;
+  }
+
+  public getFogOfWar(): FogOfWar<CustomProps> | undefined {
+    return this.fogOfWar;
+  }
+
+  /**
+   * Renders the board as one player sees it, hiding unexplored cells,
+   * darkening explored ones and hiding other players' entities out of sight.
+   * Pass undefined to show everything again, for example between turns of a
+   * hot-seat game.
+   *
+   * @param playerId - The player whose view to render, or undefined for all
+   * @param style - Optional overrides for how fogged cells are drawn
+   */
+  public setFogOfWarViewer(
+    playerId: string | undefined,
+    style?: FogOfWarStyle
+  ): void {
+    const fogOfWar = playerId === undefined ? undefined : this.fogOfWar;
+    this.fogOfWarViewer = playerId;
+
+    this.renderer?.setFogOfWar(fogOfWar, playerId, style);
+    this.entityRenderer?.setVisibilityFilter(
+      fogOfWar
+        ? (entity): boolean => fogOfWar.isEntityVisible(playerId!, entity.id)
+        : undefined
+    );
+  }
+
+  /**
+   * Recomputes the fog of war and redraws the board. This happens
+   * automatically when entities change through the board; call it after
+   * changing terrain that blocks sight.
+   */
+  public updateFogOfWar(): void {
+    if (!this.fogOfWar) {
+      return;
+    }
+    this.fogOfWar.update();
+    this.renderer?.refreshFogOfWar();
+  }
+
+  /**
+   * Checks whether an entity may be shown to the current fog of war viewer.
+   */
+  private isEntityShownToViewer(entity: Entity<CustomProps>): boolean {
+    return (
+      !this.fogOfWar ||
+      this.fogOfWarViewer === undefined ||
+      this.fogOfWar.isEntityVisible(this.fogOfWarViewer, entity.id)
+    );
+  }
+
+  private getEntitiesShownAt(cellId: string): Entity<CustomProps>[] {
+    return (this.entityManager?.getEntitiesAt(cellId) ?? []).filter((entity) =>
+      this.isEntityShownToViewer(entity)
+    );
+  }
+
   // Entity Management API
+  /**
+   * Adds an entity on the cell at its position. The change can be undone.
+   * The board must already have a cell there, and the entity stands on that
+   * cell rather than on the cellPosition object given.
+   *
+   * @param definition - The entity to add; its custom properties are copied
+   * @returns The new entity, or undefined if the board is not initialized
+   * @throws Error if an entity with the same id exists or there is no cell at
+   * its position
+   */
   public addEntity(
     definition: EntityDefinition<CustomProps>
   ): Entity<CustomProps> | undefined {
@@ -238,9 +953,20 @@ export class HexBoard<
       );
       return undefined;
     }
-    return this.entityManager.addEntity(definition);
+    this.history.execute({
+      type: 'addEntity',
+      entity: serializeEntity(definition),
+    });
+    return this.entityManager.getEntity(definition.id);
   }
 
+  /**
+   * Removes an entity. The change can be undone, though not any movement
+   * session the entity had.
+   *
+   * @param entityId - The entity to remove
+   * @returns True if the entity was removed, or false if there was none
+   */
   public removeEntity(entityId: string): boolean {
     if (!this.entityManager) {
       console.warn(
@@ -248,10 +974,23 @@ export class HexBoard<
       );
       return false;
     }
-    this.entityManager.removeEntity(entityId);
+    if (!this.entityManager.getEntity(entityId)) {
+      return false;
+    }
+    this.history.execute({ type: 'removeEntity', entityId });
     return true;
   }
 
+  /**
+   * Moves an entity in movement mode to one of its destinations, ending its
+   * movement session, and records that it has moved this turn. The move can
+   * be undone, which puts the entity back without a movement session and
+   * restores whether it had moved.
+   *
+   * @param entityId - The entity to move
+   * @param toCell - One of the entity's movement destinations
+   * @throws Error if the entity is not in movement mode or may not move there
+   */
   public moveEntity(entityId: string, toCell: Cell<CustomProps>): void {
     if (!this.entityManager) {
       console.warn(
@@ -259,7 +998,50 @@ export class HexBoard<
       );
       return;
     }
-    this.entityManager.moveEntity(entityId, toCell);
+    this.entityManager.validateMove(entityId, toCell);
+    this.history.execute({
+      type: 'moveEntity',
+      entityId,
+      to: copyCoordinates(toCell),
+      moved: true,
+    });
+  }
+
+  /**
+   * Moves an entity to the end of a route and walks its model there hex by
+   * hex. The entity moves at once, emitting entityMoved, so game state is
+   * never left behind the animation; entityMovementComplete follows when the
+   * model arrives.
+   *
+   * @param entityId - The entity to move; it must be in movement mode
+   * @param path - The cells to walk through, such as a path from findPath.
+   * The entity's own cell is added at the start if it is missing.
+   * @param options - Speed, easing, hop height and facing of the walk
+   * @returns A promise that resolves when the model arrives, or at once if
+   * the entity was not moved or has no model
+   */
+  public async moveEntityAlongPath(
+    entityId: string,
+    path: HexCoordinates[],
+    options: MovementAnimationOptions = {}
+  ): Promise<void> {
+    const entity = this.getEntityById(entityId);
+    const route = path
+      .map((step) => this.getCellAtCoords(step))
+      .filter((step): step is Cell<CustomProps> => step !== undefined);
+    const destination = route[route.length - 1];
+    if (!entity || !destination) {
+      return;
+    }
+
+    const start = this.getCellAtCoords(entity.cellPosition);
+    if (start && !hexEquals(route[0], start)) {
+      route.unshift(start);
+    }
+
+    this.moveEntity(entityId, destination);
+    await this.entityRenderer?.animateEntityAlongPath(entityId, route, options);
+    this.events.emit('entityMovementComplete', { entity, to: destination });
   }
 
   public getEntityById(entityId: string): Entity<CustomProps> | undefined {
@@ -293,17 +1075,31 @@ export class HexBoard<
   }
 
   // Entity Movement API
+  /**
+   * Starts a movement session, letting an entity move to any of the given
+   * hexes. With a turn manager set, only entities the active player owns may
+   * start moving.
+   *
+   * @param entityId - The entity to move
+   * @param reachableHexes - The hexes it may move to
+   * @returns True if the session started, or false if it was refused
+   */
   public startEntityMovement(
     entityId: string,
     reachableHexes: HexCoordinates[]
-  ): void {
+  ): boolean {
     if (!this.entityManager) {
       console.warn(
         'HexBoard: EntityManager not initialized. Call init() first.'
       );
-      return;
+      return false;
+    }
+    const entity = this.entityManager.getEntity(entityId);
+    if (entity && this.turnManager && !this.turnManager.canControl(entity)) {
+      return false;
     }
     this.entityManager.startMovement(entityId, reachableHexes);
+    return true;
   }
 
   public cancelEntityMovement(entityId: string): void {
@@ -316,6 +1112,17 @@ export class HexBoard<
     this.entityManager.cancelMovement(entityId);
   }
 
+  /**
+   * Sets how the route previewed while dragging an entity is found. Use the
+   * same rules as the search that produced the entity's movement destinations,
+   * so the preview follows the route the entity can actually take.
+   *
+   * @param options - Options passed to HexGrid.findPath for the preview
+   */
+  public setDragPathOptions(options: PathfindingOptions<CustomProps>): void {
+    this.dragPathOptions = options;
+  }
+
   public getEntityMovementDestinations(entityId: string): HexCoordinates[] {
     if (!this.entityManager) {
       console.warn(
@@ -326,6 +1133,336 @@ export class HexBoard<
     return this.entityManager.getMovementDestinations(entityId);
   }
 
+  /**
+   * Checks whether an entity has moved this turn. moveEntity records moves,
+   * and the records are cleared as each turn of the turn manager starts.
+   */
+  public hasEntityMoved(entityId: string): boolean {
+    return this.entityManager?.hasMoved(entityId) ?? false;
+  }
+
+  /**
+   * Records that an entity has acted this turn, for example by attacking.
+   * The records are cleared as each turn of the turn manager starts.
+   */
+  public markEntityActed(entityId: string): void {
+    if (!this.entityManager) {
+      console.warn(
+        'HexBoard: EntityManager not initialized. Call init() first.'
+      );
+      return;
+    }
+    this.entityManager.setActed(entityId);
+  }
+
+  public hasEntityActed(entityId: string): boolean {
+    return this.entityManager?.hasActed(entityId) ?? false;
+  }
+
+  // Turn methods
+  /**
+   * Sets the turn manager that decides whose entities may move. Which
+   * entities have moved or acted is forgotten as each of its turns starts.
+   * Without one, any entity may move.
+   *
+   * @param turnManager - The turn manager, or undefined to stop enforcing turns
+   */
+  public setTurnManager(
+    turnManager: TurnManager<CustomProps> | undefined
+  ): void {
+    this.unsubscribeTurnStart?.();
+    this.turnManager = turnManager;
+    this.unsubscribeTurnStart = turnManager?.on('turnStart', () =>
+      this.entityManager?.clearTurnRecords()
+    );
+  }
+
+  public getTurnManager(): TurnManager<CustomProps> | undefined {
+    return this.turnManager;
+  }
+
+  // Random methods
+  /**
+   * Gets the board's random number generator. Draw dice rolls and other game
+   * randomness from it, so that a board restored from a snapshot goes on to
+   * draw the same numbers. Snapshots save only this generator, not its forks;
+   * after deserialize, fork it again rather than keeping forks taken before.
+   */
+  public getRandom(): Random {
+    return this.random;
+  }
+
+  /**
+   * Replaces the board's random number generator, for example with one made
+   * from a known seed so a game can be reproduced.
+   */
+  public setRandom(random: Random): void {
+    this.random = random;
+  }
+
+  // Selection methods
+  /**
+   * Gets the selected cells and entities. Dragging with Shift held selects
+   * the cells whose centers fall inside the drawn shape; the selection can
+   * also be changed directly, and its cells are highlighted either way.
+   */
+  public getSelection(): SelectionModel<CustomProps> {
+    return this.selection;
+  }
+
+  /**
+   * Sets the shape drawn by selection drags and whether they select entities.
+   *
+   * @param options - The options to change; others keep their current values
+   */
+  public setSelectionOptions(options: SelectionOptions): void {
+    this.selectionOptions = { ...this.selectionOptions, ...options };
+  }
+
+  // History methods
+  /**
+   * Carries out a board change and records it so it can be undone. Every
+   * change made through the board's methods goes through here.
+   *
+   * @param command - The change to make
+   * @throws Error if the change cannot be made, in which case nothing changes
+   */
+  public executeCommand(command: BoardCommand<CustomProps>): void {
+    this.history.execute(command);
+  }
+
+  /**
+   * Reverses the most recent change, or transaction of changes, redrawing
+   * only the cells it affects.
+   *
+   * @returns True if a change was undone
+   */
+  public undo(): boolean {
+    return this.history.undo();
+  }
+
+  /**
+   * Makes the most recently undone change again.
+   *
+   * @returns True if a change was redone
+   */
+  public redo(): boolean {
+    return this.history.redo();
+  }
+
+  /**
+   * Gets the history of changes, to group changes into transactions, limit
+   * its depth or listen for changes to it.
+   */
+  public getHistory(): CommandHistory<BoardCommand<CustomProps>> {
+    return this.history;
+  }
+
+  /**
+   * Makes a change to the board, redraws what it affects and emits its
+   * event.
+   *
+   * @returns The command that reverses the change
+   */
+  private applyCommand(
+    command: BoardCommand<CustomProps>
+  ): BoardCommand<CustomProps> {
+    switch (command.type) {
+      case 'setCell':
+      case 'updateCell': {
+        const previous = this.getCellAtCoords(command.coordinates);
+        if (command.type === 'updateCell' && !previous) {
+          throw new Error(noCellMessage(command.coordinates));
+        }
+        const properties =
+          command.type === 'setCell'
+            ? command.cell
+            : { ...serializeCell(previous!), ...command.changes };
+        this.replaceCell(command.coordinates, properties);
+        return previous
+          ? this.setCellCommand(previous)
+          : { type: 'removeCell', coordinates: command.coordinates };
+      }
+      case 'removeCell': {
+        const cell = this.getCellAtCoords(command.coordinates);
+        if (!cell) {
+          throw new Error(noCellMessage(command.coordinates));
+        }
+        if ((this.entityManager?.getEntitiesAt(cell.id).length ?? 0) > 0) {
+          // An entity must always stand on a cell, or the board cannot be saved
+          throw new Error(
+            `Cannot remove the cell at q=${cell.q}, r=${cell.r}, s=${cell.s} while entities are on it`
+          );
+        }
+        this.hexGrid.removeCellByCoords(cell);
+        this.renderer?.removeHexCell(cell);
+        this.events.emit('cellRemoved', { cell });
+        return this.setCellCommand(cell);
+      }
+      case 'addEntity': {
+        const entityManager = this.requireEntityManager();
+        const { position, customProps, ...definition } = command.entity;
+        const cell = this.getCellAtCoords(position);
+        if (!cell) {
+          throw new Error(noCellMessage(position));
+        }
+        // Copy the custom properties, so the command can be applied again
+        const entity = entityManager.addEntity({
+          ...definition,
+          cellPosition: cell,
+          customProps: cloneJson(customProps),
+        });
+        this.updateFogOfWar();
+        this.events.emit('entityAdded', { entity });
+        return { type: 'removeEntity', entityId: definition.id };
+      }
+      case 'removeEntity': {
+        const entityManager = this.requireEntityManager();
+        const entity = entityManager.getEntity(command.entityId);
+        if (!entity) {
+          throw new Error(`Entity with ID ${command.entityId} not found`);
+        }
+        const inverse: BoardCommand<CustomProps> = {
+          type: 'addEntity',
+          entity: serializeEntity(entity),
+        };
+        entityManager.removeEntity(entity.id);
+        this.updateFogOfWar();
+        this.selection.select([], [entity], 'subtract');
+        this.events.emit('entityRemoved', { entity });
+        return inverse;
+      }
+      case 'moveEntity': {
+        const entityManager = this.requireEntityManager();
+        const entity = entityManager.getEntity(command.entityId);
+        if (!entity) {
+          throw new Error(`Entity with ID ${command.entityId} not found`);
+        }
+        const to = this.getCellAtCoords(command.to);
+        if (!to) {
+          throw new Error(noCellMessage(command.to));
+        }
+        const from = entity.cellPosition;
+        const wasMoved = entityManager.hasMoved(entity.id);
+        entityManager.placeEntity(entity.id, to);
+        if (command.moved !== undefined) {
+          entityManager.setMoved(entity.id, command.moved);
+        }
+        this.updateFogOfWar();
+        this.events.emit('entityMoved', { entity, from, to });
+        return {
+          type: 'moveEntity',
+          entityId: entity.id,
+          to: copyCoordinates(from),
+          ...(command.moved !== undefined && { moved: wasMoved }),
+        };
+      }
+    }
+  }
+
+  private replaceCell(
+    coords: HexCoordinates,
+    properties: Partial<CellProperties<CustomProps>>
+  ): void {
+    const previous = this.getCellAtCoords(coords);
+    if (previous) {
+      this.hexGrid.removeCellByCoords(coords);
+    }
+    const cell = this.hexGrid.addCell({
+      q: coords.q,
+      r: coords.r,
+      s: coords.s,
+      elevation: properties.elevation,
+      movementCost: properties.movementCost,
+      isImpassable: properties.isImpassable,
+      customProps: properties.customProps,
+    });
+    // Keep entities on the new cell, so they see its current terrain
+    this.entityManager?.replaceCell(cell);
+
+    this.renderer?.updateHexCell(coords);
+    this.events.emit('cellChanged', { cell, previous });
+  }
+
+  private setCellCommand(cell: Cell<CustomProps>): BoardCommand<CustomProps> {
+    const { q, r, s, ...properties } = serializeCell(cell);
+    return { type: 'setCell', coordinates: { q, r, s }, cell: properties };
+  }
+
+  private requireEntityManager(): EntityManager<CustomProps> {
+    if (!this.entityManager) {
+      throw new Error(
+        'HexBoard: EntityManager not initialized. Call init() first.'
+      );
+    }
+    return this.entityManager;
+  }
+
+  // Serialization methods
+  /**
+   * Captures the board's cells, entities, movement sessions and random number
+   * generator state as a versioned, JSON-compatible snapshot, suitable for save
+   * games, undo snapshots and test fixtures.
+   *
+   * @returns A snapshot that can later be passed to deserialize
+   */
+  public serialize(): SerializedBoardState<CustomProps> {
+    return serializeBoardState(this.hexGrid, this.entityManager, this.random);
+  }
+
+  /**
+   * Replaces the board's cells, entities and movement sessions with those of a
+   * snapshot, resumes its random number generator from the snapshot's state,
+   * and redraws the board. If the snapshot is invalid, an error listing every
+   * problem is thrown and the board is left unchanged. The history is cleared,
+   * since it cannot be undone, and so are the selection, the hovered cell and
+   * any entity drag.
+   *
+   * @param state - A snapshot produced by serialize
+   * @param migrations - Optional migrations that upgrade older saves first.
+   * Their latest version must be BOARD_STATE_VERSION, the version serialize
+   * writes and deserialize reads.
+   * @returns What the migrations changed, if migrations were given
+   * @throws Error listing every problem if the snapshot is invalid, or if the
+   * migrations upgrade to a version other than BOARD_STATE_VERSION
+   */
+  public deserialize(
+    state: SerializedBoardState<CustomProps>,
+    migrations?: MigrationRegistry<SerializedBoardState<CustomProps>>
+  ): MigrationReport | undefined {
+    if (!this.entityManager) {
+      console.warn(
+        'HexBoard: EntityManager not initialized. Call init() first.'
+      );
+      return undefined;
+    }
+    if (migrations && migrations.getCurrentVersion() !== BOARD_STATE_VERSION) {
+      throw new Error(
+        `Board state migrations upgrade to version ${migrations.getCurrentVersion()}, but snapshots must be version ${BOARD_STATE_VERSION}`
+      );
+    }
+
+    const migrated = migrations?.migrate(state);
+    const previousCells = this.hexGrid.getAllCells();
+    restoreBoardState(
+      migrated ? migrated.document : state,
+      this.hexGrid,
+      this.entityManager,
+      this.random
+    );
+    this.resetInteraction();
+
+    if (this.renderer) {
+      for (const cell of previousCells) {
+        this.renderer.removeHexCell(cell);
+      }
+      this.renderer.renderHexGrid();
+    }
+    this.history.clear();
+    this.updateFogOfWar();
+    return migrated?.report;
+  }
+
   // Getters for accessing internal components (mainly for testing)
   public getHexGrid(): HexGrid<CustomProps> {
     return this.hexGrid;
@@ -338,4 +1475,12 @@ export class HexBoard<
   public getInputHandler(): InputHandler<CustomProps> | undefined {
     return this.inputHandler;
   }
+
+  public getKeyboardCursor(): KeyboardCursor<CustomProps> | undefined {
+    return this.keyboardCursor;
+  }
+}
+
+function noCellMessage({ q, r, s }: HexCoordinates): string {
+  return `No cell at q=${q}, r=${r}, s=${s}`;
 }
@@ -3,12 +3,146 @@
 
 export { HexBoard } from './hexBoard';
 export { HexGrid } from './core/hexGrid';
-export { BoardRenderer } from './rendering/boardRenderer';
+export { BoardRenderer, FogOfWarStyle } from './rendering/boardRenderer';
 export { Cell, CellDefinition } from './core/cell';
 export { Entity, EntityDefinition, EntityManager } from './core/entity';
-export { EntityRenderer } from './rendering/entityRenderer';
+export {
+  EntityRenderer,
+  MovementAnimationOptions,
+} from './rendering/entityRenderer';
+export { AnimationHandle, Animator, Updater } from './animation/animator';
+export { Clock, ManualClock, systemClock } from './animation/clock';
+export { Easing, EasingFunction } from './animation/easing';
+export {
+  Animation,
+  Delay,
+  Parallel,
+  Sequence,
+  Tween,
+  TweenOptions,
+  TweenValues,
+} from './animation/tween';
+export { BoardCommand, CellProperties } from './commands/boardCommand';
+export {
+  CommandApplier,
+  CommandHistory,
+  CommandHistoryEvents,
+  CommandHistoryOptions,
+  HistoryAction,
+} from './commands/commandHistory';
+export {
+  ACTION_LOG_VERSION,
+  ActionLog,
+  ActionRecorder,
+} from './commands/actionLog';
+export {
+  Replay,
+  ReplayOptions,
+  ReplayPlaybackOptions,
+} from './commands/replay';
 export { ModelRegistry } from './rendering/modelRegistry';
+export { hexToWorld } from './rendering/hexLayout';
+export {
+  DEFAULT_KEY_BINDINGS,
+  KeyAction,
+  KeyBindings,
+} from './rendering/keyBindings';
+export {
+  SelectionEvents,
+  SelectionMode,
+  SelectionModel,
+} from './core/selection';
+export {
+  SelectionOptions,
+  SelectionShape,
+  getSelectionPolygon,
+  isPointInPolygon,
+} from './rendering/selectionShape';
+export {
+  Player,
+  TurnEvents,
+  TurnManager,
+  TurnManagerOptions,
+} from './core/turnManager';
+export {
+  GestureOptions,
+  GesturePoint,
+  GestureRecognizer,
+} from './rendering/gestureRecognizer';
+export {
+  CellDescriber,
+  KeyboardCursor,
+  KeyboardCursorOptions,
+  describeCell,
+} from './rendering/keyboardCursor';
+export { Random, RandomState, isRandomState } from './core/random';
+export {
+  FractalNoiseOptions,
+  Noise2D,
+  createSimplexNoise,
+  createValueNoise,
+  fractalNoise,
+} from './core/noise';
 export * from './core/coordinates';
+export * from './core/shapes';
+export {
+  MovementCostFunction,
+  MovementRules,
+  PathHeuristic,
+  PathResult,
+  PathfindingOptions,
+  ReachabilityOptions,
+  ReachableHex,
+  applyMovementRules,
+} from './core/pathfinding';
+export { BoardLineOfSightOptions, LineOfSightOptions } from './core/visibility';
+export {
+  EventEmitter,
+  EventHandler,
+  HexBoardEvents,
+  Unsubscribe,
+} from './core/events';
+export { CellVisibility, FogOfWar, FogOfWarOptions } from './core/fogOfWar';
+export {
+  MapDefaultSettings,
+  MapDefinition,
+  MapValidationError,
+  validateMapDefinition,
+} from './map/mapDefinition';
+export {
+  TerrainNoise,
+  TerrainOptions,
+  TerrainRelief,
+  generateTerrain,
+} from './map/terrainGenerator';
+export {
+  BOARD_STATE_VERSION,
+  SerializedBoardState,
+  SerializedCell,
+  SerializedEntity,
+  SerializedMovementSession,
+  restoreBoardState,
+  serializeBoardState,
+  serializeCell,
+  serializeEntity,
+  validateBoardState,
+} from './serialization/boardState';
+export {
+  GRID_ENCODING_VERSION,
+  decodeHexGrid,
+  decodeHexGridFromString,
+  encodeHexGrid,
+  encodeHexGridToString,
+} from './serialization/gridEncoding';
+export {
+  Migration,
+  MigrationRegistry,
+  MigrationRegistryOptions,
+  MigrationReport,
+  MigrationResult,
+  MigrationStep,
+  MigrationTransform,
+} from './serialization/migrations';
 export {
   CellColorStrategy,
   DefaultCellColorStrategy,
@@ -1,5 +1,4 @@
-// Map definition interfaces
-// Implementation will go here
+// Map definition interfaces and validation
 
 import { CellDefinition } from '../core/cell';
 
@@ -16,6 +15,100 @@ export interface MapDefinition<
   CustomProps extends Record<string, unknown> = Record<string, never>,
 > {
   name: string;
+  version?: number; // Schema version used by migrations; absent means 1
   defaults: MapDefaultSettings<CustomProps>;
   cells: CellDefinition<CustomProps>[];
 }
+
+/**
+ * A problem with one cell of a map definition.
+ */
+export interface MapValidationError {
+  /** Index of the offending cell in the definition's cells array */
+  cellIndex: number;
+  /** Description of the problem */
+  message: string;
+}
+
+/**
+ * Checks every cell of a map definition and reports all problems found.
+ *
+ * Cells must have integer q and r coordinates, an s coordinate (if given) that
+ * satisfies q + r + s = 0, and coordinates no earlier cell already uses.
+ *
+ * @param definition - The map definition to check
+ * @returns The problems found, in cell order; empty if the map is valid
+ */
+export function validateMapDefinition<
+  CustomProps extends Record<string, unknown> = Record<string, never>,
+>(definition: MapDefinition<CustomProps>): MapValidationError[] {
+  return validateCellDefinitions(definition.cells);
+}
+
+/**
+ * Checks a list of cell definitions for invalid coordinates and duplicates,
+ * as described for validateMapDefinition.
+ *
+ * @param cells - The cell definitions to check
+ * @returns The problems found, in cell order; empty if every cell is valid
+ */
+export function validateCellDefinitions<
+  CustomProps extends Record<string, unknown> = Record<string, never>,
+>(cells: CellDefinition<CustomProps>[]): MapValidationError[] {
+  const errors: MapValidationError[] = [];
+  const firstIndexById = new Map<string, number>();
+
+  cells.forEach(({ q, r, s }, cellIndex) => {
+    if (!Number.isInteger(q) || !Number.isInteger(r)) {
+      errors.push({
+        cellIndex,
+        message: `Invalid hex coordinates: q=${q}, r=${r}. Must be integers`,
+      });
+      return;
+    }
+
+    if (s !== undefined && q + r + s !== 0) {
+      errors.push({
+        cellIndex,
+        message: `Invalid hex coordinates: q=${q}, r=${r}, s=${s}. Must satisfy q + r + s = 0`,
+      });
+      return;
+    }
+
+    const id = `${q},${r}`;
+    const firstIndex = firstIndexById.get(id);
+    if (firstIndex !== undefined) {
+      errors.push({
+        cellIndex,
+        message: `Duplicate cell at q=${q}, r=${r}, s=${-q - r}. Already defined by cell ${firstIndex}`,
+      });
+      return;
+    }
+    firstIndexById.set(id, cellIndex);
+  });
+
+  return errors;
+}
+
+/**
+ * Formats validation errors into a single message listing each cell's problem.
+ *
+ * @param definition - The map definition the errors were found in
+ * @param errors - The errors returned by validateMapDefinition
+ * @returns A multi-line message suitable for an Error
+ */
+export function formatMapValidationErrors<
+  CustomProps extends Record<string, unknown> = Record<string, never>,
+>(
+  definition: MapDefinition<CustomProps>,
+  errors: MapValidationError[]
+): string {
+  const lines = errors.map(
+    ({ cellIndex, message }) => `  cell ${cellIndex}: ${message}`
+  );
+  const count = `${errors.length} error${errors.length === 1 ? '' : 's'}`;
+  return [
+    `Invalid map definition '${definition.name}' (${count}):`,
+    ...lines,
+  ].join('\n');
+}
@@ -0,0 +1,230 @@
+// Generating map definitions with varied terrain from seeded noise
+
+import { CellDefinition } from '../core/cell';
+import { HEX_DIRECTIONS, HexCoordinates, hexAdd } from '../core/coordinates';
+import {
+  FractalNoiseOptions,
+  createSimplexNoise,
+  createValueNoise,
+  fractalNoise,
+} from '../core/noise';
+import { Random } from '../core/random';
+import { hexToWorld } from '../rendering/hexLayout';
+import { MapDefinition } from './mapDefinition';
+
+/**
+ * The kind of noise terrain is drawn from: 'simplex' gives smooth, rounded
+ * landforms, and 'value' cheaper, blockier ones.
+ */
+export type TerrainNoise = 'simplex' | 'value';
+
+/**
+ * The character of the land: 'rolling' hills, long 'ridges' of high ground,
+ * or networks of low 'valleys' between wide uplands.
+ */
+export type TerrainRelief = 'rolling' | 'ridges' | 'valleys';
+
+export interface TerrainOptions<
+  CustomProps extends Record<string, unknown> = Record<string, never>,
+> extends FractalNoiseOptions {
+  /** The map's name. Defaults to 'Generated terrain'. */
+  name?: string;
+  /**
+   * Draws the noise; pass a seeded Random for a terrain you can generate
+   * again. Defaults to a new, unseeded Random.
+   */
+  random?: Random;
+  /** Defaults to 'simplex'. */
+  noise?: TerrainNoise;
+  /** Defaults to 'rolling'. */
+  relief?: TerrainRelief;
+  /**
+   * About how many world units apart the broadest hills are; one hex is
+   * about 1.7 units across. Defaults to 8.
+   */
+  scale?: number;
+  /**
+   * How many times to blend each height with its neighbors' after sampling,
+   * softening slopes and removing lone peaks and pits. Defaults to 1.
+   */
+  smoothing?: number;
+  /**
+   * The height, from 0 (the lowest hex) to 1 (the highest), below which hexes
+   * are impassable water. Defaults to 0.3; 0 gives no water.
+   */
+  waterLevel?: number;
+  /**
+   * The height, from 0 to 1, above which hexes are impassable mountains.
+   * Defaults to none. DefaultCellColorStrategy shows these as water, like any
+   * impassable hex.
+   */
+  mountainLevel?: number;
+  /** The elevation of the highest hex. Defaults to 3. */
+  maxElevation?: number;
+  /**
+   * Sets the cost of entering a land hex from its height, from 0 to 1.
+   * Defaults to 1 on low ground, 2 on hills and 3 on high ground.
+   */
+  movementCost?: (_height: number) => number;
+  /** Sets each hex's custom properties. Defaults to none. */
+  customProps?: (_height: number, _coordinates: HexCoordinates) => CustomProps;
+}
+
+/**
+ * Generates a map covering a shape with terrain drawn from noise. Each hex's
+ * height is sampled at its world position, so terrain flows smoothly across
+ * the board, then stretched so the lowest hex has height 0 and the highest 1.
+ *
+ * Heights become elevations up to maxElevation. Hexes below the water level
+ * are impassable and flattened to its elevation, and hexes above the mountain
+ * level, if given, are impassable too. With the default maxElevation of 3,
+ * DefaultCellColorStrategy shows the result as water, sand, grass, hills and
+ * mountains.
+ *
+ * @param shape - The hexes to cover, such as from hexagonShape
+ * @param options - How the terrain looks; all optional
+ * @returns A map definition to pass to loadMap
+ * @throws Error if scale is not positive, a level is outside 0 to 1, or
+ * octaves is not a positive integer
+ */
+export function generateTerrain<
+  CustomProps extends Record<string, unknown> = Record<string, never>,
+>(
+  shape: readonly HexCoordinates[],
+  options: TerrainOptions<CustomProps> = {}
+): MapDefinition<CustomProps> {
+  const scale = options.scale ?? 8;
+  const waterLevel = options.waterLevel ?? 0.3;
+  const mountainLevel = options.mountainLevel ?? Infinity;
+  const maxElevation = options.maxElevation ?? 3;
+  if (!(scale > 0)) {
+    throw new Error(`Terrain scale must be positive, got ${scale}`);
+  }
+  assertLevel('Water', waterLevel);
+  if (options.mountainLevel !== undefined) {
+    assertLevel('Mountain', mountainLevel);
+  }
+
+  const random = options.random ?? new Random();
+  const base =
+    options.noise === 'value'
+      ? createValueNoise(random)
+      : createSimplexNoise(random);
+  const noise = fractalNoise(base, options);
+  const relief = options.relief ?? 'rolling';
+
+  const heights = new Map<string, number>();
+  shape.forEach((coordinates) => {
+    const position = hexToWorld(coordinates);
+    const height = noise(position.x / scale, position.z / scale);
+    heights.set(hexKey(coordinates), applyRelief(height, relief));
+  });
+
+  for (let pass = 0; pass < (options.smoothing ?? 1); pass++) {
+    smooth(heights);
+  }
+  normalize(heights);
+
+  const movementCost = options.movementCost ?? defaultMovementCost;
+  const cells = [...heights].map(
+    ([key, height]): CellDefinition<CustomProps> => {
+      const [q, r] = key.split(',').map(Number);
+      const coordinates = { q, r, s: -q - r };
+      const isWater = height < waterLevel;
+      const landHeight = Math.max(height, waterLevel);
+      return {
+        q,
+        r,
+        elevation: round(landHeight * maxElevation),
+        movementCost: isWater
+          ? 1
+          : movementCost((height - waterLevel) / (1 - waterLevel || 1)),
+        isImpassable: isWater || height > mountainLevel,
+        customProps:
+          options.customProps?.(height, coordinates) ?? ({} as CustomProps),
+      };
+    }
+  );
+
+  return {
+    name: options.name ?? 'Generated terrain',
+    defaults: {
+      elevation: 0,
+      movementCost: 1,
+      isImpassable: false,
+      customProps: {} as CustomProps,
+    },
+    cells,
+  };
+}
+
+function assertLevel(label: string, level: number): void {
+  if (!(level >= 0 && level <= 1)) {
+    throw new Error(`${label} level must be from 0 to 1, got ${level}`);
+  }
+}
+
+function hexKey({ q, r }: HexCoordinates): string {
+  return `${q},${r}`;
+}
+
+/**
+ * Reshapes noise from 0 to 1: ridges peak where the noise crosses its
+ * midpoint, and valleys are the same lines carved downwards.
+ */
+function applyRelief(height: number, relief: TerrainRelief): number {
+  switch (relief) {
+    case 'ridges':
+      return 1 - Math.abs(2 * height - 1);
+    case 'valleys':
+      return Math.abs(2 * height - 1);
+    default:
+      return height;
+  }
+}
+
+/**
+ * Blends each height halfway towards the average of its neighbors in the map.
+ */
+function smooth(heights: Map<string, number>): void {
+  const smoothed = new Map<string, number>();
+  heights.forEach((height, key) => {
+    const [q, r] = key.split(',').map(Number);
+    const neighbors = HEX_DIRECTIONS.map((direction) =>
+      heights.get(hexKey(hexAdd({ q, r, s: -q - r }, direction)))
+    ).filter((neighbor): neighbor is number => neighbor !== undefined);
+    if (neighbors.length === 0) {
+      smoothed.set(key, height);
+      return;
+    }
+    const average =
+      neighbors.reduce((sum, neighbor) => sum + neighbor, 0) / neighbors.length;
+    smoothed.set(key, (height + average) / 2);
+  });
+  smoothed.forEach((height, key) => heights.set(key, height));
+}
+
+/**
+ * Stretches heights so the lowest is 0 and the highest 1. A flat map is set
+ * to 0.5 throughout.
+ */
+function normalize(heights: Map<string, number>): void {
+  let min = Infinity;
+  let max = -Infinity;
+  heights.forEach((height) => {
+    min = Math.min(min, height);
+    max = Math.max(max, height);
+  });
+  const range = max - min;
+  heights.forEach((height, key) => {
+    heights.set(key, range > 0 ? (height - min) / range : 0.5);
+  });
+}
+
+function defaultMovementCost(landHeight: number): number {
+  return Math.min(3, 1 + Math.floor(landHeight * 3));
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -18,6 +18,20 @@ import {
 import { CellGroupHighlightStrategy } from './cellGroupHighlightStrategy';
 import { BoundaryLineStrategy } from './boundaryLineStrategy';
 import { EntityRenderer } from './entityRenderer';
+import { Animator } from '../animation/animator';
+import { CellVisibility, FogOfWar } from '../core/fogOfWar';
+
+/**
+ * How cells hidden by fog of war are drawn.
+ */
+export interface FogOfWarStyle {
+  /** Whether unexplored cells are hidden entirely. Defaults to true. */
+  hideUnexplored?: boolean;
+  /** Color of unexplored cells when they are not hidden. Defaults to black. */
+  unexploredColor?: number;
+  /** Brightness of explored cells that are out of sight, from 0 to 1. Defaults to 0.4. */
+  exploredBrightness?: number;
+}
 
 export class BoardRenderer<
   CustomProps extends Record<string, unknown> = Record<string, never>,
@@ -33,7 +47,12 @@ export class BoardRenderer<
   private modelHighlightStrategy: ModelHighlightStrategy;
   private cellGroupHighlightStrategy: CellGroupHighlightStrategy;
   private activeGroupHighlights: Map<string, THREE.Object3D> = new Map();
+  private activePaths: Map<string, THREE.Line> = new Map();
   private entityRenderer?: EntityRenderer<CustomProps>;
+  private animator: Animator;
+  private fogOfWar?: FogOfWar<CustomProps>;
+  private fogOfWarPlayerId?: string;
+  private fogOfWarStyle: FogOfWarStyle = {};
 
   /**
    * Creates a new BoardRenderer for rendering hex grids in 3D.
@@ -42,14 +61,17 @@ export class BoardRenderer<
    * @param colorStrategy - Optional color strategy for cell coloring. Defaults to DefaultCellColorStrategy
    * @param modelHighlightStrategy - Optional model highlight strategy for visual effects. Defaults to DefaultModelHighlightStrategy
    * @param cellGroupHighlightStrategy - Optional cell group highlight strategy. Defaults to BoundaryLineStrategy
+   * @param animator - Optional animator updated on every render. Defaults to one on the system clock
    */
   constructor(
     hexGrid: HexGrid<CustomProps>,
     colorStrategy?: CellColorStrategy<CustomProps>,
     modelHighlightStrategy?: ModelHighlightStrategy,
-    cellGroupHighlightStrategy?: CellGroupHighlightStrategy
+    cellGroupHighlightStrategy?: CellGroupHighlightStrategy,
+    animator?: Animator
   ) {
     this.hexGrid = hexGrid;
+    this.animator = animator || new Animator();
     this.colorStrategy = colorStrategy || new DefaultCellColorStrategy();
     this.modelHighlightStrategy =
       modelHighlightStrategy || new DefaultModelHighlightStrategy();
@@ -195,6 +217,10 @@ export class BoardRenderer<
 
     this.hexMeshes.set(key, mesh);
     this.scene.add(mesh);
+
+    if (this.fogOfWar) {
+      this.applyFogOfWar(mesh, cell);
+    }
   }
 
   /**
@@ -269,6 +295,14 @@ export class BoardRenderer<
     return this.controls;
   }
 
+  /**
+   * Gets the animator advanced on every render, for tweening highlights,
+   * entity models, the camera or anything else drawn by this renderer.
+   */
+  getAnimator(): Animator {
+    return this.animator;
+  }
+
   /**
    * Sets the color strategy used for rendering cell colors.
    *
@@ -426,6 +460,109 @@ export class BoardRenderer<
     this.activeGroupHighlights.clear();
   }
 
+  /**
+   * Draws a route as a line over the tops of its cells, such as the path
+   * preview while an entity is dragged.
+   * @param pathId - Unique identifier for this path; replaces any path drawn with it
+   * @param cells - The cells along the route, in order
+   * @param color - Color of the line. Defaults to yellow
+   */
+  showPath(pathId: string, cells: Cell<CustomProps>[], color = 0xffff00): void {
+    this.removePath(pathId);
+
+    // Float the line just above each tile so it is not hidden inside it
+    const points = cells.map((cell) => {
+      const worldPos = hexToWorld(cell);
+      return new THREE.Vector3(worldPos.x, cell.elevation + 0.05, worldPos.z);
+    });
+    const geometry = new THREE.BufferGeometry().setFromPoints(points);
+    const material = new THREE.LineBasicMaterial({ color });
+    const line = new THREE.Line(geometry, material);
+
+    this.scene.add(line);
+    this.activePaths.set(pathId, line);
+  }
+
+  /**
+   * Removes a path drawn with showPath.
+   * @param pathId - Unique identifier of the path to remove
+   */
+  removePath(pathId: string): void {
+    const line = this.activePaths.get(pathId);
+    if (line) {
+      this.scene.remove(line);
+      line.geometry.dispose();
+      (line.material as THREE.Material).dispose();
+      this.activePaths.delete(pathId);
+    }
+  }
+
+  /**
+   * Shows the board as a single player sees it through the fog of war.
+   * Unexplored cells are hidden and explored cells out of sight are darkened,
+   * as configured by the style. Pass undefined to show every cell again.
+   *
+   * @param fogOfWar - The fog of war state to draw, or undefined to clear it
+   * @param playerId - The player whose view is shown
+   * @param style - Optional overrides for how fogged cells are drawn
+   */
+  setFogOfWar(
+    fogOfWar: FogOfWar<CustomProps> | undefined,
+    playerId?: string,
+    style: FogOfWarStyle = {}
+  ): void {
+    this.fogOfWar = fogOfWar;
+    this.fogOfWarPlayerId = playerId;
+    this.fogOfWarStyle = style;
+    this.refreshFogOfWar();
+  }
+
+  /**
+   * Redraws every cell for the current fog of war state. Call this after
+   * updating the FogOfWar passed to setFogOfWar.
+   */
+  refreshFogOfWar(): void {
+    for (const mesh of this.hexMeshes.values()) {
+      const cell = this.hexGrid.getCellByCoords(mesh.userData.coordinates);
+      if (cell) {
+        this.applyFogOfWar(mesh, cell);
+      }
+    }
+  }
+
+  /**
+   * Shows, hides or darkens a cell mesh for the current fog of war state.
+   *
+   * @param mesh - The mesh of the cell
+   * @param cell - The cell the mesh draws
+   */
+  private applyFogOfWar(mesh: THREE.Mesh, cell: Cell<CustomProps>): void {
+    const {
+      hideUnexplored = true,
+      unexploredColor = 0x000000,
+      exploredBrightness = 0.4,
+    } = this.fogOfWarStyle;
+    const color = (mesh.material as THREE.MeshLambertMaterial).color;
+
+    const visibility =
+      this.fogOfWar && this.fogOfWarPlayerId !== undefined
+        ? this.fogOfWar.getCellVisibility(this.fogOfWarPlayerId, cell)
+        : CellVisibility.Visible;
+
+    mesh.visible = !(
+      visibility === CellVisibility.Unexplored && hideUnexplored
+    );
+
+    if (visibility === CellVisibility.Unexplored) {
+      color.setHex(unexploredColor);
+    } else {
+      color.setHex(this.getCellColor(cell));
+      if (visibility === CellVisibility.Explored) {
+        color.multiplyScalar(exploredBrightness);
+      }
+    }
+  }
+
   /**
    * Sets the EntityRenderer for updating entity models during render.
    *
@@ -439,6 +576,8 @@ export class BoardRenderer<
    * Renders the current frame.
    */
   async render(): Promise<void> {
+    // Advance animations first so this frame draws their latest state
+    this.animator.update();
     this.controls.update();
 
     // Update entity models if EntityRenderer is available
@@ -481,6 +620,14 @@ export class BoardRenderer<
       this.groundPlane = null;
     }
 
+    // Remove any paths still drawn
+    for (const pathId of [...this.activePaths.keys()]) {
+      this.removePath(pathId);
+    }
+
+    // Stop animations, which may refer to disposed objects
+    this.animator.clear();
+
     // Dispose controls
     this.controls.dispose();
 
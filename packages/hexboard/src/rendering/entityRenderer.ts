@@ -1,7 +1,32 @@
 import * as THREE from 'three';
-import { EntityManager } from '../core/entity';
+import { Entity, EntityManager } from '../core/entity';
 import { ModelRegistry } from './modelRegistry';
 import { hexToWorld } from './hexLayout';
+import { AnimationHandle, Animator } from '../animation/animator';
+import { EasingFunction } from '../animation/easing';
+import { Tween } from '../animation/tween';
+
+/**
+ * How an entity's model walks along a route.
+ */
+export interface MovementAnimationOptions {
+  /** Hexes walked per second. Defaults to the entity's movementSpeed. */
+  speed?: number;
+  /** Shapes progress along the whole route. Defaults to Easing.linear. */
+  easing?: EasingFunction;
+  /** How high, in world units, the model hops on steps that change elevation. Defaults to 0.5. */
+  hopHeight?: number;
+  /** Whether the model turns to face the direction of travel. Defaults to true. */
+  faceDirection?: boolean;
+}
+
+type CellPosition = { q: number; r: number; s: number; elevation: number };
+
+interface WorldPoint {
+  x: number;
+  y: number;
+  z: number;
+}
 
 /**
  * Manages the 3D rendering of entities in the hexagonal grid.
@@ -15,21 +40,27 @@ export class EntityRenderer<
   private scene: THREE.Scene;
   private modelRegistry: ModelRegistry;
   private entityModels = new Map<string, THREE.Object3D>();
+  private visibilityFilter?: (_entity: Entity<CustomProps>) => boolean;
+  private animator: Animator;
+  private walks = new Map<string, AnimationHandle>();
 
   /**
    * Creates a new EntityRenderer.
    * @param entityManager - The entity manager to observe for entity changes
    * @param scene - The THREE.js scene to add/remove models from
    * @param modelRegistry - Registry for creating 3D model instances
+   * @param animator - Plays movement animations; whoever owns it updates it each frame
    */
   constructor(
     entityManager: EntityManager<CustomProps>,
     scene: THREE.Scene,
-    modelRegistry: ModelRegistry
+    modelRegistry: ModelRegistry,
+    animator: Animator = new Animator()
   ) {
     this.entityManager = entityManager;
     this.scene = scene;
     this.modelRegistry = modelRegistry;
+    this.animator = animator;
   }
 
   /**
@@ -37,7 +68,8 @@ export class EntityRenderer<
    * This method should be called in the main render loop.
    * It handles:
    * - Creating models for new entities with modelKey
-   * - Updating positions of existing entity models
+   * - Updating positions of existing entity models, except those walking
+   *   along a route
    * - Removing models for entities that no longer exist
    */
   async update(): Promise<void> {
@@ -49,7 +81,10 @@ export class EntityRenderer<
       if (this.entityModels.has(entity.id) && entity.modelKey) {
         // Entity already has a model, update its position
         const model = this.entityModels.get(entity.id)!;
-        this.setEntityPosition(model, entity.cellPosition, entity.modelKey);
+        if (!this.isEntityAnimating(entity.id)) {
+          this.setEntityPosition(model, entity.cellPosition, entity.modelKey);
+        }
+        model.visible = this.isEntityShown(entity);
       } else if (entity.modelKey) {
         // New entity with a model key, create and add its model
         try {
@@ -59,8 +94,12 @@ export class EntityRenderer<
           this.entityModels.set(entity.id, model);
           this.scene.add(model);
 
+          // Tag the model so InputHandler can tell which entity was picked
+          model.userData.entityId = entity.id;
+
           // Position the model so its bottom sits on the tile's top surface
           this.setEntityPosition(model, entity.cellPosition, entity.modelKey);
+          model.visible = this.isEntityShown(entity);
         } catch (error) {
           // Handle model creation errors gracefully
           console.warn(
@@ -79,22 +118,118 @@ export class EntityRenderer<
       const model = this.entityModels.get(entityId)!;
       this.scene.remove(model);
       this.entityModels.delete(entityId);
+      this.stopWalking(entityId);
     });
   }
 
+  /**
+   * Walks an entity's model along a route, one hex after another, hopping on
+   * steps that change elevation. The walk is played on the renderer's
+   * Animator, and the entity's own position is not changed: move the entity
+   * to the end of the route first, so the model ends up where the entity is.
+   *
+   * Starting another walk for the entity ends this one early, and so do
+   * removing the entity and disposing of the renderer; the promise resolves
+   * either way, so turns can be sequenced on it.
+   *
+   * @param entityId - The entity whose model to move
+   * @param route - The cells to walk through, starting with the cell the model is on
+   * @param options - Speed, easing, hop height and facing of the walk
+   * @returns A promise that resolves when the model reaches the end of the route.
+   * It resolves at once if the entity has no model, the route has fewer than
+   * two cells or the speed is not positive.
+   */
+  animateEntityAlongPath(
+    entityId: string,
+    route: CellPosition[],
+    options: MovementAnimationOptions = {}
+  ): Promise<void> {
+    this.stopWalking(entityId);
+
+    const entity = this.entityManager.getEntity(entityId);
+    const model = this.entityModels.get(entityId);
+    const speed = options.speed ?? entity?.movementSpeed ?? 1;
+    if (!entity?.modelKey || !model || route.length < 2 || !(speed > 0)) {
+      return Promise.resolve();
+    }
+
+    const modelKey = entity.modelKey;
+    const points = route.map((cell) => this.getModelPosition(cell, modelKey));
+    const hopHeight = options.hopHeight ?? 0.5;
+    const faceDirection = options.faceDirection ?? true;
+    const end = route[route.length - 1];
+    // Picking the model resolves to where the entity is going, not where it is
+    model.userData.coordinates = { q: end.q, r: end.r, s: end.s };
+
+    // Tween the number of steps walked; easing applies to the whole route
+    const walk = new Tween(
+      { steps: 0 },
+      { steps: points.length - 1 },
+      {
+        duration: ((points.length - 1) / speed) * 1000,
+        easing: options.easing,
+        onUpdate: ({ steps }): void =>
+          placeAlongRoute(model, points, steps, hopHeight, faceDirection),
+      }
+    );
+    const handle = this.animator.play(walk);
+    this.walks.set(entityId, handle);
+
+    return handle.finished.then(() => {
+      if (this.walks.get(entityId) === handle) {
+        this.walks.delete(entityId);
+      }
+    });
+  }
+
+  /**
+   * Checks whether an entity's model is walking along a route.
+   * @param entityId - The ID of the entity
+   */
+  isEntityAnimating(entityId: string): boolean {
+    return this.walks.get(entityId)?.isActive() ?? false;
+  }
+
+  /**
+   * Ends an entity's walk early, if it is walking.
+   */
+  private stopWalking(entityId: string): void {
+    this.walks.get(entityId)?.cancel();
+    this.walks.delete(entityId);
+  }
+
   /**
    * Positions an entity model so its bottom sits on the top surface of the tile.
    * This ensures entities appear to be standing on the hex tiles rather than floating
-   * or being buried in them.
+   * or being buried in them. The model's userData records the cell's coordinates,
+   * so picking the model resolves to the cell the entity stands on.
    * @param model - The THREE.Object3D representing the entity
    * @param cellPosition - The hex coordinates and elevation of the cell
    * @param modelKey - The model key to look up cached metadata
    */
   private setEntityPosition(
     model: THREE.Object3D,
-    cellPosition: { q: number; r: number; s: number; elevation: number },
+    cellPosition: CellPosition,
     modelKey: string
   ): void {
+    const position = this.getModelPosition(cellPosition, modelKey);
+    model.position.set(position.x, position.y, position.z);
+    model.userData.coordinates = {
+      q: cellPosition.q,
+      r: cellPosition.r,
+      s: cellPosition.s,
+    };
+  }
+
+  /**
+   * Finds where a model stands on a cell, with its bottom on the tile's top surface.
+   * @param cellPosition - The hex coordinates and elevation of the cell
+   * @param modelKey - The model key to look up cached metadata
+   */
+  private getModelPosition(
+    cellPosition: CellPosition,
+    modelKey: string
+  ): WorldPoint {
     const worldPos = hexToWorld(cellPosition);
 
     // Calculate the tile's top surface height
@@ -110,7 +245,28 @@ export class EntityRenderer<
     // We subtract the model's bottom offset because it might be negative
     const entityY = tileTopHeight - modelBottomOffset;
 
-    model.position.set(worldPos.x, entityY, worldPos.z);
+    return { x: worldPos.x, y: entityY, z: worldPos.z };
+  }
+
+  /**
+   * Sets a filter deciding which entity models are shown, for example to hide
+   * entities under the fog of war. Hidden models stay in the scene so they
+   * can be shown again cheaply. The filter is applied on the next update.
+   * @param filter - Returns true for entities to show, or undefined to show all
+   */
+  setVisibilityFilter(
+    filter: ((_entity: Entity<CustomProps>) => boolean) | undefined
+  ): void {
+    this.visibilityFilter = filter;
+  }
+
+  /**
+   * Checks whether an entity's model should be shown.
+   * @param entity - The entity to check
+   * @returns True unless the visibility filter rejects the entity
+   */
+  private isEntityShown(entity: Entity<CustomProps>): boolean {
+    return this.visibilityFilter ? this.visibilityFilter(entity) : true;
   }
 
   /**
@@ -132,7 +288,42 @@ export class EntityRenderer<
       this.scene.remove(model);
     });
 
+    // End any walks so nothing waits on them forever
+    [...this.walks.keys()].forEach((entityId) => this.stopWalking(entityId));
+
     // Clear the entity models map
     this.entityModels.clear();
   }
 }
+
+/**
+ * Places a model part of the way along a route, arcing over steps that
+ * change elevation.
+ * @param steps - How many steps along the route the model is, fractions included
+ */
+function placeAlongRoute(
+  model: THREE.Object3D,
+  points: WorldPoint[],
+  steps: number,
+  hopHeight: number,
+  faceDirection: boolean
+): void {
+  const last = points.length - 1;
+  const progress = Math.min(Math.max(steps, 0), last);
+  const index = Math.min(Math.floor(progress), last - 1);
+  const from = points[index];
+  const to = points[index + 1];
+  const t = progress - index;
+
+  // A step between different elevations arcs over the edge of the taller tile
+  const hop = from.y === to.y ? 0 : hopHeight * 4 * t * (1 - t);
+  model.position.set(
+    from.x + (to.x - from.x) * t,
+    from.y + (to.y - from.y) * t + hop,
+    from.z + (to.z - from.z) * t
+  );
+  if (faceDirection) {
+    // Models face +Z, so turn +Z toward the next cell
+    model.rotation.y = Math.atan2(to.x - from.x, to.z - from.z);
+  }
+}
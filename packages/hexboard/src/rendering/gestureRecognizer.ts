@@ -0,0 +1,205 @@
+/**
+ * Where a gesture happened, in the same client coordinates as the pointer
+ * events that made it.
+ */
+export interface GesturePoint {
+  clientX: number;
+  clientY: number;
+}
+
+export interface GestureOptions {
+  /** How far, in pixels, a pointer may move and still count as a tap. Defaults to 10. */
+  tapTolerance?: number;
+  /** How long, in milliseconds, a pointer must stay down for a long press. Defaults to 500. */
+  longPressDelay?: number;
+  /** The longest gap, in milliseconds, between the taps of a double tap. Defaults to 300. */
+  doubleTapDelay?: number;
+  /** How far apart, in pixels, the taps of a double tap may be. Defaults to 30. */
+  doubleTapDistance?: number;
+}
+
+type GestureState = 'pending' | 'dragging' | 'longPressed' | 'cancelled';
+
+interface PrimaryPointer {
+  pointerId: number;
+  start: GesturePoint;
+  state: GestureState;
+}
+
+/**
+ * Turns raw pointer events into tap, double-tap, long-press and drag
+ * gestures, for mouse, touch and pen alike.
+ *
+ * Only a single pointer pressed with the main button makes gestures. As soon
+ * as a second pointer goes down, as in a pinch or a two-finger pan, the
+ * gesture in progress is abandoned, and no gesture starts again until every
+ * pointer is up. Pressing another mouse button, as when panning the camera
+ * with the right button, does not make a gesture either.
+ *
+ * A pointer that moves further than the tap tolerance turns into a drag, so a
+ * pan never ends in a tap. A double tap is reported after the tap that
+ * completes it, so single taps are never delayed.
+ */
+export class GestureRecognizer {
+  public onTap?: (point: GesturePoint) => void;
+  public onDoubleTap?: (point: GesturePoint) => void;
+  public onLongPress?: (point: GesturePoint) => void;
+  public onDragStart?: (point: GesturePoint) => void;
+  public onDrag?: (point: GesturePoint) => void;
+  public onDragEnd?: (point: GesturePoint) => void;
+  /** The drag in progress was abandoned, for example by a second pointer */
+  public onDragCancel?: () => void;
+
+  private readonly tapTolerance: number;
+  private readonly longPressDelay: number;
+  private readonly doubleTapDelay: number;
+  private readonly doubleTapDistance: number;
+
+  private activePointers = new Set<number>();
+  private primary: PrimaryPointer | null = null;
+  private longPressTimer?: ReturnType<typeof setTimeout>;
+  private lastTap?: { point: GesturePoint; time: number };
+
+  constructor(options: GestureOptions = {}) {
+    this.tapTolerance = options.tapTolerance ?? 10;
+    this.longPressDelay = options.longPressDelay ?? 500;
+    this.doubleTapDelay = options.doubleTapDelay ?? 300;
+    this.doubleTapDistance = options.doubleTapDistance ?? 30;
+  }
+
+  pointerDown(event: PointerEvent): void {
+    this.activePointers.add(event.pointerId);
+
+    if (this.activePointers.size > 1) {
+      this.abandonGesture();
+      return;
+    }
+    if (event.button !== 0) {
+      return;
+    }
+
+    const start = toPoint(event);
+    this.primary = { pointerId: event.pointerId, start, state: 'pending' };
+    this.longPressTimer = setTimeout(() => {
+      if (this.primary?.state === 'pending') {
+        this.primary.state = 'longPressed';
+        this.onLongPress?.(start);
+      }
+    }, this.longPressDelay);
+  }
+
+  pointerMove(event: PointerEvent): void {
+    const primary = this.getPrimary(event);
+    if (!primary) {
+      return;
+    }
+
+    const point = toPoint(event);
+    if (
+      primary.state === 'pending' &&
+      distance(primary.start, point) > this.tapTolerance
+    ) {
+      this.clearLongPressTimer();
+      primary.state = 'dragging';
+      this.onDragStart?.(primary.start);
+    }
+    if (primary.state === 'dragging') {
+      this.onDrag?.(point);
+    }
+  }
+
+  pointerUp(event: PointerEvent): void {
+    this.activePointers.delete(event.pointerId);
+    const primary = this.getPrimary(event);
+    if (this.primary?.pointerId === event.pointerId) {
+      this.clearLongPressTimer();
+      this.primary = null;
+    }
+    if (!primary) {
+      return;
+    }
+
+    const point = toPoint(event);
+
+    if (primary.state === 'dragging') {
+      this.onDragEnd?.(point);
+    } else if (primary.state === 'pending') {
+      this.recognizeTap(point);
+    }
+  }
+
+  /**
+   * Handles a pointer the browser took over, for example to scroll, or that
+   * left the page. Any gesture it was making is abandoned.
+   */
+  pointerCancel(event: PointerEvent): void {
+    this.activePointers.delete(event.pointerId);
+    if (this.primary?.pointerId === event.pointerId) {
+      this.abandonGesture();
+      this.primary = null;
+    }
+  }
+
+  /**
+   * Forgets every pointer and stops any pending long press.
+   */
+  reset(): void {
+    this.clearLongPressTimer();
+    this.activePointers.clear();
+    this.primary = null;
+    this.lastTap = undefined;
+  }
+
+  private recognizeTap(point: GesturePoint): void {
+    const now = Date.now();
+    const isDoubleTap =
+      this.lastTap !== undefined &&
+      now - this.lastTap.time <= this.doubleTapDelay &&
+      distance(this.lastTap.point, point) <= this.doubleTapDistance;
+
+    // A third tap starts a new pair rather than making another double tap
+    this.lastTap = isDoubleTap ? undefined : { point, time: now };
+
+    this.onTap?.(point);
+    if (isDoubleTap) {
+      this.onDoubleTap?.(point);
+    }
+  }
+
+  /**
+   * Stops the gesture in progress. Its pointer stays tracked but makes no
+   * gesture until it is released.
+   */
+  private abandonGesture(): void {
+    this.clearLongPressTimer();
+    if (!this.primary) {
+      return;
+    }
+    if (this.primary.state === 'dragging') {
+      this.onDragCancel?.();
+    }
+    this.primary.state = 'cancelled';
+  }
+
+  private getPrimary(event: PointerEvent): PrimaryPointer | null {
+    return this.primary?.pointerId === event.pointerId &&
+      this.primary.state !== 'cancelled'
+      ? this.primary
+      : null;
+  }
+
+  private clearLongPressTimer(): void {
+    if (this.longPressTimer !== undefined) {
+      clearTimeout(this.longPressTimer);
+      this.longPressTimer = undefined;
+    }
+  }
+}
+
+function toPoint(event: PointerEvent): GesturePoint {
+  return { clientX: event.clientX, clientY: event.clientY };
+}
+
+function distance(a: GesturePoint, b: GesturePoint): number {
+  return Math.hypot(a.clientX - b.clientX, a.clientY - b.clientY);
+}
@@ -1,5 +1,5 @@
 import * as THREE from 'three';
-import { HexCoordinates } from '../core/coordinates';
+import { HexCoordinates, roundHexCoordinates } from '../core/coordinates';
 
 /**
  * Size constants and layout parameters for flat-top hexagon layout.
@@ -35,30 +35,6 @@ export function worldToHex(worldPos: THREE.Vector3): HexCoordinates {
   return roundHexCoordinates({ q, r, s });
 }
 
-/**
- * Rounds fractional hex coordinates to the nearest valid integer coordinates.
- * Exposed for testing and advanced use cases.
- */
-export function roundHexCoordinates({
-  q,
-  r,
-  s,
-}: HexCoordinates): HexCoordinates {
-  let rq = Math.round(q);
-  let rr = Math.round(r);
-  let rs = Math.round(s);
-
-  const q_diff = Math.abs(rq - q);
-  const r_diff = Math.abs(rr - r);
-  const s_diff = Math.abs(rs - s);
-
-  if (q_diff > r_diff && q_diff > s_diff) {
-    rq = -rr - rs;
-  } else if (r_diff > s_diff) {
-    rr = -rq - rs;
-  } else {
-    rs = -rq - rr;
-  }
-
-  return { q: rq, r: rr, s: rs };
-}
+// Rounding lives with the rest of the coordinate math in core; re-exported here
+// for existing consumers of the layout module.
+export { roundHexCoordinates };
@@ -1,7 +1,7 @@
 // Rendering module exports
 // This file exports all rendering-related types and classes
 
-export { BoardRenderer } from './boardRenderer';
+export { BoardRenderer, FogOfWarStyle } from './boardRenderer';
 export {
   CellColorStrategy,
   DefaultCellColorStrategy,
@@ -1,5 +1,27 @@
 import * as THREE from 'three';
-import { HexCoordinates } from '../core/coordinates';
+import { HexCoordinates, hexEquals } from '../core/coordinates';
+import { SelectionMode } from '../core/selection';
+import {
+  GestureOptions,
+  GesturePoint,
+  GestureRecognizer,
+} from './gestureRecognizer';
+import {
+  DEFAULT_KEY_BINDINGS,
+  KeyAction,
+  KeyBindings,
+  findKeyAction,
+} from './keyBindings';
+
+/**
+ * What lies under the pointer: the cell, and the entity whose model was hit,
+ * if any. When an entity model is hit, the cell is the one the entity stands
+ * on rather than whatever tile happens to be behind the model.
+ */
+interface PickResult {
+  coordinates: HexCoordinates;
+  entityId?: string;
+}
 
 export class InputHandler<_T extends object> {
   private renderer: THREE.WebGLRenderer;
@@ -7,29 +29,80 @@ export class InputHandler<_T extends object> {
   private scene: THREE.Scene;
   private raycaster: THREE.Raycaster;
   private mouse: THREE.Vector2;
+  private gestures: GestureRecognizer;
+  private pressPick: PickResult | null = null;
+  private selectionDrag: {
+    mode: SelectionMode;
+    points: GesturePoint[];
+  } | null = null;
   private isInitialized = false;
 
-  // Event callbacks that emit hex coordinates
+  // Event callbacks that emit hex coordinates. A click is a tap of the mouse,
+  // a finger or a pen; hover is only tracked for mice and pens.
   public onCellClick?: (coords: HexCoordinates) => void;
   public onCellHover?: (coords: HexCoordinates | null) => void;
 
+  // Gesture callbacks, with the entity whose model was under the pointer
+  public onCellDoubleTap?: (coords: HexCoordinates, entityId?: string) => void;
+  public onCellLongPress?: (coords: HexCoordinates, entityId?: string) => void;
+
+  // Drag callbacks. Coordinates are null while the pointer is off the board.
+  // A drag is also how the camera is panned, so it never produces a click.
+  public onDragStart?: (
+    coords: HexCoordinates | null,
+    entityId?: string
+  ) => void;
+  public onDrag?: (coords: HexCoordinates | null) => void;
+  public onDragEnd?: (coords: HexCoordinates | null) => void;
+  public onDragCancel?: () => void;
+
+  // Selection callbacks. Dragging with Shift held draws a selection shape
+  // instead: Ctrl or Meta adds to the selection and Alt subtracts from it.
+  // Points are client coordinates from the press onwards.
+  public onSelectionStart?: () => void;
+  public onSelectionChange?: (points: GesturePoint[]) => void;
+  public onSelectionEnd?: (points: GesturePoint[], mode: SelectionMode) => void;
+  public onSelectionCancel?: () => void;
+
+  // Event callbacks for entity models, called after the matching cell callback
+  public onEntityClick?: (entityId: string, coords: HexCoordinates) => void;
+  public onEntityHover?: (entityId: string | null) => void;
+
+  // Event callback for key presses bound to an action
+  public onKeyAction?: (action: KeyAction) => void;
+  private keyBindings: KeyBindings = { ...DEFAULT_KEY_BINDINGS };
+
   // Phase 2: Hover state tracking
   private hoveredHex: HexCoordinates | null = null;
+  private hoveredEntityId: string | null = null;
 
   // Event handler references for cleanup
-  private boundClickHandler?: (event: MouseEvent) => void;
-  private boundMouseMoveHandler?: (event: MouseEvent) => void;
+  private boundPointerDownHandler?: (event: PointerEvent) => void;
+  private boundPointerMoveHandler?: (event: PointerEvent) => void;
+  private boundPointerUpHandler?: (event: PointerEvent) => void;
+  private boundPointerCancelHandler?: (event: PointerEvent) => void;
+  private boundKeyDownHandler?: (event: KeyboardEvent) => void;
 
   constructor(
     renderer: THREE.WebGLRenderer,
     camera: THREE.PerspectiveCamera,
-    scene: THREE.Scene
+    scene: THREE.Scene,
+    gestureOptions?: GestureOptions
   ) {
     this.renderer = renderer;
     this.camera = camera;
     this.scene = scene;
     this.raycaster = new THREE.Raycaster();
     this.mouse = new THREE.Vector2();
+
+    this.gestures = new GestureRecognizer(gestureOptions);
+    this.gestures.onTap = this.handleTap.bind(this);
+    this.gestures.onDoubleTap = this.handleDoubleTap.bind(this);
+    this.gestures.onLongPress = this.handleLongPress.bind(this);
+    this.gestures.onDragStart = this.handleDragStart.bind(this);
+    this.gestures.onDrag = this.handleDrag.bind(this);
+    this.gestures.onDragEnd = this.handleDragEnd.bind(this);
+    this.gestures.onDragCancel = this.handleDragCancel.bind(this);
   }
 
   public initialize(): void {
@@ -40,11 +113,32 @@ export class InputHandler<_T extends object> {
     const canvas = this.renderer.domElement;
 
     // Create bound handlers for proper cleanup
-    this.boundClickHandler = this.handleClick.bind(this);
-    this.boundMouseMoveHandler = this.handleMouseMove.bind(this);
+    this.boundPointerDownHandler = this.handlePointerDown.bind(this);
+    this.boundPointerMoveHandler = this.handlePointerMove.bind(this);
+    this.boundPointerUpHandler = this.handlePointerUp.bind(this);
+    this.boundPointerCancelHandler = this.handlePointerCancel.bind(this);
+    this.boundKeyDownHandler = this.handleKeyDown.bind(this);
+
+    canvas.addEventListener('pointerdown', this.boundPointerDownHandler);
+    canvas.addEventListener('pointermove', this.boundPointerMoveHandler);
+    canvas.addEventListener('pointerup', this.boundPointerUpHandler);
+    canvas.addEventListener('pointercancel', this.boundPointerCancelHandler);
+    // Losing capture without a pointerup, as when the canvas is removed from
+    // the page mid-gesture, would otherwise leave the pointer held forever
+    canvas.addEventListener(
+      'lostpointercapture',
+      this.boundPointerCancelHandler
+    );
+    canvas.addEventListener('keydown', this.boundKeyDownHandler);
 
-    canvas.addEventListener('click', this.boundClickHandler);
-    canvas.addEventListener('mousemove', this.boundMouseMoveHandler);
+    // Keep the browser from scrolling or zooming the page on touch, so that
+    // pointer events keep arriving during gestures
+    canvas.style.touchAction = 'none';
+
+    // The canvas needs to be focusable to receive key presses
+    if (!canvas.hasAttribute('tabindex')) {
+      canvas.tabIndex = 0;
+    }
 
     this.isInitialized = true;
   }
@@ -56,26 +150,93 @@ export class InputHandler<_T extends object> {
 
     const canvas = this.renderer.domElement;
 
-    if (this.boundClickHandler) {
-      canvas.removeEventListener('click', this.boundClickHandler);
+    if (this.boundPointerDownHandler) {
+      canvas.removeEventListener('pointerdown', this.boundPointerDownHandler);
+    }
+
+    if (this.boundPointerMoveHandler) {
+      canvas.removeEventListener('pointermove', this.boundPointerMoveHandler);
     }
 
-    if (this.boundMouseMoveHandler) {
-      canvas.removeEventListener('mousemove', this.boundMouseMoveHandler);
+    if (this.boundPointerUpHandler) {
+      canvas.removeEventListener('pointerup', this.boundPointerUpHandler);
     }
 
-    this.boundClickHandler = undefined;
-    this.boundMouseMoveHandler = undefined;
+    if (this.boundPointerCancelHandler) {
+      canvas.removeEventListener(
+        'pointercancel',
+        this.boundPointerCancelHandler
+      );
+      canvas.removeEventListener(
+        'lostpointercapture',
+        this.boundPointerCancelHandler
+      );
+    }
+
+    if (this.boundKeyDownHandler) {
+      canvas.removeEventListener('keydown', this.boundKeyDownHandler);
+    }
+
+    this.boundPointerDownHandler = undefined;
+    this.boundPointerMoveHandler = undefined;
+    this.boundPointerUpHandler = undefined;
+    this.boundPointerCancelHandler = undefined;
+    this.boundKeyDownHandler = undefined;
+    this.gestures.reset();
+    this.selectionDrag = null;
     this.isInitialized = false;
   }
 
-  private handleClick(event: MouseEvent): void {
+  private handlePointerDown(event: PointerEvent): void {
+    // Keep receiving this pointer's events if it is dragged off the canvas
+    this.renderer.domElement.setPointerCapture?.(event.pointerId);
+
+    // Remember what was pressed before the camera can start moving, since a
+    // drag is only recognized once the pointer has moved
+    try {
+      this.pressPick = this.pickAt(event);
+    } catch (error) {
+      this.pressPick = null;
+      console.warn('InputHandler: Error during pointer down handling:', error);
+    }
+
+    if (event.shiftKey && event.button === 0 && !this.selectionDrag) {
+      this.selectionDrag = { mode: getSelectionMode(event), points: [] };
+      this.onSelectionStart?.();
+    }
+    this.gestures.pointerDown(event);
+  }
+
+  private handlePointerMove(event: PointerEvent): void {
+    if (event.pointerType !== 'touch') {
+      this.updateHover(event);
+    }
+    this.gestures.pointerMove(event);
+  }
+
+  private handlePointerUp(event: PointerEvent): void {
+    this.gestures.pointerUp(event);
+    // A selection still in progress was never dragged out, as in a Shift-click
+    this.cancelSelection();
+  }
+
+  private handlePointerCancel(event: PointerEvent): void {
+    this.gestures.pointerCancel(event);
+    this.cancelSelection();
+  }
+
+  private handleTap(point: GesturePoint): void {
     try {
-      this.updateMousePosition(event);
-      const coordinates = this.getIntersectedHexCoordinates();
+      const pick = this.pickAt(point);
+      if (!pick) {
+        return;
+      }
 
-      if (coordinates && this.onCellClick) {
-        this.onCellClick(coordinates);
+      if (this.onCellClick) {
+        this.onCellClick(pick.coordinates);
+      }
+      if (pick.entityId !== undefined && this.onEntityClick) {
+        this.onEntityClick(pick.entityId, pick.coordinates);
       }
     } catch (error) {
       // TODO: Implement proper error reporting/logging system
@@ -83,26 +244,188 @@ export class InputHandler<_T extends object> {
     }
   }
 
-  private handleMouseMove(event: MouseEvent): void {
+  private handleDoubleTap(point: GesturePoint): void {
+    try {
+      const pick = this.pickAt(point);
+      if (pick && this.onCellDoubleTap) {
+        this.onCellDoubleTap(pick.coordinates, pick.entityId);
+      }
+    } catch (error) {
+      console.warn('InputHandler: Error during double tap handling:', error);
+    }
+  }
+
+  private handleLongPress(point: GesturePoint): void {
+    // Long presses fire from a timer, where an error would go uncaught
+    try {
+      const pick = this.pickAt(point);
+      if (pick && this.onCellLongPress) {
+        this.onCellLongPress(pick.coordinates, pick.entityId);
+      }
+    } catch (error) {
+      console.warn('InputHandler: Error during long press handling:', error);
+    }
+  }
+
+  private handleDragStart(point: GesturePoint): void {
+    if (this.selectionDrag) {
+      this.selectionDrag.points.push(point);
+      return;
+    }
+
+    try {
+      const pick = this.pressPick;
+      if (this.onDragStart) {
+        this.onDragStart(pick ? pick.coordinates : null, pick?.entityId);
+      }
+    } catch (error) {
+      console.warn('InputHandler: Error during drag start handling:', error);
+    }
+  }
+
+  private handleDrag(point: GesturePoint): void {
     try {
-      this.updateMousePosition(event);
-      const coordinates = this.getIntersectedHexCoordinates();
+      if (this.selectionDrag) {
+        this.selectionDrag.points.push(point);
+        this.onSelectionChange?.([...this.selectionDrag.points]);
+        return;
+      }
+
+      if (this.onDrag) {
+        this.onDrag(this.pickAt(point)?.coordinates ?? null);
+      }
+    } catch (error) {
+      console.warn('InputHandler: Error during drag handling:', error);
+    }
+  }
+
+  private handleDragEnd(point: GesturePoint): void {
+    try {
+      const selection = this.selectionDrag;
+      if (selection) {
+        this.selectionDrag = null;
+        selection.points.push(point);
+        this.onSelectionEnd?.(selection.points, selection.mode);
+        return;
+      }
+
+      if (this.onDragEnd) {
+        this.onDragEnd(this.pickAt(point)?.coordinates ?? null);
+      }
+    } catch (error) {
+      console.warn('InputHandler: Error during drag end handling:', error);
+    }
+  }
+
+  private handleDragCancel(): void {
+    try {
+      if (this.selectionDrag) {
+        this.cancelSelection();
+        return;
+      }
+      this.onDragCancel?.();
+    } catch (error) {
+      console.warn('InputHandler: Error during drag cancel handling:', error);
+    }
+  }
+
+  private cancelSelection(): void {
+    if (this.selectionDrag) {
+      this.selectionDrag = null;
+      this.onSelectionCancel?.();
+    }
+  }
+
+  private updateHover(event: PointerEvent): void {
+    try {
+      const pick = this.pickAt(event);
+      const coordinates = pick ? pick.coordinates : null;
+      const entityId = pick?.entityId ?? null;
 
       // Check if hover state has changed
-      if (!this.areCoordinatesEqual(coordinates, this.hoveredHex)) {
+      const hoverChanged =
+        coordinates === null || this.hoveredHex === null
+          ? coordinates !== this.hoveredHex
+          : !hexEquals(coordinates, this.hoveredHex);
+      if (hoverChanged) {
         this.hoveredHex = coordinates;
 
         if (this.onCellHover) {
           this.onCellHover(coordinates);
         }
       }
+
+      if (entityId !== this.hoveredEntityId) {
+        this.hoveredEntityId = entityId;
+
+        if (this.onEntityHover) {
+          this.onEntityHover(entityId);
+        }
+      }
     } catch (error) {
       // TODO: Implement proper error reporting/logging system
       console.warn('InputHandler: Error during mouse move handling:', error);
     }
   }
 
-  private updateMousePosition(event: MouseEvent): void {
+  /**
+   * Rebinds keys. Actions not given keep their current keys; give an empty
+   * array to unbind an action.
+   *
+   * @param bindings - The keys to bind to each action
+   */
+  public setKeyBindings(bindings: Partial<KeyBindings>): void {
+    this.keyBindings = { ...this.keyBindings, ...bindings };
+  }
+
+  public getKeyBindings(): KeyBindings {
+    return { ...this.keyBindings };
+  }
+
+  private handleKeyDown(event: KeyboardEvent): void {
+    try {
+      const action = findKeyAction(this.keyBindings, event);
+      if (!action) {
+        return;
+      }
+
+      // Keep bound keys such as Tab and Space from moving focus or scrolling
+      event.preventDefault();
+
+      if (this.onKeyAction) {
+        this.onKeyAction(action);
+      }
+    } catch (error) {
+      // TODO: Implement proper error reporting/logging system
+      console.warn('InputHandler: Error during key handling:', error);
+    }
+  }
+
+  /**
+   * Projects a point in the scene to client coordinates on the canvas, the
+   * inverse of how the pointer is picked.
+   *
+   * @param position - The point in world space
+   * @returns The client coordinates, or null if the point is behind the camera
+   */
+  public projectToClient(position: THREE.Vector3): GesturePoint | null {
+    const projected = position.clone().project(this.camera);
+    if (projected.z > 1) {
+      return null;
+    }
+
+    const canvas = this.renderer.domElement;
+    const rect = canvas.getBoundingClientRect();
+    const width = canvas.clientWidth || 1;
+    const height = canvas.clientHeight || 1;
+
+    return {
+      clientX: rect.left + ((projected.x + 1) / 2) * width,
+      clientY: rect.top + ((1 - projected.y) / 2) * height,
+    };
+  }
+
+  private updateMousePosition(point: GesturePoint): void {
     const canvas = this.renderer.domElement;
     const rect = canvas.getBoundingClientRect();
 
@@ -111,15 +434,17 @@ export class InputHandler<_T extends object> {
     const height = canvas.clientHeight || 1;
 
     // Convert screen coordinates to normalized device coordinates (-1 to +1)
-    this.mouse.x = ((event.clientX - rect.left) / width) * 2 - 1;
-    this.mouse.y = -((event.clientY - rect.top) / height) * 2 + 1;
+    this.mouse.x = ((point.clientX - rect.left) / width) * 2 - 1;
+    this.mouse.y = -((point.clientY - rect.top) / height) * 2 + 1;
 
     // Clamp values to prevent extreme coordinates that could cause raycaster issues
     this.mouse.x = Math.max(-1, Math.min(1, this.mouse.x));
     this.mouse.y = Math.max(-1, Math.min(1, this.mouse.y));
   }
 
-  private getIntersectedHexCoordinates(): HexCoordinates | null {
+  private pickAt(point: GesturePoint): PickResult | null {
+    this.updateMousePosition(point);
+
     // Configure raycaster
     this.raycaster.setFromCamera(this.mouse, this.camera);
 
@@ -129,25 +454,53 @@ export class InputHandler<_T extends object> {
       true
     );
 
-    if (intersects.length === 0) {
-      return null;
+    // Check the intersections nearest first. Entity models are tagged on
+    // their root object, so walk up from the mesh that was hit to find the
+    // tag. Objects without a tag, such as highlight lines, are skipped so
+    // the pick passes through them to what lies beneath.
+    for (const intersection of intersects) {
+      const target = this.findTaggedAncestor(intersection.object);
+      if (!target) {
+        continue;
+      }
+
+      const { userData } = target;
+      if (typeof userData.entityId === 'string') {
+        return {
+          coordinates: userData.coordinates as HexCoordinates,
+          entityId: userData.entityId,
+        };
+      }
+      return { coordinates: userData.coordinates as HexCoordinates };
     }
 
-    // Check all intersections to find the first one with hex coordinates
-    // This allows clicks to pass through entities and hit the tile beneath
-    for (const intersection of intersects) {
-      const mesh = intersection.object;
+    return null;
+  }
 
-      // Check if the mesh has coordinate data
+  /**
+   * Finds the nearest object, starting from the one hit, that carries hex
+   * coordinates. Returns null if the object or any ancestor is hidden, since
+   * the raycaster still hits invisible objects such as fogged entities.
+   */
+  private findTaggedAncestor(
+    object: THREE.Object3D | null
+  ): THREE.Object3D | null {
+    let tagged: THREE.Object3D | null = null;
+
+    for (let current = object; current; current = current.parent) {
+      if (current.visible === false) {
+        return null;
+      }
       if (
-        mesh.userData &&
-        this.isValidHexCoordinates(mesh.userData.coordinates)
+        !tagged &&
+        current.userData &&
+        this.isValidHexCoordinates(current.userData.coordinates)
       ) {
-        return mesh.userData.coordinates as HexCoordinates;
+        tagged = current;
       }
     }
 
-    return null;
+    return tagged;
   }
 
   private isValidHexCoordinates(coords: unknown): coords is HexCoordinates {
@@ -164,17 +517,18 @@ export class InputHandler<_T extends object> {
     );
   }
 
-  private areCoordinatesEqual(
-    a: HexCoordinates | null,
-    b: HexCoordinates | null
-  ): boolean {
-    if (a === null && b === null) return true;
-    if (a === null || b === null) return false;
-    return a.q === b.q && a.r === b.r && a.s === b.s;
-  }
-
   // For testing: expose raycaster
   public getRaycaster(): THREE.Raycaster {
     return this.raycaster;
   }
 }
+
+/**
+ * The selection mode chosen by the modifier keys held with Shift.
+ */
+function getSelectionMode(event: PointerEvent): SelectionMode {
+  if (event.ctrlKey || event.metaKey) {
+    return 'add';
+  }
+  return event.altKey ? 'subtract' : 'replace';
+}
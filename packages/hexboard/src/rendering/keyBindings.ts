@@ -0,0 +1,121 @@
+// Keyboard actions and the keys bound to them
+
+import { Direction } from '../core/types';
+
+/**
+ * Everything the keyboard can do on a board.
+ */
+export type KeyAction =
+  | 'moveNorth'
+  | 'moveNortheast'
+  | 'moveSoutheast'
+  | 'moveSouth'
+  | 'moveSouthwest'
+  | 'moveNorthwest'
+  | 'confirm'
+  | 'cancel'
+  | 'nextEntity'
+  | 'previousEntity';
+
+/**
+ * The keys bound to each action. Keys are KeyboardEvent.key values, such as
+ * 'Enter', 'ArrowUp' or 'w', optionally prefixed with modifiers as in
+ * 'Shift+Tab' or 'Ctrl+z'. Single characters match regardless of case, and
+ * Shift is ignored for them since it only changes which character is typed.
+ */
+export type KeyBindings = Record<KeyAction, string[]>;
+
+/**
+ * The default layout puts the six directions around the S key, in the same
+ * clockwise order as the hex's faces: W north, E northeast, D southeast,
+ * S south, A southwest and Q northwest.
+ */
+export const DEFAULT_KEY_BINDINGS: KeyBindings = {
+  moveNorth: ['w', 'ArrowUp'],
+  moveNortheast: ['e'],
+  moveSoutheast: ['d'],
+  moveSouth: ['s', 'ArrowDown'],
+  moveSouthwest: ['a'],
+  moveNorthwest: ['q'],
+  confirm: ['Enter', ' '],
+  cancel: ['Escape'],
+  nextEntity: ['Tab'],
+  previousEntity: ['Shift+Tab'],
+};
+
+/**
+ * The direction each movement action moves the cursor in.
+ */
+export const KEY_ACTION_DIRECTIONS: Partial<Record<KeyAction, Direction>> = {
+  moveNorth: Direction.North,
+  moveNortheast: Direction.Northeast,
+  moveSoutheast: Direction.Southeast,
+  moveSouth: Direction.South,
+  moveSouthwest: Direction.Southwest,
+  moveNorthwest: Direction.Northwest,
+};
+
+const MODIFIERS = ['Ctrl', 'Alt', 'Shift', 'Meta'] as const;
+
+/**
+ * Finds the action bound to the key pressed in a keyboard event.
+ *
+ * @param bindings - The key bindings to search
+ * @param event - The key press
+ * @returns The bound action, or undefined if the key is not bound
+ */
+export function findKeyAction(
+  bindings: KeyBindings,
+  event: Pick<
+    KeyboardEvent,
+    'key' | 'ctrlKey' | 'altKey' | 'shiftKey' | 'metaKey'
+  >
+): KeyAction | undefined {
+  const pressed = normalizeKey(event.key, {
+    Ctrl: event.ctrlKey,
+    Alt: event.altKey,
+    Shift: event.shiftKey,
+    Meta: event.metaKey,
+  });
+
+  for (const action of Object.keys(bindings) as KeyAction[]) {
+    if (bindings[action].some((binding) => parseBinding(binding) === pressed)) {
+      return action;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Splits the modifier prefixes off a binding such as 'Shift+Tab'.
+ */
+function parseBinding(binding: string): string {
+  const modifiers: Record<string, boolean> = {};
+  let key = binding;
+
+  for (;;) {
+    const modifier = MODIFIERS.find((name) => key.startsWith(`${name}+`));
+    if (!modifier || key.length === modifier.length + 1) {
+      break;
+    }
+    modifiers[modifier] = true;
+    key = key.slice(modifier.length + 1);
+  }
+
+  return normalizeKey(key, modifiers);
+}
+
+/**
+ * Builds a canonical form of a key and its modifiers, so that bindings and
+ * key presses can be compared as strings.
+ */
+function normalizeKey(key: string, modifiers: Record<string, boolean>): string {
+  const isCharacter = key.length === 1;
+  const prefix = MODIFIERS.filter(
+    (name) => modifiers[name] && !(isCharacter && name === 'Shift')
+  )
+    .map((name) => `${name}+`)
+    .join('');
+
+  return prefix + (isCharacter ? key.toLowerCase() : key);
+}
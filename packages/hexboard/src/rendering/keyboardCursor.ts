@@ -0,0 +1,233 @@
+import { Cell } from '../core/cell';
+import { HEX_DIRECTIONS, HexCoordinates, hexAdd } from '../core/coordinates';
+import { Entity } from '../core/entity';
+import { HexGrid } from '../core/hexGrid';
+import { Direction } from '../core/types';
+import { BoardRenderer } from './boardRenderer';
+
+/**
+ * Describes a cell and the entities on it for screen readers.
+ */
+export type CellDescriber<
+  CustomProps extends Record<string, unknown> = Record<string, never>,
+> = (_cell: Cell<CustomProps>, _entities: Entity<CustomProps>[]) => string;
+
+export interface KeyboardCursorOptions<
+  CustomProps extends Record<string, unknown> = Record<string, never>,
+> {
+  /** Text announced when a cell is focused; see describeCell for the default */
+  describeCell?: CellDescriber<CustomProps>;
+  /** The entities to mention for a cell; defaults to none */
+  getEntitiesAt?: (_cellId: string) => Entity<CustomProps>[];
+}
+
+/**
+ * A keyboard-driven cursor that focuses one cell at a time.
+ *
+ * The focused cell is highlighted through BoardRenderer.highlightHexCell and
+ * announced to screen readers through an ARIA live region appended to the
+ * board's container. The cursor only tracks focus; HexBoard decides what the
+ * keys do.
+ */
+export class KeyboardCursor<
+  CustomProps extends Record<string, unknown> = Record<string, never>,
+> {
+  private hexGrid: HexGrid<CustomProps>;
+  private renderer: BoardRenderer<CustomProps>;
+  private liveRegion: HTMLElement;
+  private describeCell: CellDescriber<CustomProps>;
+  private getEntitiesAt: (_cellId: string) => Entity<CustomProps>[];
+  private focused: HexCoordinates | null = null;
+  private focusedEntityId: string | null = null;
+
+  /**
+   * Creates a new KeyboardCursor.
+   * @param hexGrid - The grid whose cells can be focused
+   * @param renderer - The renderer that draws the focus highlight
+   * @param container - The element to add the live region to
+   * @param options - How cells are described to screen readers
+   */
+  constructor(
+    hexGrid: HexGrid<CustomProps>,
+    renderer: BoardRenderer<CustomProps>,
+    container: HTMLElement,
+    options: KeyboardCursorOptions<CustomProps> = {}
+  ) {
+    this.hexGrid = hexGrid;
+    this.renderer = renderer;
+    this.describeCell = options.describeCell ?? describeCell;
+    this.getEntitiesAt =
+      options.getEntitiesAt ?? ((): Entity<CustomProps>[] => []);
+
+    this.liveRegion = document.createElement('div');
+    this.liveRegion.className = 'hexboard-live-region';
+    this.liveRegion.setAttribute('role', 'status');
+    this.liveRegion.setAttribute('aria-live', 'polite');
+    this.liveRegion.setAttribute('aria-atomic', 'true');
+    // Visually hidden but still read by screen readers
+    Object.assign(this.liveRegion.style, {
+      position: 'absolute',
+      width: '1px',
+      height: '1px',
+      margin: '-1px',
+      padding: '0',
+      overflow: 'hidden',
+      clip: 'rect(0 0 0 0)',
+      whiteSpace: 'nowrap',
+      border: '0',
+    });
+    container.appendChild(this.liveRegion);
+  }
+
+  /**
+   * Gets the focused cell, or null if nothing is focused or the focused cell
+   * has since been removed from the grid.
+   */
+  getFocusedCell(): Cell<CustomProps> | null {
+    return this.focused ? this.hexGrid.getCellByCoords(this.focused) : null;
+  }
+
+  /**
+   * Gets the entity focused by tabbing, if the cursor is still on its cell.
+   */
+  getFocusedEntityId(): string | null {
+    return this.focusedEntityId;
+  }
+
+  /**
+   * Moves focus to a cell, highlighting and announcing it.
+   *
+   * @param coordinates - The cell to focus
+   * @param entityId - The entity on the cell being focused, if any
+   * @returns The focused cell, or null if there is no cell at the coordinates
+   */
+  focusCell(
+    coordinates: HexCoordinates,
+    entityId: string | null = null
+  ): Cell<CustomProps> | null {
+    const cell = this.hexGrid.getCellByCoords(coordinates);
+    if (!cell) {
+      return null;
+    }
+
+    if (this.focused) {
+      this.renderer.removeHighlightFromHexCell(this.focused);
+    }
+    this.focused = { q: cell.q + 0, r: cell.r + 0, s: cell.s + 0 }; // No -0
+    this.focusedEntityId = entityId;
+    this.renderer.highlightHexCell(this.focused);
+    this.announce(this.describeCell(cell, this.getEntitiesAt(cell.id)));
+
+    return cell;
+  }
+
+  /**
+   * Moves focus to the neighboring cell in a direction. With nothing focused,
+   * the first cell of the grid is focused instead.
+   *
+   * @param direction - The direction to move in
+   * @returns The newly focused cell, or null if there is no cell that way
+   */
+  move(direction: Direction): Cell<CustomProps> | null {
+    const current = this.getFocusedCell();
+    if (!current) {
+      const first = this.hexGrid.getAllCells()[0];
+      return first ? this.focusCell(first) : null;
+    }
+
+    return this.focusCell(hexAdd(current, HEX_DIRECTIONS[direction]));
+  }
+
+  /**
+   * Moves focus to the next entity in a list, wrapping around at either end.
+   * Starts from the focused entity, or from the start of the list if none is.
+   *
+   * @param entities - The entities to tab through, in tab order
+   * @param step - 1 for the next entity, -1 for the previous one
+   * @returns The newly focused entity, or undefined if the list is empty
+   */
+  focusNextEntity(
+    entities: Entity<CustomProps>[],
+    step: 1 | -1 = 1
+  ): Entity<CustomProps> | undefined {
+    if (entities.length === 0) {
+      return undefined;
+    }
+
+    const currentIndex = entities.findIndex(
+      (entity) => entity.id === this.focusedEntityId
+    );
+    const nextIndex =
+      currentIndex === -1
+        ? step === 1
+          ? 0
+          : entities.length - 1
+        : (currentIndex + step + entities.length) % entities.length;
+    const entity = entities[nextIndex];
+
+    this.focusCell(entity.cellPosition, entity.id);
+    return entity;
+  }
+
+  /**
+   * Removes focus and its highlight.
+   */
+  clear(): void {
+    if (this.focused) {
+      this.renderer.removeHighlightFromHexCell(this.focused);
+    }
+    this.focused = null;
+    this.focusedEntityId = null;
+  }
+
+  /**
+   * Sets how focused cells are described to screen readers.
+   *
+   * @param describer - Builds the text announced for a cell and its entities
+   */
+  setCellDescriber(describer: CellDescriber<CustomProps>): void {
+    this.describeCell = describer;
+  }
+
+  /**
+   * Sets a message in the live region for screen readers to read out.
+   *
+   * @param message - The message to announce
+   */
+  announce(message: string): void {
+    this.liveRegion.textContent = message;
+  }
+
+  getLiveRegion(): HTMLElement {
+    return this.liveRegion;
+  }
+
+  /**
+   * Clears focus and removes the live region from the page.
+   */
+  dispose(): void {
+    this.clear();
+    this.liveRegion.remove();
+  }
+}
+
+/**
+ * The default cell description, such as
+ * "Cell 1, -2, 1. Elevation 3. Impassable. Entities: knight (unit)."
+ */
+export function describeCell<
+  CustomProps extends Record<string, unknown> = Record<string, never>,
+>(cell: Cell<CustomProps>, entities: Entity<CustomProps>[]): string {
+  const parts = [
+    `Cell ${cell.q + 0}, ${cell.r + 0}, ${cell.s + 0}.`,
+    `Elevation ${cell.elevation}.`,
+  ];
+  if (cell.isImpassable) {
+    parts.push('Impassable.');
+  }
+  if (entities.length > 0) {
+    const names = entities.map((entity) => `${entity.id} (${entity.type})`);
+    parts.push(`Entities: ${names.join(', ')}.`);
+  }
+  return parts.join(' ');
+}
@@ -0,0 +1,80 @@
+// Screen-space shapes drawn to select cells, and the tests for what they enclose
+
+import { GesturePoint } from './gestureRecognizer';
+
+/**
+ * The shape drawn by a selection drag: a rectangle from the press to the
+ * pointer, or a freehand lasso following the pointer.
+ */
+export type SelectionShape = 'box' | 'lasso';
+
+/**
+ * Builds the polygon enclosed by a selection drag.
+ *
+ * @param shape - The kind of shape being drawn
+ * @param points - The pointer positions of the drag, from press to release
+ * @returns The polygon's corners in client coordinates, or an empty array if
+ * there are too few points to enclose anything
+ */
+export function getSelectionPolygon(
+  shape: SelectionShape,
+  points: GesturePoint[]
+): GesturePoint[] {
+  if (points.length < 2) {
+    return [];
+  }
+
+  if (shape === 'lasso') {
+    return points.length < 3 ? [] : points;
+  }
+
+  const start = points[0];
+  const end = points[points.length - 1];
+  return [
+    { clientX: start.clientX, clientY: start.clientY },
+    { clientX: end.clientX, clientY: start.clientY },
+    { clientX: end.clientX, clientY: end.clientY },
+    { clientX: start.clientX, clientY: end.clientY },
+  ];
+}
+
+/**
+ * Checks whether a point lies inside a polygon, using the even-odd rule so a
+ * self-crossing lasso behaves as it is drawn.
+ *
+ * @param point - The point to test
+ * @param polygon - The polygon's corners, in order; it is closed implicitly
+ */
+export function isPointInPolygon(
+  point: GesturePoint,
+  polygon: GesturePoint[]
+): boolean {
+  let inside = false;
+
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    // Count the edges that a ray going right from the point crosses
+    const crosses =
+      a.clientY > point.clientY !== b.clientY > point.clientY &&
+      point.clientX <
+        a.clientX +
+          ((point.clientY - a.clientY) / (b.clientY - a.clientY)) *
+            (b.clientX - a.clientX);
+    if (crosses) {
+      inside = !inside;
+    }
+  }
+
+  return inside;
+}
+
+/**
+ * How a board turns selection drags into a selection.
+ */
+export interface SelectionOptions {
+  /** The shape drawn by dragging with Shift held. Defaults to 'box'. */
+  shape?: SelectionShape;
+  /** Whether entities on the selected cells are selected too. Defaults to false. */
+  includeEntities?: boolean;
+}
@@ -0,0 +1,272 @@
+// Versioned, JSON-compatible snapshots of a board's cells and entities
+
+import { Cell } from '../core/cell';
+import { HexCoordinates } from '../core/coordinates';
+import { EntityDefinition, EntityManager } from '../core/entity';
+import { HexGrid } from '../core/hexGrid';
+import { Random, RandomState, isRandomState } from '../core/random';
+import { validateCellDefinitions } from '../map/mapDefinition';
+
+/**
+ * The schema version written by serializeBoardState. Bump this whenever the
+ * shape of SerializedBoardState changes.
+ */
+export const BOARD_STATE_VERSION = 1;
+
+export interface SerializedCell<
+  CustomProps extends Record<string, unknown> = Record<string, never>,
+> {
+  q: number;
+  r: number;
+  s: number;
+  elevation: number;
+  movementCost: number;
+  isImpassable: boolean;
+  customProps: CustomProps;
+}
+
+export interface SerializedEntity<
+  CustomProps extends Record<string, unknown> = Record<string, never>,
+> {
+  id: string;
+  type: string;
+  position: HexCoordinates;
+  movementSpeed?: number;
+  modelKey?: string;
+  owner?: string;
+  customProps: CustomProps;
+}
+
+/**
+ * An entity's active movement session and the destinations it may move to.
+ */
+export interface SerializedMovementSession {
+  entityId: string;
+  destinations: HexCoordinates[];
+}
+
+/**
+ * A complete snapshot of a board. Contains only plain data, so it can be
+ * passed through JSON.stringify and JSON.parse unchanged.
+ */
+export interface SerializedBoardState<
+  CustomProps extends Record<string, unknown> = Record<string, never>,
+> {
+  version: number;
+  cells: SerializedCell<CustomProps>[];
+  entities: SerializedEntity<CustomProps>[];
+  movementSessions: SerializedMovementSession[];
+  /**
+   * The state of the board's random number generator, so a restored board
+   * draws the same numbers; absent if no generator was captured
+   */
+  random?: RandomState;
+}
+
+/**
+ * Captures every cell, entity and movement session as a snapshot. Custom
+ * properties are deep-copied, so later changes to the board do not affect the
+ * snapshot.
+ *
+ * @param hexGrid - The grid whose cells to capture
+ * @param entityManager - The entities to capture, if any
+ * @param random - The random number generator whose state to capture, if any
+ * @returns A snapshot at the current schema version
+ */
+export function serializeBoardState<
+  CustomProps extends Record<string, unknown> = Record<string, never>,
+>(
+  hexGrid: HexGrid<CustomProps>,
+  entityManager?: EntityManager<CustomProps>,
+  random?: Random
+): SerializedBoardState<CustomProps> {
+  const entities = entityManager ? entityManager.getAllEntities() : [];
+  const state: SerializedBoardState<CustomProps> = {
+    version: BOARD_STATE_VERSION,
+    cells: hexGrid.getAllCells().map((cell) => serializeCell(cell)),
+    entities: entities.map((entity) => serializeEntity(entity)),
+    movementSessions: entities
+      .filter((entity) => entity.isInMovementMode)
+      .map((entity) => ({
+        entityId: entity.id,
+        destinations: entityManager!
+          .getMovementDestinations(entity.id)
+          .map(copyCoordinates),
+      })),
+  };
+  if (random) {
+    state.random = random.getState();
+  }
+  return state;
+}
+
+/**
+ * Captures one cell as plain data, deep-copying its custom properties.
+ */
+export function serializeCell<
+  CustomProps extends Record<string, unknown> = Record<string, never>,
+>(cell: Cell<CustomProps>): SerializedCell<CustomProps> {
+  return {
+    ...copyCoordinates(cell),
+    elevation: cell.elevation,
+    movementCost: cell.movementCost,
+    isImpassable: cell.isImpassable,
+    customProps: cloneJson(cell.customProps),
+  };
+}
+
+/**
+ * Captures one entity, or the definition of one, as plain data, deep-copying
+ * its custom properties. A definition without custom properties gets empty
+ * ones, as the entity it defines would.
+ */
+export function serializeEntity<
+  CustomProps extends Record<string, unknown> = Record<string, never>,
+>(entity: EntityDefinition<CustomProps>): SerializedEntity<CustomProps> {
+  return {
+    id: entity.id,
+    type: entity.type,
+    position: copyCoordinates(entity.cellPosition),
+    movementSpeed: entity.movementSpeed,
+    modelKey: entity.modelKey,
+    owner: entity.owner,
+    customProps: cloneJson(entity.customProps ?? ({} as CustomProps)),
+  };
+}
+
+/**
+ * Checks a snapshot for problems that would prevent it from being restored.
+ *
+ * @param state - The snapshot to check
+ * @returns A description of each problem found; empty if the snapshot is valid
+ */
+export function validateBoardState<
+  CustomProps extends Record<string, unknown> = Record<string, never>,
+>(state: SerializedBoardState<CustomProps>): string[] {
+  if (state.version !== BOARD_STATE_VERSION) {
+    return [
+      `Unsupported board state version: ${state.version}. Expected ${BOARD_STATE_VERSION}`,
+    ];
+  }
+
+  const errors = validateCellDefinitions(state.cells).map(
+    ({ cellIndex, message }) => `cell ${cellIndex}: ${message}`
+  );
+  if (state.random !== undefined && !isRandomState(state.random)) {
+    errors.push(
+      'random: Random number generator state must be four unsigned 32-bit integers'
+    );
+  }
+  const cellIds = new Set(state.cells.map(({ q, r }) => `${q},${r}`));
+  const entityIds = new Set<string>();
+
+  state.entities.forEach(({ id, position }, entityIndex) => {
+    if (entityIds.has(id)) {
+      errors.push(`entity ${entityIndex}: Duplicate entity ID ${id}`);
+    }
+    entityIds.add(id);
+
+    if (!cellIds.has(`${position.q},${position.r}`)) {
+      errors.push(
+        `entity ${entityIndex}: No cell at q=${position.q}, r=${position.r}, s=${position.s} for entity ${id}`
+      );
+    }
+  });
+
+  const sessionIds = new Set<string>();
+  state.movementSessions.forEach(({ entityId }, sessionIndex) => {
+    if (!entityIds.has(entityId)) {
+      errors.push(
+        `movement session ${sessionIndex}: Entity with ID ${entityId} not found`
+      );
+    } else if (sessionIds.has(entityId)) {
+      errors.push(
+        `movement session ${sessionIndex}: Duplicate movement session for entity ${entityId}`
+      );
+    }
+    sessionIds.add(entityId);
+  });
+
+  return errors;
+}
+
+/**
+ * Replaces the contents of a grid and entity manager with a snapshot.
+ *
+ * The snapshot is validated first and every problem is reported together in a
+ * single error; the grid and entity manager are only changed once the whole
+ * snapshot is known to be valid.
+ *
+ * @param state - The snapshot to restore
+ * @param hexGrid - The grid to fill with the snapshot's cells
+ * @param entityManager - The entity manager to fill with its entities
+ * @param random - A random number generator to resume from the snapshot's
+ * state, if it has one
+ * @throws Error listing every problem if the snapshot is invalid
+ */
+export function restoreBoardState<
+  CustomProps extends Record<string, unknown> = Record<string, never>,
+>(
+  state: SerializedBoardState<CustomProps>,
+  hexGrid: HexGrid<CustomProps>,
+  entityManager: EntityManager<CustomProps>,
+  random?: Random
+): void {
+  const errors = validateBoardState(state);
+  if (errors.length > 0) {
+    throw new Error(
+      [
+        `Invalid board state (${errors.length} error${errors.length === 1 ? '' : 's'}):`,
+        ...errors.map((error) => `  ${error}`),
+      ].join('\n')
+    );
+  }
+
+  hexGrid.clear();
+  entityManager.clear();
+
+  hexGrid.addCells(
+    state.cells.map((cell) => ({
+      ...cell,
+      customProps: cloneJson(cell.customProps),
+    }))
+  );
+
+  for (const entity of state.entities) {
+    entityManager.addEntity({
+      id: entity.id,
+      type: entity.type,
+      cellPosition: hexGrid.getCell(entity.position.q, entity.position.r)!,
+      movementSpeed: entity.movementSpeed,
+      modelKey: entity.modelKey,
+      owner: entity.owner,
+      customProps: cloneJson(entity.customProps),
+    });
+  }
+
+  for (const session of state.movementSessions) {
+    entityManager.startMovement(
+      session.entityId,
+      session.destinations.map(copyCoordinates)
+    );
+  }
+
+  if (random && state.random) {
+    random.setState(state.random);
+  }
+}
+
+/**
+ * Copies coordinates, turning any -0 into 0 so that snapshots compare equal
+ * after a round trip through JSON.
+ */
+export function copyCoordinates({ q, r, s }: HexCoordinates): HexCoordinates {
+  return { q: q + 0, r: r + 0, s: s + 0 };
+}
+
+/**
+ * Deep-copies plain data through JSON.
+ */
+export function cloneJson<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
@@ -0,0 +1,316 @@
+// Compact binary encoding of a HexGrid for links and network transfer
+
+import { HexGrid } from '../core/hexGrid';
+
+/**
+ * Format version written after the magic bytes. Bump this whenever the byte
+ * layout changes.
+ */
+export const GRID_ENCODING_VERSION = 1;
+
+const MAGIC = [0x48, 0x58]; // 'HX'
+
+// Per-cell flag bits
+const FLAG_IMPASSABLE = 1 << 0;
+const FLAG_FLOAT_ELEVATION = 1 << 1;
+const FLAG_FLOAT_MOVEMENT_COST = 1 << 2;
+
+/**
+ * Packs every cell of a grid into a compact byte array.
+ *
+ * The layout is:
+ * - the magic bytes 'HX' and the format version
+ * - the smallest q and r of the grid's bounds, and the number of cells
+ * - a dictionary of the distinct customProps values, as JSON strings
+ * - for each cell: q and r relative to the bounds, a flags byte holding the
+ *   impassable bit, the elevation, the movement cost and the dictionary index
+ *   of its customProps
+ *
+ * Integers are written as variable-length integers, so small values take a
+ * single byte. Elevations and movement costs that are not integers (including
+ * Infinity) are written as 64-bit floats instead. Strings are written as their
+ * UTF-16 code units, so ASCII text takes one byte per character.
+ *
+ * @param hexGrid - The grid to encode
+ * @returns The encoded grid
+ */
+export function encodeHexGrid<
+  CustomProps extends Record<string, unknown> = Record<string, never>,
+>(hexGrid: HexGrid<CustomProps>): Uint8Array {
+  const cells = hexGrid.getAllCells();
+  const bounds = hexGrid.getBounds();
+  const minQ = bounds ? bounds.minQ : 0;
+  const minR = bounds ? bounds.minR : 0;
+
+  // Give each distinct customProps value an index, in order of first use
+  const dictionary = new Map<string, number>();
+  const propIndices = cells.map((cell) => {
+    const json = JSON.stringify(cell.customProps);
+    if (!dictionary.has(json)) {
+      dictionary.set(json, dictionary.size);
+    }
+    return dictionary.get(json)!;
+  });
+
+  const writer = new ByteWriter();
+  MAGIC.forEach((byte) => writer.writeByte(byte));
+  writer.writeByte(GRID_ENCODING_VERSION);
+  writer.writeSigned(minQ);
+  writer.writeSigned(minR);
+  writer.writeUnsigned(cells.length);
+
+  writer.writeUnsigned(dictionary.size);
+  for (const json of dictionary.keys()) {
+    writer.writeString(json);
+  }
+
+  cells.forEach((cell, index) => {
+    const floatElevation = !Number.isSafeInteger(cell.elevation);
+    const floatMovementCost = !Number.isSafeInteger(cell.movementCost);
+
+    writer.writeUnsigned(cell.q - minQ);
+    writer.writeUnsigned(cell.r - minR);
+    writer.writeByte(
+      (cell.isImpassable ? FLAG_IMPASSABLE : 0) |
+        (floatElevation ? FLAG_FLOAT_ELEVATION : 0) |
+        (floatMovementCost ? FLAG_FLOAT_MOVEMENT_COST : 0)
+    );
+    writer.writeNumber(cell.elevation, floatElevation);
+    writer.writeNumber(cell.movementCost, floatMovementCost);
+    writer.writeUnsigned(propIndices[index]);
+  });
+
+  return writer.toBytes();
+}
+
+/**
+ * Rebuilds a grid from bytes produced by encodeHexGrid.
+ *
+ * @param bytes - The encoded grid
+ * @returns A new grid containing every encoded cell
+ * @throws Error if the bytes are not a valid grid encoding
+ */
+export function decodeHexGrid<
+  CustomProps extends Record<string, unknown> = Record<string, never>,
+>(bytes: Uint8Array): HexGrid<CustomProps> {
+  const reader = new ByteReader(bytes);
+
+  if (MAGIC.some((byte) => reader.readByte() !== byte)) {
+    throw new Error('Invalid hex grid encoding: missing HX header');
+  }
+  const version = reader.readByte();
+  if (version !== GRID_ENCODING_VERSION) {
+    throw new Error(
+      `Invalid hex grid encoding: unsupported version ${version}. Expected ${GRID_ENCODING_VERSION}`
+    );
+  }
+
+  const minQ = reader.readSigned();
+  const minR = reader.readSigned();
+  const cellCount = reader.readUnsigned();
+
+  const dictionarySize = reader.readUnsigned();
+  const dictionary: string[] = [];
+  for (let i = 0; i < dictionarySize; i++) {
+    const entry = reader.readString();
+    try {
+      // Check each entry once here; cells parse their own copies below
+      JSON.parse(entry);
+      dictionary.push(entry);
+    } catch {
+      throw new Error(
+        `Invalid hex grid encoding: customProps entry ${i} is not valid JSON`
+      );
+    }
+  }
+
+  const hexGrid = new HexGrid<CustomProps>();
+  for (let i = 0; i < cellCount; i++) {
+    const q = minQ + reader.readUnsigned();
+    const r = minR + reader.readUnsigned();
+    const flags = reader.readByte();
+    const elevation = reader.readNumber(!!(flags & FLAG_FLOAT_ELEVATION));
+    const movementCost = reader.readNumber(
+      !!(flags & FLAG_FLOAT_MOVEMENT_COST)
+    );
+    const propIndex = reader.readUnsigned();
+
+    if (propIndex >= dictionary.length) {
+      throw new Error(
+        `Invalid hex grid encoding: cell ${i} uses unknown customProps entry ${propIndex}`
+      );
+    }
+
+    hexGrid.addCell({
+      q,
+      r,
+      elevation,
+      movementCost,
+      isImpassable: !!(flags & FLAG_IMPASSABLE),
+      customProps: JSON.parse(dictionary[propIndex]),
+    });
+  }
+
+  if (!reader.isAtEnd()) {
+    throw new Error('Invalid hex grid encoding: unexpected trailing bytes');
+  }
+
+  return hexGrid;
+}
+
+/**
+ * Encodes a grid as a URL-safe base64 string (RFC 4648 base64url without
+ * padding), suitable for sharing boards in links.
+ *
+ * @param hexGrid - The grid to encode
+ * @returns The encoded grid
+ */
+export function encodeHexGridToString<
+  CustomProps extends Record<string, unknown> = Record<string, never>,
+>(hexGrid: HexGrid<CustomProps>): string {
+  const bytes = encodeHexGrid(hexGrid);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+
+  return btoa(binary)
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+/**
+ * Rebuilds a grid from a string produced by encodeHexGridToString.
+ *
+ * @param encoded - The encoded grid
+ * @returns A new grid containing every encoded cell
+ * @throws Error if the string is not a valid grid encoding
+ */
+export function decodeHexGridFromString<
+  CustomProps extends Record<string, unknown> = Record<string, never>,
+>(encoded: string): HexGrid<CustomProps> {
+  if (!/^[A-Za-z0-9_-]*$/.test(encoded)) {
+    throw new Error('Invalid hex grid encoding: not a base64url string');
+  }
+
+  let binary: string;
+  try {
+    binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+  } catch {
+    throw new Error('Invalid hex grid encoding: truncated base64url string');
+  }
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+
+  return decodeHexGrid<CustomProps>(bytes);
+}
+
+/**
+ * Growable byte buffer with helpers for the encoding's value types.
+ */
+class ByteWriter {
+  private bytes: number[] = [];
+
+  writeByte(byte: number): void {
+    this.bytes.push(byte & 0xff);
+  }
+
+  /** Writes a non-negative integer, seven bits per byte */
+  writeUnsigned(value: number): void {
+    // Division rather than bit shifts keeps values beyond 32 bits intact
+    while (value >= 0x80) {
+      this.writeByte(value % 0x80 | 0x80);
+      value = Math.floor(value / 0x80);
+    }
+    this.writeByte(value);
+  }
+
+  /** Writes an integer, zigzag-mapped so small negatives stay short */
+  writeSigned(value: number): void {
+    this.writeUnsigned(value < 0 ? -2 * value - 1 : 2 * value);
+  }
+
+  writeNumber(value: number, isFloat: boolean): void {
+    if (!isFloat) {
+      this.writeSigned(value);
+      return;
+    }
+    const view = new DataView(new ArrayBuffer(8));
+    view.setFloat64(0, value, true);
+    for (let i = 0; i < 8; i++) {
+      this.writeByte(view.getUint8(i));
+    }
+  }
+
+  writeString(value: string): void {
+    this.writeUnsigned(value.length);
+    for (let i = 0; i < value.length; i++) {
+      this.writeUnsigned(value.charCodeAt(i));
+    }
+  }
+
+  toBytes(): Uint8Array {
+    return Uint8Array.from(this.bytes);
+  }
+}
+
+/**
+ * Reads values written by ByteWriter, throwing if the data runs out.
+ */
+class ByteReader {
+  private offset = 0;
+
+  constructor(private readonly bytes: Uint8Array) {}
+
+  isAtEnd(): boolean {
+    return this.offset === this.bytes.length;
+  }
+
+  readByte(): number {
+    if (this.offset >= this.bytes.length) {
+      throw new Error('Invalid hex grid encoding: unexpected end of data');
+    }
+    return this.bytes[this.offset++];
+  }
+
+  readUnsigned(): number {
+    let value = 0;
+    let scale = 1;
+    for (;;) {
+      const byte = this.readByte();
+      value += (byte & 0x7f) * scale;
+      if (byte < 0x80) {
+        return value;
+      }
+      scale *= 0x80;
+    }
+  }
+
+  readSigned(): number {
+    const value = this.readUnsigned();
+    return value % 2 === 1 ? -(value + 1) / 2 : value / 2;
+  }
+
+  readNumber(isFloat: boolean): number {
+    if (!isFloat) {
+      return this.readSigned();
+    }
+    const view = new DataView(new ArrayBuffer(8));
+    for (let i = 0; i < 8; i++) {
+      view.setUint8(i, this.readByte());
+    }
+    return view.getFloat64(0, true);
+  }
+
+  readString(): string {
+    const length = this.readUnsigned();
+    let value = '';
+    for (let i = 0; i < length; i++) {
+      value += String.fromCharCode(this.readUnsigned());
+    }
+    return value;
+  }
+}
@@ -0,0 +1,186 @@
+// Versioned migrations that upgrade saved maps and games to the latest schema
+
+/**
+ * Upgrades a document by one version. The document is a private copy, so the
+ * transform may either modify it in place or return a replacement. Call
+ * {@code report} with a short description of each change made.
+ */
+export type MigrationTransform = (
+  _document: Record<string, unknown>,
+  _report: (_change: string) => void
+) => Record<string, unknown> | void;
+
+/**
+ * A single version bump and the transform that upgrades documents to it.
+ */
+export interface Migration {
+  /** The version this migration upgrades documents to */
+  version: number;
+  /** Human-readable summary of what the version changed */
+  description: string;
+  /** Upgrades a document from the previous version to this one */
+  migrate: MigrationTransform;
+}
+
+/**
+ * What one migration changed while upgrading a document.
+ */
+export interface MigrationStep {
+  fromVersion: number;
+  toVersion: number;
+  description: string;
+  /** The changes reported by the migration's transform */
+  changes: string[];
+}
+
+/**
+ * Everything that changed while upgrading a document, step by step.
+ */
+export interface MigrationReport {
+  fromVersion: number;
+  toVersion: number;
+  steps: MigrationStep[];
+}
+
+export interface MigrationResult<TDocument> {
+  /** The upgraded document, stamped with the latest version */
+  document: TDocument;
+  report: MigrationReport;
+}
+
+export interface MigrationRegistryOptions {
+  /**
+   * Property of the document holding its version. Defaults to 'version'. A
+   * different key lets a game version its own data, such as custom
+   * properties, independently of the library's schemas.
+   */
+  versionKey?: string;
+  /** Version assumed for documents without a version. Defaults to 1. */
+  initialVersion?: number;
+}
+
+/**
+ * Keeps the chain of migrations for one kind of document, such as a map
+ * definition or a saved game, and upgrades older documents along it.
+ *
+ * Every version bump registers a migration from the previous version, so a
+ * document from any earlier version is upgraded by running each migration
+ * after its own version in turn.
+ */
+export class MigrationRegistry<
+  TDocument extends object = Record<string, unknown>,
+> {
+  private migrations: Map<number, Migration> = new Map();
+  private readonly versionKey: string;
+  private readonly initialVersion: number;
+
+  constructor(options: MigrationRegistryOptions = {}) {
+    this.versionKey = options.versionKey ?? 'version';
+    this.initialVersion = options.initialVersion ?? 1;
+  }
+
+  /**
+   * Adds a migration to the chain. Migrations may be registered in any order.
+   *
+   * @param migration - The migration to add
+   * @returns This registry, for chaining
+   * @throws Error if the version is not an integer above the initial version,
+   * or a migration to it is already registered
+   */
+  register(migration: Migration): this {
+    const { version } = migration;
+    if (!Number.isInteger(version) || version <= this.initialVersion) {
+      throw new Error(
+        `Invalid migration version: ${version}. Must be an integer greater than ${this.initialVersion}`
+      );
+    }
+    if (this.migrations.has(version)) {
+      throw new Error(`Migration to version ${version} already registered`);
+    }
+
+    this.migrations.set(version, migration);
+    return this;
+  }
+
+  /**
+   * Gets the latest version documents can be upgraded to.
+   */
+  getCurrentVersion(): number {
+    return Math.max(this.initialVersion, ...this.migrations.keys());
+  }
+
+  /**
+   * Gets the version of a document, or the initial version if it has none.
+   *
+   * @throws Error if the document's version is not an integer
+   */
+  getVersion(document: object): number {
+    const version = (document as Record<string, unknown>)[this.versionKey];
+    if (version === undefined) {
+      return this.initialVersion;
+    }
+    if (typeof version !== 'number' || !Number.isInteger(version)) {
+      throw new Error(
+        `Invalid document ${this.versionKey}: ${String(version)}. Must be an integer`
+      );
+    }
+    return version;
+  }
+
+  /**
+   * Checks whether a document is older than the latest version.
+   */
+  needsMigration(document: object): boolean {
+    return this.getVersion(document) < this.getCurrentVersion();
+  }
+
+  /**
+   * Upgrades a document to the latest version, running every migration after
+   * its version in order. The original document is never modified; the
+   * result is a deep copy stamped with the latest version.
+   *
+   * @param document - A JSON-compatible document of any earlier version
+   * @returns The upgraded document and a report of what changed
+   * @throws Error if the document is newer than the latest version, or a
+   * migration in the chain is missing
+   */
+  migrate(document: object): MigrationResult<TDocument> {
+    const fromVersion = this.getVersion(document);
+    const toVersion = this.getCurrentVersion();
+
+    if (fromVersion > toVersion) {
+      throw new Error(
+        `Document ${this.versionKey} ${fromVersion} is newer than the latest supported version ${toVersion}`
+      );
+    }
+
+    let current: Record<string, unknown> = JSON.parse(JSON.stringify(document));
+    const steps: MigrationStep[] = [];
+
+    for (let version = fromVersion + 1; version <= toVersion; version++) {
+      const migration = this.migrations.get(version);
+      if (!migration) {
+        throw new Error(
+          `No migration registered from version ${version - 1} to ${version}`
+        );
+      }
+
+      const changes: string[] = [];
+      current =
+        migration.migrate(current, (change) => changes.push(change)) ?? current;
+      current[this.versionKey] = version;
+
+      steps.push({
+        fromVersion: version - 1,
+        toVersion: version,
+        description: migration.description,
+        changes,
+      });
+    }
+
+    return {
+      document: current as TDocument,
+      report: { fromVersion, toVersion, steps },
+    };
+  }
+}
@@ -0,0 +1,155 @@
+import { Animator } from '../../src/animation/animator';
+import { ManualClock } from '../../src/animation/clock';
+import { Sequence, Tween } from '../../src/animation/tween';
+
+describe('Animator', () => {
+  let clock: ManualClock;
+  let animator: Animator;
+
+  beforeEach(() => {
+    clock = new ManualClock(1000);
+    animator = new Animator(clock);
+  });
+
+  it('should advance animations by the time since the previous update', () => {
+    const target = { x: 0 };
+    animator.play(new Tween(target, { x: 100 }, { duration: 1000 }));
+
+    clock.advance(100);
+    animator.update();
+    expect(target.x).toBe(10);
+
+    clock.advance(300);
+    animator.update();
+    expect(target.x).toBe(40);
+  });
+
+  it('should time each animation from when it was played', () => {
+    const first = { x: 0 };
+    const second = { x: 0 };
+    animator.play(new Tween(first, { x: 100 }, { duration: 100 }));
+    clock.advance(50);
+    animator.play(new Tween(second, { x: 100 }, { duration: 100 }));
+
+    clock.advance(25);
+    animator.update();
+
+    expect(first.x).toBe(75);
+    expect(second.x).toBe(25);
+  });
+
+  it('should resolve with true when an animation finishes', async () => {
+    const handle = animator.play(
+      new Sequence([new Tween({ x: 0 }, { x: 1 }, { duration: 100 })])
+    );
+    expect(handle.isActive()).toBe(true);
+    expect(animator.isAnimating()).toBe(true);
+
+    clock.advance(100);
+    animator.update();
+
+    expect(handle.isActive()).toBe(false);
+    expect(animator.isAnimating()).toBe(false);
+    await expect(handle.finished).resolves.toBe(true);
+  });
+
+  it('should stop a cancelled animation where it is and resolve with false', async () => {
+    const target = { x: 0 };
+    const handle = animator.play(
+      new Tween(target, { x: 100 }, { duration: 100 })
+    );
+    clock.advance(50);
+    animator.update();
+
+    handle.cancel();
+    handle.cancel();
+    clock.advance(50);
+    animator.update();
+
+    expect(target.x).toBe(50);
+    await expect(handle.finished).resolves.toBe(false);
+  });
+
+  it('should call updaters with the time since their previous call', () => {
+    const updater = jest.fn();
+    const remove = animator.addUpdater(updater);
+
+    clock.advance(16);
+    animator.update();
+    clock.advance(20);
+    animator.update();
+    remove();
+    clock.advance(20);
+    animator.update();
+
+    expect(updater.mock.calls).toEqual([[16], [20]]);
+  });
+
+  it('should report and drop animations and updaters that throw', async () => {
+    const error = jest.spyOn(console, 'error').mockImplementation();
+    const updater = jest.fn(() => {
+      throw new Error('updater failed');
+    });
+    animator.addUpdater(updater);
+    const broken = animator.play({
+      update: () => {
+        throw new Error('animation failed');
+      },
+      isFinished: () => false,
+    });
+    const target = { x: 0 };
+    animator.play(new Tween(target, { x: 10 }, { duration: 10 }));
+
+    clock.advance(10);
+    animator.update();
+    animator.update();
+
+    expect(target.x).toBe(10);
+    expect(updater).toHaveBeenCalledTimes(1);
+    expect(error).toHaveBeenCalledTimes(2);
+    await expect(broken.finished).resolves.toBe(false);
+    error.mockRestore();
+  });
+
+  it('should cancel everything on clear', async () => {
+    const updater = jest.fn();
+    animator.addUpdater(updater);
+    const handle = animator.play(
+      new Tween({ x: 0 }, { x: 1 }, { duration: 100 })
+    );
+
+    animator.clear();
+    clock.advance(10);
+    animator.update();
+
+    expect(updater).not.toHaveBeenCalled();
+    await expect(handle.finished).resolves.toBe(false);
+  });
+
+  it('should follow Jest fake timers on the system clock', () => {
+    jest.useFakeTimers();
+    try {
+      const systemAnimator = new Animator();
+      const target = { x: 0 };
+      systemAnimator.play(new Tween(target, { x: 100 }, { duration: 100 }));
+
+      jest.advanceTimersByTime(30);
+      systemAnimator.update();
+
+      expect(target.x).toBeCloseTo(30);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
+
+describe('ManualClock', () => {
+  it('should only move when advanced', () => {
+    const clock = new ManualClock();
+    expect(clock.now()).toBe(0);
+
+    clock.advance(16);
+    expect(clock.now()).toBe(16);
+    expect(() => clock.advance(-1)).toThrow('backwards');
+  });
+});
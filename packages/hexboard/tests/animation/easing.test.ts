@@ -0,0 +1,25 @@
+import { Easing } from '../../src/animation/easing';
+
+describe('Easing', () => {
+  it.each(Object.entries(Easing))('%s should run from 0 to 1', (_, easing) => {
+    expect(easing(0)).toBeCloseTo(0);
+    expect(easing(1)).toBeCloseTo(1);
+  });
+
+  it('should start slowly when easing in and end slowly when easing out', () => {
+    expect(Easing.linear(0.25)).toBe(0.25);
+    expect(Easing.easeInQuad(0.25)).toBeLessThan(0.25);
+    expect(Easing.easeOutQuad(0.25)).toBeGreaterThan(0.25);
+    expect(Easing.easeInOutCubic(0.25)).toBeLessThan(0.25);
+    expect(Easing.easeInOutCubic(0.75)).toBeGreaterThan(0.75);
+  });
+
+  it('should be symmetric when easing in and out', () => {
+    [Easing.easeInOutQuad, Easing.easeInOutCubic, Easing.easeInOutSine].forEach(
+      (easing) => {
+        expect(easing(0.5)).toBeCloseTo(0.5);
+        expect(easing(0.3) + easing(0.7)).toBeCloseTo(1);
+      }
+    );
+  });
+});
@@ -0,0 +1,158 @@
+import { Easing } from '../../src/animation/easing';
+import {
+  Animation,
+  Delay,
+  Parallel,
+  Sequence,
+  Tween,
+} from '../../src/animation/tween';
+
+describe('Tween', () => {
+  it('should move numeric properties to their new values over its duration', () => {
+    const position = { x: 0, y: 5, z: 10 };
+    const tween = new Tween(position, { x: 100, z: 0 }, { duration: 1000 });
+
+    expect(tween.update(250)).toBe(0);
+    expect(position).toEqual({ x: 25, y: 5, z: 7.5 });
+    expect(tween.isFinished()).toBe(false);
+
+    expect(tween.update(1000)).toBe(250);
+    expect(position).toEqual({ x: 100, y: 5, z: 0 });
+    expect(tween.isFinished()).toBe(true);
+  });
+
+  it('should start from the values the target has when it starts', () => {
+    const material = { opacity: 1 };
+    const tween = new Tween(material, { opacity: 0 }, { duration: 100 });
+    material.opacity = 0.5;
+
+    tween.update(50);
+
+    expect(material.opacity).toBe(0.25);
+  });
+
+  it('should apply its easing', () => {
+    const color = { r: 0, g: 0, b: 0 };
+    new Tween(
+      color,
+      { r: 1 },
+      { duration: 100, easing: Easing.easeInQuad }
+    ).update(50);
+
+    expect(color.r).toBe(0.25);
+  });
+
+  it('should wait out its delay before starting', () => {
+    const scale = { x: 1 };
+    const tween = new Tween(scale, { x: 3 }, { duration: 100, delay: 50 });
+
+    tween.update(40);
+    expect(scale.x).toBe(1);
+
+    tween.update(60);
+    expect(scale.x).toBe(2);
+  });
+
+  it('should report each change', () => {
+    const onUpdate = jest.fn();
+    const target = { value: 0 };
+    new Tween(target, { value: 1 }, { duration: 100, onUpdate }).update(10);
+
+    expect(onUpdate).toHaveBeenCalledWith(target);
+  });
+
+  it('should finish at once with no duration', () => {
+    const target = { value: 0 };
+    const tween = new Tween(target, { value: 1 }, { duration: 0 });
+
+    expect(tween.update(0)).toBe(0);
+    expect(target.value).toBe(1);
+    expect(tween.isFinished()).toBe(true);
+  });
+});
+
+describe('Delay', () => {
+  it('should finish after its duration and return the time left over', () => {
+    const delay = new Delay(100);
+
+    expect(delay.update(60)).toBe(0);
+    expect(delay.isFinished()).toBe(false);
+    expect(delay.update(60)).toBe(20);
+    expect(delay.isFinished()).toBe(true);
+  });
+});
+
+describe('Sequence', () => {
+  it('should run its animations in order, carrying time left over', () => {
+    const target = { x: 0, y: 0 };
+    const sequence = new Sequence([
+      new Tween(target, { x: 10 }, { duration: 100 }),
+      new Delay(50),
+      new Tween(target, { y: 10 }, { duration: 100 }),
+    ]);
+
+    sequence.update(120);
+    expect(target).toEqual({ x: 10, y: 0 });
+
+    sequence.update(80);
+    expect(target).toEqual({ x: 10, y: 5 });
+    expect(sequence.isFinished()).toBe(false);
+
+    expect(sequence.update(100)).toBe(50);
+    expect(target).toEqual({ x: 10, y: 10 });
+    expect(sequence.isFinished()).toBe(true);
+  });
+
+  it('should start each step from where the previous one left off', () => {
+    const target = { x: 0 };
+    const sequence = new Sequence([
+      new Tween(target, { x: 10 }, { duration: 100 }),
+      new Tween(target, { x: 20 }, { duration: 100 }),
+    ]);
+
+    sequence.update(150);
+
+    expect(target.x).toBe(15);
+  });
+
+  it('should finish at once when empty', () => {
+    const sequence = new Sequence([]);
+
+    expect(sequence.update(10)).toBe(10);
+    expect(sequence.isFinished()).toBe(true);
+  });
+});
+
+describe('Parallel', () => {
+  it('should run its animations together until the longest finishes', () => {
+    const target = { x: 0, y: 0 };
+    const parallel = new Parallel([
+      new Tween(target, { x: 10 }, { duration: 100 }),
+      new Tween(target, { y: 10 }, { duration: 200 }),
+    ]);
+
+    parallel.update(100);
+    expect(target).toEqual({ x: 10, y: 5 });
+    expect(parallel.isFinished()).toBe(false);
+
+    expect(parallel.update(150)).toBe(50);
+    expect(target).toEqual({ x: 10, y: 10 });
+    expect(parallel.isFinished()).toBe(true);
+  });
+
+  it('should nest inside sequences', () => {
+    const target = { x: 0, y: 0 };
+    const steps: Animation[] = [
+      new Parallel([
+        new Tween(target, { x: 10 }, { duration: 100 }),
+        new Tween(target, { y: 10 }, { duration: 50 }),
+      ]),
+      new Tween(target, { x: 0 }, { duration: 100 }),
+    ];
+    const sequence = new Sequence(steps);
+
+    sequence.update(150);
+
+    expect(target).toEqual({ x: 5, y: 10 });
+  });
+});
@@ -0,0 +1,213 @@
+import {
+  CommandHistory,
+  HistoryAction,
+} from '../../src/commands/commandHistory';
+
+/** Adds an amount to a counter; the reverse adds its negation */
+type AddCommand = { add: number };
+
+describe('CommandHistory', () => {
+  let total: number;
+  let applied: number[];
+  let history: CommandHistory<AddCommand>;
+
+  const apply = (command: AddCommand): AddCommand => {
+    if (total + command.add < 0) {
+      throw new Error('Total cannot go below zero');
+    }
+    total += command.add;
+    applied.push(command.add);
+    return { add: -command.add };
+  };
+
+  beforeEach(() => {
+    total = 0;
+    applied = [];
+    history = new CommandHistory(apply);
+  });
+
+  it('should apply executed commands', () => {
+    history.execute({ add: 2 });
+    history.execute({ add: 3 });
+
+    expect(total).toBe(5);
+    expect(history.getUndoDepth()).toBe(2);
+    expect(history.canRedo()).toBe(false);
+  });
+
+  it('should undo and redo commands in order', () => {
+    history.execute({ add: 2 });
+    history.execute({ add: 3 });
+
+    expect(history.undo()).toBe(true);
+    expect(total).toBe(2);
+    expect(history.undo()).toBe(true);
+    expect(total).toBe(0);
+    expect(history.undo()).toBe(false);
+
+    expect(history.redo()).toBe(true);
+    expect(total).toBe(2);
+    expect(history.redo()).toBe(true);
+    expect(total).toBe(5);
+    expect(history.redo()).toBe(false);
+  });
+
+  it('should discard redoable steps when a new command is executed', () => {
+    history.execute({ add: 2 });
+    history.undo();
+    history.execute({ add: 7 });
+
+    expect(history.canRedo()).toBe(false);
+    expect(history.redo()).toBe(false);
+    expect(total).toBe(7);
+  });
+
+  it('should record nothing when a command throws', () => {
+    expect(() => history.execute({ add: -1 })).toThrow(
+      'Total cannot go below zero'
+    );
+
+    expect(history.canUndo()).toBe(false);
+  });
+
+  it('should forget the oldest steps beyond the maximum depth', () => {
+    history = new CommandHistory(apply, { maxDepth: 2 });
+    history.execute({ add: 1 });
+    history.execute({ add: 2 });
+    history.execute({ add: 3 });
+
+    expect(history.getUndoDepth()).toBe(2);
+    history.undo();
+    history.undo();
+    expect(history.undo()).toBe(false);
+    expect(total).toBe(1);
+  });
+
+  it('should trim the history when the maximum depth is lowered', () => {
+    history.execute({ add: 1 });
+    history.execute({ add: 2 });
+
+    history.setMaxDepth(1);
+
+    expect(history.getMaxDepth()).toBe(1);
+    expect(history.getUndoDepth()).toBe(1);
+    expect(() => history.setMaxDepth(-1)).toThrow(
+      'History depth must not be negative, got -1'
+    );
+  });
+
+  describe('transactions', () => {
+    it('should undo and redo a transaction as one step', () => {
+      history.beginTransaction();
+      history.execute({ add: 1 });
+      history.execute({ add: 2 });
+      history.commitTransaction();
+
+      expect(history.getUndoDepth()).toBe(1);
+      applied = [];
+      history.undo();
+      expect(total).toBe(0);
+      expect(applied).toEqual([-2, -1]);
+
+      applied = [];
+      history.redo();
+      expect(total).toBe(3);
+      expect(applied).toEqual([1, 2]);
+    });
+
+    it('should record nothing for an empty transaction', () => {
+      history.beginTransaction();
+      history.commitTransaction();
+
+      expect(history.canUndo()).toBe(false);
+    });
+
+    it('should reverse what a rolled back transaction executed', () => {
+      history.execute({ add: 5 });
+      history.beginTransaction();
+      history.execute({ add: 1 });
+      history.execute({ add: 2 });
+      history.rollbackTransaction();
+
+      expect(total).toBe(5);
+      expect(history.getUndoDepth()).toBe(1);
+      expect(history.isInTransaction()).toBe(false);
+    });
+
+    it('should roll back a transaction function that throws', () => {
+      expect(() =>
+        history.transaction(() => {
+          history.execute({ add: 4 });
+          history.execute({ add: -10 });
+        })
+      ).toThrow('Total cannot go below zero');
+
+      expect(total).toBe(0);
+      expect(history.canUndo()).toBe(false);
+    });
+
+    it('should return the result of a transaction function', () => {
+      const result = history.transaction(() => {
+        history.execute({ add: 4 });
+        return 'done';
+      });
+
+      expect(result).toBe('done');
+      expect(history.getUndoDepth()).toBe(1);
+    });
+
+    it('should not allow nested transactions, or undo and redo during one', () => {
+      history.beginTransaction();
+
+      expect(() => history.beginTransaction()).toThrow(
+        'A transaction is already open'
+      );
+      expect(() => history.undo()).toThrow(
+        'Cannot undo while a transaction is open'
+      );
+      expect(() => history.redo()).toThrow(
+        'Cannot redo while a transaction is open'
+      );
+    });
+
+    it('should not commit or roll back without a transaction', () => {
+      expect(() => history.commitTransaction()).toThrow(
+        'No transaction is open'
+      );
+      expect(() => history.rollbackTransaction()).toThrow(
+        'No transaction is open'
+      );
+    });
+  });
+
+  it('should emit change events with the commands applied', () => {
+    const changes: [HistoryAction, AddCommand[]][] = [];
+    history.on('change', ({ action, commands }) =>
+      changes.push([action, commands])
+    );
+
+    history.execute({ add: 2 });
+    history.undo();
+    history.redo();
+    history.clear();
+
+    expect(changes).toEqual([
+      ['execute', [{ add: 2 }]],
+      ['undo', [{ add: -2 }]],
+      ['redo', [{ add: 2 }]],
+      ['clear', []],
+    ]);
+  });
+
+  it('should forget every step when cleared', () => {
+    history.execute({ add: 2 });
+    history.execute({ add: 3 });
+    history.undo();
+
+    history.clear();
+
+    expect(history.canUndo()).toBe(false);
+    expect(history.canRedo()).toBe(false);
+    expect(total).toBe(2);
+  });
+});
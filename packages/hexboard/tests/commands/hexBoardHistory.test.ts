@@ -0,0 +1,302 @@
+import { HexBoard } from '../../src/hexBoard';
+import { hexEquals } from '../../src/core/coordinates';
+import * as THREE from 'three';
+
+// Mock Three.js and related libraries
+jest.mock('three');
+jest.mock('three-stdlib', () => ({
+  OrbitControls: jest.fn().mockImplementation(() => ({
+    enabled: true,
+    update: jest.fn(),
+    dispose: jest.fn(),
+    addEventListener: jest.fn(),
+    removeEventListener: jest.fn(),
+  })),
+}));
+
+// Create mock canvas element
+const createMockCanvas = () => {
+  const canvas = document.createElement('canvas');
+  Object.defineProperty(canvas, 'clientWidth', {
+    value: 800,
+    configurable: true,
+  });
+  Object.defineProperty(canvas, 'clientHeight', {
+    value: 600,
+    configurable: true,
+  });
+  Object.defineProperty(canvas, 'getContext', {
+    value: jest.fn().mockReturnValue({}),
+    configurable: true,
+  });
+  canvas.addEventListener = jest.fn();
+  canvas.removeEventListener = jest.fn();
+  canvas.getBoundingClientRect = jest.fn().mockReturnValue({
+    left: 0,
+    top: 0,
+    width: 800,
+    height: 600,
+  });
+  return canvas;
+};
+
+// Mock WebGLRenderer
+const createMockRenderer = () => {
+  const canvas = createMockCanvas();
+  return {
+    domElement: canvas,
+    setSize: jest.fn(),
+    render: jest.fn(),
+    dispose: jest.fn(),
+    getSize: jest.fn().mockReturnValue(new THREE.Vector2(800, 600)),
+    setClearColor: jest.fn(),
+    shadowMap: {
+      enabled: false,
+      type: THREE.PCFSoftShadowMap,
+    },
+  } as any;
+};
+
+describe('HexBoard undo and redo', () => {
+  let hexBoard: HexBoard<{ terrain?: string }>;
+
+  beforeEach(() => {
+    // Create DOM container for testing
+    const container = document.createElement('div');
+    container.id = 'test-container';
+    document.body.appendChild(container);
+
+    // Mock Three.js constructors
+    (THREE.WebGLRenderer as jest.Mock).mockImplementation(() =>
+      createMockRenderer()
+    );
+    (THREE.PerspectiveCamera as unknown as jest.Mock).mockImplementation(
+      () => ({
+        aspect: 1.33,
+        position: { set: jest.fn(), x: 10, y: 10, z: 10 },
+        lookAt: jest.fn(),
+        updateProjectionMatrix: jest.fn(),
+      })
+    );
+    (THREE.Scene as unknown as jest.Mock).mockImplementation(() => ({
+      add: jest.fn(),
+      remove: jest.fn(),
+      clear: jest.fn(),
+    }));
+    (THREE.DirectionalLight as unknown as jest.Mock).mockImplementation(() => ({
+      position: { set: jest.fn() },
+    }));
+    (THREE.Mesh as unknown as jest.Mock).mockImplementation(() => ({
+      userData: {},
+      position: { set: jest.fn(), x: 0, y: 0, z: 0 },
+      geometry: { dispose: jest.fn() },
+      material: { dispose: jest.fn() },
+    }));
+
+    hexBoard = new HexBoard<{ terrain?: string }>();
+  });
+
+  afterEach(() => {
+    hexBoard.dispose();
+
+    // Clean up DOM container
+    const container = document.getElementById('test-container');
+    if (container) {
+      document.body.removeChild(container);
+    }
+
+    jest.clearAllMocks();
+  });
+
+  const origin = { q: 0, r: 0, s: 0 };
+  const east = { q: 1, r: 0, s: -1 };
+
+  beforeEach(async () => {
+    await hexBoard.init('test-container');
+    hexBoard.setCellAtCoords(origin, { customProps: { terrain: 'grass' } });
+    hexBoard.setCellAtCoords(east, { customProps: { terrain: 'water' } });
+    hexBoard.getHistory().clear();
+  });
+
+  it('should undo and redo cell changes', () => {
+    hexBoard.setCellAtCoords(origin, {
+      elevation: 2,
+      customProps: { terrain: 'sand' },
+    });
+    hexBoard.updateCellAtCoords(origin, { isImpassable: true });
+    hexBoard.removeCellAtCoords(east);
+
+    expect(hexBoard.undo()).toBe(true);
+    expect(hexBoard.getCellAtCoords(east)?.customProps.terrain).toBe('water');
+    expect(hexBoard.undo()).toBe(true);
+    expect(hexBoard.getCellAtCoords(origin)?.isImpassable).toBe(false);
+    expect(hexBoard.getCellAtCoords(origin)?.elevation).toBe(2);
+    expect(hexBoard.undo()).toBe(true);
+    expect(hexBoard.getCellAtCoords(origin)?.customProps.terrain).toBe('grass');
+    expect(hexBoard.undo()).toBe(false);
+
+    hexBoard.redo();
+    hexBoard.redo();
+    hexBoard.redo();
+    expect(hexBoard.getCellAtCoords(origin)).toMatchObject({
+      elevation: 2,
+      isImpassable: true,
+      customProps: { terrain: 'sand' },
+    });
+    expect(hexBoard.hasCellAtCoords(east)).toBe(false);
+  });
+
+  it('should remove an added cell on undo', () => {
+    const removed = jest.fn();
+    hexBoard.on('cellRemoved', removed);
+    hexBoard.setCellAtCoords({ q: 2, r: 0, s: -2 }, {});
+
+    hexBoard.undo();
+
+    expect(hexBoard.hasCellAtCoords({ q: 2, r: 0, s: -2 })).toBe(false);
+    expect(removed).toHaveBeenCalledWith({
+      cell: expect.objectContaining({ q: 2, r: 0 }),
+    });
+  });
+
+  it('should redraw only the cells a change affects', () => {
+    const renderer = hexBoard.getRenderer()!;
+    const updateSpy = jest.spyOn(renderer, 'updateHexCell');
+    const removeSpy = jest.spyOn(renderer, 'removeHexCell');
+    const redrawSpy = jest.spyOn(renderer, 'renderHexGrid');
+    hexBoard.updateCellAtCoords(origin, { elevation: 3 });
+    hexBoard.removeCellAtCoords(east);
+
+    hexBoard.undo();
+    hexBoard.undo();
+
+    expect(updateSpy).toHaveBeenCalledTimes(3);
+    expect(updateSpy).toHaveBeenLastCalledWith(origin);
+    expect(removeSpy).toHaveBeenCalledWith(expect.objectContaining(east));
+    expect(redrawSpy).not.toHaveBeenCalled();
+  });
+
+  it('should not record changes to cells that do not exist', () => {
+    expect(
+      hexBoard.updateCellAtCoords({ q: 5, r: 5, s: -10 }, { elevation: 1 })
+    ).toBeUndefined();
+    expect(hexBoard.removeCellAtCoords({ q: 5, r: 5, s: -10 })).toBe(false);
+    expect(hexBoard.getHistory().canUndo()).toBe(false);
+  });
+
+  it('should take back an entity move', () => {
+    const moved = jest.fn();
+    hexBoard.on('entityMoved', moved);
+    const entity = hexBoard.addEntity({
+      id: 'knight',
+      type: 'unit',
+      cellPosition: hexBoard.getCellAtCoords(origin)!,
+    })!;
+    hexBoard.startEntityMovement('knight', [east]);
+    hexBoard.moveEntity('knight', hexBoard.getCellAtCoords(east)!);
+
+    hexBoard.undo();
+
+    expect(hexEquals(entity.cellPosition, origin)).toBe(true);
+    expect(entity.isInMovementMode).toBe(false);
+    expect(moved).toHaveBeenLastCalledWith({
+      entity,
+      from: hexBoard.getCellAtCoords(east),
+      to: hexBoard.getCellAtCoords(origin),
+    });
+
+    hexBoard.redo();
+    expect(hexEquals(entity.cellPosition, east)).toBe(true);
+  });
+
+  it('should keep entities on a cell as its changes are made and undone', () => {
+    const entity = hexBoard.addEntity({
+      id: 'knight',
+      type: 'unit',
+      cellPosition: hexBoard.getCellAtCoords(origin)!,
+    })!;
+    hexBoard.startEntityMovement('knight', [east]);
+    const elevation = hexBoard.getCellAtCoords(origin)!.elevation;
+
+    hexBoard.updateCellAtCoords(origin, { elevation: 3 });
+    expect(entity.cellPosition).toBe(hexBoard.getCellAtCoords(origin));
+    expect(entity.cellPosition.elevation).toBe(3);
+    expect(entity.isInMovementMode).toBe(true);
+
+    hexBoard.undo();
+    expect(entity.cellPosition).toBe(hexBoard.getCellAtCoords(origin));
+    expect(entity.cellPosition.elevation).toBe(elevation);
+
+    hexBoard.redo();
+    expect(entity.cellPosition).toBe(hexBoard.getCellAtCoords(origin));
+    expect(entity.cellPosition.elevation).toBe(3);
+    expect(hexBoard.getEntityMovementDestinations('knight')).toEqual([east]);
+  });
+
+  it('should restore a removed entity and remove an added one', () => {
+    hexBoard.addEntity({
+      id: 'knight',
+      type: 'unit',
+      cellPosition: hexBoard.getCellAtCoords(origin)!,
+      owner: 'red',
+      customProps: { terrain: 'grass' },
+    });
+    hexBoard.removeEntity('knight');
+
+    hexBoard.undo();
+    expect(hexBoard.getEntityById('knight')).toMatchObject({
+      owner: 'red',
+      customProps: { terrain: 'grass' },
+    });
+
+    hexBoard.undo();
+    expect(hexBoard.getEntityById('knight')).toBeUndefined();
+    expect(hexBoard.removeEntity('knight')).toBe(false);
+  });
+
+  it('should undo a transaction in one step', () => {
+    const elevation = hexBoard.getCellAtCoords(origin)!.elevation;
+    hexBoard.getHistory().transaction(() => {
+      hexBoard.updateCellAtCoords(origin, { elevation: 5 });
+      hexBoard.updateCellAtCoords(east, { elevation: 5 });
+    });
+
+    hexBoard.undo();
+
+    expect(hexBoard.getCellAtCoords(origin)?.elevation).toBe(elevation);
+    expect(hexBoard.getCellAtCoords(east)?.elevation).toBe(elevation);
+    expect(hexBoard.getHistory().canUndo()).toBe(false);
+  });
+
+  it('should execute commands that survive a JSON round trip', () => {
+    const command = JSON.parse(
+      JSON.stringify({
+        type: 'setCell',
+        coordinates: { q: 2, r: 0, s: -2 },
+        cell: { elevation: 4 },
+      })
+    );
+
+    hexBoard.executeCommand(command);
+
+    expect(hexBoard.getCellAtCoords({ q: 2, r: 0, s: -2 })?.elevation).toBe(4);
+    expect(hexBoard.undo()).toBe(true);
+  });
+
+  it('should clear the history when a map is loaded', () => {
+    hexBoard.updateCellAtCoords(origin, { elevation: 1 });
+
+    hexBoard.loadMap({
+      name: 'Single cell',
+      defaults: {
+        elevation: 0,
+        movementCost: 1,
+        isImpassable: false,
+        customProps: {},
+      },
+      cells: [{ q: 0, r: 0 }],
+    });
+
+    expect(hexBoard.getHistory().canUndo()).toBe(false);
+  });
+});
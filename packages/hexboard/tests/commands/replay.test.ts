@@ -0,0 +1,267 @@
+import { HexBoard } from '../../src/hexBoard';
+import { hexEquals } from '../../src/core/coordinates';
+import * as THREE from 'three';
+import {
+  ACTION_LOG_VERSION,
+  ActionRecorder,
+} from '../../src/commands/actionLog';
+import { Replay } from '../../src/commands/replay';
+import { Animator } from '../../src/animation/animator';
+import { ManualClock } from '../../src/animation/clock';
+
+// Mock Three.js and related libraries
+jest.mock('three');
+jest.mock('three-stdlib', () => ({
+  OrbitControls: jest.fn().mockImplementation(() => ({
+    enabled: true,
+    update: jest.fn(),
+    dispose: jest.fn(),
+    addEventListener: jest.fn(),
+    removeEventListener: jest.fn(),
+  })),
+}));
+
+// Create mock canvas element
+const createMockCanvas = () => {
+  const canvas = document.createElement('canvas');
+  Object.defineProperty(canvas, 'clientWidth', {
+    value: 800,
+    configurable: true,
+  });
+  Object.defineProperty(canvas, 'clientHeight', {
+    value: 600,
+    configurable: true,
+  });
+  Object.defineProperty(canvas, 'getContext', {
+    value: jest.fn().mockReturnValue({}),
+    configurable: true,
+  });
+  canvas.addEventListener = jest.fn();
+  canvas.removeEventListener = jest.fn();
+  canvas.getBoundingClientRect = jest.fn().mockReturnValue({
+    left: 0,
+    top: 0,
+    width: 800,
+    height: 600,
+  });
+  return canvas;
+};
+
+// Mock WebGLRenderer
+const createMockRenderer = () => {
+  const canvas = createMockCanvas();
+  return {
+    domElement: canvas,
+    setSize: jest.fn(),
+    render: jest.fn(),
+    dispose: jest.fn(),
+    getSize: jest.fn().mockReturnValue(new THREE.Vector2(800, 600)),
+    setClearColor: jest.fn(),
+    shadowMap: {
+      enabled: false,
+      type: THREE.PCFSoftShadowMap,
+    },
+  } as any;
+};
+
+describe('ActionRecorder and Replay', () => {
+  let hexBoard: HexBoard<{ terrain?: string }>;
+
+  beforeEach(() => {
+    // Create DOM container for testing
+    const container = document.createElement('div');
+    container.id = 'test-container';
+    document.body.appendChild(container);
+
+    // Mock Three.js constructors
+    (THREE.WebGLRenderer as jest.Mock).mockImplementation(() =>
+      createMockRenderer()
+    );
+    (THREE.PerspectiveCamera as unknown as jest.Mock).mockImplementation(
+      () => ({
+        aspect: 1.33,
+        position: { set: jest.fn(), x: 10, y: 10, z: 10 },
+        lookAt: jest.fn(),
+        updateProjectionMatrix: jest.fn(),
+      })
+    );
+    (THREE.Scene as unknown as jest.Mock).mockImplementation(() => ({
+      add: jest.fn(),
+      remove: jest.fn(),
+      clear: jest.fn(),
+    }));
+    (THREE.DirectionalLight as unknown as jest.Mock).mockImplementation(() => ({
+      position: { set: jest.fn() },
+    }));
+    (THREE.Mesh as unknown as jest.Mock).mockImplementation(() => ({
+      userData: {},
+      position: { set: jest.fn(), x: 0, y: 0, z: 0 },
+      geometry: { dispose: jest.fn() },
+      material: { dispose: jest.fn() },
+    }));
+
+    hexBoard = new HexBoard<{ terrain?: string }>();
+  });
+
+  afterEach(() => {
+    hexBoard.dispose();
+
+    // Clean up DOM container
+    const container = document.getElementById('test-container');
+    if (container) {
+      document.body.removeChild(container);
+    }
+
+    jest.clearAllMocks();
+  });
+
+  const origin = { q: 0, r: 0, s: 0 };
+  const east = { q: 1, r: 0, s: -1 };
+  const farEast = { q: 2, r: 0, s: -2 };
+
+  /** Records a short game: a knight is added, walks east twice and a cell is raised */
+  const recordGame = () => {
+    const recorder = new ActionRecorder(hexBoard);
+    hexBoard.addEntity({
+      id: 'knight',
+      type: 'unit',
+      cellPosition: hexBoard.getCellAtCoords(origin)!,
+    });
+    for (const step of [east, farEast]) {
+      hexBoard.startEntityMovement('knight', [step]);
+      hexBoard.moveEntity('knight', hexBoard.getCellAtCoords(step)!);
+    }
+    hexBoard.updateCellAtCoords(origin, { elevation: 3 });
+    recorder.stop();
+    return recorder;
+  };
+
+  const knightAt = () => hexBoard.getEntityById('knight')?.cellPosition;
+
+  beforeEach(async () => {
+    await hexBoard.init('test-container');
+    for (const coords of [origin, east, farEast]) {
+      hexBoard.setCellAtCoords(coords, { customProps: { terrain: 'grass' } });
+    }
+  });
+
+  it('should record the initial state and every change in order', () => {
+    const initialState = hexBoard.serialize();
+    const log = recordGame().getLog();
+
+    expect(log.version).toBe(ACTION_LOG_VERSION);
+    expect(log.initialState).toEqual(initialState);
+    expect(log.actions.map((action) => action.type)).toEqual([
+      'addEntity',
+      'moveEntity',
+      'moveEntity',
+      'updateCell',
+    ]);
+    expect(JSON.parse(JSON.stringify(log))).toEqual(log);
+  });
+
+  it('should record undos as the changes they make', () => {
+    const recorder = new ActionRecorder(hexBoard);
+    hexBoard.updateCellAtCoords(origin, { elevation: 3 });
+    hexBoard.undo();
+
+    const { actions } = recorder.getLog();
+    expect(actions).toHaveLength(2);
+    expect(actions[1]).toMatchObject({
+      type: 'setCell',
+      coordinates: origin,
+    });
+  });
+
+  it('should stop recording', () => {
+    const recorder = recordGame();
+    hexBoard.updateCellAtCoords(east, { elevation: 2 });
+
+    expect(recorder.isRecording()).toBe(false);
+    expect(recorder.getActionCount()).toBe(4);
+  });
+
+  it('should replay a game step by step into a fresh board', async () => {
+    const log = recordGame().getLog();
+    const finalState = hexBoard.serialize();
+    hexBoard.dispose();
+    hexBoard = new HexBoard<{ terrain?: string }>();
+    await hexBoard.init('test-container');
+
+    const replay = new Replay(hexBoard, log);
+    expect(replay.getPosition()).toBe(0);
+    expect(knightAt()).toBeUndefined();
+
+    expect(replay.step()).toBe(true);
+    expect(hexEquals(knightAt()!, origin)).toBe(true);
+    replay.step();
+    expect(hexEquals(knightAt()!, east)).toBe(true);
+    replay.step();
+    replay.step();
+
+    expect(replay.isAtEnd()).toBe(true);
+    expect(replay.step()).toBe(false);
+    expect(hexBoard.serialize()).toEqual(finalState);
+    expect(hexBoard.getHistory().canUndo()).toBe(false);
+  });
+
+  it('should seek to any action index', () => {
+    const log = recordGame().getLog();
+    const replay = new Replay(hexBoard, log, { checkpointInterval: 2 });
+
+    replay.seek(3);
+    expect(hexEquals(knightAt()!, farEast)).toBe(true);
+    expect(hexBoard.getCellAtCoords(origin)?.elevation).not.toBe(3);
+
+    replay.seek(2);
+    expect(hexEquals(knightAt()!, east)).toBe(true);
+    expect(replay.stepBack()).toBe(true);
+    expect(hexEquals(knightAt()!, origin)).toBe(true);
+
+    replay.seek(0);
+    expect(knightAt()).toBeUndefined();
+    expect(replay.stepBack()).toBe(false);
+
+    replay.seek(4);
+    expect(hexBoard.getCellAtCoords(origin)?.elevation).toBe(3);
+    expect(() => replay.seek(5)).toThrow(
+      'Position 5 is outside the action log of length 4'
+    );
+  });
+
+  it('should play at a steady pace on an animator', async () => {
+    const log = recordGame().getLog();
+    const replay = new Replay(hexBoard, log);
+    const clock = new ManualClock();
+    const animator = new Animator(clock);
+
+    const playback = replay.play(animator, { actionsPerSecond: 4, to: 3 });
+    clock.advance(250);
+    animator.update();
+    expect(replay.getPosition()).toBe(1);
+
+    clock.advance(600);
+    animator.update();
+    expect(replay.getPosition()).toBe(3);
+    await expect(playback.finished).resolves.toBe(true);
+  });
+
+  it('should refuse to play at a pace that is not positive', () => {
+    const replay = new Replay(hexBoard, recordGame().getLog());
+    const animator = new Animator(new ManualClock());
+
+    for (const actionsPerSecond of [0, -1, NaN]) {
+      expect(() => replay.play(animator, { actionsPerSecond })).toThrow(
+        `Actions per second must be positive, got ${actionsPerSecond}`
+      );
+    }
+  });
+
+  it('should reject logs of unsupported versions', () => {
+    const log = { ...recordGame().getLog(), version: 99 };
+
+    expect(() => new Replay(hexBoard, log)).toThrow(
+      'Unsupported action log version 99; expected 1'
+    );
+  });
+});
@@ -1,8 +1,32 @@
 import {
+  HEX_DIRECTIONS,
   HexCoordinates,
   axialToCubic,
+  hexAdd,
+  hexDirectionTo,
+  hexDistance,
+  hexEquals,
+  hexLerp,
+  hexLine,
+  hexNeighbor,
+  hexReflect,
+  hexRotate,
+  hexScale,
+  hexSubtract,
   isValidHexCoordinate,
+  roundHexCoordinates,
 } from '../../src/core/coordinates';
+import { HexGrid } from '../../src/core/hexGrid';
+import { Direction } from '../../src/core/types';
+
+const ALL_DIRECTIONS = [
+  Direction.North,
+  Direction.Northeast,
+  Direction.Southeast,
+  Direction.South,
+  Direction.Southwest,
+  Direction.Northwest,
+];
 
 describe('Coordinate System', () => {
   describe('axialToCubic', () => {
@@ -177,4 +201,333 @@ describe('Coordinate System', () => {
       expect(result).toHaveProperty('s');
     });
   });
+
+  describe('HEX_DIRECTIONS', () => {
+    test('matches the neighbor order used by HexGrid', () => {
+      const grid = new HexGrid();
+      const neighbors = grid.getNeighborCoordinates(0, 0);
+
+      ALL_DIRECTIONS.forEach((direction) => {
+        expect(neighbors[direction].q).toBe(HEX_DIRECTIONS[direction].q);
+        expect(neighbors[direction].r).toBe(HEX_DIRECTIONS[direction].r);
+      });
+    });
+
+    test('contains only valid unit offsets', () => {
+      HEX_DIRECTIONS.forEach((offset) => {
+        expect(isValidHexCoordinate(offset)).toBe(true);
+        expect(hexDistance(offset, { q: 0, r: 0, s: 0 })).toBe(1);
+      });
+    });
+  });
+
+  describe('arithmetic', () => {
+    const a: HexCoordinates = { q: 2, r: -1, s: -1 };
+    const b: HexCoordinates = { q: -3, r: 1, s: 2 };
+
+    test('hexAdd adds component-wise', () => {
+      expect(hexAdd(a, b)).toEqual({ q: -1, r: 0, s: 1 });
+    });
+
+    test('hexSubtract subtracts component-wise', () => {
+      expect(hexSubtract(a, b)).toEqual({ q: 5, r: -2, s: -3 });
+    });
+
+    test('hexScale multiplies each component', () => {
+      expect(hexScale(a, 3)).toEqual({ q: 6, r: -3, s: -3 });
+    });
+
+    test('results keep the cubic coordinate invariant', () => {
+      expect(isValidHexCoordinate(hexAdd(a, b))).toBe(true);
+      expect(isValidHexCoordinate(hexSubtract(a, b))).toBe(true);
+      expect(isValidHexCoordinate(hexScale(b, -2))).toBe(true);
+    });
+  });
+
+  describe('hexEquals', () => {
+    test('compares all three components', () => {
+      expect(hexEquals({ q: 1, r: 2, s: -3 }, { q: 1, r: 2, s: -3 })).toBe(
+        true
+      );
+      expect(hexEquals({ q: 1, r: 2, s: -3 }, { q: 2, r: 1, s: -3 })).toBe(
+        false
+      );
+    });
+
+    test('treats negative zero as zero', () => {
+      expect(hexEquals(axialToCubic(0, 0), { q: 0, r: 0, s: 0 })).toBe(true);
+    });
+  });
+
+  describe('hexNeighbor', () => {
+    test('steps one hex in each direction', () => {
+      const center = { q: 2, r: -1, s: -1 };
+
+      expect(hexNeighbor(center, Direction.North)).toEqual({
+        q: 1,
+        r: -2,
+        s: 1,
+      });
+      expect(hexNeighbor(center, Direction.Southeast)).toEqual({
+        q: 3,
+        r: -1,
+        s: -2,
+      });
+
+      ALL_DIRECTIONS.forEach((direction) => {
+        expect(hexDistance(center, hexNeighbor(center, direction))).toBe(1);
+      });
+    });
+
+    test('agrees with HexGrid.getNeighborCoordinates', () => {
+      const grid = new HexGrid();
+      const center = { q: -1, r: 3, s: -2 };
+      const neighbors = grid.getNeighborCoordinatesFromCoords(center);
+
+      ALL_DIRECTIONS.forEach((direction) => {
+        expect(
+          hexEquals(hexNeighbor(center, direction), neighbors[direction])
+        ).toBe(true);
+      });
+    });
+  });
+
+  describe('hexDistance', () => {
+    test('is zero for the same hex', () => {
+      expect(hexDistance({ q: 3, r: -2, s: -1 }, { q: 3, r: -2, s: -1 })).toBe(
+        0
+      );
+    });
+
+    test('counts steps along each direction', () => {
+      const origin = { q: 0, r: 0, s: 0 };
+      ALL_DIRECTIONS.forEach((direction) => {
+        const target = hexScale(HEX_DIRECTIONS[direction], 4);
+        expect(hexDistance(origin, target)).toBe(4);
+      });
+    });
+
+    test('matches the number of steps found by a grid search', () => {
+      const grid = new HexGrid();
+      for (let q = -4; q <= 4; q++) {
+        for (let r = -4; r <= 4; r++) {
+          grid.addCell({ q, r });
+        }
+      }
+
+      const start = { q: 0, r: 0, s: 0 };
+      grid.getAllCells().forEach((cell) => {
+        const path = grid.findPath(start, cell);
+        expect(hexDistance(start, cell)).toBe(path!.path.length - 1);
+      });
+    });
+
+    test('is symmetric', () => {
+      const a = { q: 3, r: -5, s: 2 };
+      const b = { q: -2, r: 1, s: 1 };
+      expect(hexDistance(a, b)).toBe(hexDistance(b, a));
+    });
+  });
+
+  describe('hexDirectionTo', () => {
+    test('returns the exact direction of each neighbor', () => {
+      const center = { q: 1, r: 1, s: -2 };
+      ALL_DIRECTIONS.forEach((direction) => {
+        expect(hexDirectionTo(center, hexNeighbor(center, direction))).toBe(
+          direction
+        );
+      });
+    });
+
+    test('returns the direction of a distant hex along a straight line', () => {
+      const origin = { q: 0, r: 0, s: 0 };
+      expect(hexDirectionTo(origin, { q: 5, r: 5, s: -10 })).toBe(
+        Direction.South
+      );
+      expect(hexDirectionTo(origin, { q: -3, r: 0, s: 3 })).toBe(
+        Direction.Northwest
+      );
+    });
+
+    test('returns a first step that moves closer to the target', () => {
+      const from = { q: 0, r: 0, s: 0 };
+      const to = { q: 4, r: 1, s: -5 };
+      const direction = hexDirectionTo(from, to)!;
+
+      expect(hexDistance(hexNeighbor(from, direction), to)).toBe(
+        hexDistance(from, to) - 1
+      );
+    });
+
+    test('returns null for the same hex', () => {
+      expect(hexDirectionTo({ q: 1, r: 0, s: -1 }, { q: 1, r: 0, s: -1 })).toBe(
+        null
+      );
+    });
+  });
+
+  describe('hexRotate', () => {
+    const origin = { q: 0, r: 0, s: 0 };
+
+    test('rotates each direction onto the next one clockwise', () => {
+      ALL_DIRECTIONS.forEach((direction) => {
+        const rotated = hexRotate(HEX_DIRECTIONS[direction], 1);
+        expect(hexEquals(rotated, HEX_DIRECTIONS[(direction + 1) % 6])).toBe(
+          true
+        );
+      });
+    });
+
+    test('rotates counter-clockwise for negative steps', () => {
+      const rotated = hexRotate(HEX_DIRECTIONS[Direction.North], -1);
+      expect(hexEquals(rotated, HEX_DIRECTIONS[Direction.Northwest])).toBe(
+        true
+      );
+    });
+
+    test('returns to the start after six steps and preserves distance', () => {
+      const coords = { q: 3, r: -1, s: -2 };
+      for (let steps = 0; steps <= 6; steps++) {
+        const rotated = hexRotate(coords, steps);
+        expect(isValidHexCoordinate(rotated)).toBe(true);
+        expect(hexDistance(origin, rotated)).toBe(hexDistance(origin, coords));
+      }
+      expect(hexEquals(hexRotate(coords, 6), coords)).toBe(true);
+    });
+
+    test('rotates around an arbitrary center', () => {
+      const center = { q: 2, r: 2, s: -4 };
+      const north = hexNeighbor(center, Direction.North);
+      const rotated = hexRotate(north, 2, center);
+
+      expect(hexEquals(rotated, hexNeighbor(center, Direction.Southeast))).toBe(
+        true
+      );
+    });
+  });
+
+  describe('hexReflect', () => {
+    test('mirrors neighbors across the North-South axis', () => {
+      const reflect = (direction: Direction) =>
+        hexReflect(HEX_DIRECTIONS[direction], Direction.North);
+
+      expect(hexEquals(reflect(Direction.North), HEX_DIRECTIONS[0])).toBe(true);
+      expect(
+        hexEquals(
+          reflect(Direction.Northeast),
+          HEX_DIRECTIONS[Direction.Northwest]
+        )
+      ).toBe(true);
+      expect(
+        hexEquals(
+          reflect(Direction.Southeast),
+          HEX_DIRECTIONS[Direction.Southwest]
+        )
+      ).toBe(true);
+    });
+
+    test('leaves hexes on the axis unchanged', () => {
+      ALL_DIRECTIONS.forEach((axis) => {
+        const onAxis = hexScale(HEX_DIRECTIONS[axis], 3);
+        expect(hexEquals(hexReflect(onAxis, axis), onAxis)).toBe(true);
+      });
+    });
+
+    test('is its own inverse and preserves distance from the center', () => {
+      const center = { q: -1, r: 2, s: -1 };
+      const coords = { q: 3, r: 1, s: -4 };
+
+      ALL_DIRECTIONS.forEach((axis) => {
+        const mirrored = hexReflect(coords, axis, center);
+        expect(hexDistance(center, mirrored)).toBe(hexDistance(center, coords));
+        expect(hexEquals(hexReflect(mirrored, axis, center), coords)).toBe(
+          true
+        );
+      });
+    });
+  });
+
+  describe('hexLerp', () => {
+    const a = { q: 0, r: 0, s: 0 };
+    const b = { q: 4, r: -2, s: -2 };
+
+    test('returns the endpoints at t = 0 and t = 1', () => {
+      expect(hexLerp(a, b, 0)).toEqual(a);
+      expect(hexLerp(a, b, 1)).toEqual(b);
+    });
+
+    test('returns fractional coordinates between the endpoints', () => {
+      const midpoint = hexLerp(a, b, 0.5);
+      expect(midpoint).toEqual({ q: 2, r: -1, s: -1 });
+
+      const quarter = hexLerp(a, b, 0.25);
+      expect(quarter.q).toBeCloseTo(1);
+      expect(quarter.r).toBeCloseTo(-0.5);
+      expect(quarter.q + quarter.r + quarter.s).toBeCloseTo(0);
+    });
+  });
+
+  describe('roundHexCoordinates', () => {
+    test('rounds fractional coordinates to the nearest hex', () => {
+      expect(roundHexCoordinates({ q: 1.1, r: -0.4, s: -0.7 })).toEqual({
+        q: 1,
+        r: 0,
+        s: -1,
+      });
+    });
+
+    test('keeps the cube invariant when correcting the largest error', () => {
+      const rounded = roundHexCoordinates({ q: 0.4, r: 0.4, s: -0.8 });
+      expect(rounded.q + rounded.r + rounded.s).toBe(0);
+    });
+  });
+
+  describe('hexLine', () => {
+    const start = { q: 0, r: 0, s: 0 };
+
+    test('returns a single hex when both endpoints are the same', () => {
+      const line = hexLine(start, start);
+
+      expect(line).toHaveLength(1);
+      expect(hexEquals(line[0], start)).toBe(true);
+    });
+
+    test('includes both endpoints and one hex per step', () => {
+      const end = { q: 3, r: -2, s: -1 };
+      const line = hexLine(start, end);
+
+      expect(line).toHaveLength(hexDistance(start, end) + 1);
+      expect(hexEquals(line[0], start)).toBe(true);
+      expect(hexEquals(line[line.length - 1], end)).toBe(true);
+    });
+
+    test('steps between adjacent hexes only', () => {
+      const end = { q: -4, r: 1, s: 3 };
+      const line = hexLine(start, end);
+
+      for (let i = 1; i < line.length; i++) {
+        expect(hexDistance(line[i - 1], line[i])).toBe(1);
+      }
+    });
+
+    test('follows a straight direction exactly', () => {
+      ALL_DIRECTIONS.forEach((direction) => {
+        const end = hexScale(HEX_DIRECTIONS[direction], 3);
+        const line = hexLine(start, end);
+
+        line.forEach((hex, i) => {
+          expect(hexEquals(hex, hexScale(HEX_DIRECTIONS[direction], i))).toBe(
+            true
+          );
+        });
+      });
+    });
+
+    test('is deterministic on ties between two hexes', () => {
+      // Every other step of this line lies exactly between two hexes
+      const end = { q: 2, r: -2, s: 0 };
+      expect(hexLine(start, end)).toEqual(hexLine(start, end));
+      expect(hexLine(start, end)).toHaveLength(hexDistance(start, end) + 1);
+    });
+  });
 });
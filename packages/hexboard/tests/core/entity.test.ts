@@ -138,9 +138,11 @@ describe('Entity', () => {
 
       const entity: Entity<TestCustomProps> = {
         id: 'test-entity',
+        type: 'test',
         cellPosition: testCell,
         model: {} as THREE.Object3D,
         movementSpeed: 2,
+        customProps: { health: 100, level: 1 },
         isInMovementMode: false,
       };
 
@@ -197,9 +199,11 @@ describe('Entity', () => {
 
       const entity: Entity = {
         id: 'default-entity',
+        type: 'test',
         cellPosition: testCell,
         model: {} as THREE.Object3D,
         movementSpeed: 1,
+        customProps: {},
         isInMovementMode: false,
       };
 
@@ -218,15 +222,22 @@ describe('Entity', () => {
         customProps: { health: 100, level: 1, terrain: 'grass' },
       };
 
-      const _customProps = { health: 75, level: 4, name: 'Hero' };
+      const customProps = { health: 75, level: 4, name: 'Hero' };
       const entity: Entity<TestCustomProps> = {
         id: 'hero-entity',
+        type: 'test',
         cellPosition: testCell,
         model: {} as THREE.Object3D,
         movementSpeed: 3,
+        customProps,
         isInMovementMode: false,
       };
 
+      expect(entity.customProps).toEqual({
+        health: 75,
+        level: 4,
+        name: 'Hero',
+      });
       expect(entity.cellPosition.customProps).toEqual({
         health: 100,
         level: 1,
@@ -384,6 +395,40 @@ describe('EntityManager', () => {
       // expect(retrievedEntity!.modelKey).toBe('knight-model');
     });
 
+    it('should copy the type and custom properties when adding an entity', () => {
+      const typedManager = new EntityManager<{ health?: number }>();
+      const entity = typedManager.addEntity({
+        id: 'typed-entity',
+        type: 'knight',
+        cellPosition: { ...testCell, customProps: {} },
+        customProps: { health: 5 },
+      });
+
+      expect(entity.type).toBe('knight');
+      expect(entity.customProps).toEqual({ health: 5 });
+    });
+
+    it('should default custom properties to an empty object', () => {
+      const entity = entityManager.addEntity({
+        id: 'plain-entity',
+        type: 'knight',
+        cellPosition: testCell,
+      });
+
+      expect(entity.customProps).toEqual({});
+    });
+
+    it('should copy the owner when adding an entity', () => {
+      const entity = entityManager.addEntity({
+        id: 'owned-entity',
+        type: 'knight',
+        cellPosition: testCell,
+        owner: 'player-1',
+      });
+
+      expect(entity.owner).toBe('player-1');
+    });
+
     it('should handle a missing modelKey gracefully', () => {
       const entityDef: EntityDefinition = {
         id: 'no-model-entity',
@@ -447,6 +492,23 @@ describe('EntityManager', () => {
     });
   });
 
+  describe('clear', () => {
+    it('should remove every entity and movement session', () => {
+      entityManager.addEntity({
+        id: 'entity-1',
+        type: 'test',
+        cellPosition: testCell,
+      });
+      entityManager.startMovement('entity-1', [testCell2]);
+
+      entityManager.clear();
+
+      expect(entityManager.getAllEntities()).toEqual([]);
+      expect(entityManager.getEntitiesAt('0,0,0')).toEqual([]);
+      expect(entityManager.getMovementDestinations('entity-1')).toEqual([]);
+    });
+  });
+
   describe('removeEntity', () => {
     it('should remove an existing entity', () => {
       const entityDef: EntityDefinition = {
@@ -984,6 +1046,78 @@ describe('EntityManager', () => {
       });
     });
 
+    describe('placeEntity method', () => {
+      it('should move an entity without a movement session', () => {
+        entityManager.addEntity({
+          id: 'placed-entity',
+          type: 'warrior',
+          cellPosition: testCell,
+        });
+
+        entityManager.placeEntity('placed-entity', testCell2);
+
+        expect(entityManager.getEntity('placed-entity')?.cellPosition).toBe(
+          testCell2
+        );
+        expect(entityManager.getEntitiesAt('0,0,0')).toHaveLength(0);
+        expect(entityManager.getEntitiesAt('1,-1,0')).toHaveLength(1);
+      });
+
+      it('should end the movement session of an entity in movement mode', () => {
+        entityManager.addEntity({
+          id: 'placed-entity',
+          type: 'warrior',
+          cellPosition: testCell,
+        });
+        entityManager.startMovement('placed-entity', [testCell2]);
+
+        entityManager.placeEntity('placed-entity', testCell);
+
+        expect(entityManager.getEntity('placed-entity')?.isInMovementMode).toBe(
+          false
+        );
+        expect(entityManager.getMovementDestinations('placed-entity')).toEqual(
+          []
+        );
+      });
+
+      it('should throw an error if the entity does not exist', () => {
+        expect(() => entityManager.placeEntity('missing', testCell)).toThrow(
+          'Entity with ID missing not found'
+        );
+      });
+    });
+
+    describe('validateMove method', () => {
+      it('should accept a destination of the movement session without moving', () => {
+        entityManager.addEntity({
+          id: 'validated-entity',
+          type: 'warrior',
+          cellPosition: testCell,
+        });
+        entityManager.startMovement('validated-entity', [testCell2]);
+
+        expect(() =>
+          entityManager.validateMove('validated-entity', testCell2)
+        ).not.toThrow();
+        expect(entityManager.getEntity('validated-entity')?.cellPosition).toBe(
+          testCell
+        );
+      });
+
+      it('should reject an entity that is not in movement mode', () => {
+        entityManager.addEntity({
+          id: 'validated-entity',
+          type: 'warrior',
+          cellPosition: testCell,
+        });
+
+        expect(() =>
+          entityManager.validateMove('validated-entity', testCell2)
+        ).toThrow('Entity validated-entity is not in movement mode');
+      });
+    });
+
     describe('getMovementDestinations method', () => {
       it('should return available destinations for an entity in movement mode', () => {
         const entityDef: EntityDefinition = {
@@ -1070,5 +1204,82 @@ describe('EntityManager', () => {
         ).toEqual([]);
       });
     });
+
+    describe('replaceCell method', () => {
+      it('should point the entities on a cell at its replacement', () => {
+        entityManager.addEntity({
+          id: 'knight',
+          type: 'warrior',
+          cellPosition: testCell,
+        });
+        entityManager.addEntity({
+          id: 'archer',
+          type: 'ranger',
+          cellPosition: testCell2,
+        });
+        entityManager.startMovement('knight', [testCell2]);
+        const raised = { ...testCell, elevation: 2 };
+
+        entityManager.replaceCell(raised);
+
+        expect(entityManager.getEntity('knight')).toMatchObject({
+          cellPosition: raised,
+          isInMovementMode: true,
+        });
+        expect(entityManager.getEntitiesAt('0,0,0')).toHaveLength(1);
+        expect(entityManager.getMovementDestinations('knight')).toEqual([
+          testCell2,
+        ]);
+        expect(entityManager.getEntity('archer')?.cellPosition).toBe(testCell2);
+      });
+    });
+
+    describe('turn records', () => {
+      beforeEach(() => {
+        entityManager.addEntity({
+          id: 'knight',
+          type: 'warrior',
+          cellPosition: testCell,
+        });
+        entityManager.addEntity({
+          id: 'archer',
+          type: 'ranger',
+          cellPosition: testCell2,
+        });
+      });
+
+      it('should record which entities moved or acted', () => {
+        entityManager.setMoved('knight');
+        entityManager.setActed('archer');
+
+        expect(entityManager.hasMoved('knight')).toBe(true);
+        expect(entityManager.hasActed('knight')).toBe(false);
+        expect(entityManager.hasMoved('archer')).toBe(false);
+        expect(entityManager.hasActed('archer')).toBe(true);
+
+        entityManager.setMoved('knight', false);
+        expect(entityManager.hasMoved('knight')).toBe(false);
+      });
+
+      it('should forget every record when cleared', () => {
+        entityManager.setMoved('knight');
+        entityManager.setActed('archer');
+
+        entityManager.clearTurnRecords();
+
+        expect(entityManager.hasMoved('knight')).toBe(false);
+        expect(entityManager.hasActed('archer')).toBe(false);
+      });
+
+      it('should forget the records of a removed entity', () => {
+        entityManager.setMoved('knight');
+        entityManager.setActed('knight');
+
+        entityManager.removeEntity('knight');
+
+        expect(entityManager.hasMoved('knight')).toBe(false);
+        expect(entityManager.hasActed('knight')).toBe(false);
+      });
+    });
   });
 });
@@ -0,0 +1,109 @@
+import { EventEmitter } from '../../src/core/events';
+
+interface TestEvents {
+  ping: { count: number };
+  pong: { message: string };
+}
+
+describe('EventEmitter', () => {
+  let emitter: EventEmitter<TestEvents>;
+
+  beforeEach(() => {
+    emitter = new EventEmitter<TestEvents>();
+  });
+
+  it('should call every listener of an event in the order they were added', () => {
+    const calls: string[] = [];
+    emitter.on('ping', ({ count }) => calls.push(`first ${count}`));
+    emitter.on('ping', ({ count }) => calls.push(`second ${count}`));
+
+    emitter.emit('ping', { count: 1 });
+
+    expect(calls).toEqual(['first 1', 'second 1']);
+  });
+
+  it('should only call listeners of the emitted event', () => {
+    const pingHandler = jest.fn();
+    const pongHandler = jest.fn();
+    emitter.on('ping', pingHandler);
+    emitter.on('pong', pongHandler);
+
+    emitter.emit('pong', { message: 'hello' });
+
+    expect(pingHandler).not.toHaveBeenCalled();
+    expect(pongHandler).toHaveBeenCalledWith({ message: 'hello' });
+  });
+
+  it('should do nothing when an event has no listeners', () => {
+    expect(() => emitter.emit('ping', { count: 1 })).not.toThrow();
+    expect(emitter.hasListeners('ping')).toBe(false);
+  });
+
+  it('should stop calling a listener once unsubscribed', () => {
+    const handler = jest.fn();
+    const unsubscribe = emitter.on('ping', handler);
+
+    emitter.emit('ping', { count: 1 });
+    unsubscribe();
+    unsubscribe();
+    emitter.emit('ping', { count: 2 });
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(emitter.hasListeners('ping')).toBe(false);
+  });
+
+  it('should remove a listener with off', () => {
+    const handler = jest.fn();
+    const other = jest.fn();
+    emitter.on('ping', handler);
+    emitter.on('ping', other);
+
+    emitter.off('ping', handler);
+    emitter.emit('ping', { count: 1 });
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(other).toHaveBeenCalledTimes(1);
+  });
+
+  it('should let a listener unsubscribe itself during an emit', () => {
+    const later = jest.fn();
+    const unsubscribe = emitter.on('ping', () => unsubscribe());
+    emitter.on('ping', later);
+
+    emitter.emit('ping', { count: 1 });
+    emitter.emit('ping', { count: 2 });
+
+    expect(later).toHaveBeenCalledTimes(2);
+    expect(emitter.hasListeners('ping')).toBe(true);
+  });
+
+  it('should keep calling listeners after one throws', () => {
+    const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+    const handler = jest.fn();
+    emitter.on('ping', () => {
+      throw new Error('listener failed');
+    });
+    emitter.on('ping', handler);
+
+    emitter.emit('ping', { count: 1 });
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(consoleSpy).toHaveBeenCalledWith(
+      "Error in 'ping' event listener:",
+      expect.any(Error)
+    );
+    consoleSpy.mockRestore();
+  });
+
+  it('should remove every listener with removeAllListeners', () => {
+    const handler = jest.fn();
+    emitter.on('ping', handler);
+    emitter.on('pong', handler);
+
+    emitter.removeAllListeners();
+    emitter.emit('ping', { count: 1 });
+    emitter.emit('pong', { message: 'hello' });
+
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
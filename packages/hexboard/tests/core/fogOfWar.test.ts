@@ -0,0 +1,179 @@
+import { hexDistance } from '../../src/core/coordinates';
+import { EntityManager } from '../../src/core/entity';
+import { CellVisibility, FogOfWar } from '../../src/core/fogOfWar';
+import { HexGrid } from '../../src/core/hexGrid';
+
+describe('FogOfWar', () => {
+  let grid: HexGrid;
+  let entityManager: EntityManager;
+  let fog: FogOfWar;
+
+  const origin = { q: 0, r: 0, s: 0 };
+
+  // Moves an entity the way a game would, through a movement session
+  const move = (entityId: string, q: number, r: number): void => {
+    const cell = grid.getCell(q, r)!;
+    entityManager.startMovement(entityId, [cell]);
+    entityManager.moveEntity(entityId, cell);
+  };
+
+  beforeEach(() => {
+    // A flat hexagonal board of radius 6
+    grid = new HexGrid();
+    for (let q = -6; q <= 6; q++) {
+      for (let r = -6; r <= 6; r++) {
+        if (hexDistance(origin, { q, r, s: -q - r }) <= 6) {
+          grid.addCell({ q, r });
+        }
+      }
+    }
+
+    entityManager = new EntityManager();
+    entityManager.addEntity({
+      id: 'scout',
+      type: 'scout',
+      cellPosition: grid.getCell(0, 0)!,
+      owner: 'red',
+    });
+    entityManager.addEntity({
+      id: 'raider',
+      type: 'raider',
+      cellPosition: grid.getCell(5, 0)!,
+      owner: 'blue',
+    });
+
+    fog = new FogOfWar(grid, entityManager, { sightRadius: 2 });
+  });
+
+  describe('update', () => {
+    test('should track every player who owns an entity', () => {
+      fog.update();
+
+      expect(fog.getPlayerIds()).toEqual(['red', 'blue']);
+    });
+
+    test('should make cells around owned entities visible', () => {
+      fog.update();
+
+      expect(fog.getCellVisibility('red', origin)).toBe(CellVisibility.Visible);
+      expect(fog.getCellVisibility('red', { q: 2, r: 0, s: -2 })).toBe(
+        CellVisibility.Visible
+      );
+      expect(fog.getCellVisibility('red', { q: 3, r: 0, s: -3 })).toBe(
+        CellVisibility.Unexplored
+      );
+      expect(fog.getVisibleCellIds('red')).toHaveLength(19);
+    });
+
+    test('should keep each player to their own view', () => {
+      fog.update();
+
+      expect(fog.isCellVisible('blue', origin)).toBe(false);
+      expect(fog.isCellVisible('blue', { q: 5, r: 0, s: -5 })).toBe(true);
+    });
+
+    test('should leave cells explored once they drop out of sight', () => {
+      fog.update();
+      move('scout', -2, 0);
+      fog.update();
+
+      expect(fog.getCellVisibility('red', { q: 2, r: 0, s: -2 })).toBe(
+        CellVisibility.Explored
+      );
+      expect(fog.getCellVisibility('red', { q: -4, r: 0, s: 4 })).toBe(
+        CellVisibility.Visible
+      );
+      expect(fog.getExploredCellIds('red').length).toBeGreaterThan(
+        fog.getVisibleCellIds('red').length
+      );
+    });
+
+    test('should respect blocked lines of sight', () => {
+      grid.updateCell(1, 0, { isImpassable: true });
+      fog.update();
+
+      expect(fog.isCellVisible('red', { q: 1, r: 0, s: -1 })).toBe(true);
+      expect(fog.isCellVisible('red', { q: 2, r: 0, s: -2 })).toBe(false);
+    });
+
+    test('should use per-entity sight radii when provided', () => {
+      fog = new FogOfWar(grid, entityManager, {
+        getSightRadius: (entity) => (entity.id === 'scout' ? 4 : 1),
+      });
+      fog.update();
+
+      expect(fog.isCellVisible('red', { q: 4, r: 0, s: -4 })).toBe(true);
+      expect(fog.isCellVisible('blue', { q: 3, r: 0, s: -3 })).toBe(false);
+    });
+
+    test('should clear the view of players who lose all their entities', () => {
+      fog.update();
+      entityManager.removeEntity('raider');
+      fog.update();
+
+      expect(fog.getVisibleCellIds('blue')).toEqual([]);
+      expect(fog.getCellVisibility('blue', { q: 5, r: 0, s: -5 })).toBe(
+        CellVisibility.Explored
+      );
+    });
+  });
+
+  describe('players', () => {
+    test('should treat unknown players as having explored nothing', () => {
+      expect(fog.getCellVisibility('green', origin)).toBe(
+        CellVisibility.Unexplored
+      );
+      expect(fog.getVisibleCellIds('green')).toEqual([]);
+    });
+
+    test('should track players added without entities', () => {
+      fog.addPlayer('green');
+      fog.update();
+
+      expect(fog.getPlayerIds()).toContain('green');
+      expect(fog.getVisibleCellIds('green')).toEqual([]);
+    });
+
+    test('should forget removed players', () => {
+      fog.update();
+      fog.removePlayer('red');
+
+      expect(fog.getCellVisibility('red', origin)).toBe(
+        CellVisibility.Unexplored
+      );
+    });
+  });
+
+  describe('reveal', () => {
+    test('should mark cells explored without making them visible', () => {
+      fog.reveal('red', [
+        { q: -5, r: 0, s: 5 },
+        { q: 9, r: 9, s: -18 },
+      ]);
+
+      expect(fog.getCellVisibility('red', { q: -5, r: 0, s: 5 })).toBe(
+        CellVisibility.Explored
+      );
+      expect(fog.getExploredCellIds('red')).toEqual(['-5,0,5']);
+    });
+  });
+
+  describe('isEntityVisible', () => {
+    test('should always show players their own entities', () => {
+      expect(fog.isEntityVisible('red', 'scout')).toBe(true);
+    });
+
+    test("should show other players' entities only while their cell is visible", () => {
+      fog.update();
+      expect(fog.isEntityVisible('red', 'raider')).toBe(false);
+
+      move('raider', 2, 0);
+      fog.update();
+      expect(fog.isEntityVisible('red', 'raider')).toBe(true);
+    });
+
+    test('should return false for unknown entities', () => {
+      expect(fog.isEntityVisible('red', 'ghost')).toBe(false);
+    });
+  });
+});
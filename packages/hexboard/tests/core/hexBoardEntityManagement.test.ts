@@ -4,6 +4,14 @@ import { EntityRenderer } from '../../src/rendering/entityRenderer';
 import { ModelRegistry } from '../../src/rendering/modelRegistry';
 import { Cell } from '../../src/core/cell';
 import { HexCoordinates } from '../../src/core/coordinates';
+import { MapDefaultSettings, MapDefinition } from '../../src/map/mapDefinition';
+import { MigrationRegistry } from '../../src/serialization/migrations';
+import {
+  SerializedBoardState,
+  validateBoardState,
+} from '../../src/serialization/boardState';
+import { Random } from '../../src/core/random';
+import { TurnManager } from '../../src/core/turnManager';
 import * as THREE from 'three';
 
 // Mock Three.js and related libraries
@@ -40,12 +48,18 @@ jest.mock('../../src/core/entity', () => {
       addEntity: jest.fn(),
       removeEntity: jest.fn(),
       moveEntity: jest.fn(),
+      validateMove: jest.fn(),
+      placeEntity: jest.fn(),
       getEntity: jest.fn(),
       getEntitiesAt: jest.fn(),
       getAllEntities: jest.fn(),
       startMovement: jest.fn(),
       cancelMovement: jest.fn(),
       getMovementDestinations: jest.fn(),
+      setMoved: jest.fn(),
+      hasMoved: jest.fn(),
+      clearTurnRecords: jest.fn(),
+      replaceCell: jest.fn(),
     })),
   };
 });
@@ -174,12 +188,18 @@ describe('HexBoard Entity Management Integration', () => {
       addEntity: jest.fn(),
       removeEntity: jest.fn(),
       moveEntity: jest.fn(),
+      validateMove: jest.fn(),
+      placeEntity: jest.fn(),
       getEntity: jest.fn(),
       getEntitiesAt: jest.fn(),
       getAllEntities: jest.fn(),
       startMovement: jest.fn(),
       cancelMovement: jest.fn(),
       getMovementDestinations: jest.fn(),
+      setMoved: jest.fn(),
+      hasMoved: jest.fn(),
+      clearTurnRecords: jest.fn(),
+      replaceCell: jest.fn(),
     } as unknown as jest.Mocked<EntityManager>;
 
     mockEntityRenderer = {
@@ -233,7 +253,8 @@ describe('HexBoard Entity Management Integration', () => {
       expect(EntityRenderer).toHaveBeenCalledWith(
         expect.any(Object), // EntityManager mock
         expect.any(Object), // THREE.Scene mock
-        mockModelRegistry
+        mockModelRegistry,
+        (hexBoard as any).renderer.getAnimator() // Shares the render loop's animator
       );
     });
 
@@ -284,14 +305,17 @@ describe('HexBoard Entity Management Integration', () => {
 
       testEntity = {
         id: 'test-entity',
+        type: 'test',
         cellPosition: testCell,
         model: {} as THREE.Object3D,
         modelKey: 'warrior-model',
+        customProps: {},
         isInMovementMode: false,
       };
 
       // Initialize HexBoard with EntityManager
       await hexBoard.init('test-container');
+      hexBoard.getHexGrid().addCell(testCell);
 
       // Set up the internal entityManager mock (this will fail until implementation exists)
       (hexBoard as any).entityManager = mockEntityManager;
@@ -312,9 +336,11 @@ describe('HexBoard Entity Management Integration', () => {
         // This will fail until the addEntity method is implemented on HexBoard
         (hexBoard as any).addEntity(testEntityDefinition);
 
-        expect(mockEntityManager.addEntity).toHaveBeenCalledWith(
-          testEntityDefinition
-        );
+        expect(mockEntityManager.addEntity).toHaveBeenCalledWith({
+          ...testEntityDefinition,
+          cellPosition: hexBoard.getCellAtCoords(testCell),
+          customProps: {},
+        });
       });
 
       it('should return the entity created by the EntityManager', () => {
@@ -323,6 +349,15 @@ describe('HexBoard Entity Management Integration', () => {
 
         expect(result).toBe(testEntity);
       });
+
+      it('should throw when the board has no cell at the entity position', () => {
+        hexBoard.getHexGrid().removeCellByCoords(testCell);
+
+        expect(() => hexBoard.addEntity(testEntityDefinition)).toThrow(
+          'No cell at q=0, r=0, s=0'
+        );
+        expect(mockEntityManager.addEntity).not.toHaveBeenCalled();
+      });
     });
 
     describe('removeEntity', () => {
@@ -344,14 +379,17 @@ describe('HexBoard Entity Management Integration', () => {
     });
 
     describe('moveEntity', () => {
-      it('should call moveEntity on the internal EntityManager with the correct ID and cell', () => {
-        // This will fail until the moveEntity method is implemented on HexBoard
+      it('should validate the move with the internal EntityManager, then place the entity', () => {
         (hexBoard as any).moveEntity('test-entity', testCell);
 
-        expect(mockEntityManager.moveEntity).toHaveBeenCalledWith(
+        expect(mockEntityManager.validateMove).toHaveBeenCalledWith(
           'test-entity',
           testCell
         );
+        expect(mockEntityManager.placeEntity).toHaveBeenCalledWith(
+          'test-entity',
+          hexBoard.getCellAtCoords(testCell)
+        );
       });
     });
 
@@ -393,6 +431,7 @@ describe('HexBoard Entity Management Integration', () => {
     beforeEach(async () => {
       testEntity = {
         id: 'movement-entity',
+        type: 'test',
         cellPosition: {
           q: 0,
           r: 0,
@@ -404,6 +443,7 @@ describe('HexBoard Entity Management Integration', () => {
           customProps: { terrain: 'grass' },
         },
         model: {} as THREE.Object3D,
+        customProps: {},
         isInMovementMode: false,
       };
 
@@ -439,6 +479,70 @@ describe('HexBoard Entity Management Integration', () => {
       });
     });
 
+    describe('with a turn manager', () => {
+      let turnManager: TurnManager<{ terrain?: string }>;
+
+      beforeEach(() => {
+        turnManager = new TurnManager([{ id: 'red' }, { id: 'blue' }]);
+        turnManager.start();
+        hexBoard.setTurnManager(turnManager);
+        mockEntityManager.getEntity.mockReturnValue(
+          testEntity as unknown as Entity
+        );
+      });
+
+      it("should only start movement for the active player's entities", () => {
+        testEntity.owner = 'blue';
+        expect(
+          hexBoard.startEntityMovement('movement-entity', testDestinations)
+        ).toBe(false);
+        expect(mockEntityManager.startMovement).not.toHaveBeenCalled();
+
+        turnManager.endTurn();
+        expect(
+          hexBoard.startEntityMovement('movement-entity', testDestinations)
+        ).toBe(true);
+        expect(mockEntityManager.startMovement).toHaveBeenCalledWith(
+          'movement-entity',
+          testDestinations
+        );
+      });
+
+      it('should refuse movement for entities without an owner', () => {
+        expect(
+          hexBoard.startEntityMovement('movement-entity', testDestinations)
+        ).toBe(false);
+      });
+
+      it('should record moved entities for the turn', () => {
+        hexBoard.getHexGrid().addCell(testEntity.cellPosition);
+        hexBoard.moveEntity('movement-entity', testEntity.cellPosition);
+
+        expect(mockEntityManager.setMoved).toHaveBeenCalledWith(
+          'movement-entity',
+          true
+        );
+      });
+
+      it('should forget the turn records as each turn starts', () => {
+        turnManager.endTurn();
+        expect(mockEntityManager.clearTurnRecords).toHaveBeenCalledTimes(1);
+
+        hexBoard.setTurnManager(undefined);
+        turnManager.endTurn();
+        expect(mockEntityManager.clearTurnRecords).toHaveBeenCalledTimes(1);
+      });
+
+      it('should let any entity move once the turn manager is removed', () => {
+        hexBoard.setTurnManager(undefined);
+
+        expect(
+          hexBoard.startEntityMovement('movement-entity', testDestinations)
+        ).toBe(true);
+        expect(hexBoard.getTurnManager()).toBeUndefined();
+      });
+    });
+
     describe('cancelEntityMovement', () => {
       it('should call cancelMovement on the internal EntityManager with the correct entity ID', () => {
         // This will fail until the cancelEntityMovement method is implemented on HexBoard
@@ -464,4 +568,458 @@ describe('HexBoard Entity Management Integration', () => {
       });
     });
   });
+
+  describe('HexBoard Visibility', () => {
+    const from = { q: 0, r: 0, s: 0 };
+    const to = { q: 2, r: 0, s: -2 };
+
+    beforeEach(async () => {
+      await hexBoard.init('test-container');
+      (hexBoard as any).entityManager = mockEntityManager;
+
+      const grid = hexBoard.getHexGrid();
+      grid.addCell({ q: 0, r: 0 });
+      grid.addCell({ q: 1, r: 0 });
+      grid.addCell({ q: 2, r: 0 });
+
+      // A single entity stands on the middle cell
+      mockEntityManager.getEntitiesAt.mockImplementation((cellId) =>
+        cellId === '1,0,-1' ? [{ id: 'blocker' } as Entity] : []
+      );
+    });
+
+    it('should ignore entities by default', () => {
+      expect(hexBoard.hasLineOfSight(from, to)).toBe(true);
+    });
+
+    it('should treat occupied cells as blockers when entitiesBlockSight is set', () => {
+      expect(
+        hexBoard.hasLineOfSight(from, to, { entitiesBlockSight: true })
+      ).toBe(false);
+      expect(mockEntityManager.getEntitiesAt).toHaveBeenCalledWith('1,0,-1');
+    });
+
+    it('should hide cells behind entities when computing visible cells', () => {
+      const ids = hexBoard
+        .computeVisibleCells(from, 2, { entitiesBlockSight: true })
+        .map((cell) => cell.id);
+
+      expect(ids).toEqual(['0,0,0', '1,0,-1']);
+    });
+
+    it('should still honour a custom isBlocking predicate', () => {
+      mockEntityManager.getEntitiesAt.mockReturnValue([]);
+      const isBlocking = jest.fn().mockReturnValue(true);
+
+      expect(
+        hexBoard.hasLineOfSight(from, to, {
+          entitiesBlockSight: true,
+          isBlocking,
+        })
+      ).toBe(false);
+      expect(isBlocking).toHaveBeenCalled();
+    });
+  });
+
+  describe('HexBoard Map Loading', () => {
+    const definition = {
+      name: 'Test Map',
+      defaults: {
+        elevation: 2,
+        movementCost: 1,
+        isImpassable: false,
+        customProps: { terrain: 'grass' },
+      },
+      cells: [
+        { q: 0, r: 0 },
+        { q: 1, r: 0, customProps: { terrain: 'water' } },
+      ],
+    };
+
+    it('should replace the existing cells with the map cells', () => {
+      hexBoard.setCellAtCoords({ q: 5, r: 5, s: -10 }, {});
+
+      hexBoard.loadMap(definition);
+
+      expect(hexBoard.hasCellAtCoords({ q: 5, r: 5, s: -10 })).toBe(false);
+      expect(hexBoard.getAllCells()).toHaveLength(2);
+      expect(hexBoard.getCellAtCoords({ q: 1, r: 0, s: -1 })).toMatchObject({
+        elevation: 2,
+        customProps: { terrain: 'water' },
+      });
+    });
+
+    it('should leave the board unchanged when the map is invalid', () => {
+      hexBoard.setCellAtCoords({ q: 5, r: 5, s: -10 }, {});
+
+      expect(() =>
+        hexBoard.loadMap({
+          ...definition,
+          cells: [
+            { q: 0, r: 0 },
+            { q: 0, r: 0 },
+          ],
+        })
+      ).toThrow('cell 1: Duplicate cell at q=0, r=0, s=0');
+      expect(hexBoard.getAllCells()).toHaveLength(1);
+    });
+
+    it('should upgrade older maps with the given migrations', () => {
+      const migrations = new MigrationRegistry<
+        MapDefinition<{ terrain?: string }>
+      >().register({
+        version: 2,
+        description: 'Flood the map',
+        migrate: (document, report) => {
+          (document.defaults as MapDefaultSettings).elevation = 0;
+          report('lowered default elevation to 0');
+        },
+      });
+
+      const report = hexBoard.loadMap(definition, migrations);
+
+      expect(report!.steps[0].changes).toEqual([
+        'lowered default elevation to 0',
+      ]);
+      expect(hexBoard.getCellAtCoords({ q: 0, r: 0, s: 0 })!.elevation).toBe(0);
+    });
+
+    it('should return no report without migrations', () => {
+      expect(hexBoard.loadMap(definition)).toBeUndefined();
+    });
+
+    it('should redraw the board when initialized', async () => {
+      hexBoard.setCellAtCoords({ q: 5, r: 5, s: -10 }, {});
+      await hexBoard.init('test-container');
+      const renderer = (hexBoard as any).renderer;
+      const removeSpy = jest.spyOn(renderer, 'removeHexCell');
+      const renderSpy = jest
+        .spyOn(renderer, 'renderHexGrid')
+        .mockImplementation(() => {});
+
+      hexBoard.loadMap(definition);
+
+      expect(removeSpy).toHaveBeenCalledWith(
+        expect.objectContaining({ q: 5, r: 5 })
+      );
+      expect(renderSpy).toHaveBeenCalled();
+    });
+
+    describe('with entities on the board', () => {
+      const { EntityManager: RealEntityManager } = jest.requireActual(
+        '../../src/core/entity'
+      );
+      const origin = { q: 0, r: 0, s: 0 };
+      let scout: Entity<{ terrain?: string }>;
+
+      beforeEach(async () => {
+        await hexBoard.init('test-container');
+        (hexBoard as any).entityManager = new RealEntityManager();
+        const renderer = hexBoard.getRenderer()!;
+        jest.spyOn(renderer, 'updateHexCell').mockImplementation(() => {});
+        jest.spyOn(renderer, 'renderHexGrid').mockImplementation(() => {});
+
+        hexBoard.setCellAtCoords(origin, {});
+        hexBoard.setCellAtCoords({ q: 5, r: 5, s: -10 }, {});
+        scout = hexBoard.addEntity({
+          id: 'scout',
+          type: 'scout',
+          cellPosition: hexBoard.getCellAtCoords(origin)!,
+        })!;
+      });
+
+      it("should keep entities on the new map's cells", () => {
+        hexBoard.loadMap(definition);
+
+        expect(scout.cellPosition).toBe(hexBoard.getCellAtCoords(origin));
+        expect(scout.cellPosition.elevation).toBe(2);
+      });
+
+      it('should refuse a map without cells for its entities', () => {
+        hexBoard.addEntity({
+          id: 'ranger',
+          type: 'ranger',
+          cellPosition: hexBoard.getCellAtCoords({ q: 5, r: 5, s: -10 })!,
+        });
+
+        expect(() => hexBoard.loadMap(definition)).toThrow(
+          'The map has no cells for these entities: ranger at q=5, r=5, s=-10'
+        );
+        expect(hexBoard.getAllCells()).toHaveLength(2);
+        expect(hexBoard.getHistory().canUndo()).toBe(true);
+      });
+
+      it('should forget the selection, hovered cell and entity drag', () => {
+        const cell = hexBoard.getCellAtCoords(origin)!;
+        hexBoard.getSelection().select([cell], [scout]);
+        (hexBoard as any).hoveredCell = cell;
+        (hexBoard as any).entityDrag = { entity: scout, target: null };
+
+        hexBoard.loadMap(definition);
+
+        expect(hexBoard.getSelection().getSelectedCells()).toEqual([]);
+        expect(hexBoard.getSelection().getSelectedEntities()).toEqual([]);
+        expect((hexBoard as any).hoveredCell).toBeNull();
+        expect((hexBoard as any).entityDrag).toBeNull();
+      });
+    });
+  });
+
+  describe('HexBoard Serialization', () => {
+    const { EntityManager: RealEntityManager } = jest.requireActual(
+      '../../src/core/entity'
+    );
+
+    beforeEach(async () => {
+      await hexBoard.init('test-container');
+      (hexBoard as any).entityManager = new RealEntityManager();
+      jest
+        .spyOn(hexBoard.getRenderer()!, 'renderHexGrid')
+        .mockImplementation(() => {});
+
+      const grid = hexBoard.getHexGrid();
+      grid.addCell({ q: 0, r: 0, customProps: { terrain: 'grass' } });
+      grid.addCell({ q: 1, r: 0 });
+      hexBoard.addEntity({
+        id: 'scout',
+        type: 'scout',
+        cellPosition: grid.getCell(0, 0)!,
+        customProps: { terrain: 'grass' },
+      });
+      hexBoard.startEntityMovement('scout', [{ q: 1, r: 0, s: -1 }]);
+    });
+
+    it('should round-trip the board through JSON', () => {
+      const saved = JSON.parse(JSON.stringify(hexBoard.serialize()));
+
+      hexBoard.cancelEntityMovement('scout');
+      hexBoard.removeEntity('scout');
+      hexBoard.getHexGrid().addCell({ q: 4, r: 4 });
+      hexBoard.deserialize(saved);
+
+      expect(hexBoard.getAllCells()).toHaveLength(2);
+      expect(hexBoard.getEntityById('scout')).toMatchObject({
+        type: 'scout',
+        customProps: { terrain: 'grass' },
+        isInMovementMode: true,
+      });
+      expect(hexBoard.getEntityMovementDestinations('scout')).toEqual([
+        { q: 1, r: 0, s: -1 },
+      ]);
+      expect(hexBoard.getRenderer()!.renderHexGrid).toHaveBeenCalled();
+    });
+
+    it('should resume its random numbers from a snapshot', () => {
+      hexBoard.setRandom(new Random(42));
+      const saved = JSON.parse(JSON.stringify(hexBoard.serialize()));
+      const rolls = [1, 2, 3].map(() => hexBoard.getRandom().integer(1, 6));
+
+      hexBoard.deserialize(saved);
+
+      expect([1, 2, 3].map(() => hexBoard.getRandom().integer(1, 6))).toEqual(
+        rolls
+      );
+    });
+
+    it('should upgrade older saves with the given migrations', () => {
+      // Saves from before versioning had no version and called entities units
+      const unversioned: Record<string, unknown> = { ...hexBoard.serialize() };
+      unversioned.units = unversioned.entities;
+      delete unversioned.entities;
+      delete unversioned.version;
+      const migrations = new MigrationRegistry<
+        SerializedBoardState<{ terrain?: string }>
+      >({ initialVersion: 0 }).register({
+        version: 1,
+        description: 'Rename units to entities',
+        migrate: (document, report) => {
+          document.entities = document.units;
+          delete document.units;
+          report('renamed units to entities');
+        },
+      });
+      hexBoard.removeEntity('scout');
+
+      const report = hexBoard.deserialize(unversioned as never, migrations);
+
+      expect(report!.steps[0].changes).toEqual(['renamed units to entities']);
+      expect(hexBoard.getEntityById('scout')).toMatchObject({ type: 'scout' });
+    });
+
+    it('should reject migrations to a version it cannot read', () => {
+      const saved = hexBoard.serialize();
+      const migrations = new MigrationRegistry<
+        SerializedBoardState<{ terrain?: string }>
+      >().register({ version: 2, description: 'Next', migrate: () => {} });
+
+      expect(() => hexBoard.deserialize(saved, migrations)).toThrow(
+        'Board state migrations upgrade to version 2, but snapshots must be version 1'
+      );
+      expect(hexBoard.getAllEntities()).toHaveLength(1);
+    });
+
+    it('should remove entities with their cell so the board can still be saved', () => {
+      const origin = { q: 0, r: 0, s: 0 };
+      jest
+        .spyOn(hexBoard.getRenderer()!, 'updateHexCell')
+        .mockImplementation(() => {});
+      hexBoard.cancelEntityMovement('scout');
+
+      expect(hexBoard.removeCellAtCoords(origin)).toBe(true);
+      expect(hexBoard.getEntityById('scout')).toBeUndefined();
+      expect(validateBoardState(hexBoard.serialize())).toEqual([]);
+
+      hexBoard.undo();
+      expect(hexBoard.hasCellAtCoords(origin)).toBe(true);
+      expect(hexBoard.getEntitiesAt('0,0,0')).toEqual([
+        expect.objectContaining({ id: 'scout' }),
+      ]);
+    });
+
+    it('should refuse a command removing a cell with entities on it', () => {
+      expect(() =>
+        hexBoard.executeCommand({
+          type: 'removeCell',
+          coordinates: { q: 0, r: 0, s: 0 },
+        })
+      ).toThrow(
+        'Cannot remove the cell at q=0, r=0, s=0 while entities are on it'
+      );
+      expect(hexBoard.hasCellAtCoords({ q: 0, r: 0, s: 0 })).toBe(true);
+    });
+
+    it('should forget the selection, hovered cell and entity drag', () => {
+      const saved = hexBoard.serialize();
+      const scout = hexBoard.getEntityById('scout')!;
+      const cell = hexBoard.getCellAtCoords({ q: 0, r: 0, s: 0 })!;
+      hexBoard.getSelection().select([cell], [scout]);
+      (hexBoard as any).hoveredCell = cell;
+      (hexBoard as any).entityDrag = { entity: scout, target: null };
+
+      hexBoard.deserialize(saved);
+
+      expect(hexBoard.getSelection().getSelectedCells()).toEqual([]);
+      expect(hexBoard.getSelection().getSelectedEntities()).toEqual([]);
+      expect((hexBoard as any).hoveredCell).toBeNull();
+      expect((hexBoard as any).entityDrag).toBeNull();
+    });
+
+    it('should keep the interaction state when the snapshot is invalid', () => {
+      const cell = hexBoard.getCellAtCoords({ q: 0, r: 0, s: 0 })!;
+      hexBoard.getSelection().select([cell], []);
+
+      expect(() =>
+        hexBoard.deserialize({ ...hexBoard.serialize(), version: 0 })
+      ).toThrow();
+      expect(hexBoard.getSelection().getSelectedCells()).toEqual([cell]);
+    });
+
+    it('should leave the board unchanged when the snapshot is invalid', () => {
+      const saved = hexBoard.serialize();
+
+      expect(() => hexBoard.deserialize({ ...saved, version: 0 })).toThrow(
+        'Unsupported board state version: 0'
+      );
+      expect(hexBoard.getAllEntities()).toHaveLength(1);
+    });
+  });
+
+  describe('HexBoard Turn Records', () => {
+    const { EntityManager: RealEntityManager } = jest.requireActual(
+      '../../src/core/entity'
+    );
+    const destination = { q: 1, r: 0, s: -1 };
+
+    beforeEach(async () => {
+      await hexBoard.init('test-container');
+      (hexBoard as any).entityManager = new RealEntityManager();
+      jest
+        .spyOn(hexBoard.getRenderer()!, 'updateHexCell')
+        .mockImplementation(() => {});
+
+      const grid = hexBoard.getHexGrid();
+      grid.addCell({ q: 0, r: 0 });
+      grid.addCell(destination);
+      hexBoard.addEntity({
+        id: 'scout',
+        type: 'scout',
+        cellPosition: grid.getCell(0, 0)!,
+        owner: 'red',
+      });
+      hexBoard.startEntityMovement('scout', [destination]);
+    });
+
+    it('should forget a move when it is undone and recall it on redo', () => {
+      hexBoard.moveEntity('scout', hexBoard.getCellAtCoords(destination)!);
+      expect(hexBoard.hasEntityMoved('scout')).toBe(true);
+
+      hexBoard.undo();
+      expect(hexBoard.hasEntityMoved('scout')).toBe(false);
+
+      hexBoard.redo();
+      expect(hexBoard.hasEntityMoved('scout')).toBe(true);
+    });
+
+    it('should forget moves and actions when the next turn starts', () => {
+      const turnManager = new TurnManager<{ terrain?: string }>([
+        { id: 'red' },
+        { id: 'blue' },
+      ]);
+      hexBoard.setTurnManager(turnManager);
+      turnManager.start();
+      hexBoard.startEntityMovement('scout', [destination]);
+      hexBoard.moveEntity('scout', hexBoard.getCellAtCoords(destination)!);
+      hexBoard.markEntityActed('scout');
+      expect(hexBoard.hasEntityActed('scout')).toBe(true);
+
+      turnManager.endTurn();
+
+      expect(hexBoard.hasEntityMoved('scout')).toBe(false);
+      expect(hexBoard.hasEntityActed('scout')).toBe(false);
+    });
+  });
+
+  describe('HexBoard Fog of War', () => {
+    it('should warn when deserializing before init', () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation();
+      const state = hexBoard.serialize();
+
+      hexBoard.deserialize(state);
+
+      expect(warnSpy).toHaveBeenCalledWith(
+        'HexBoard: EntityManager not initialized. Call init() first.'
+      );
+      warnSpy.mockRestore();
+    });
+
+    it('should warn when enabling fog of war before init', () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation();
+
+      expect(hexBoard.enableFogOfWar()).toBeUndefined();
+      expect(warnSpy).toHaveBeenCalledWith(
+        'HexBoard: EntityManager not initialized. Call init() first.'
+      );
+
+      warnSpy.mockRestore();
+    });
+
+    it('should update the fog of war when entities change', async () => {
+      await hexBoard.init('test-container');
+      (hexBoard as any).entityManager = mockEntityManager;
+      mockEntityManager.getAllEntities.mockReturnValue([]);
+
+      const fogOfWar = hexBoard.enableFogOfWar({ sightRadius: 2 })!;
+      expect(hexBoard.getFogOfWar()).toBe(fogOfWar);
+
+      const cell = hexBoard.getHexGrid().addCell({ q: 0, r: 0, s: 0 });
+      const scout = { id: 'scout', type: 'scout', cellPosition: cell };
+      mockEntityManager.getEntity.mockReturnValue(scout as Entity);
+
+      const updateSpy = jest.spyOn(fogOfWar, 'update');
+      hexBoard.addEntity({ ...scout, owner: 'red' });
+      hexBoard.removeEntity('scout');
+
+      expect(updateSpy).toHaveBeenCalledTimes(2);
+    });
+  });
 });
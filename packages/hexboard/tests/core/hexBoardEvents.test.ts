@@ -0,0 +1,197 @@
+import { HexBoard } from '../../src/hexBoard';
+import * as THREE from 'three';
+
+// Mock Three.js and related libraries
+jest.mock('three');
+jest.mock('three-stdlib', () => ({
+  OrbitControls: jest.fn().mockImplementation(() => ({
+    enabled: true,
+    update: jest.fn(),
+    dispose: jest.fn(),
+    addEventListener: jest.fn(),
+    removeEventListener: jest.fn(),
+  })),
+}));
+
+// Create mock canvas element
+const createMockCanvas = () => {
+  const canvas = document.createElement('canvas');
+  Object.defineProperty(canvas, 'clientWidth', {
+    value: 800,
+    configurable: true,
+  });
+  Object.defineProperty(canvas, 'clientHeight', {
+    value: 600,
+    configurable: true,
+  });
+  Object.defineProperty(canvas, 'getContext', {
+    value: jest.fn().mockReturnValue({}),
+    configurable: true,
+  });
+  canvas.addEventListener = jest.fn();
+  canvas.removeEventListener = jest.fn();
+  canvas.getBoundingClientRect = jest.fn().mockReturnValue({
+    left: 0,
+    top: 0,
+    width: 800,
+    height: 600,
+  });
+  return canvas;
+};
+
+// Mock WebGLRenderer
+const createMockRenderer = () => {
+  const canvas = createMockCanvas();
+  return {
+    domElement: canvas,
+    setSize: jest.fn(),
+    render: jest.fn(),
+    dispose: jest.fn(),
+    getSize: jest.fn().mockReturnValue(new THREE.Vector2(800, 600)),
+    setClearColor: jest.fn(),
+    shadowMap: {
+      enabled: false,
+      type: THREE.PCFSoftShadowMap,
+    },
+  } as any;
+};
+
+describe('HexBoard events', () => {
+  let hexBoard: HexBoard<{ terrain?: string }>;
+
+  beforeEach(() => {
+    // Create DOM container for testing
+    const container = document.createElement('div');
+    container.id = 'test-container';
+    document.body.appendChild(container);
+
+    // Mock Three.js constructors
+    (THREE.WebGLRenderer as jest.Mock).mockImplementation(() =>
+      createMockRenderer()
+    );
+    (THREE.PerspectiveCamera as unknown as jest.Mock).mockImplementation(
+      () => ({
+        aspect: 1.33,
+        position: { set: jest.fn(), x: 10, y: 10, z: 10 },
+        lookAt: jest.fn(),
+        updateProjectionMatrix: jest.fn(),
+      })
+    );
+    (THREE.Scene as unknown as jest.Mock).mockImplementation(() => ({
+      add: jest.fn(),
+      remove: jest.fn(),
+      clear: jest.fn(),
+    }));
+    (THREE.DirectionalLight as unknown as jest.Mock).mockImplementation(() => ({
+      position: { set: jest.fn() },
+    }));
+    (THREE.Mesh as unknown as jest.Mock).mockImplementation(() => ({
+      userData: {},
+      position: { set: jest.fn(), x: 0, y: 0, z: 0 },
+      geometry: { dispose: jest.fn() },
+      material: { dispose: jest.fn() },
+    }));
+
+    hexBoard = new HexBoard<{ terrain?: string }>();
+  });
+
+  afterEach(() => {
+    hexBoard.dispose();
+
+    // Clean up DOM container
+    const container = document.getElementById('test-container');
+    if (container) {
+      document.body.removeChild(container);
+    }
+
+    jest.clearAllMocks();
+  });
+
+  beforeEach(async () => {
+    await hexBoard.init('test-container');
+
+    hexBoard.setCellAtCoords(
+      { q: 0, r: 0, s: 0 },
+      { customProps: { terrain: 'grass' } }
+    );
+    hexBoard.setCellAtCoords(
+      { q: 1, r: 0, s: -1 },
+      { customProps: { terrain: 'water' } }
+    );
+  });
+
+  it('should emit entityAdded, entityMoved and entityRemoved', () => {
+    const from = hexBoard.getCellAtCoords({ q: 0, r: 0, s: 0 })!;
+    const to = hexBoard.getCellAtCoords({ q: 1, r: 0, s: -1 })!;
+    const added = jest.fn();
+    const moved = jest.fn();
+    const removed = jest.fn();
+    hexBoard.on('entityAdded', added);
+    hexBoard.on('entityMoved', moved);
+    hexBoard.on('entityRemoved', removed);
+
+    const entity = hexBoard.addEntity({
+      id: 'knight',
+      type: 'unit',
+      cellPosition: from,
+      customProps: {},
+    })!;
+    hexBoard.startEntityMovement('knight', [to]);
+    hexBoard.moveEntity('knight', to);
+    hexBoard.removeEntity('knight');
+    hexBoard.removeEntity('knight');
+
+    expect(added).toHaveBeenCalledWith({ entity });
+    expect(moved).toHaveBeenCalledWith({ entity, from, to });
+    expect(removed).toHaveBeenCalledTimes(1);
+    expect(removed).toHaveBeenCalledWith({ entity });
+  });
+
+  it('should not emit entityMoved when a move is rejected', () => {
+    const from = hexBoard.getCellAtCoords({ q: 0, r: 0, s: 0 })!;
+    const to = hexBoard.getCellAtCoords({ q: 1, r: 0, s: -1 })!;
+    const moved = jest.fn();
+    hexBoard.on('entityMoved', moved);
+    hexBoard.addEntity({
+      id: 'knight',
+      type: 'unit',
+      cellPosition: from,
+      customProps: {},
+    });
+
+    expect(() => hexBoard.moveEntity('knight', to)).toThrow(
+      'Entity knight is not in movement mode'
+    );
+    expect(moved).not.toHaveBeenCalled();
+  });
+
+  it('should emit cellChanged with the replaced cell', () => {
+    const previous = hexBoard.getCellAtCoords({ q: 0, r: 0, s: 0 });
+    const handler = jest.fn();
+    hexBoard.on('cellChanged', handler);
+
+    hexBoard.setCellAtCoords(
+      { q: 0, r: 0, s: 0 },
+      { customProps: { terrain: 'sand' } }
+    );
+    hexBoard.setCellAtCoords({ q: 2, r: 0, s: -2 }, {});
+
+    const cell = hexBoard.getCellAtCoords({ q: 0, r: 0, s: 0 });
+    expect(handler).toHaveBeenNthCalledWith(1, { cell, previous });
+    expect(cell?.customProps.terrain).toBe('sand');
+    expect(handler).toHaveBeenNthCalledWith(2, {
+      cell: hexBoard.getCellAtCoords({ q: 2, r: 0, s: -2 }),
+      previous: undefined,
+    });
+  });
+
+  it('should remove a listener with off', () => {
+    const handler = jest.fn();
+    hexBoard.on('cellChanged', handler);
+    hexBoard.off('cellChanged', handler);
+
+    hexBoard.setCellAtCoords({ q: 0, r: 0, s: 0 }, {});
+
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
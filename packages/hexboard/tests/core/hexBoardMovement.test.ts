@@ -0,0 +1,188 @@
+import { HexBoard } from '../../src/hexBoard';
+import { HexCoordinates, hexEquals } from '../../src/core/coordinates';
+import * as THREE from 'three';
+
+// Mock Three.js and related libraries
+jest.mock('three');
+jest.mock('three-stdlib', () => ({
+  OrbitControls: jest.fn().mockImplementation(() => ({
+    enabled: true,
+    update: jest.fn(),
+    dispose: jest.fn(),
+    addEventListener: jest.fn(),
+    removeEventListener: jest.fn(),
+  })),
+}));
+
+// Create mock canvas element
+const createMockCanvas = () => {
+  const canvas = document.createElement('canvas');
+  Object.defineProperty(canvas, 'clientWidth', {
+    value: 800,
+    configurable: true,
+  });
+  Object.defineProperty(canvas, 'clientHeight', {
+    value: 600,
+    configurable: true,
+  });
+  Object.defineProperty(canvas, 'getContext', {
+    value: jest.fn().mockReturnValue({}),
+    configurable: true,
+  });
+  canvas.addEventListener = jest.fn();
+  canvas.removeEventListener = jest.fn();
+  canvas.getBoundingClientRect = jest.fn().mockReturnValue({
+    left: 0,
+    top: 0,
+    width: 800,
+    height: 600,
+  });
+  return canvas;
+};
+
+// Mock WebGLRenderer
+const createMockRenderer = () => {
+  const canvas = createMockCanvas();
+  return {
+    domElement: canvas,
+    setSize: jest.fn(),
+    render: jest.fn(),
+    dispose: jest.fn(),
+    getSize: jest.fn().mockReturnValue(new THREE.Vector2(800, 600)),
+    setClearColor: jest.fn(),
+    shadowMap: {
+      enabled: false,
+      type: THREE.PCFSoftShadowMap,
+    },
+  } as any;
+};
+
+describe('HexBoard moving along a path', () => {
+  let hexBoard: HexBoard<{ terrain?: string }>;
+
+  beforeEach(() => {
+    // Create DOM container for testing
+    const container = document.createElement('div');
+    container.id = 'test-container';
+    document.body.appendChild(container);
+
+    // Mock Three.js constructors
+    (THREE.WebGLRenderer as jest.Mock).mockImplementation(() =>
+      createMockRenderer()
+    );
+    (THREE.PerspectiveCamera as unknown as jest.Mock).mockImplementation(
+      () => ({
+        aspect: 1.33,
+        position: { set: jest.fn(), x: 10, y: 10, z: 10 },
+        lookAt: jest.fn(),
+        updateProjectionMatrix: jest.fn(),
+      })
+    );
+    (THREE.Scene as unknown as jest.Mock).mockImplementation(() => ({
+      add: jest.fn(),
+      remove: jest.fn(),
+      clear: jest.fn(),
+    }));
+    (THREE.DirectionalLight as unknown as jest.Mock).mockImplementation(() => ({
+      position: { set: jest.fn() },
+    }));
+    (THREE.Mesh as unknown as jest.Mock).mockImplementation(() => ({
+      userData: {},
+      position: { set: jest.fn(), x: 0, y: 0, z: 0 },
+      geometry: { dispose: jest.fn() },
+      material: { dispose: jest.fn() },
+    }));
+
+    hexBoard = new HexBoard<{ terrain?: string }>();
+  });
+
+  afterEach(() => {
+    hexBoard.dispose();
+
+    // Clean up DOM container
+    const container = document.getElementById('test-container');
+    if (container) {
+      document.body.removeChild(container);
+    }
+
+    jest.clearAllMocks();
+  });
+
+  const origin: HexCoordinates = { q: 0, r: 0, s: 0 };
+  const neighbor: HexCoordinates = { q: 1, r: 0, s: -1 };
+  const far: HexCoordinates = { q: 2, r: 0, s: -2 };
+  let finishWalk: () => void;
+  let animate: jest.Mock;
+
+  beforeEach(async () => {
+    await hexBoard.init('test-container');
+    hexBoard.setCellAtCoords(origin, { customProps: { terrain: 'grass' } });
+    hexBoard.setCellAtCoords(neighbor, { customProps: { terrain: 'water' } });
+    hexBoard.setCellAtCoords(far, { customProps: { terrain: 'grass' } });
+    hexBoard.addEntity({
+      id: 'knight',
+      type: 'unit',
+      cellPosition: hexBoard.getCellAtCoords(origin)!,
+      customProps: {},
+    });
+    hexBoard.startEntityMovement('knight', [far]);
+    animate = jest.fn(
+      () => new Promise<void>((resolve) => (finishWalk = resolve))
+    );
+    (hexBoard as any).entityRenderer = {
+      animateEntityAlongPath: animate,
+      getEntityModel: jest.fn(),
+      setVisibilityFilter: jest.fn(),
+      dispose: jest.fn(),
+    };
+  });
+
+  it('should move the entity at once and complete when the walk ends', async () => {
+    const events: string[] = [];
+    hexBoard.on('entityMoved', () => events.push('moved'));
+    hexBoard.on('entityMovementComplete', () => events.push('complete'));
+
+    const walk = hexBoard.moveEntityAlongPath('knight', [neighbor, far], {
+      speed: 3,
+    });
+
+    expect(hexEquals(hexBoard.getEntityById('knight')!.cellPosition, far)).toBe(
+      true
+    );
+    expect(events).toEqual(['moved']);
+    // The entity's own cell is added at the start of the route
+    expect(animate).toHaveBeenCalledWith(
+      'knight',
+      [
+        hexBoard.getCellAtCoords(origin),
+        hexBoard.getCellAtCoords(neighbor),
+        hexBoard.getCellAtCoords(far),
+      ],
+      { speed: 3 }
+    );
+
+    finishWalk();
+    await walk;
+    expect(events).toEqual(['moved', 'complete']);
+  });
+
+  it('should refuse to move an entity outside movement mode', async () => {
+    hexBoard.cancelEntityMovement('knight');
+
+    await expect(
+      hexBoard.moveEntityAlongPath('knight', [origin, neighbor, far])
+    ).rejects.toThrow('not in movement mode');
+    expect(animate).not.toHaveBeenCalled();
+  });
+
+  it('should do nothing for an unknown entity or an empty path', async () => {
+    const moved = jest.fn();
+    hexBoard.on('entityMoved', moved);
+
+    await hexBoard.moveEntityAlongPath('ghost', [far]);
+    await hexBoard.moveEntityAlongPath('knight', []);
+
+    expect(moved).not.toHaveBeenCalled();
+    expect(animate).not.toHaveBeenCalled();
+  });
+});
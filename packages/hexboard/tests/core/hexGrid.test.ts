@@ -1,7 +1,15 @@
 /// <reference lib="dom" />
 
+import { hexDistance } from '../../src/core/coordinates';
 import { HexGrid } from '../../src/core/hexGrid';
+import {
+  hexagonShape,
+  rectangleShape,
+  ringShape,
+  spiralShape,
+} from '../../src/core/shapes';
 import { BoundaryMap, Direction } from '../../src/core/types';
+import { MapDefinition } from '../../src/map/mapDefinition';
 
 interface TestProps extends Record<string, unknown> {
   type?: string;
@@ -306,6 +314,126 @@ describe('HexGrid', () => {
     });
   });
 
+  describe('fromMapDefinition', () => {
+    const definition: MapDefinition<TestProps> = {
+      name: 'Test Map',
+      defaults: {
+        elevation: 3,
+        movementCost: 2,
+        isImpassable: false,
+        customProps: { biome: 'forest' },
+      },
+      cells: [
+        { q: 0, r: 0 },
+        { q: 1, r: 0, elevation: 5, customProps: { type: 'tower' } },
+        { q: 0, r: 1, isImpassable: true, customProps: { biome: 'swamp' } },
+      ],
+    };
+
+    test('creates a cell for every definition', () => {
+      const mapGrid = HexGrid.fromMapDefinition<TestProps>(definition);
+
+      expect(mapGrid.size()).toBe(3);
+      expect(mapGrid.getAllCellIds()).toEqual(['0,0,0', '1,0,-1', '0,1,-1']);
+    });
+
+    test('applies the map defaults to omitted properties', () => {
+      const mapGrid = HexGrid.fromMapDefinition<TestProps>(definition);
+
+      expect(mapGrid.getCell(0, 0)).toMatchObject({
+        elevation: 3,
+        movementCost: 2,
+        isImpassable: false,
+        customProps: { biome: 'forest' },
+      });
+      expect(mapGrid.getCell(1, 0)!.elevation).toBe(5);
+      expect(mapGrid.getCell(0, 1)!.isImpassable).toBe(true);
+    });
+
+    test('merges default custom properties beneath cell custom properties', () => {
+      const mapGrid = HexGrid.fromMapDefinition<TestProps>(definition);
+
+      expect(mapGrid.getCell(1, 0)!.customProps).toEqual({
+        biome: 'forest',
+        type: 'tower',
+      });
+      expect(mapGrid.getCell(0, 1)!.customProps).toEqual({ biome: 'swamp' });
+    });
+
+    test('uses the map defaults for cells added later', () => {
+      const mapGrid = HexGrid.fromMapDefinition<TestProps>(definition);
+
+      expect(mapGrid.addCell({ q: 5, r: 5 }).elevation).toBe(3);
+    });
+
+    test('reports every invalid cell together', () => {
+      const invalid: MapDefinition<TestProps> = {
+        ...definition,
+        cells: [
+          { q: 0, r: 0 },
+          { q: 0, r: 0 },
+          { q: 1, r: 2, s: 3 },
+        ],
+      };
+
+      expect(() => HexGrid.fromMapDefinition<TestProps>(invalid)).toThrow(
+        [
+          "Invalid map definition 'Test Map' (2 errors):",
+          '  cell 1: Duplicate cell at q=0, r=0, s=0. Already defined by cell 0',
+          '  cell 2: Invalid hex coordinates: q=1, r=2, s=3. Must satisfy q + r + s = 0',
+        ].join('\n')
+      );
+    });
+  });
+
+  describe('addCellsFromShape', () => {
+    test('adds a cell at every coordinate of the shape', () => {
+      const cells = grid.addCellsFromShape(hexagonShape(2));
+
+      expect(cells).toHaveLength(19);
+      expect(grid.size()).toBe(19);
+      expect(grid.hasCell(2, 0)).toBe(true);
+      expect(grid.hasCell(-2, -2)).toBe(true);
+      expect(grid.hasCell(2, -2)).toBe(false);
+    });
+
+    test('applies the given defaults to every cell', () => {
+      const cells = grid.addCellsFromShape(
+        ringShape(1, { q: 3, r: 3, s: -6 }),
+        {
+          elevation: 4,
+          isImpassable: true,
+          customProps: { type: 'wall' },
+        }
+      );
+
+      cells.forEach((cell) => {
+        expect(cell.elevation).toBe(4);
+        expect(cell.isImpassable).toBe(true);
+        expect(cell.movementCost).toBe(1);
+        expect(cell.customProps).toEqual({ type: 'wall' });
+      });
+      expect(grid.hasCell(3, 3)).toBe(false);
+    });
+
+    test('returns cells in shape order', () => {
+      const shape = rectangleShape(3, 2);
+      const cells = grid.addCellsFromShape(shape);
+
+      expect(cells.map(({ q, r }) => ({ q, r }))).toEqual(
+        shape.map(({ q, r }) => ({ q, r }))
+      );
+    });
+
+    test('rejects shapes overlapping existing cells', () => {
+      grid.addCell({ q: 0, r: 0 });
+
+      expect(() => grid.addCellsFromShape(spiralShape(1))).toThrow(
+        'Cell already exists at coordinates q=0, r=0, s=0'
+      );
+    });
+  });
+
   describe('Utility Methods', () => {
     test('generates unique cell IDs', () => {
       const cell1 = grid.addCell({
@@ -787,6 +915,604 @@ describe('HexGrid', () => {
     });
   });
 
+  describe('findPath', () => {
+    // Fills a parallelogram of cells so that every cell has a full set of
+    // neighbors away from the edges.
+    const fillGrid = (radius: number) => {
+      for (let q = -radius; q <= radius; q++) {
+        for (let r = -radius; r <= radius; r++) {
+          grid.addCell({ q, r, customProps: { type: 'grass' } });
+        }
+      }
+    };
+
+    test('should return a single-cell path with zero cost when start equals goal', () => {
+      grid.addCell({ q: 0, r: 0 });
+
+      const result = grid.findPath({ q: 0, r: 0, s: 0 }, { q: 0, r: 0, s: 0 });
+
+      // Path coordinates come from the grid's cells (note: -0 is how JS represents s here)
+      expect(result).toEqual({ path: [{ q: 0, r: 0, s: -0 }], cost: 0 });
+    });
+
+    test('should return null if the start or goal does not exist on the grid', () => {
+      grid.addCell({ q: 0, r: 0 });
+
+      expect(
+        grid.findPath({ q: 0, r: 0, s: 0 }, { q: 1, r: 0, s: -1 })
+      ).toBeNull();
+      expect(
+        grid.findPath({ q: 1, r: 0, s: -1 }, { q: 0, r: 0, s: 0 })
+      ).toBeNull();
+    });
+
+    test('should return the ordered path and summed cost along a straight line', () => {
+      grid.addCell({ q: 0, r: 0 });
+      grid.addCell({ q: 1, r: 0, movementCost: 2 });
+      grid.addCell({ q: 2, r: 0, movementCost: 3 });
+
+      const result = grid.findPath({ q: 0, r: 0, s: 0 }, { q: 2, r: 0, s: -2 });
+
+      expect(result).not.toBeNull();
+      expect(result!.path).toEqual([
+        { q: 0, r: 0, s: -0 },
+        { q: 1, r: 0, s: -1 },
+        { q: 2, r: 0, s: -2 },
+      ]);
+      // The start cell's cost is never paid
+      expect(result!.cost).toBe(5);
+    });
+
+    test('should route around expensive terrain when a cheaper detour exists', () => {
+      fillGrid(3);
+      grid.updateCell(1, 0, { movementCost: 10 });
+      grid.updateCell(2, 0, { movementCost: 10 });
+
+      const result = grid.findPath({ q: 0, r: 0, s: 0 }, { q: 3, r: 0, s: -3 });
+
+      expect(result).not.toBeNull();
+      expect(result!.cost).toBe(4);
+      expect(result!.path).toHaveLength(5);
+      expect(result!.path).not.toContainEqual({ q: 1, r: 0, s: -1 });
+      expect(result!.path).not.toContainEqual({ q: 2, r: 0, s: -2 });
+    });
+
+    test('should produce a path where every step moves to a neighboring cell', () => {
+      fillGrid(3);
+      grid.updateCell(0, 1, { movementCost: 4 });
+      grid.updateCell(1, 1, { movementCost: 4 });
+
+      const result = grid.findPath(
+        { q: -2, r: -2, s: 4 },
+        { q: 3, r: 2, s: -5 }
+      );
+
+      expect(result).not.toBeNull();
+      for (let i = 1; i < result!.path.length; i++) {
+        const neighbors = grid.getNeighborCoordinatesFromCoords(
+          result!.path[i - 1]
+        );
+        expect(neighbors).toContainEqual(result!.path[i]);
+      }
+    });
+
+    test('should not path through impassable cells when respectImpassable is true', () => {
+      grid.addCell({ q: 0, r: 0 });
+      grid.addCell({ q: 1, r: 0, isImpassable: true });
+      grid.addCell({ q: 2, r: 0 });
+
+      const result = grid.findPath({ q: 0, r: 0, s: 0 }, { q: 2, r: 0, s: -2 });
+
+      expect(result).toBeNull();
+    });
+
+    test('should path through impassable cells when respectImpassable is false', () => {
+      grid.addCell({ q: 0, r: 0 });
+      grid.addCell({ q: 1, r: 0, isImpassable: true });
+      grid.addCell({ q: 2, r: 0 });
+
+      const result = grid.findPath(
+        { q: 0, r: 0, s: 0 },
+        { q: 2, r: 0, s: -2 },
+        { respectImpassable: false }
+      );
+
+      expect(result).not.toBeNull();
+      expect(result!.path).toContainEqual({ q: 1, r: 0, s: -1 });
+    });
+
+    test('should return null if the goal is impassable', () => {
+      grid.addCell({ q: 0, r: 0 });
+      grid.addCell({ q: 1, r: 0, isImpassable: true });
+
+      const result = grid.findPath({ q: 0, r: 0, s: 0 }, { q: 1, r: 0, s: -1 });
+
+      expect(result).toBeNull();
+    });
+
+    test('should use a custom movement cost callback when provided', () => {
+      fillGrid(2);
+      const getMovementCost = jest.fn(() => 2);
+
+      const result = grid.findPath(
+        { q: 0, r: 0, s: 0 },
+        { q: 2, r: 0, s: -2 },
+        { getMovementCost }
+      );
+
+      expect(getMovementCost).toHaveBeenCalled();
+      expect(result!.cost).toBe(4);
+    });
+
+    test('should treat an infinite step cost as blocked', () => {
+      grid.addCell({ q: 0, r: 0 });
+      grid.addCell({ q: 1, r: 0, customProps: { type: 'wall' } });
+      grid.addCell({ q: 2, r: 0 });
+
+      const result = grid.findPath(
+        { q: 0, r: 0, s: 0 },
+        { q: 2, r: 0, s: -2 },
+        {
+          getMovementCost: (_from, to) =>
+            to.customProps.type === 'wall' ? Infinity : to.movementCost,
+        }
+      );
+
+      expect(result).toBeNull();
+    });
+
+    test('should find an equally cheap path when a heuristic is supplied', () => {
+      fillGrid(3);
+      grid.updateCell(1, 0, { movementCost: 3 });
+      grid.updateCell(1, 1, { movementCost: 3 });
+
+      const start = { q: -3, r: -1, s: 4 };
+      const goal = { q: 3, r: 1, s: -4 };
+      const dijkstra = grid.findPath(start, goal);
+      const aStar = grid.findPath(start, goal, {
+        heuristic: hexDistance,
+      });
+
+      expect(aStar).not.toBeNull();
+      expect(aStar!.cost).toBe(dijkstra!.cost);
+    });
+
+    test('should throw if the movement cost callback returns a negative cost', () => {
+      grid.addCell({ q: 0, r: 0 });
+      grid.addCell({ q: 1, r: 0 });
+
+      expect(() =>
+        grid.findPath(
+          { q: 0, r: 0, s: 0 },
+          { q: 1, r: 0, s: -1 },
+          { getMovementCost: () => -1 }
+        )
+      ).toThrow('Costs must be non-negative');
+    });
+  });
+
+  describe('getReachableHexesWithCost', () => {
+    test('should return only the start cell at zero cost for a zero budget', () => {
+      grid.createBasicHexRing(1);
+
+      const reachable = grid.getReachableHexesWithCost({ q: 0, r: 0, s: 0 }, 0);
+
+      expect(reachable).toEqual([
+        {
+          coordinates: { q: 0, r: 0, s: -0 },
+          cost: 0,
+          remaining: 0,
+          previous: null,
+        },
+      ]);
+    });
+
+    test('should return an empty array if the start coordinate does not exist on the grid', () => {
+      grid.addCell({ q: 1, r: 0 });
+
+      expect(
+        grid.getReachableHexesWithCost({ q: 0, r: 0, s: 0 }, 3)
+      ).toHaveLength(0);
+    });
+
+    test('should match the step-counting search on uniform terrain', () => {
+      grid.createBasicHexRing(1);
+
+      const reachable = grid.getReachableHexesWithCost({ q: 0, r: 0, s: 0 }, 1);
+
+      expect(reachable).toHaveLength(7);
+      grid.getNeighborCoordinates(0, 0).forEach((neighbor) => {
+        const entry = reachable.find(
+          (hex) =>
+            hex.coordinates.q === neighbor.q && hex.coordinates.r === neighbor.r
+        );
+        expect(entry).toBeDefined();
+        expect(entry!.cost).toBe(1);
+        expect(entry!.remaining).toBe(0);
+        expect(entry!.previous).toEqual({ q: 0, r: 0, s: -0 });
+      });
+    });
+
+    test('should stop at cells whose movement cost exceeds the remaining budget', () => {
+      // A straight line: plains, swamp (cost 3), plains
+      grid.addCell({ q: 0, r: 0 });
+      grid.addCell({ q: 1, r: 0, movementCost: 3 });
+      grid.addCell({ q: 2, r: 0 });
+
+      const reachable = grid.getReachableHexesWithCost({ q: 0, r: 0, s: 0 }, 2);
+
+      expect(reachable).toHaveLength(1);
+
+      // The step-counting search walks straight through the swamp
+      const stepReachable = grid.getReachableHexes({ q: 0, r: 0, s: 0 }, 2);
+      expect(stepReachable).toHaveLength(3);
+    });
+
+    test('should report cost, remaining budget and predecessor along the cheapest route', () => {
+      grid.addCell({ q: 0, r: 0 });
+      grid.addCell({ q: 1, r: 0, movementCost: 2 });
+      grid.addCell({ q: 2, r: 0 });
+
+      const reachable = grid.getReachableHexesWithCost({ q: 0, r: 0, s: 0 }, 4);
+      const far = reachable.find((hex) => hex.coordinates.q === 2);
+
+      expect(far).toEqual({
+        coordinates: { q: 2, r: 0, s: -2 },
+        cost: 3,
+        remaining: 1,
+        previous: { q: 1, r: 0, s: -1 },
+      });
+    });
+
+    test('should prefer a cheaper detour over an expensive direct step', () => {
+      // (0,0) -> (1,0) costs 5 directly, but only 2 via (0,-1)
+      grid.addCell({ q: 0, r: 0 });
+      grid.addCell({ q: 1, r: 0, movementCost: 1 });
+      grid.addCell({ q: 0, r: -1, movementCost: 1 });
+      grid.addCell({ q: 2, r: 0, movementCost: 1 });
+
+      const reachable = grid.getReachableHexesWithCost(
+        { q: 0, r: 0, s: 0 },
+        5,
+        {
+          getMovementCost: (from, to) =>
+            from.q === 0 && from.r === 0 && to.q === 1 && to.r === 0
+              ? 5
+              : to.movementCost,
+        }
+      );
+      const target = reachable.find(
+        (hex) => hex.coordinates.q === 1 && hex.coordinates.r === 0
+      );
+
+      expect(target!.cost).toBe(2);
+      expect(target!.previous).toEqual({ q: 0, r: -1, s: 1 });
+    });
+
+    test('should return results in order of increasing cost', () => {
+      for (let q = -2; q <= 2; q++) {
+        for (let r = -2; r <= 2; r++) {
+          grid.addCell({ q, r, movementCost: 1 + Math.abs(q) });
+        }
+      }
+
+      const reachable = grid.getReachableHexesWithCost({ q: 0, r: 0, s: 0 }, 6);
+      const costs = reachable.map((hex) => hex.cost);
+
+      expect(costs).toEqual([...costs].sort((a, b) => a - b));
+      reachable.forEach((hex) => {
+        expect(hex.cost).toBeLessThanOrEqual(6);
+        expect(hex.remaining).toBe(6 - hex.cost);
+      });
+    });
+
+    test('should respect impassable cells according to the respectImpassable option', () => {
+      grid.addCell({ q: 0, r: 0 });
+      grid.addCell({ q: 1, r: 0, isImpassable: true });
+      grid.addCell({ q: 2, r: 0 });
+
+      expect(
+        grid.getReachableHexesWithCost({ q: 0, r: 0, s: 0 }, 2)
+      ).toHaveLength(1);
+      expect(
+        grid.getReachableHexesWithCost({ q: 0, r: 0, s: 0 }, 2, {
+          respectImpassable: false,
+        })
+      ).toHaveLength(3);
+    });
+  });
+
+  describe('Elevation movement rules', () => {
+    // A straight line climbing from the valley floor onto a plateau
+    beforeEach(() => {
+      grid.addCell({ q: 0, r: 0, elevation: 1 });
+      grid.addCell({ q: 1, r: 0, elevation: 2 });
+      grid.addCell({ q: 2, r: 0, elevation: 4 });
+    });
+
+    test('findPath should refuse steps that climb more than maxClimb', () => {
+      const start = { q: 0, r: 0, s: 0 };
+      const goal = { q: 2, r: 0, s: -2 };
+
+      expect(grid.findPath(start, goal)).not.toBeNull();
+      expect(
+        grid.findPath(start, goal, { movementRules: { maxClimb: 1 } })
+      ).toBeNull();
+      expect(
+        grid.findPath(start, goal, { movementRules: { maxClimb: 2 } })
+      ).not.toBeNull();
+    });
+
+    test('findPath should add cost proportional to the climb', () => {
+      const result = grid.findPath(
+        { q: 0, r: 0, s: 0 },
+        { q: 2, r: 0, s: -2 },
+        { movementRules: { climbCostPerUnit: 1 } }
+      );
+
+      // Two steps of cost 1 plus climbs of 1 and 2
+      expect(result!.cost).toBe(5);
+    });
+
+    test('findPath should make descents cheaper', () => {
+      const result = grid.findPath(
+        { q: 2, r: 0, s: -2 },
+        { q: 0, r: 0, s: 0 },
+        { movementRules: { descentDiscountPerUnit: 0.25 } }
+      );
+
+      // Drops of 2 and 1 discount the two unit-cost steps to 0.5 and 0.75
+      expect(result!.cost).toBeCloseTo(1.25);
+    });
+
+    test('findPath should prefer a gentle detour over a steep climb', () => {
+      // A ramp around the cliff: (0,-1) at 2, (1,-1) at 3, then up to (2,0) at 4
+      grid.addCell({ q: 0, r: -1, elevation: 2 });
+      grid.addCell({ q: 1, r: -1, elevation: 3 });
+
+      const result = grid.findPath(
+        { q: 0, r: 0, s: 0 },
+        { q: 2, r: 0, s: -2 },
+        { movementRules: { maxClimb: 1 } }
+      );
+
+      expect(result).not.toBeNull();
+      expect(result!.path).toContainEqual({ q: 1, r: -1, s: 0 });
+      expect(result!.path).not.toContainEqual({ q: 1, r: 0, s: -1 });
+    });
+
+    test('getReachableHexesWithCost should include climb costs in the budget', () => {
+      const reachable = grid.getReachableHexesWithCost(
+        { q: 0, r: 0, s: 0 },
+        3,
+        { movementRules: { climbCostPerUnit: 1 } }
+      );
+
+      // (1,0) costs 2, (2,0) would cost 2 + 3 = 5
+      expect(reachable.map((hex) => hex.coordinates.q)).toEqual([0, 1]);
+      expect(reachable[1].cost).toBe(2);
+    });
+
+    test('getReachableHexes should apply climb limits to step counting', () => {
+      const reachable = grid.getReachableHexes({ q: 0, r: 0, s: 0 }, 2, {
+        movementRules: { maxClimb: 1 },
+      });
+
+      expect(reachable).toHaveLength(2);
+      expect(reachable).not.toContainEqual({ q: 2, r: 0, s: -2 });
+    });
+  });
+
+  describe('hasLineOfSight', () => {
+    const from = { q: 0, r: 0, s: 0 };
+    const to = { q: 3, r: 0, s: -3 };
+
+    // A straight row of four cells at the default elevation of 1
+    beforeEach(() => {
+      for (let q = 0; q <= 3; q++) {
+        grid.addCell({ q, r: 0 });
+      }
+    });
+
+    test('should see along an unobstructed line', () => {
+      expect(grid.hasLineOfSight(from, to)).toBe(true);
+      expect(grid.hasLineOfSight(to, from)).toBe(true);
+    });
+
+    test('should return false when an endpoint is missing', () => {
+      expect(grid.hasLineOfSight(from, { q: 9, r: 0, s: -9 })).toBe(false);
+    });
+
+    test('should be blocked by impassable cells between the endpoints', () => {
+      grid.updateCell(1, 0, { isImpassable: true });
+
+      expect(grid.hasLineOfSight(from, to)).toBe(false);
+      expect(
+        grid.hasLineOfSight(from, to, { impassableBlocksSight: false })
+      ).toBe(true);
+    });
+
+    test('should not be blocked by impassable endpoints', () => {
+      grid.updateCell(3, 0, { isImpassable: true });
+
+      expect(grid.hasLineOfSight(from, to)).toBe(true);
+    });
+
+    test('should not be blocked by gaps in the grid', () => {
+      grid.removeCellByCoords({ q: 2, r: 0, s: -2 });
+
+      expect(grid.hasLineOfSight(from, to)).toBe(true);
+    });
+
+    test('should be blocked by cells matching isBlocking', () => {
+      const isBlocking = jest.fn((cell: { q: number }) => cell.q === 2);
+
+      expect(grid.hasLineOfSight(from, to, { isBlocking })).toBe(false);
+      // Endpoints are never tested
+      expect(isBlocking).not.toHaveBeenCalledWith(
+        expect.objectContaining({ q: 0 })
+      );
+    });
+
+    test('should be blocked by terrain rising above the sight line', () => {
+      grid.updateCell(2, 0, { elevation: 2 });
+
+      expect(grid.hasLineOfSight(from, to)).toBe(false);
+      expect(
+        grid.hasLineOfSight(from, to, { elevationBlocksSight: false })
+      ).toBe(true);
+    });
+
+    test('should let a raised viewer see over lower terrain', () => {
+      grid.updateCell(2, 0, { elevation: 2 });
+
+      // An eye at 4 drops to 1 over three steps, passing the blocker at 2
+      expect(grid.hasLineOfSight(from, to, { viewerHeight: 3 })).toBe(true);
+      expect(grid.hasLineOfSight(from, to, { viewerHeight: 2 })).toBe(false);
+    });
+
+    test('should see past a blocker when the line passes beside it', () => {
+      // The line to (2,1) passes exactly between (1,0) and (1,1)
+      grid.addCell({ q: 1, r: 1 });
+      grid.addCell({ q: 2, r: 1 });
+      grid.updateCell(1, 1, { isImpassable: true });
+
+      expect(grid.hasLineOfSight(from, { q: 2, r: 1, s: -3 })).toBe(true);
+
+      grid.updateCell(1, 0, { isImpassable: true });
+
+      expect(grid.hasLineOfSight(from, { q: 2, r: 1, s: -3 })).toBe(false);
+    });
+
+    test('should see from a hilltop down into the valley', () => {
+      grid.updateCell(0, 0, { elevation: 6 });
+      grid.updateCell(1, 0, { elevation: 3 });
+
+      // The sight line passes above the slope at a height of 4.33
+      expect(grid.hasLineOfSight(from, to)).toBe(true);
+    });
+  });
+
+  describe('computeVisibleCells', () => {
+    const origin = { q: 0, r: 0, s: 0 };
+
+    // A flat hexagonal board of radius 4 at the default elevation of 1
+    beforeEach(() => {
+      for (let q = -4; q <= 4; q++) {
+        for (let r = -4; r <= 4; r++) {
+          if (hexDistance(origin, { q, r, s: -q - r }) <= 4) {
+            grid.addCell({ q, r });
+          }
+        }
+      }
+    });
+
+    const visibleIds = (cells: { id: string }[]): string[] =>
+      cells.map((cell) => cell.id);
+
+    test('should return an empty array when the origin is missing', () => {
+      expect(grid.computeVisibleCells({ q: 9, r: 0, s: -9 }, 3)).toEqual([]);
+    });
+
+    test('should see every cell within the radius on open ground', () => {
+      const visible = grid.computeVisibleCells(origin, 2);
+
+      expect(visible).toHaveLength(19);
+      expect(visible[0]).toBe(grid.getCellByCoords(origin));
+      visible.forEach((cell) =>
+        expect(hexDistance(origin, cell)).toBeLessThanOrEqual(2)
+      );
+    });
+
+    test('should order cells by distance from the viewer', () => {
+      const distances = grid
+        .computeVisibleCells(origin, 4)
+        .map((cell) => hexDistance(origin, cell));
+
+      expect(distances).toEqual([...distances].sort((a, b) => a - b));
+    });
+
+    test('should return only the origin for a radius of 0', () => {
+      expect(visibleIds(grid.computeVisibleCells(origin, 0))).toEqual([
+        grid.getCellByCoords(origin)!.id,
+      ]);
+    });
+
+    test('should hide cells behind a wall but not the wall itself', () => {
+      grid.updateCell(1, 0, { isImpassable: true });
+
+      const ids = visibleIds(grid.computeVisibleCells(origin, 4));
+
+      expect(ids).toContain('1,0,-1');
+      expect(ids).not.toContain('2,0,-2');
+      expect(ids).not.toContain('4,0,-4');
+      expect(ids).toContain('2,1,-3');
+    });
+
+    test('should hide cells behind high ground', () => {
+      grid.updateCell(1, 0, { elevation: 3 });
+
+      const ids = visibleIds(grid.computeVisibleCells(origin, 4));
+
+      expect(ids).toContain('1,0,-1');
+      expect(ids).not.toContain('3,0,-3');
+    });
+
+    test('should let a raised viewer see over high ground', () => {
+      grid.updateCell(1, 0, { elevation: 3 });
+
+      const ids = visibleIds(
+        grid.computeVisibleCells(origin, 4, { viewerHeight: 5 })
+      );
+
+      expect(ids).toContain('3,0,-3');
+    });
+
+    test('should agree with hasLineOfSight on rugged terrain', () => {
+      // Deterministic bumps, pits and walls all over the board
+      grid.getAllCells().forEach(({ q, r }) => {
+        grid.updateCell(q, r, {
+          elevation: (((q * 7 + r * 13 + q * r) % 5) + 5) % 5,
+          isImpassable: (q || r) !== 0 && (q * 3 + r * 5) % 7 === 0,
+        });
+      });
+      grid.removeCell(-2, 1);
+
+      [{ viewerHeight: 1 }, { targetHeight: 0.5 }, {}].forEach((options) => {
+        const visible = new Set(
+          visibleIds(grid.computeVisibleCells(origin, 4, options))
+        );
+
+        grid.getAllCells().forEach((cell) => {
+          expect(visible.has(cell.id)).toBe(
+            grid.hasLineOfSight(origin, cell, options)
+          );
+        });
+      });
+    });
+
+    test('should scan thousands of cells quickly', () => {
+      const large = new HexGrid<TestProps>();
+      for (let q = -40; q <= 40; q++) {
+        for (let r = -40; r <= 40; r++) {
+          if (hexDistance(origin, { q, r, s: -q - r }) <= 40) {
+            large.addCell({ q, r, elevation: Math.abs(q * r) % 3 });
+          }
+        }
+      }
+
+      const startTime = performance.now();
+      const visible = large.computeVisibleCells(origin, 40, {
+        viewerHeight: 1,
+      });
+      const scanTime = performance.now() - startTime;
+
+      expect(large.size()).toBeGreaterThan(4900);
+      expect(visible.length).toBeGreaterThan(0);
+      expect(scanTime).toBeLessThan(500);
+    });
+  });
+
   describe('Boundary Detection', () => {
     test('should return all six boundary faces for a single cell', () => {
       // Given: A grid with a single cell at (0, 0)
@@ -0,0 +1,91 @@
+import {
+  Noise2D,
+  createSimplexNoise,
+  createValueNoise,
+  fractalNoise,
+} from '../../src/core/noise';
+import { Random } from '../../src/core/random';
+
+const samplePoints = (): [number, number][] =>
+  Array.from({ length: 400 }, (_, index) => [
+    (index % 20) * 0.37 - 3,
+    Math.floor(index / 20) * 0.41 - 4,
+  ]);
+
+describe.each([
+  ['value', createValueNoise],
+  ['simplex', createSimplexNoise],
+])('%s noise', (_, createNoise: (_random: Random) => Noise2D) => {
+  it('should give the same values for the same seed', () => {
+    const first = createNoise(new Random('terrain'));
+    const second = createNoise(new Random('terrain'));
+
+    samplePoints().forEach(([x, y]) => {
+      expect(second(x, y)).toBe(first(x, y));
+    });
+  });
+
+  it('should give different values for different seeds', () => {
+    const first = createNoise(new Random(1));
+    const second = createNoise(new Random(2));
+
+    const differences = samplePoints().filter(
+      ([x, y]) => first(x, y) !== second(x, y)
+    );
+    expect(differences.length).toBeGreaterThan(300);
+  });
+
+  it('should give values from 0 to 1 that vary across the plane', () => {
+    const noise = createNoise(new Random(3));
+    const values = samplePoints().map(([x, y]) => noise(x, y));
+
+    values.forEach((value) => {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThanOrEqual(1);
+    });
+    expect(Math.max(...values) - Math.min(...values)).toBeGreaterThan(0.4);
+  });
+
+  it('should change little between nearby points', () => {
+    const noise = createNoise(new Random(4));
+
+    samplePoints().forEach(([x, y]) => {
+      expect(Math.abs(noise(x + 0.01, y) - noise(x, y))).toBeLessThan(0.05);
+    });
+  });
+});
+
+describe('fractalNoise', () => {
+  it('should add finer layers to the base noise', () => {
+    const base = createSimplexNoise(new Random(5));
+    const single = fractalNoise(base, { octaves: 1 });
+    const layered = fractalNoise(base, { octaves: 4 });
+
+    expect(single(1.3, 2.7)).toBe(base(1.3, 2.7));
+    expect(layered(1.3, 2.7)).not.toBe(base(1.3, 2.7));
+  });
+
+  it('should keep values from 0 to 1', () => {
+    const noise = fractalNoise(createValueNoise(new Random(6)), {
+      octaves: 6,
+      persistence: 0.8,
+      lacunarity: 2.5,
+    });
+
+    samplePoints().forEach(([x, y]) => {
+      expect(noise(x, y)).toBeGreaterThanOrEqual(0);
+      expect(noise(x, y)).toBeLessThanOrEqual(1);
+    });
+  });
+
+  it('should reject invalid octave counts', () => {
+    const base = createValueNoise(new Random(7));
+
+    expect(() => fractalNoise(base, { octaves: 0 })).toThrow(
+      'Octaves must be a positive integer, got 0'
+    );
+    expect(() => fractalNoise(base, { octaves: 1.5 })).toThrow(
+      'Octaves must be a positive integer, got 1.5'
+    );
+  });
+});
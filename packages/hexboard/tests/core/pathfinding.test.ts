@@ -0,0 +1,128 @@
+import { Cell } from '../../src/core/cell';
+import {
+  PriorityQueue,
+  applyMovementRules,
+  defaultMovementCost,
+} from '../../src/core/pathfinding';
+
+describe('Pathfinding helpers', () => {
+  describe('PriorityQueue', () => {
+    test('pops items in ascending priority order', () => {
+      const queue = new PriorityQueue<string>();
+      queue.push('c', 3);
+      queue.push('a', 1);
+      queue.push('d', 4);
+      queue.push('b', 2);
+
+      const popped: string[] = [];
+      while (!queue.isEmpty()) {
+        popped.push(queue.pop()!);
+      }
+
+      expect(popped).toEqual(['a', 'b', 'c', 'd']);
+    });
+
+    test('returns items with equal priority in insertion order', () => {
+      const queue = new PriorityQueue<string>();
+      queue.push('first', 1);
+      queue.push('second', 1);
+      queue.push('third', 1);
+
+      expect(queue.pop()).toBe('first');
+      expect(queue.pop()).toBe('second');
+      expect(queue.pop()).toBe('third');
+    });
+
+    test('tracks its size and returns undefined when empty', () => {
+      const queue = new PriorityQueue<number>();
+      expect(queue.size).toBe(0);
+      expect(queue.pop()).toBeUndefined();
+
+      queue.push(1, 1);
+      queue.push(2, 2);
+      expect(queue.size).toBe(2);
+
+      queue.pop();
+      expect(queue.size).toBe(1);
+    });
+
+    test('handles many interleaved pushes and pops', () => {
+      const queue = new PriorityQueue<number>();
+      const values = [5, 9, 1, 7, 3, 8, 2, 6, 4, 0];
+      values.forEach((value) => queue.push(value, value));
+
+      expect(queue.pop()).toBe(0);
+      expect(queue.pop()).toBe(1);
+      queue.push(-1, -1);
+      expect(queue.pop()).toBe(-1);
+
+      const rest: number[] = [];
+      while (!queue.isEmpty()) {
+        rest.push(queue.pop()!);
+      }
+      expect(rest).toEqual([2, 3, 4, 5, 6, 7, 8, 9]);
+    });
+  });
+
+  describe('defaultMovementCost', () => {
+    test('returns the movement cost of the destination cell', () => {
+      const from = { movementCost: 1 } as Cell;
+      const to = { movementCost: 3 } as Cell;
+
+      expect(defaultMovementCost(from, to)).toBe(3);
+    });
+  });
+
+  describe('applyMovementRules', () => {
+    const low = { elevation: 1 };
+    const high = { elevation: 3 };
+
+    test('leaves the cost unchanged when no rules are set', () => {
+      expect(applyMovementRules(2, low, high, {})).toBe(2);
+      expect(applyMovementRules(2, high, low, {})).toBe(2);
+    });
+
+    test('forbids climbs steeper than maxClimb', () => {
+      expect(applyMovementRules(1, low, high, { maxClimb: 1 })).toBe(Infinity);
+      expect(applyMovementRules(1, low, high, { maxClimb: 2 })).toBe(1);
+    });
+
+    test('forbids drops steeper than maxDescent', () => {
+      expect(applyMovementRules(1, high, low, { maxDescent: 1 })).toBe(
+        Infinity
+      );
+      expect(applyMovementRules(1, high, low, { maxDescent: 2 })).toBe(1);
+    });
+
+    test('does not apply the climb limit to descents', () => {
+      expect(applyMovementRules(1, high, low, { maxClimb: 0 })).toBe(1);
+    });
+
+    test('adds cost proportional to the climb', () => {
+      expect(applyMovementRules(1, low, high, { climbCostPerUnit: 1.5 })).toBe(
+        4
+      );
+    });
+
+    test('discounts descents without going below minStepCost', () => {
+      expect(
+        applyMovementRules(3, high, low, { descentDiscountPerUnit: 0.5 })
+      ).toBe(2);
+      expect(
+        applyMovementRules(1, high, low, {
+          descentDiscountPerUnit: 1,
+          minStepCost: 0.25,
+        })
+      ).toBe(0.25);
+    });
+
+    test('never raises a cheap step up to minStepCost', () => {
+      expect(
+        applyMovementRules(0.5, high, low, {
+          descentDiscountPerUnit: 1,
+          minStepCost: 1,
+        })
+      ).toBe(0.5);
+    });
+  });
+});
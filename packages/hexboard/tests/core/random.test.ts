@@ -0,0 +1,153 @@
+import { Random, isRandomState } from '../../src/core/random';
+
+describe('Random', () => {
+  it('should draw a pinned sequence for a seed', () => {
+    const random = new Random(42);
+
+    expect([random.next(), random.next(), random.next()]).toEqual([
+      0.9430338514503092, 0.7610700796358287, 0.08751116436906159,
+    ]);
+  });
+
+  it('should draw the same sequence for the same seed', () => {
+    const first = new Random('map-7');
+    const second = new Random('map-7');
+
+    const draws = Array.from({ length: 20 }, () => first.next());
+    expect(Array.from({ length: 20 }, () => second.next())).toEqual(draws);
+  });
+
+  it('should draw different sequences for different seeds', () => {
+    expect(new Random(1).next()).not.toBe(new Random(2).next());
+    expect(new Random('1').next()).toBe(new Random(1).next());
+  });
+
+  it('should draw numbers from 0 up to but not including 1', () => {
+    const random = new Random(7);
+
+    for (let i = 0; i < 1000; i++) {
+      const value = random.next();
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+
+  describe('integer', () => {
+    it('should roll pinned dice for a seed', () => {
+      const random = new Random('dice');
+
+      expect(Array.from({ length: 10 }, () => random.integer(1, 6))).toEqual([
+        4, 2, 5, 4, 1, 6, 2, 3, 2, 6,
+      ]);
+    });
+
+    it('should draw every value in the range about equally often', () => {
+      const random = new Random(1);
+      const counts = [0, 0, 0, 0, 0, 0];
+
+      for (let i = 0; i < 6000; i++) {
+        counts[random.integer(1, 6) - 1]++;
+      }
+
+      counts.forEach((count) => {
+        expect(count).toBeGreaterThan(900);
+        expect(count).toBeLessThan(1100);
+      });
+    });
+
+    it('should reject invalid ranges', () => {
+      const random = new Random(1);
+
+      expect(() => random.integer(6, 1)).toThrow(
+        'Invalid integer range 6 to 1'
+      );
+      expect(() => random.integer(0, 1.5)).toThrow(
+        'Invalid integer range 0 to 1.5'
+      );
+    });
+  });
+
+  it('should draw true with the given probability', () => {
+    const random = new Random(3);
+
+    expect(random.chance(0)).toBe(false);
+    expect(random.chance(1)).toBe(true);
+  });
+
+  it('should pick items and reject empty lists', () => {
+    const random = new Random(5);
+    const items = ['north', 'south', 'east'];
+
+    expect(items).toContain(random.pick(items));
+    expect(() => random.pick([])).toThrow('Cannot pick from an empty list');
+  });
+
+  it('should shuffle a copy, keeping every item', () => {
+    const random = new Random(5);
+    const items = [1, 2, 3, 4, 5, 6, 7, 8];
+
+    const shuffled = random.shuffle(items);
+
+    expect(items).toEqual([1, 2, 3, 4, 5, 6, 7, 8]);
+    expect([...shuffled].sort()).toEqual(items);
+    expect(new Random(5).shuffle(items)).toEqual(shuffled);
+  });
+
+  describe('fork', () => {
+    it('should give each fork a sequence of its own', () => {
+      const random = new Random(42);
+      const map = random.fork('map');
+      const ai = random.fork('ai');
+
+      expect(map.next()).not.toBe(ai.next());
+      expect(isRandomState(map.getState())).toBe(true);
+    });
+
+    it('should not change a fork when other draws change', () => {
+      const withoutDraws = new Random(42).fork('ai');
+      const parent = new Random(42);
+      const ai = parent.fork('ai');
+      parent.next();
+      parent.fork('map').next();
+
+      expect(ai.next()).toBe(withoutDraws.next());
+    });
+
+    it('should tell forks taken at the same point apart by name', () => {
+      expect(new Random(42).fork('ai').next()).not.toBe(
+        new Random(42).fork('map').next()
+      );
+    });
+  });
+
+  describe('state', () => {
+    it('should resume the same sequence from a saved state', () => {
+      const random = new Random(9);
+      random.next();
+      const state = JSON.parse(JSON.stringify(random.getState()));
+
+      const resumed = Random.fromState(state);
+      expect(resumed.next()).toBe(random.next());
+      expect(resumed.next()).toBe(random.next());
+    });
+
+    it('should return a copy of its state', () => {
+      const random = new Random(9);
+      const state = random.getState();
+      state[0] = 0;
+
+      expect(random.getState()[0]).not.toBe(0);
+    });
+
+    it('should reject invalid states', () => {
+      const random = new Random(9);
+
+      expect(() => random.setState([1, 2, 3] as never)).toThrow(
+        'Random state must be four unsigned 32-bit integers, got [1,2,3]'
+      );
+      expect(isRandomState([1, 2, 3, -4])).toBe(false);
+      expect(isRandomState([1, 2, 3, 2 ** 32])).toBe(false);
+      expect(isRandomState([0, 0, 0, 0])).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import { Cell } from '../../src/core/cell';
+import { Entity } from '../../src/core/entity';
+import { SelectionModel } from '../../src/core/selection';
+import { createTestCell } from '../rendering/test-helpers';
+
+describe('SelectionModel', () => {
+  let selection: SelectionModel;
+  let a: Cell;
+  let b: Cell;
+  let c: Cell;
+
+  const createEntity = (id: string, cell: Cell): Entity => ({
+    id,
+    type: 'unit',
+    cellPosition: cell,
+    movementSpeed: 1,
+    customProps: {},
+    model: {} as Entity['model'],
+    isInMovementMode: false,
+  });
+
+  const ids = (items: { id: string }[]) => items.map((item) => item.id);
+
+  beforeEach(() => {
+    selection = new SelectionModel();
+    a = createTestCell(0, 0);
+    b = createTestCell(1, 0);
+    c = createTestCell(2, 0);
+  });
+
+  it('should start empty', () => {
+    expect(selection.getSelectedCells()).toEqual([]);
+    expect(selection.getSelectedEntities()).toEqual([]);
+  });
+
+  it('should replace the selection by default', () => {
+    selection.select([a, b]);
+    selection.select([c]);
+
+    expect(ids(selection.getSelectedCells())).toEqual(['2,0']);
+    expect(selection.isCellSelected('0,0')).toBe(false);
+    expect(selection.isCellSelected('2,0')).toBe(true);
+  });
+
+  it('should add to and subtract from the selection', () => {
+    selection.select([a]);
+    selection.select([b, c], [], 'add');
+    selection.select([a, c], [], 'subtract');
+
+    expect(ids(selection.getSelectedCells())).toEqual(['1,0']);
+  });
+
+  it('should select entities alongside cells', () => {
+    const knight = createEntity('knight', a);
+    const archer = createEntity('archer', b);
+
+    selection.select([a, b], [knight, archer]);
+    selection.select([], [knight], 'subtract');
+
+    expect(ids(selection.getSelectedEntities())).toEqual(['archer']);
+    expect(selection.isEntitySelected('knight')).toBe(false);
+    expect(selection.isEntitySelected('archer')).toBe(true);
+  });
+
+  it('should emit the whole new selection on change', () => {
+    const knight = createEntity('knight', a);
+    const handler = jest.fn();
+    selection.on('change', handler);
+
+    selection.select([a], [knight]);
+    selection.select([b], [], 'add');
+
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(handler).toHaveBeenLastCalledWith({
+      cells: [a, b],
+      entities: [knight],
+    });
+  });
+
+  it('should not emit when the selection does not change', () => {
+    selection.select([a, b]);
+    const handler = jest.fn();
+    selection.on('change', handler);
+
+    selection.select([b, a]);
+    selection.select([a], [], 'add');
+    selection.select([c], [], 'subtract');
+
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should clear the selection', () => {
+    selection.select([a, b]);
+    const handler = jest.fn();
+    selection.on('change', handler);
+
+    selection.clear();
+    selection.clear();
+
+    expect(selection.getSelectedCells()).toEqual([]);
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop calling a listener removed with off', () => {
+    const handler = jest.fn();
+    selection.on('change', handler);
+    selection.off('change', handler);
+
+    selection.select([a]);
+
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,218 @@
+import {
+  HexCoordinates,
+  hexDistance,
+  hexEquals,
+  hexNeighbor,
+} from '../../src/core/coordinates';
+import {
+  hexagonShape,
+  parallelogramShape,
+  rectangleShape,
+  ringShape,
+  spiralShape,
+  triangleShape,
+} from '../../src/core/shapes';
+import { Direction } from '../../src/core/types';
+
+const ORIGIN = { q: 0, r: 0, s: 0 };
+
+const idsOf = (shape: HexCoordinates[]): string[] =>
+  shape.map(({ q, r, s }) => `${q},${r},${s}`);
+
+const expectValidAndUnique = (shape: HexCoordinates[]): void => {
+  shape.forEach((coords) => {
+    expect(coords.q + coords.r + coords.s).toBe(0);
+  });
+  expect(new Set(idsOf(shape)).size).toBe(shape.length);
+};
+
+const expectConnected = (shape: HexCoordinates[]): void => {
+  // Every hex after the first must be adjacent to some earlier hex
+  shape.slice(1).forEach((coords, index) => {
+    const earlier = shape.slice(0, index + 1);
+    expect(earlier.some((other) => hexDistance(coords, other) === 1)).toBe(
+      true
+    );
+  });
+};
+
+describe('Shape generators', () => {
+  describe('hexagonShape', () => {
+    test('returns just the center for radius 0', () => {
+      expect(hexagonShape(0)).toEqual([ORIGIN]);
+    });
+
+    test.each([1, 2, 5])('holds 3N(N + 1) + 1 hexes for radius %i', (n) => {
+      const shape = hexagonShape(n);
+
+      expect(shape).toHaveLength(3 * n * (n + 1) + 1);
+      expectValidAndUnique(shape);
+      shape.forEach((coords) => {
+        expect(hexDistance(ORIGIN, coords)).toBeLessThanOrEqual(n);
+      });
+    });
+
+    test('is centered on the given hex', () => {
+      const center = { q: 4, r: -2, s: -2 };
+      const shape = hexagonShape(1, center);
+
+      expect(shape).toHaveLength(7);
+      expect(shape.some((coords) => hexEquals(coords, center))).toBe(true);
+      shape.forEach((coords) => {
+        expect(hexDistance(center, coords)).toBeLessThanOrEqual(1);
+      });
+    });
+  });
+
+  describe('ringShape', () => {
+    test('returns just the center for radius 0', () => {
+      expect(ringShape(0, { q: 1, r: 1, s: -2 })).toEqual([
+        { q: 1, r: 1, s: -2 },
+      ]);
+    });
+
+    test('matches the neighbors for radius 1', () => {
+      const neighbors = [
+        Direction.Southwest,
+        Direction.Northwest,
+        Direction.North,
+        Direction.Northeast,
+        Direction.Southeast,
+        Direction.South,
+      ].map((direction) => hexNeighbor(ORIGIN, direction));
+
+      expect(idsOf(ringShape(1))).toEqual(idsOf(neighbors));
+    });
+
+    test.each([2, 3, 6])(
+      'holds 6N hexes at distance N, each adjacent to the next, for radius %i',
+      (n) => {
+        const shape = ringShape(n);
+
+        expect(shape).toHaveLength(6 * n);
+        expectValidAndUnique(shape);
+        shape.forEach((coords, index) => {
+          expect(hexDistance(ORIGIN, coords)).toBe(n);
+          const next = shape[(index + 1) % shape.length];
+          expect(hexDistance(coords, next)).toBe(1);
+        });
+      }
+    );
+  });
+
+  describe('spiralShape', () => {
+    test('lists the center and then each ring in turn', () => {
+      const shape = spiralShape(3);
+
+      expect(shape).toHaveLength(37);
+      expect(shape[0]).toEqual(ORIGIN);
+      expect(shape.slice(1, 7)).toEqual(ringShape(1));
+      expect(shape.slice(19)).toEqual(ringShape(3));
+    });
+
+    test('covers the same hexes as hexagonShape', () => {
+      const center = { q: -3, r: 2, s: 1 };
+
+      expect(idsOf(spiralShape(4, center)).sort()).toEqual(
+        idsOf(hexagonShape(4, center)).sort()
+      );
+    });
+
+    test('never moves further from the center', () => {
+      const distances = spiralShape(4).map((coords) =>
+        hexDistance(ORIGIN, coords)
+      );
+
+      expect(distances).toEqual([...distances].sort((a, b) => a - b));
+    });
+  });
+
+  describe('parallelogramShape', () => {
+    test('spans width along q and height along r from the corner', () => {
+      const corner = { q: 2, r: -1, s: -1 };
+      const shape = parallelogramShape(3, 2, corner);
+
+      expect(idsOf(shape)).toEqual([
+        '2,-1,-1',
+        '3,-1,-2',
+        '4,-1,-3',
+        '2,0,-2',
+        '3,0,-3',
+        '4,0,-4',
+      ]);
+    });
+
+    test('is connected and free of duplicates', () => {
+      const shape = parallelogramShape(5, 4);
+
+      expect(shape).toHaveLength(20);
+      expectValidAndUnique(shape);
+      expectConnected(shape);
+    });
+  });
+
+  describe('triangleShape', () => {
+    test('shrinks by one hex per row', () => {
+      expect(idsOf(triangleShape(3))).toEqual([
+        '0,0,0',
+        '1,0,-1',
+        '2,0,-2',
+        '1,1,-2',
+        '2,1,-3',
+        '2,2,-4',
+      ]);
+    });
+
+    test.each([1, 4, 7])('holds size(size + 1) / 2 hexes for size %i', (n) => {
+      const shape = triangleShape(n);
+
+      expect(shape).toHaveLength((n * (n + 1)) / 2);
+      expectValidAndUnique(shape);
+      expectConnected(shape);
+    });
+  });
+
+  describe('rectangleShape', () => {
+    test('offsets every second row to keep the rows lined up', () => {
+      expect(idsOf(rectangleShape(2, 4))).toEqual([
+        '0,0,0',
+        '1,0,-1',
+        '0,1,-1',
+        '1,1,-2',
+        '1,2,-3',
+        '2,2,-4',
+        '1,3,-4',
+        '2,3,-5',
+      ]);
+    });
+
+    test('keeps the first hex of each row within one step of the row above', () => {
+      const width = 6;
+      const shape = rectangleShape(width, 8, { q: -2, r: -3, s: 5 });
+
+      expect(shape).toHaveLength(48);
+      expectValidAndUnique(shape);
+      for (let row = 1; row < 8; row++) {
+        expect(hexDistance(shape[row * width], shape[(row - 1) * width])).toBe(
+          1
+        );
+      }
+    });
+  });
+
+  describe('validation', () => {
+    test('returns no hexes for empty dimensions', () => {
+      expect(parallelogramShape(0, 3)).toEqual([]);
+      expect(triangleShape(0)).toEqual([]);
+      expect(rectangleShape(4, 0)).toEqual([]);
+    });
+
+    test('rejects negative and fractional dimensions', () => {
+      expect(() => hexagonShape(-1)).toThrow(
+        'Invalid shape radius: -1. Must be a non-negative integer'
+      );
+      expect(() => ringShape(1.5)).toThrow('Invalid shape radius: 1.5');
+      expect(() => rectangleShape(2, -3)).toThrow('Invalid shape height: -3');
+    });
+  });
+});
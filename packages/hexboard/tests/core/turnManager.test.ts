@@ -0,0 +1,163 @@
+import { Entity } from '../../src/core/entity';
+import { TurnManager } from '../../src/core/turnManager';
+
+describe('TurnManager', () => {
+  const players = [
+    { id: 'red', name: 'Red' },
+    { id: 'blue', name: 'Blue' },
+    { id: 'green', name: 'Green' },
+  ];
+  let turns: TurnManager;
+  let events: string[];
+
+  beforeEach(() => {
+    turns = new TurnManager(players);
+    events = [];
+    turns.on('turnStart', ({ player, turn, round }) =>
+      events.push(`start ${player.id} ${turn}/${round}`)
+    );
+    turns.on('turnEnd', ({ player }) => events.push(`end ${player.id}`));
+    turns.on('phaseChange', ({ phase, previous }) =>
+      events.push(`phase ${previous}->${phase}`)
+    );
+  });
+
+  it('should not have a turn under way until started', () => {
+    expect(turns.isStarted()).toBe(false);
+    expect(turns.getActivePlayer()).toBeNull();
+    expect(turns.getCurrentPhase()).toBeNull();
+
+    turns.nextPhase();
+    turns.endTurn();
+    expect(events).toEqual([]);
+  });
+
+  it('should start with the first player in the first phase', () => {
+    turns.start();
+
+    expect(turns.getActivePlayer()).toBe(players[0]);
+    expect(turns.getCurrentPhase()).toBe('move');
+    expect(turns.getTurn()).toBe(1);
+    expect(turns.getRound()).toBe(1);
+    expect(events).toEqual(['start red 1/1']);
+  });
+
+  it('should go through the phases and then to the next player', () => {
+    turns.start();
+    turns.nextPhase();
+    turns.nextPhase();
+    expect(turns.getCurrentPhase()).toBe('end');
+
+    turns.nextPhase();
+
+    expect(events).toEqual([
+      'start red 1/1',
+      'phase move->act',
+      'phase act->end',
+      'end red',
+      'start blue 2/1',
+    ]);
+    expect(turns.getCurrentPhase()).toBe('move');
+  });
+
+  it('should start a new round after the last player', () => {
+    turns.start();
+    turns.endTurn();
+    turns.endTurn();
+    turns.endTurn();
+
+    expect(turns.getActivePlayer()).toBe(players[0]);
+    expect(turns.getRound()).toBe(2);
+    expect(events[events.length - 1]).toBe('start red 4/2');
+  });
+
+  it('should use custom phases', () => {
+    turns = new TurnManager(players, { phases: ['deploy', 'fight'] });
+    turns.start();
+    turns.nextPhase();
+
+    expect(turns.getCurrentPhase()).toBe('fight');
+    expect(turns.getPhases()).toEqual(['deploy', 'fight']);
+    expect(() => new TurnManager(players, { phases: [] })).toThrow(
+      'at least one phase'
+    );
+  });
+
+  it('should only let the active player control their own entities', () => {
+    const entity = (owner?: string) => ({ owner }) as Entity;
+    expect(turns.canControl(entity('red'))).toBe(false);
+
+    turns.start();
+    expect(turns.canControl(entity('red'))).toBe(true);
+    expect(turns.canControl(entity('blue'))).toBe(false);
+    expect(turns.canControl(entity())).toBe(false);
+  });
+
+  describe('roster', () => {
+    it('should refuse duplicate players', () => {
+      expect(() => turns.addPlayer({ id: 'red' })).toThrow('already exists');
+      expect(() => new TurnManager([{ id: 'a' }, { id: 'a' }])).toThrow();
+    });
+
+    it('should refuse to start without players', () => {
+      expect(() => new TurnManager().start()).toThrow('without players');
+    });
+
+    it('should add players to the end of the turn order', () => {
+      turns.addPlayer({ id: 'yellow' });
+      turns.start();
+      turns.endTurn();
+      turns.endTurn();
+      turns.endTurn();
+
+      expect(turns.getActivePlayer()?.id).toBe('yellow');
+      expect(turns.getPlayers().map((player) => player.id)).toEqual([
+        'red',
+        'blue',
+        'green',
+        'yellow',
+      ]);
+    });
+
+    it('should keep the active player when an earlier player is removed', () => {
+      turns.start();
+      turns.endTurn();
+
+      expect(turns.removePlayer('red')).toBe(true);
+      expect(turns.getActivePlayer()?.id).toBe('blue');
+      expect(turns.removePlayer('nobody')).toBe(false);
+    });
+
+    it("should end the active player's turn when they are removed", () => {
+      turns.start();
+      turns.endTurn();
+      events = [];
+
+      turns.removePlayer('blue');
+
+      expect(events).toEqual(['end blue', 'start green 3/1']);
+      expect(turns.getActivePlayer()?.id).toBe('green');
+      expect(turns.getPlayer('blue')).toBeUndefined();
+    });
+
+    it('should stop turns when the last player is removed', () => {
+      turns = new TurnManager([{ id: 'solo' }]);
+      turns.start();
+
+      turns.removePlayer('solo');
+
+      expect(turns.isStarted()).toBe(false);
+      expect(turns.getActivePlayer()).toBeNull();
+    });
+  });
+
+  it('should remove listeners with off', () => {
+    const handler = jest.fn();
+    turns.on('turnStart', handler);
+    turns.off('turnStart', handler);
+
+    turns.start();
+
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,127 @@
+import { Cell } from '../../src/core/cell';
+import { hexDistance } from '../../src/core/coordinates';
+import {
+  HorizonProfile,
+  getRingHex,
+  getRingIndex,
+  getSightSlope,
+} from '../../src/core/visibility';
+
+const center = { q: 0, r: 0, s: 0 };
+
+const createCell = (overrides: Partial<Cell> = {}): Cell => ({
+  id: '1,0,-1',
+  q: 1,
+  r: 0,
+  s: -1,
+  elevation: 0,
+  movementCost: 1,
+  isImpassable: false,
+  customProps: {},
+  ...overrides,
+});
+
+describe('Visibility', () => {
+  describe('getRingHex', () => {
+    test('starts at the southwest corner and heads north', () => {
+      expect(getRingHex(center, 2, 0)).toEqual({ q: 0, r: 2, s: -2 });
+      expect(getRingHex(center, 2, 1)).toEqual({ q: -1, r: 1, s: 0 });
+      expect(getRingHex(center, 2, 2)).toEqual({ q: -2, r: 0, s: 2 });
+    });
+
+    test('visits every hex of the ring exactly once', () => {
+      const ring = Array.from({ length: 18 }, (_, index) =>
+        getRingHex(center, 3, index)
+      );
+      const ids = new Set(ring.map((hex) => `${hex.q},${hex.r}`));
+
+      expect(ids.size).toBe(18);
+      ring.forEach((hex) => expect(hexDistance(center, hex)).toBe(3));
+    });
+
+    test('is relative to the center', () => {
+      expect(getRingHex({ q: 5, r: -2, s: -3 }, 1, 0)).toEqual({
+        q: 5,
+        r: -1,
+        s: -4,
+      });
+    });
+  });
+
+  describe('getRingIndex', () => {
+    test('inverts getRingHex', () => {
+      for (let radius = 1; radius <= 4; radius++) {
+        for (let index = 0; index < radius * 6; index++) {
+          expect(getRingIndex(center, getRingHex(center, radius, index))).toBe(
+            index
+          );
+        }
+      }
+    });
+  });
+
+  describe('getSightSlope', () => {
+    test('returns -Infinity for missing cells', () => {
+      expect(getSightSlope(null, 1, 0, {})).toBe(-Infinity);
+    });
+
+    test('returns the slope from the eye to the top of the cell', () => {
+      expect(getSightSlope(createCell({ elevation: 3 }), 2, 1, {})).toBe(1);
+      expect(
+        getSightSlope(createCell({ elevation: 3 }), 2, 1, {
+          elevationBlocksSight: false,
+        })
+      ).toBe(-Infinity);
+    });
+
+    test('returns Infinity for opaque cells', () => {
+      const wall = createCell({ isImpassable: true });
+
+      expect(getSightSlope(wall, 1, 0, {})).toBe(Infinity);
+      expect(getSightSlope(wall, 1, 0, { impassableBlocksSight: false })).toBe(
+        0
+      );
+      expect(
+        getSightSlope(createCell(), 1, 0, { isBlocking: () => true })
+      ).toBe(Infinity);
+    });
+  });
+
+  describe('HorizonProfile', () => {
+    test('starts with nothing blocking any direction', () => {
+      const profile = new HorizonProfile();
+
+      expect(profile.getSlopeAt(0)).toBe(-Infinity);
+      expect(profile.getSlopeAt(0.5)).toBe(-Infinity);
+    });
+
+    test('covers half a hex either side of each hex in a ring', () => {
+      const profile = new HorizonProfile();
+      profile.addRing([1, 2, 3, 4, 5, 6]);
+
+      expect(profile.getSlopeAt(0)).toBe(1);
+      expect(profile.getSlopeAt(1 / 6)).toBe(2);
+      expect(profile.getSlopeAt(5 / 6)).toBe(6);
+      // Hex 0 straddles direction 0, so it also covers the end of the ring
+      expect(profile.getSlopeAt(0.95)).toBe(1);
+    });
+
+    test('keeps the steepest slope across rings', () => {
+      const profile = new HorizonProfile();
+      profile.addRing([5, 0, 0, 0, 0, 0]);
+      profile.addRing(new Array(12).fill(1));
+
+      expect(profile.getSlopeAt(0)).toBe(5);
+      expect(profile.getSlopeAt(0.5)).toBe(1);
+    });
+
+    test('takes the lower side of a direction between two hexes', () => {
+      const profile = new HorizonProfile();
+      profile.addRing([Infinity, 0, 0, 0, 0, 0]);
+
+      // Half a hex after hex 0 is the boundary with hex 1
+      expect(profile.getSlopeAt(1 / 12)).toBe(0);
+      expect(profile.getSlopeAt(1 / 13)).toBe(Infinity);
+    });
+  });
+});
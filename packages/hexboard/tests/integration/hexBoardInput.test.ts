@@ -1,6 +1,7 @@
 import { HexBoard } from '../../src/hexBoard';
-import { HexCoordinates } from '../../src/core/coordinates';
+import { HexCoordinates, hexEquals } from '../../src/core/coordinates';
 import * as THREE from 'three';
+import { tap } from '../rendering/test-helpers';
 
 // Mock Three.js and DOM
 jest.mock('three');
@@ -407,11 +408,11 @@ describe('HexBoard Input Integration', () => {
       await hexBoard.init('test-container');
 
       expect(mockCanvas.addEventListener).toHaveBeenCalledWith(
-        'click',
+        'pointerdown',
         expect.any(Function)
       );
       expect(mockCanvas.addEventListener).toHaveBeenCalledWith(
-        'mousemove',
+        'pointermove',
         expect.any(Function)
       );
     });
@@ -483,11 +484,10 @@ describe('HexBoard Input Integration', () => {
       mockRaycaster.intersectObjects.mockReturnValue([mockIntersection]);
 
       // Simulate click event
-      const clickEvent = new MouseEvent('click', {
+      tap(mockCanvas, {
         clientX: 400,
         clientY: 300,
       });
-      mockCanvas.dispatchEvent(clickEvent);
 
       expect(handleCellClickSpy).toHaveBeenCalledWith(clickCoords);
     });
@@ -516,11 +516,10 @@ describe('HexBoard Input Integration', () => {
         .intersectObjects.mockReturnValue([mockIntersection]);
 
       // Simulate click
-      const clickEvent = new MouseEvent('click', {
+      tap(mockCanvas, {
         clientX: 400,
         clientY: 300,
       });
-      mockCanvas.dispatchEvent(clickEvent);
 
       // Verify the correct cell was accessed
       const retrievedCell = hexBoard.getCellAtCoords(testCoords);
@@ -547,12 +546,12 @@ describe('HexBoard Input Integration', () => {
         .getRaycaster()
         .intersectObjects.mockReturnValue([mockIntersection]);
 
-      const clickEvent = new MouseEvent('click', {
-        clientX: 400,
-        clientY: 300,
-      });
-
-      expect(() => mockCanvas.dispatchEvent(clickEvent)).not.toThrow();
+      expect(() =>
+        tap(mockCanvas, {
+          clientX: 400,
+          clientY: 300,
+        })
+      ).not.toThrow();
 
       const cell = hexBoard.getCellAtCoords(emptyCoords);
       expect(cell).toBeUndefined();
@@ -606,7 +605,7 @@ describe('HexBoard Input Integration', () => {
         .intersectObjects.mockReturnValue([mockIntersection]);
 
       // Simulate mouse move event
-      const mouseMoveEvent = new MouseEvent('mousemove', {
+      const mouseMoveEvent = new PointerEvent('pointermove', {
         clientX: 400,
         clientY: 300,
       });
@@ -635,7 +634,7 @@ describe('HexBoard Input Integration', () => {
       inputHandler
         .getRaycaster()
         .intersectObjects.mockReturnValue([mockIntersection]);
-      const enterEvent = new MouseEvent('mousemove', {
+      const enterEvent = new PointerEvent('pointermove', {
         clientX: 400,
         clientY: 300,
       });
@@ -646,7 +645,7 @@ describe('HexBoard Input Integration', () => {
 
       // Then move to empty space
       inputHandler.getRaycaster().intersectObjects.mockReturnValue([]);
-      const exitEvent = new MouseEvent('mousemove', {
+      const exitEvent = new PointerEvent('pointermove', {
         clientX: 100,
         clientY: 100,
       });
@@ -675,7 +674,7 @@ describe('HexBoard Input Integration', () => {
         },
       ]);
       mockCanvas.dispatchEvent(
-        new MouseEvent('mousemove', { clientX: 400, clientY: 300 })
+        new PointerEvent('pointermove', { clientX: 400, clientY: 300 })
       );
 
       expect(handleCellHoverSpy).toHaveBeenCalledWith(coords1);
@@ -693,7 +692,7 @@ describe('HexBoard Input Integration', () => {
         },
       ]);
       mockCanvas.dispatchEvent(
-        new MouseEvent('mousemove', { clientX: 500, clientY: 200 })
+        new PointerEvent('pointermove', { clientX: 500, clientY: 200 })
       );
 
       expect(handleCellHoverSpy).toHaveBeenCalledWith(coords2);
@@ -702,7 +701,7 @@ describe('HexBoard Input Integration', () => {
       // Move to empty space
       inputHandler.getRaycaster().intersectObjects.mockReturnValue([]);
       mockCanvas.dispatchEvent(
-        new MouseEvent('mousemove', { clientX: 100, clientY: 100 })
+        new PointerEvent('pointermove', { clientX: 100, clientY: 100 })
       );
 
       expect(handleCellHoverSpy).toHaveBeenCalledWith(null);
@@ -750,11 +749,10 @@ describe('HexBoard Input Integration', () => {
         .getRaycaster()
         .intersectObjects.mockReturnValue([mockIntersection]);
 
-      const clickEvent = new MouseEvent('click', {
+      tap(mockCanvas, {
         clientX: 400,
         clientY: 300,
       });
-      mockCanvas.dispatchEvent(clickEvent);
 
       expect(handleCellClickSpy).toHaveBeenCalledWith(testCoords);
     });
@@ -792,11 +790,10 @@ describe('HexBoard Input Integration', () => {
         hexBoard.setCellAtCoords(clickCoords, modifiedCell);
       });
 
-      const clickEvent = new MouseEvent('click', {
+      tap(mockCanvas, {
         clientX: 400,
         clientY: 300,
       });
-      mockCanvas.dispatchEvent(clickEvent);
 
       expect(hexBoard.getCellAtCoords(coords)?.customProps.terrain).toBe(
         'water'
@@ -804,6 +801,791 @@ describe('HexBoard Input Integration', () => {
     });
   });
 
+  describe('board events', () => {
+    const pointAt = (coords: HexCoordinates | null) => {
+      const inputHandler = (hexBoard as any).inputHandler;
+      inputHandler.getRaycaster().intersectObjects.mockReturnValue(
+        coords
+          ? [
+              {
+                object: { userData: { coordinates: coords } },
+                distance: 1,
+                point: new THREE.Vector3(),
+                face: null,
+                faceIndex: null,
+                uv: null,
+              },
+            ]
+          : []
+      );
+    };
+
+    const clickAt = (coords: HexCoordinates) => {
+      pointAt(coords);
+      tap(mockCanvas, { clientX: 400, clientY: 300 });
+    };
+
+    const moveTo = (coords: HexCoordinates | null) => {
+      pointAt(coords);
+      mockCanvas.dispatchEvent(
+        new PointerEvent('pointermove', { clientX: 400, clientY: 300 })
+      );
+    };
+
+    beforeEach(async () => {
+      await hexBoard.init('test-container');
+
+      hexBoard.setCellAtCoords(
+        { q: 0, r: 0, s: 0 },
+        { customProps: { terrain: 'grass' } }
+      );
+      hexBoard.setCellAtCoords(
+        { q: 1, r: 0, s: -1 },
+        { customProps: { terrain: 'water' } }
+      );
+    });
+
+    it('should emit cellClick with the clicked cell to every listener', () => {
+      const first = jest.fn();
+      const second = jest.fn();
+      hexBoard.on('cellClick', first);
+      hexBoard.on('cellClick', second);
+
+      clickAt({ q: 1, r: 0, s: -1 });
+
+      const cell = hexBoard.getCellAtCoords({ q: 1, r: 0, s: -1 });
+      expect(first).toHaveBeenCalledWith({ cell });
+      expect(second).toHaveBeenCalledWith({ cell });
+      expect(first.mock.calls[0][0].cell.customProps.terrain).toBe('water');
+    });
+
+    it('should not emit cellClick for coordinates without a cell', () => {
+      const handler = jest.fn();
+      hexBoard.on('cellClick', handler);
+
+      clickAt({ q: 5, r: 5, s: -10 });
+
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should stop calling a listener once unsubscribed', () => {
+      const handler = jest.fn();
+      const unsubscribe = hexBoard.on('cellClick', handler);
+
+      clickAt({ q: 0, r: 0, s: 0 });
+      unsubscribe();
+      clickAt({ q: 0, r: 0, s: 0 });
+
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep listeners added before init', async () => {
+      hexBoard.dispose();
+      const handler = jest.fn();
+      hexBoard.on('cellClick', handler);
+
+      await hexBoard.init('test-container');
+      clickAt({ q: 0, r: 0, s: 0 });
+
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it('should emit entityClick when clicking the cell of an entity without a model', () => {
+      const cell = hexBoard.getCellAtCoords({ q: 0, r: 0, s: 0 })!;
+      const entity = hexBoard.addEntity({
+        id: 'knight',
+        type: 'unit',
+        cellPosition: cell,
+        customProps: {},
+      });
+      const calls: string[] = [];
+      const entityClick = jest.fn(() => calls.push('entityClick'));
+      hexBoard.on('cellClick', () => calls.push('cellClick'));
+      hexBoard.on('entityClick', entityClick);
+
+      clickAt({ q: 0, r: 0, s: 0 });
+      clickAt({ q: 1, r: 0, s: -1 });
+
+      expect(entityClick).toHaveBeenCalledTimes(1);
+      expect(entityClick).toHaveBeenCalledWith({ entity, cell });
+      expect(calls).toEqual(['cellClick', 'entityClick', 'cellClick']);
+    });
+
+    it('should emit cellDoubleTap with the tapped entity', () => {
+      const cell = hexBoard.getCellAtCoords({ q: 0, r: 0, s: 0 })!;
+      const entity = hexBoard.addEntity({
+        id: 'knight',
+        type: 'unit',
+        cellPosition: cell,
+        customProps: {},
+      });
+      const handler = jest.fn();
+      hexBoard.on('cellDoubleTap', handler);
+
+      clickAt({ q: 0, r: 0, s: 0 });
+      clickAt({ q: 0, r: 0, s: 0 });
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(handler).toHaveBeenCalledWith({ cell, entity });
+    });
+
+    it('should emit cellLongPress without a click', () => {
+      jest.useFakeTimers();
+      try {
+        const cell = hexBoard.getCellAtCoords({ q: 1, r: 0, s: -1 });
+        const longPress = jest.fn();
+        const click = jest.fn();
+        hexBoard.on('cellLongPress', longPress);
+        hexBoard.on('cellClick', click);
+        const pointer = {
+          clientX: 400,
+          clientY: 300,
+          pointerId: 1,
+          pointerType: 'touch',
+          button: 0,
+        };
+
+        pointAt({ q: 1, r: 0, s: -1 });
+        mockCanvas.dispatchEvent(new PointerEvent('pointerdown', pointer));
+        jest.advanceTimersByTime(500);
+        mockCanvas.dispatchEvent(new PointerEvent('pointerup', pointer));
+
+        expect(longPress).toHaveBeenCalledWith({ cell, entity: undefined });
+        expect(click).not.toHaveBeenCalled();
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('should not emit cellClick when the camera is panned', () => {
+      const handler = jest.fn();
+      hexBoard.on('cellClick', handler);
+      const pointer = { clientY: 300, pointerId: 1, button: 0 };
+
+      pointAt({ q: 0, r: 0, s: 0 });
+      mockCanvas.dispatchEvent(
+        new PointerEvent('pointerdown', { ...pointer, clientX: 400 })
+      );
+      mockCanvas.dispatchEvent(
+        new PointerEvent('pointermove', { ...pointer, clientX: 480 })
+      );
+      mockCanvas.dispatchEvent(
+        new PointerEvent('pointerup', { ...pointer, clientX: 480 })
+      );
+
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    describe('entity dragging', () => {
+      const origin: HexCoordinates = { q: 0, r: 0, s: 0 };
+      const neighbor: HexCoordinates = { q: 1, r: 0, s: -1 };
+      const far: HexCoordinates = { q: 2, r: 0, s: -2 };
+      let showPath: jest.SpyInstance;
+
+      // Presses on the first coordinates, moves over the rest and returns a
+      // function that releases the pointer over whatever is picked then
+      const dragOver = (...steps: (HexCoordinates | null)[]) => {
+        const pointer = { clientY: 300, pointerId: 1, button: 0 };
+        let clientX = 400;
+        pointAt(steps[0]);
+        mockCanvas.dispatchEvent(
+          new PointerEvent('pointerdown', { ...pointer, clientX })
+        );
+        for (const step of steps.slice(1)) {
+          clientX += 50;
+          pointAt(step);
+          mockCanvas.dispatchEvent(
+            new PointerEvent('pointermove', { ...pointer, clientX })
+          );
+        }
+        return () =>
+          mockCanvas.dispatchEvent(
+            new PointerEvent('pointerup', { ...pointer, clientX })
+          );
+      };
+
+      beforeEach(() => {
+        hexBoard.setCellAtCoords(far, { customProps: { terrain: 'grass' } });
+        hexBoard.addEntity({
+          id: 'knight',
+          type: 'unit',
+          cellPosition: hexBoard.getCellAtCoords(origin)!,
+          customProps: {},
+        });
+        showPath = jest
+          .spyOn(hexBoard.getRenderer()!, 'showPath')
+          .mockImplementation();
+      });
+
+      const startMovementOnDrag = (destinations: HexCoordinates[]) =>
+        hexBoard.on('entityDragStart', ({ entity }) =>
+          hexBoard.startEntityMovement(entity.id, destinations)
+        );
+
+      it('should preview the path to a destination and move on drop', () => {
+        startMovementOnDrag([neighbor, far]);
+        const drag = jest.fn();
+        const drop = jest.fn();
+        hexBoard.on('entityDrag', drag);
+        hexBoard.on('entityDrop', drop);
+
+        const release = dragOver(origin, neighbor, far);
+
+        expect(drag).toHaveBeenLastCalledWith({
+          entity: hexBoard.getEntityById('knight'),
+          cell: hexBoard.getCellAtCoords(far),
+          // The path starts at the origin cell, whose s is -0
+          path: [origin, neighbor, far].map(({ q, r }) =>
+            expect.objectContaining({ q, r })
+          ),
+        });
+        expect(showPath).toHaveBeenLastCalledWith('entity-drag', [
+          hexBoard.getCellAtCoords(origin),
+          hexBoard.getCellAtCoords(neighbor),
+          hexBoard.getCellAtCoords(far),
+        ]);
+        expect(hexBoard.getRenderer()!.getControls().enabled).toBe(false);
+
+        release();
+
+        const knight = hexBoard.getEntityById('knight')!;
+        expect(hexEquals(knight.cellPosition, far)).toBe(true);
+        expect(drop).toHaveBeenCalledWith({
+          entity: knight,
+          cell: hexBoard.getCellAtCoords(far),
+          moved: true,
+        });
+        expect(hexBoard.getRenderer()!.getControls().enabled).toBe(true);
+      });
+
+      it('should walk the dropped entity along the previewed path', async () => {
+        startMovementOnDrag([neighbor, far]);
+        const animate = jest.fn().mockResolvedValue(undefined);
+        (hexBoard as any).entityRenderer = {
+          animateEntityAlongPath: animate,
+          getEntityModel: jest.fn(),
+          setVisibilityFilter: jest.fn(),
+          dispose: jest.fn(),
+        };
+        const complete = jest.fn();
+        hexBoard.on('entityMovementComplete', complete);
+
+        dragOver(origin, neighbor, far)();
+
+        expect(animate).toHaveBeenCalledWith(
+          'knight',
+          [
+            hexBoard.getCellAtCoords(origin),
+            hexBoard.getCellAtCoords(neighbor),
+            hexBoard.getCellAtCoords(far),
+          ],
+          {}
+        );
+        await animate.mock.results[0].value;
+        await Promise.resolve();
+        expect(complete).toHaveBeenCalledWith({
+          entity: hexBoard.getEntityById('knight'),
+          to: hexBoard.getCellAtCoords(far),
+        });
+      });
+
+      it('should report a failed move on drop instead of rejecting', async () => {
+        startMovementOnDrag([neighbor]);
+        const warnSpy = jest.spyOn(console, 'warn').mockImplementation();
+        const error = new Error('The way is blocked');
+        jest.spyOn(hexBoard, 'moveEntity').mockImplementation(() => {
+          throw error;
+        });
+        const drop = jest.fn();
+        hexBoard.on('entityDrop', drop);
+
+        dragOver(origin, neighbor)();
+        await Promise.resolve();
+
+        expect(warnSpy).toHaveBeenCalledWith(
+          'HexBoard: Error moving dropped entity:',
+          error
+        );
+        expect(drop).toHaveBeenCalledWith(
+          expect.objectContaining({ moved: false })
+        );
+        warnSpy.mockRestore();
+      });
+
+      it('should not preview or move to a hex outside the destinations', () => {
+        startMovementOnDrag([neighbor]);
+        const drag = jest.fn();
+        const moved = jest.fn();
+        const drop = jest.fn();
+        hexBoard.on('entityDrag', drag);
+        hexBoard.on('entityMoved', moved);
+        hexBoard.on('entityDrop', drop);
+
+        dragOver(origin, far)();
+
+        expect(drag).toHaveBeenCalledWith(
+          expect.objectContaining({ path: [] })
+        );
+        expect(showPath).not.toHaveBeenCalled();
+        expect(moved).not.toHaveBeenCalled();
+        expect(drop).toHaveBeenCalledWith(
+          expect.objectContaining({ moved: false })
+        );
+        expect(hexBoard.getEntityById('knight')!.isInMovementMode).toBe(false);
+      });
+
+      it('should cancel the movement when dropped off the board', () => {
+        startMovementOnDrag([neighbor]);
+        const drop = jest.fn();
+        hexBoard.on('entityDrop', drop);
+
+        dragOver(origin, neighbor, null)();
+
+        expect(drop).toHaveBeenCalledWith(
+          expect.objectContaining({ cell: null, moved: false })
+        );
+        expect(hexBoard.getEntityMovementDestinations('knight')).toEqual([]);
+      });
+
+      it('should leave the drag to the camera without a movement session', () => {
+        const dragStart = jest.fn();
+        const drag = jest.fn();
+        hexBoard.on('entityDragStart', dragStart);
+        hexBoard.on('entityDrag', drag);
+
+        dragOver(origin, neighbor)();
+
+        expect(dragStart).toHaveBeenCalledTimes(1);
+        expect(drag).not.toHaveBeenCalled();
+        expect(hexBoard.getRenderer()!.getControls().enabled).toBe(true);
+      });
+
+      it('should not start an entity drag from an empty cell', () => {
+        const dragStart = jest.fn();
+        hexBoard.on('entityDragStart', dragStart);
+
+        dragOver(neighbor, far)();
+
+        expect(dragStart).not.toHaveBeenCalled();
+      });
+
+      it('should only report the drag when the pointer changes cells', () => {
+        startMovementOnDrag([neighbor]);
+        const drag = jest.fn();
+        hexBoard.on('entityDrag', drag);
+
+        dragOver(origin, neighbor, neighbor, neighbor)();
+
+        expect(drag).toHaveBeenCalledTimes(1);
+      });
+    });
+
+    describe('selection', () => {
+      const modifiers = { shiftKey: true, pointerId: 1, button: 0 };
+
+      // Shift-drags across client x coordinates, at client y 300
+      const shiftDrag = (
+        xs: number[],
+        init: { ctrlKey?: boolean; altKey?: boolean } = {}
+      ) => {
+        const pointer = { ...modifiers, ...init, clientY: 300 };
+        const [first, ...rest] = xs;
+        mockCanvas.dispatchEvent(
+          new PointerEvent('pointerdown', { ...pointer, clientX: first })
+        );
+        for (const clientX of rest) {
+          mockCanvas.dispatchEvent(
+            new PointerEvent('pointermove', { ...pointer, clientX })
+          );
+        }
+        mockCanvas.dispatchEvent(
+          new PointerEvent('pointerup', {
+            ...pointer,
+            clientX: rest[rest.length - 1],
+            clientY: 400,
+          })
+        );
+      };
+
+      beforeEach(() => {
+        hexBoard.setCellAtCoords(
+          { q: 2, r: 0, s: -2 },
+          { customProps: { terrain: 'grass' } }
+        );
+        // Lay the cells out in a row on screen: 100 pixels per q, at y 350
+        jest
+          .spyOn(hexBoard as any, 'projectCellCenter')
+          .mockImplementation((cell: any) => ({
+            clientX: 100 + cell.q * 100,
+            clientY: 350,
+          }));
+      });
+
+      const selectedIds = () =>
+        hexBoard
+          .getSelection()
+          .getSelectedCells()
+          .map((cell) => cell.id);
+
+      it('should select the cells inside a box and highlight them', () => {
+        const addHighlightGroup = jest
+          .spyOn(hexBoard.getRenderer()!, 'addHighlightGroup')
+          .mockImplementation();
+        const change = jest.fn();
+        hexBoard.getSelection().on('change', change);
+
+        shiftDrag([50, 150, 250]);
+
+        expect(selectedIds()).toEqual(['0,0,0', '1,0,-1']);
+        expect(change).toHaveBeenCalledTimes(1);
+        expect(addHighlightGroup).toHaveBeenCalledWith(
+          'selection',
+          hexBoard.getSelection().getSelectedCells()
+        );
+        expect(hexBoard.getRenderer()!.getControls().enabled).toBe(true);
+      });
+
+      it('should add to and subtract from the selection with modifiers', () => {
+        jest
+          .spyOn(hexBoard.getRenderer()!, 'addHighlightGroup')
+          .mockImplementation();
+
+        shiftDrag([50, 150]);
+        shiftDrag([250, 350], { ctrlKey: true });
+        expect(selectedIds()).toEqual(['0,0,0', '2,0,-2']);
+
+        shiftDrag([50, 150], { altKey: true });
+        expect(selectedIds()).toEqual(['2,0,-2']);
+      });
+
+      it('should select with a lasso and include entities when asked', () => {
+        jest
+          .spyOn(hexBoard.getRenderer()!, 'addHighlightGroup')
+          .mockImplementation();
+        const knight = hexBoard.addEntity({
+          id: 'knight',
+          type: 'unit',
+          cellPosition: hexBoard.getCellAtCoords({ q: 1, r: 0, s: -1 })!,
+          customProps: {},
+        });
+        hexBoard.setSelectionOptions({ shape: 'lasso', includeEntities: true });
+
+        // A lasso ending at (250, 400) encloses only the middle cell
+        shiftDrag([150, 250, 250]);
+
+        expect(selectedIds()).toEqual(['1,0,-1']);
+        expect(hexBoard.getSelection().getSelectedEntities()).toEqual([knight]);
+
+        hexBoard.removeEntity('knight');
+        expect(hexBoard.getSelection().getSelectedEntities()).toEqual([]);
+      });
+
+      it('should remove the highlight once the selection is empty', () => {
+        jest
+          .spyOn(hexBoard.getRenderer()!, 'addHighlightGroup')
+          .mockImplementation();
+        const removeHighlightGroup = jest.spyOn(
+          hexBoard.getRenderer()!,
+          'removeHighlightGroup'
+        );
+
+        shiftDrag([50, 150]);
+        hexBoard.getSelection().clear();
+
+        expect(removeHighlightGroup).toHaveBeenCalledWith('selection');
+      });
+    });
+
+    describe('with rendered entity models', () => {
+      const pickModel = (entityId: string, coords: HexCoordinates) => {
+        const inputHandler = (hexBoard as any).inputHandler;
+        inputHandler.getRaycaster().intersectObjects.mockReturnValue([
+          {
+            object: { userData: { entityId, coordinates: coords } },
+            distance: 1,
+            point: new THREE.Vector3(),
+            face: null,
+            faceIndex: null,
+            uv: null,
+          },
+          {
+            object: { userData: { coordinates: { q: 1, r: 0, s: -1 } } },
+            distance: 2,
+            point: new THREE.Vector3(),
+            face: null,
+            faceIndex: null,
+            uv: null,
+          },
+        ]);
+      };
+
+      beforeEach(() => {
+        // Every entity is rendered, so tiles no longer stand in for entities
+        (hexBoard as any).entityRenderer = {
+          getEntityModel: jest.fn().mockReturnValue({}),
+          setVisibilityFilter: jest.fn(),
+          dispose: jest.fn(),
+        };
+      });
+
+      it("should emit entityClick for a picked model with the entity's cell", () => {
+        const cell = hexBoard.getCellAtCoords({ q: 0, r: 0, s: 0 })!;
+        const entity = hexBoard.addEntity({
+          id: 'knight',
+          type: 'unit',
+          cellPosition: cell,
+          customProps: {},
+        });
+        const cellClick = jest.fn();
+        const entityClick = jest.fn();
+        hexBoard.on('cellClick', cellClick);
+        hexBoard.on('entityClick', entityClick);
+
+        pickModel('knight', { q: 0, r: 0, s: 0 });
+        tap(mockCanvas, { clientX: 400, clientY: 300 });
+
+        expect(cellClick).toHaveBeenCalledWith({ cell });
+        expect(entityClick).toHaveBeenCalledTimes(1);
+        expect(entityClick).toHaveBeenCalledWith({ entity, cell });
+      });
+
+      it('should not emit entityClick when clicking the tile under a model', () => {
+        hexBoard.addEntity({
+          id: 'knight',
+          type: 'unit',
+          cellPosition: hexBoard.getCellAtCoords({ q: 0, r: 0, s: 0 })!,
+          customProps: {},
+        });
+        const entityClick = jest.fn();
+        hexBoard.on('entityClick', entityClick);
+
+        clickAt({ q: 0, r: 0, s: 0 });
+
+        expect(entityClick).not.toHaveBeenCalled();
+      });
+
+      it('should emit entityHover when the pointer enters and leaves a model', () => {
+        const entity = hexBoard.addEntity({
+          id: 'knight',
+          type: 'unit',
+          cellPosition: hexBoard.getCellAtCoords({ q: 0, r: 0, s: 0 })!,
+          customProps: {},
+        });
+        const entityHover = jest.fn();
+        hexBoard.on('entityHover', entityHover);
+
+        pickModel('knight', { q: 0, r: 0, s: 0 });
+        mockCanvas.dispatchEvent(
+          new PointerEvent('pointermove', { clientX: 400, clientY: 300 })
+        );
+        moveTo({ q: 1, r: 0, s: -1 });
+
+        expect(entityHover.mock.calls).toEqual([
+          [{ entity }],
+          [{ entity: null }],
+        ]);
+      });
+    });
+
+    it('should emit cellLeave, cellEnter and cellHover as the pointer moves', () => {
+      const grass = hexBoard.getCellAtCoords({ q: 0, r: 0, s: 0 })!;
+      const water = hexBoard.getCellAtCoords({ q: 1, r: 0, s: -1 })!;
+      const events: Array<[string, unknown]> = [];
+      hexBoard.on('cellEnter', ({ cell }) => events.push(['enter', cell.id]));
+      hexBoard.on('cellLeave', ({ cell }) => events.push(['leave', cell.id]));
+      hexBoard.on('cellHover', ({ cell }) =>
+        events.push(['hover', cell ? cell.id : null])
+      );
+
+      moveTo({ q: 0, r: 0, s: 0 });
+      moveTo({ q: 1, r: 0, s: -1 });
+      moveTo(null);
+
+      expect(events).toEqual([
+        ['enter', grass.id],
+        ['hover', grass.id],
+        ['leave', grass.id],
+        ['enter', water.id],
+        ['hover', water.id],
+        ['leave', water.id],
+        ['hover', null],
+      ]);
+    });
+
+    it('should treat hovering coordinates without a cell as leaving the board', () => {
+      const leave = jest.fn();
+      const hover = jest.fn();
+      hexBoard.on('cellLeave', leave);
+      hexBoard.on('cellHover', hover);
+
+      moveTo({ q: 0, r: 0, s: 0 });
+      moveTo({ q: 5, r: 5, s: -10 });
+      moveTo(null);
+
+      expect(leave).toHaveBeenCalledTimes(1);
+      expect(hover).toHaveBeenCalledTimes(2);
+      expect(hover).toHaveBeenLastCalledWith({ cell: null });
+    });
+  });
+
+  describe('keyboard navigation', () => {
+    const press = (key: string, init: { shiftKey?: boolean } = {}) =>
+      mockCanvas.dispatchEvent(new KeyboardEvent('keydown', { key, ...init }));
+
+    beforeEach(async () => {
+      hexBoard.setCellAtCoords(
+        { q: 0, r: 0, s: 0 },
+        { customProps: { terrain: 'grass' } }
+      );
+      hexBoard.setCellAtCoords({ q: 0, r: -1, s: 1 }, {});
+      hexBoard.setCellAtCoords({ q: 1, r: 0, s: -1 }, {});
+      await hexBoard.init('test-container');
+      jest
+        .spyOn(hexBoard.getRenderer()!, 'highlightHexCell')
+        .mockImplementation();
+      jest
+        .spyOn(hexBoard.getRenderer()!, 'removeHighlightFromHexCell')
+        .mockImplementation();
+    });
+
+    it('should move the cursor with the direction keys and emit cellFocus', () => {
+      const cellFocus = jest.fn();
+      hexBoard.on('cellFocus', cellFocus);
+
+      hexBoard.focusCell({ q: 0, r: 0, s: 0 });
+      press('e');
+      press('a');
+
+      expect(cellFocus.mock.calls.map(([{ cell }]) => cell.id)).toEqual([
+        '0,0,0',
+        '0,-1,1',
+        '0,0,0',
+      ]);
+      expect(hexBoard.getRenderer()!.highlightHexCell).toHaveBeenLastCalledWith(
+        { q: 0, r: 0, s: 0 }
+      );
+    });
+
+    it('should announce the focused cell in an ARIA live region', () => {
+      hexBoard.focusCell({ q: 1, r: 0, s: -1 });
+
+      const liveRegion = document.querySelector(
+        '#test-container [aria-live="polite"]'
+      );
+      expect(liveRegion?.textContent).toBe('Cell 1, 0, -1. Elevation 1.');
+
+      hexBoard.setCellDescriber((cell) => `Focused ${cell.id}`);
+      press('w');
+      press('s');
+      expect(liveRegion?.textContent).toBe('Focused 1,0,-1');
+    });
+
+    it('should tab through entities and confirm the focused one', () => {
+      const grass = hexBoard.getCellAtCoords({ q: 0, r: 0, s: 0 })!;
+      hexBoard.addEntity({
+        id: 'knight',
+        type: 'unit',
+        cellPosition: grass,
+        customProps: {},
+      });
+      const archer = hexBoard.addEntity({
+        id: 'archer',
+        type: 'unit',
+        cellPosition: grass,
+        customProps: {},
+      });
+      const cellFocus = jest.fn();
+      const cellClick = jest.fn();
+      const entityClick = jest.fn();
+      hexBoard.on('cellFocus', cellFocus);
+      hexBoard.on('cellClick', cellClick);
+      hexBoard.on('entityClick', entityClick);
+
+      press('Tab');
+      press('Tab');
+      press('Enter');
+
+      expect(cellFocus).toHaveBeenLastCalledWith({
+        cell: grass,
+        entity: archer,
+      });
+      expect(cellClick).toHaveBeenCalledWith({ cell: grass });
+      expect(entityClick).toHaveBeenCalledWith({ entity: archer, cell: grass });
+    });
+
+    it('should skip entities hidden from the fog of war viewer', () => {
+      hexBoard.addEntity({
+        id: 'ally',
+        type: 'unit',
+        owner: 'red',
+        cellPosition: hexBoard.getCellAtCoords({ q: 0, r: 0, s: 0 })!,
+        customProps: {},
+      });
+      hexBoard.addEntity({
+        id: 'spy',
+        type: 'unit',
+        owner: 'blue',
+        cellPosition: hexBoard.getCellAtCoords({ q: 1, r: 0, s: -1 })!,
+        customProps: {},
+      });
+      hexBoard.enableFogOfWar({ sightRadius: 0 });
+      jest.spyOn(hexBoard.getRenderer()!, 'setFogOfWar').mockImplementation();
+      hexBoard.setFogOfWarViewer('red');
+      const cellFocus = jest.fn();
+      hexBoard.on('cellFocus', cellFocus);
+
+      press('Tab');
+      press('Tab');
+
+      expect(cellFocus.mock.calls.map(([{ entity }]) => entity.id)).toEqual([
+        'ally',
+        'ally',
+      ]);
+    });
+
+    it('should emit cancel with the focused cell', () => {
+      const cancel = jest.fn();
+      hexBoard.on('cancel', cancel);
+
+      press('Escape');
+      hexBoard.focusCell({ q: 0, r: 0, s: 0 });
+      press('Escape');
+
+      expect(cancel.mock.calls).toEqual([
+        [{ cell: null }],
+        [{ cell: hexBoard.getCellAtCoords({ q: 0, r: 0, s: 0 }) }],
+      ]);
+    });
+
+    it('should do nothing on confirm with nothing focused', () => {
+      const cellClick = jest.fn();
+      hexBoard.on('cellClick', cellClick);
+
+      press('Enter');
+
+      expect(cellClick).not.toHaveBeenCalled();
+    });
+
+    it('should follow rebound keys', () => {
+      const cellFocus = jest.fn();
+      hexBoard.on('cellFocus', cellFocus);
+      hexBoard.setKeyBindings({ moveNortheast: ['ArrowRight'] });
+      hexBoard.focusCell({ q: 0, r: 0, s: 0 });
+
+      press('e');
+      press('ArrowRight');
+
+      expect(cellFocus).toHaveBeenCalledTimes(2);
+      expect(hexBoard.getKeyboardCursor()?.getFocusedCell()?.id).toBe('0,-1,1');
+    });
+
+    it('should remove the live region when disposed', () => {
+      hexBoard.dispose();
+
+      expect(document.querySelector('#test-container [aria-live]')).toBeNull();
+    });
+  });
+
   describe('cleanup and disposal', () => {
     it('should clean up input handlers when HexBoard is disposed', async () => {
       await hexBoard.init('test-container');
@@ -816,11 +1598,11 @@ describe('HexBoard Input Integration', () => {
       hexBoard.dispose();
 
       expect(removeEventListenerSpy).toHaveBeenCalledWith(
-        'click',
+        'pointerdown',
         expect.any(Function)
       );
       expect(removeEventListenerSpy).toHaveBeenCalledWith(
-        'mousemove',
+        'pointermove',
         expect.any(Function)
       );
     });
@@ -839,11 +1621,10 @@ describe('HexBoard Input Integration', () => {
       hexBoard.dispose();
 
       // Try to simulate a click after disposal
-      const clickEvent = new MouseEvent('click', {
+      tap(mockCanvas, {
         clientX: 400,
         clientY: 300,
       });
-      mockCanvas.dispatchEvent(clickEvent);
 
       expect(handleCellClickSpy).not.toHaveBeenCalled();
     });
@@ -903,12 +1684,12 @@ describe('HexBoard Input Integration', () => {
         },
       ]);
 
-      const clickEvent = new MouseEvent('click', {
-        clientX: 400,
-        clientY: 300,
-      });
-
-      expect(() => mockCanvas.dispatchEvent(clickEvent)).not.toThrow();
+      expect(() =>
+        tap(mockCanvas, {
+          clientX: 400,
+          clientY: 300,
+        })
+      ).not.toThrow();
 
       // Should still call handler - validation is not InputHandler's responsibility
       expect(handleCellClickSpy).toHaveBeenCalledWith(invalidCoords);
@@ -954,7 +1735,7 @@ describe('HexBoard Input Integration', () => {
 
       // Simulate rapid mouse movements over the same cell
       for (let i = 0; i < 10; i++) {
-        const moveEvent = new MouseEvent('mousemove', {
+        const moveEvent = new PointerEvent('pointermove', {
           clientX: 400 + i,
           clientY: 300 + i,
         });
@@ -994,13 +1775,11 @@ describe('HexBoard Input Integration', () => {
         },
       ]);
 
-      const clickEvent = new MouseEvent('click', {
+      const startTime = performance.now();
+      tap(mockCanvas, {
         clientX: 400,
         clientY: 300,
       });
-
-      const startTime = performance.now();
-      mockCanvas.dispatchEvent(clickEvent);
       const endTime = performance.now();
 
       expect(handleCellClickSpy).toHaveBeenCalledWith(coords);
@@ -0,0 +1,130 @@
+import {
+  MapDefinition,
+  formatMapValidationErrors,
+  validateMapDefinition,
+} from '../../src/map/mapDefinition';
+
+const createDefinition = (cells: MapDefinition['cells']): MapDefinition => ({
+  name: 'Test Map',
+  defaults: {
+    elevation: 0,
+    movementCost: 1,
+    isImpassable: false,
+    customProps: {},
+  },
+  cells,
+});
+
+describe('validateMapDefinition', () => {
+  test('accepts a valid map', () => {
+    const definition = createDefinition([
+      { q: 0, r: 0 },
+      { q: 1, r: 0, s: -1 },
+      { q: -1, r: 2 },
+    ]);
+
+    expect(validateMapDefinition(definition)).toEqual([]);
+  });
+
+  test('accepts an empty map', () => {
+    expect(validateMapDefinition(createDefinition([]))).toEqual([]);
+  });
+
+  test('rejects non-integer coordinates', () => {
+    const definition = createDefinition([
+      { q: 0, r: 0 },
+      { q: 0.5, r: 0 },
+      { q: 1, r: NaN },
+    ]);
+
+    expect(validateMapDefinition(definition)).toEqual([
+      {
+        cellIndex: 1,
+        message: 'Invalid hex coordinates: q=0.5, r=0. Must be integers',
+      },
+      {
+        cellIndex: 2,
+        message: 'Invalid hex coordinates: q=1, r=NaN. Must be integers',
+      },
+    ]);
+  });
+
+  test('rejects s coordinates that break the cubic constraint', () => {
+    const definition = createDefinition([{ q: 1, r: 2, s: 3 }]);
+
+    expect(validateMapDefinition(definition)).toEqual([
+      {
+        cellIndex: 0,
+        message:
+          'Invalid hex coordinates: q=1, r=2, s=3. Must satisfy q + r + s = 0',
+      },
+    ]);
+  });
+
+  test('rejects duplicates, pointing at the first definition', () => {
+    const definition = createDefinition([
+      { q: 0, r: 0 },
+      { q: 1, r: 1 },
+      { q: 1, r: 1, s: -2 },
+      { q: 0, r: 0 },
+    ]);
+
+    expect(validateMapDefinition(definition)).toEqual([
+      {
+        cellIndex: 2,
+        message: 'Duplicate cell at q=1, r=1, s=-2. Already defined by cell 1',
+      },
+      {
+        cellIndex: 3,
+        message: 'Duplicate cell at q=0, r=0, s=0. Already defined by cell 0',
+      },
+    ]);
+  });
+
+  test('reports every problem rather than stopping at the first', () => {
+    const definition = createDefinition([
+      { q: 0, r: 0 },
+      { q: 2, r: 0, s: 0 },
+      { q: 0, r: 0 },
+      { q: 0.25, r: 3 },
+      { q: 4, r: 4 },
+    ]);
+
+    expect(
+      validateMapDefinition(definition).map((error) => error.cellIndex)
+    ).toEqual([1, 2, 3]);
+  });
+});
+
+describe('formatMapValidationErrors', () => {
+  test('lists each error with its cell index under the map name', () => {
+    const definition = createDefinition([
+      { q: 0, r: 0 },
+      { q: 0, r: 0 },
+      { q: 1, r: 2, s: 3 },
+    ]);
+
+    expect(
+      formatMapValidationErrors(definition, validateMapDefinition(definition))
+    ).toBe(
+      [
+        "Invalid map definition 'Test Map' (2 errors):",
+        '  cell 1: Duplicate cell at q=0, r=0, s=0. Already defined by cell 0',
+        '  cell 2: Invalid hex coordinates: q=1, r=2, s=3. Must satisfy q + r + s = 0',
+      ].join('\n')
+    );
+  });
+
+  test('counts a single error in the singular', () => {
+    const definition = createDefinition([{ q: 0.5, r: 0 }]);
+
+    expect(
+      formatMapValidationErrors(definition, validateMapDefinition(definition))
+    ).toBe(
+      [
+        "Invalid map definition 'Test Map' (1 error):",
+        '  cell 0: Invalid hex coordinates: q=0.5, r=0. Must be integers',
+      ].join('\n')
+    );
+  });
+});
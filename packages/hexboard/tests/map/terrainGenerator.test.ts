@@ -0,0 +1,191 @@
+import { CellDefinition } from '../../src/core/cell';
+import { HexGrid } from '../../src/core/hexGrid';
+import { Random } from '../../src/core/random';
+import { hexagonShape } from '../../src/core/shapes';
+import { generateTerrain } from '../../src/map/terrainGenerator';
+
+const elevations = (cells: CellDefinition[]): number[] =>
+  cells.map((cell) => cell.elevation!);
+
+/** How much each cell's elevation differs from its neighbors', on average */
+const roughness = (cells: CellDefinition[]): number => {
+  const byId = new Map(cells.map((cell) => [`${cell.q},${cell.r}`, cell]));
+  let total = 0;
+  let pairs = 0;
+  cells.forEach((cell) => {
+    const neighbor = byId.get(`${cell.q + 1},${cell.r}`);
+    if (neighbor) {
+      total += Math.abs(cell.elevation! - neighbor.elevation!);
+      pairs++;
+    }
+  });
+  return total / pairs;
+};
+
+describe('generateTerrain', () => {
+  const shape = hexagonShape(6);
+
+  it('should cover every hex of the shape once', () => {
+    const definition = generateTerrain(shape, { random: new Random(1) });
+
+    expect(definition.cells).toHaveLength(shape.length);
+    expect(definition.name).toBe('Generated terrain');
+
+    const grid = HexGrid.fromMapDefinition(definition);
+    shape.forEach(({ q, r }) => {
+      expect(grid.getCell(q, r)).not.toBeNull();
+    });
+  });
+
+  it('should generate the same terrain for the same seed', () => {
+    const first = generateTerrain(shape, { random: new Random('island') });
+    const second = generateTerrain(shape, { random: new Random('island') });
+    const other = generateTerrain(shape, { random: new Random('desert') });
+
+    expect(second).toEqual(first);
+    expect(elevations(other.cells)).not.toEqual(elevations(first.cells));
+  });
+
+  it('should flood the hexes below the water level', () => {
+    const definition = generateTerrain(shape, {
+      random: new Random(2),
+      waterLevel: 0.4,
+    });
+
+    const water = definition.cells.filter((cell) => cell.isImpassable);
+    const land = definition.cells.filter((cell) => !cell.isImpassable);
+    expect(water.length).toBeGreaterThan(0);
+    expect(land.length).toBeGreaterThan(0);
+    water.forEach((cell) => expect(cell.elevation).toBe(1.2));
+    land.forEach((cell) => {
+      expect(cell.elevation).toBeGreaterThanOrEqual(1.2);
+      expect(cell.elevation).toBeLessThanOrEqual(3);
+    });
+  });
+
+  it('should make no water at a water level of 0', () => {
+    const definition = generateTerrain(shape, {
+      random: new Random(2),
+      waterLevel: 0,
+    });
+
+    expect(definition.cells.some((cell) => cell.isImpassable)).toBe(false);
+    expect(Math.min(...elevations(definition.cells))).toBe(0);
+    expect(Math.max(...elevations(definition.cells))).toBe(3);
+  });
+
+  it('should block the hexes above the mountain level', () => {
+    const definition = generateTerrain(shape, {
+      random: new Random(3),
+      waterLevel: 0,
+      mountainLevel: 0.8,
+      maxElevation: 10,
+    });
+
+    definition.cells.forEach((cell) => {
+      expect(cell.isImpassable).toBe(cell.elevation! > 8);
+    });
+    expect(definition.cells.some((cell) => cell.isImpassable)).toBe(true);
+  });
+
+  it('should make higher land costlier to cross', () => {
+    const definition = generateTerrain(shape, { random: new Random(4) });
+    const land = definition.cells.filter((cell) => !cell.isImpassable);
+
+    const costs = new Set(land.map((cell) => cell.movementCost));
+    expect([...costs].sort()).toEqual([1, 2, 3]);
+    land.forEach((low) => {
+      land.forEach((high) => {
+        if (high.elevation! > low.elevation!) {
+          expect(high.movementCost).toBeGreaterThanOrEqual(low.movementCost!);
+        }
+      });
+    });
+  });
+
+  it('should set costs and custom properties from height', () => {
+    const definition = generateTerrain<{ height: number; q: number }>(shape, {
+      random: new Random(5),
+      waterLevel: 0,
+      movementCost: (height) => (height > 0.5 ? 4 : 2),
+      customProps: (height, coordinates) => ({ height, q: coordinates.q }),
+    });
+
+    definition.cells.forEach((cell) => {
+      expect(cell.customProps!.q).toBe(cell.q);
+      expect(cell.movementCost).toBe(cell.customProps!.height > 0.5 ? 4 : 2);
+    });
+  });
+
+  it('should soften slopes with more smoothing', () => {
+    const options = { waterLevel: 0, octaves: 6, scale: 4 };
+    const rough = generateTerrain(shape, {
+      ...options,
+      random: new Random(6),
+      smoothing: 0,
+    });
+    const smooth = generateTerrain(shape, {
+      ...options,
+      random: new Random(6),
+      smoothing: 4,
+    });
+
+    expect(roughness(smooth.cells)).toBeLessThan(roughness(rough.cells));
+  });
+
+  it('should shape ridges and valleys from the same noise', () => {
+    const options = { waterLevel: 0, smoothing: 0 };
+    const generate = (
+      relief: 'rolling' | 'ridges' | 'valleys'
+    ): CellDefinition[] =>
+      generateTerrain(shape, { ...options, random: new Random(7), relief })
+        .cells;
+
+    const ridges = elevations(generate('ridges'));
+    const valleys = elevations(generate('valleys'));
+    ridges.forEach((ridge, index) => {
+      // Valleys are ridges upside down, so their elevations add up to the top
+      expect(ridge + valleys[index]).toBeCloseTo(3, 1);
+    });
+    expect(ridges).not.toEqual(elevations(generate('rolling')));
+  });
+
+  it('should draw value noise when asked', () => {
+    const simplex = generateTerrain(shape, { random: new Random(8) });
+    const value = generateTerrain(shape, {
+      random: new Random(8),
+      noise: 'value',
+    });
+
+    expect(elevations(value.cells)).not.toEqual(elevations(simplex.cells));
+  });
+
+  it('should handle shapes of one hex', () => {
+    const definition = generateTerrain(hexagonShape(0), {
+      random: new Random(9),
+    });
+
+    expect(definition.cells).toEqual([
+      {
+        q: 0,
+        r: 0,
+        elevation: 1.5,
+        movementCost: 1,
+        isImpassable: false,
+        customProps: {},
+      },
+    ]);
+  });
+
+  it('should reject invalid options', () => {
+    expect(() => generateTerrain(shape, { scale: 0 })).toThrow(
+      'Terrain scale must be positive, got 0'
+    );
+    expect(() => generateTerrain(shape, { waterLevel: 1.5 })).toThrow(
+      'Water level must be from 0 to 1, got 1.5'
+    );
+    expect(() => generateTerrain(shape, { mountainLevel: -1 })).toThrow(
+      'Mountain level must be from 0 to 1, got -1'
+    );
+  });
+});
@@ -33,12 +33,18 @@ jest.mock('three', () => ({
     shadow: { mapSize: { width: 0, height: 0 } },
     castShadow: false,
   })),
-  Mesh: jest.fn().mockImplementation(() => ({
+  Mesh: jest.fn().mockImplementation((geometry, material) => ({
+    geometry,
+    material,
     position: { set: jest.fn() },
     rotation: { set: jest.fn() },
+    userData: {},
   })),
   PlaneGeometry: jest.fn(),
   MeshStandardMaterial: jest.fn(),
+  MeshLambertMaterial: jest.fn().mockImplementation(() => ({
+    color: { setHex: jest.fn(), multiplyScalar: jest.fn() },
+  })),
   CylinderGeometry: jest.fn(),
   Vector3: jest.fn().mockImplementation(() => ({
     set: jest.fn(),
@@ -84,11 +90,16 @@ jest.mock('three-stdlib', () => ({
 
 import * as THREE from 'three';
 import { BoardRenderer } from '../../src/rendering/boardRenderer';
+import { Animator } from '../../src/animation/animator';
+import { ManualClock } from '../../src/animation/clock';
+import { Tween } from '../../src/animation/tween';
 import { EntityManager } from '../../src/core/entity';
+import { CellVisibility, FogOfWar } from '../../src/core/fogOfWar';
 import { HexGrid } from '../../src/core/hexGrid';
 import { OrbitControls } from 'three-stdlib';
 import { CellColorStrategy } from '../../src/rendering/cellColorStrategy';
 import { ModelHighlightStrategy } from '../../src/rendering/highlightStrategy';
+import { createTestCell } from './test-helpers';
 import {
   MockColorStrategy,
   MockCamera as _MockCamera,
@@ -212,6 +223,37 @@ describe('BoardRenderer', () => {
       // Note: The render method should call renderer.render(scene, camera) internally
     });
 
+    it('should advance its animator on every render', async () => {
+      const clock = new ManualClock();
+      const animator = new Animator(clock);
+      boardRenderer = new BoardRenderer(
+        mockHexGrid,
+        undefined,
+        undefined,
+        undefined,
+        animator
+      );
+      const target = { x: 0 };
+      boardRenderer
+        .getAnimator()
+        .play(new Tween(target, { x: 10 }, { duration: 100 }));
+
+      clock.advance(50);
+      await boardRenderer.render();
+
+      expect(target.x).toBe(5);
+    });
+
+    it('should cancel its animations when disposed', async () => {
+      const handle = boardRenderer
+        .getAnimator()
+        .play(new Tween({ x: 0 }, { x: 10 }, { duration: 100 }));
+
+      boardRenderer.dispose();
+
+      await expect(handle.finished).resolves.toBe(false);
+    });
+
     // Test for future EntityRenderer integration
     it('should be ready to call entityRenderer.update when implemented', () => {
       // This test documents the expected behavior when EntityRenderer is added
@@ -285,6 +327,142 @@ describe('BoardRenderer', () => {
     });
   });
 
+  describe('fog of war', () => {
+    let grid: HexGrid;
+    let fog: FogOfWar;
+
+    const getMesh = (index: number): THREE.Mesh =>
+      (THREE.Mesh as unknown as jest.Mock).mock.results[index].value;
+
+    beforeEach(() => {
+      grid = new HexGrid();
+      grid.addCell({ q: 0, r: 0 });
+      grid.addCell({ q: 1, r: 0 });
+      grid.addCell({ q: 2, r: 0 });
+
+      const visibilities: Record<string, CellVisibility> = {
+        '0,0,0': CellVisibility.Visible,
+        '1,0,-1': CellVisibility.Explored,
+      };
+      fog = {
+        getCellVisibility: jest.fn(
+          (_playerId: string, cell: { q: number; r: number; s: number }) =>
+            visibilities[`${cell.q},${cell.r},${cell.s}`] ??
+            CellVisibility.Unexplored
+        ),
+      } as unknown as FogOfWar;
+
+      boardRenderer = new BoardRenderer(grid);
+      boardRenderer.renderHexGrid();
+    });
+
+    it('should hide unexplored cells and darken explored ones', () => {
+      boardRenderer.setFogOfWar(fog, 'red');
+
+      const [visible, explored, unexplored] = [0, 1, 2].map(getMesh);
+      const colorOf = (mesh: THREE.Mesh) =>
+        (mesh.material as THREE.MeshLambertMaterial).color;
+
+      expect(fog.getCellVisibility).toHaveBeenCalledWith(
+        'red',
+        expect.objectContaining({ q: 0, r: 0 })
+      );
+      expect(visible.visible).toBe(true);
+      expect(colorOf(visible).multiplyScalar).not.toHaveBeenCalled();
+      expect(explored.visible).toBe(true);
+      expect(colorOf(explored).multiplyScalar).toHaveBeenCalledWith(0.4);
+      expect(unexplored.visible).toBe(false);
+      expect(colorOf(unexplored).setHex).toHaveBeenCalledWith(0x000000);
+    });
+
+    it('should apply style overrides', () => {
+      boardRenderer.setFogOfWar(fog, 'red', {
+        hideUnexplored: false,
+        unexploredColor: 0x222222,
+        exploredBrightness: 0.7,
+      });
+
+      const explored = getMesh(1);
+      const unexplored = getMesh(2);
+
+      expect(
+        (explored.material as THREE.MeshLambertMaterial).color.multiplyScalar
+      ).toHaveBeenCalledWith(0.7);
+      expect(unexplored.visible).toBe(true);
+      expect(
+        (unexplored.material as THREE.MeshLambertMaterial).color.setHex
+      ).toHaveBeenCalledWith(0x222222);
+    });
+
+    it('should show every cell again once cleared', () => {
+      boardRenderer.setFogOfWar(fog, 'red');
+      boardRenderer.setFogOfWar(undefined);
+
+      expect(getMesh(2).visible).toBe(true);
+    });
+  });
+
+  describe('paths', () => {
+    const cells = [
+      createTestCell(0, 0, 1),
+      createTestCell(1, 0, 2),
+      createTestCell(2, 0, 1),
+    ];
+
+    const getLine = (index: number) =>
+      (THREE.Line as unknown as jest.Mock).mock.results[index].value;
+
+    beforeEach(() => {
+      boardRenderer = new BoardRenderer(mockHexGrid);
+    });
+
+    it('should draw a line through the cells of a path', () => {
+      boardRenderer.showPath('route', cells);
+
+      const line = getLine(0);
+      expect(line.geometry.setFromPoints).toHaveBeenCalledWith([
+        expect.anything(),
+        expect.anything(),
+        expect.anything(),
+      ]);
+      expect(THREE.LineBasicMaterial).toHaveBeenCalledWith({
+        color: 0xffff00,
+      });
+      expect(boardRenderer.getScene().add).toHaveBeenCalledWith(line);
+    });
+
+    it('should replace a path drawn with the same id', () => {
+      boardRenderer.showPath('route', cells);
+      boardRenderer.showPath('route', cells.slice(0, 2), 0xff0000);
+
+      const first = getLine(0);
+      expect(boardRenderer.getScene().remove).toHaveBeenCalledWith(first);
+      expect(first.geometry.dispose).toHaveBeenCalled();
+      expect(first.material.dispose).toHaveBeenCalled();
+      expect(THREE.LineBasicMaterial).toHaveBeenLastCalledWith({
+        color: 0xff0000,
+      });
+    });
+
+    it('should remove a path and ignore unknown ids', () => {
+      boardRenderer.showPath('route', cells);
+
+      boardRenderer.removePath('route');
+      boardRenderer.removePath('route');
+      boardRenderer.removePath('unknown');
+
+      expect(boardRenderer.getScene().remove).toHaveBeenCalledTimes(1);
+    });
+
+    it('should remove paths on dispose', () => {
+      boardRenderer.showPath('route', cells);
+
+      boardRenderer.dispose();
+
+      expect(boardRenderer.getScene().remove).toHaveBeenCalledWith(getLine(0));
+    });
+  });
+
   describe('error handling', () => {
     it('should handle invalid hex grid gracefully', () => {
       expect(() => {
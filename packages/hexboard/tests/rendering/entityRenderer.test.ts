@@ -3,6 +3,8 @@ jest.mock('three', () => ({
   Object3D: jest.fn().mockImplementation(() => ({
     clone: jest.fn().mockReturnThis(),
     position: { set: jest.fn() },
+    rotation: { y: 0 },
+    userData: {},
   })),
   Scene: jest.fn().mockImplementation(() => ({
     add: jest.fn(),
@@ -31,6 +33,9 @@ import { ModelRegistry } from '../../src/rendering/modelRegistry';
 import { Cell } from '../../src/core/cell';
 import { MockEntityManager, MockModelRegistry } from '../types/mocks';
 import { hexToWorld } from '../../src/rendering/hexLayout';
+import { Animator } from '../../src/animation/animator';
+import { ManualClock } from '../../src/animation/clock';
+import { Easing } from '../../src/animation/easing';
 
 // Cast hexToWorld to jest.Mock so we can control its behavior in tests
 const mockedHexToWorld = hexToWorld as jest.MockedFunction<typeof hexToWorld>;
@@ -38,6 +43,7 @@ const mockedHexToWorld = hexToWorld as jest.MockedFunction<typeof hexToWorld>;
 // Mock the dependencies
 const mockEntityManager: MockEntityManager = {
   getAllEntities: jest.fn(),
+  getEntity: jest.fn(),
 };
 
 const mockModelRegistry: MockModelRegistry = {
@@ -96,10 +102,12 @@ describe('EntityRenderer', () => {
 
       const testEntity: Entity & { modelKey?: string } = {
         id: 'test-entity',
+        type: 'test',
         cellPosition: testCell,
         model: {} as THREE.Object3D,
         modelKey: 'warrior-model',
         movementSpeed: 1,
+        customProps: {},
         isInMovementMode: false,
       };
 
@@ -140,9 +148,11 @@ describe('EntityRenderer', () => {
 
       const testEntity: Entity = {
         id: 'test-entity-no-model',
+        type: 'test',
         cellPosition: testCell,
         model: {} as THREE.Object3D,
         movementSpeed: 1,
+        customProps: {},
         isInMovementMode: false,
       };
 
@@ -170,10 +180,12 @@ describe('EntityRenderer', () => {
 
       const testEntity: Entity & { modelKey?: string } = {
         id: 'removable-entity',
+        type: 'test',
         cellPosition: testCell,
         model: {} as THREE.Object3D,
         modelKey: 'temp-model',
         movementSpeed: 1,
+        customProps: {},
         isInMovementMode: false,
       };
 
@@ -227,10 +239,12 @@ describe('EntityRenderer', () => {
 
       const testEntity: Entity & { modelKey?: string } = {
         id: 'movable-entity',
+        type: 'test',
         cellPosition: initialCell,
         model: {} as THREE.Object3D,
         modelKey: 'moving-model',
         movementSpeed: 1,
+        customProps: {},
         isInMovementMode: false,
       };
 
@@ -290,19 +304,23 @@ describe('EntityRenderer', () => {
 
       const entity1: Entity & { modelKey?: string } = {
         id: 'entity-1',
+        type: 'test',
         cellPosition: cell1,
         model: {} as THREE.Object3D,
         modelKey: 'model-1',
         movementSpeed: 1,
+        customProps: {},
         isInMovementMode: false,
       };
 
       const entity2: Entity & { modelKey?: string } = {
         id: 'entity-2',
+        type: 'test',
         cellPosition: cell2,
         model: {} as THREE.Object3D,
         modelKey: 'model-2',
         movementSpeed: 1,
+        customProps: {},
         isInMovementMode: false,
       };
 
@@ -336,6 +354,278 @@ describe('EntityRenderer', () => {
     });
   });
 
+  describe('visibility filter', () => {
+    const testCell: Cell = {
+      q: 0,
+      r: 0,
+      s: 0,
+      id: '0,0',
+      elevation: 0,
+      movementCost: 1,
+      isImpassable: false,
+      customProps: {},
+    };
+
+    const createEntity = (id: string): Entity & { modelKey?: string } => ({
+      id,
+      type: 'test',
+      cellPosition: testCell,
+      model: {} as THREE.Object3D,
+      modelKey: 'warrior-model',
+      movementSpeed: 1,
+      customProps: {},
+      isInMovementMode: false,
+    });
+
+    beforeEach(() => {
+      mockedHexToWorld.mockReturnValue(new THREE.Vector3(0, 0, 0));
+    });
+
+    it('should hide models of entities rejected by the filter', async () => {
+      const shownModel = new THREE.Object3D();
+      const hiddenModel = new THREE.Object3D();
+      (mockEntityManager.getAllEntities as jest.Mock).mockReturnValue([
+        createEntity('shown'),
+        createEntity('hidden'),
+      ]);
+      (mockModelRegistry.createModelInstance as jest.Mock)
+        .mockResolvedValueOnce(shownModel)
+        .mockResolvedValueOnce(hiddenModel);
+
+      entityRenderer.setVisibilityFilter((entity) => entity.id === 'shown');
+      await entityRenderer.update();
+
+      expect(shownModel.visible).toBe(true);
+      expect(hiddenModel.visible).toBe(false);
+    });
+
+    it('should show every model again once the filter is cleared', async () => {
+      const model = new THREE.Object3D();
+      (mockEntityManager.getAllEntities as jest.Mock).mockReturnValue([
+        createEntity('hidden'),
+      ]);
+      (mockModelRegistry.createModelInstance as jest.Mock).mockResolvedValue(
+        model
+      );
+
+      entityRenderer.setVisibilityFilter(() => false);
+      await entityRenderer.update();
+      expect(model.visible).toBe(false);
+
+      entityRenderer.setVisibilityFilter(undefined);
+      await entityRenderer.update();
+      expect(model.visible).toBe(true);
+    });
+  });
+
+  describe('picking', () => {
+    it('should tag each model with its entity id and cell coordinates', async () => {
+      const entity: Entity & { modelKey?: string } = {
+        id: 'scout',
+        type: 'test',
+        cellPosition: {
+          q: 2,
+          r: -1,
+          s: -1,
+          id: '2,-1',
+          elevation: 1,
+          movementCost: 1,
+          isImpassable: false,
+          customProps: {},
+        },
+        model: {} as THREE.Object3D,
+        modelKey: 'warrior-model',
+        movementSpeed: 1,
+        customProps: {},
+        isInMovementMode: false,
+      };
+      (mockEntityManager.getAllEntities as jest.Mock).mockReturnValue([entity]);
+      (mockModelRegistry.createModelInstance as jest.Mock).mockResolvedValue(
+        mockModel
+      );
+      mockedHexToWorld.mockReturnValue(new THREE.Vector3(0, 0, 0));
+
+      await entityRenderer.update();
+
+      expect(mockModel.userData).toEqual({
+        entityId: 'scout',
+        coordinates: { q: 2, r: -1, s: -1 },
+      });
+
+      entity.cellPosition = { ...entity.cellPosition, q: 3, r: -1, s: -2 };
+      await entityRenderer.update();
+
+      expect(mockModel.userData.coordinates).toEqual({ q: 3, r: -1, s: -2 });
+    });
+  });
+
+  describe('movement animation', () => {
+    const createCell = (q: number, r: number, elevation: number): Cell => ({
+      q,
+      r,
+      s: -q - r,
+      id: `${q},${r}`,
+      elevation,
+      movementCost: 1,
+      isImpassable: false,
+      customProps: {},
+    });
+    const route = [
+      createCell(0, 0, 0),
+      createCell(1, -1, 0),
+      createCell(2, -1, 2),
+    ];
+    let walker: Entity & { modelKey?: string };
+    let clock: ManualClock;
+    let animator: Animator;
+
+    beforeEach(async () => {
+      clock = new ManualClock();
+      animator = new Animator(clock);
+      entityRenderer = new EntityRenderer(
+        mockEntityManager as unknown as EntityManager,
+        mockScene,
+        mockModelRegistry as unknown as ModelRegistry,
+        animator
+      );
+      walker = {
+        id: 'walker',
+        type: 'test',
+        cellPosition: route[0],
+        model: {} as THREE.Object3D,
+        modelKey: 'warrior-model',
+        movementSpeed: 2,
+        customProps: {},
+        isInMovementMode: false,
+      };
+      (mockEntityManager.getAllEntities as jest.Mock).mockReturnValue([walker]);
+      (mockEntityManager.getEntity as jest.Mock).mockReturnValue(walker);
+      (mockModelRegistry.createModelInstance as jest.Mock).mockResolvedValue(
+        mockModel
+      );
+      mockedHexToWorld.mockImplementation(
+        (coords) => new THREE.Vector3(coords.q * 10, 0, coords.r * 10)
+      );
+
+      await entityRenderer.update();
+      // The entity itself moves at once; its model catches up
+      walker.cellPosition = route[2];
+      (mockModel.position.set as jest.Mock).mockClear();
+    });
+
+    // Advances time the way a frame of BoardRenderer.render does
+    const advance = async (ms: number): Promise<void> => {
+      clock.advance(ms);
+      animator.update();
+      await entityRenderer.update();
+    };
+
+    it('should walk the model hex by hex at the given speed', async () => {
+      const walk = entityRenderer.animateEntityAlongPath('walker', route, {
+        speed: 2,
+      });
+
+      await advance(250);
+      expect(mockModel.position.set).toHaveBeenLastCalledWith(5, 0.5, -5);
+
+      await advance(250);
+      expect(mockModel.position.set).toHaveBeenLastCalledWith(10, 0.5, -10);
+      expect(entityRenderer.isEntityAnimating('walker')).toBe(true);
+
+      await advance(500);
+      expect(mockModel.position.set).toHaveBeenLastCalledWith(20, 2.5, -10);
+      expect(entityRenderer.isEntityAnimating('walker')).toBe(false);
+      await expect(walk).resolves.toBeUndefined();
+    });
+
+    it('should hop on steps that change elevation', async () => {
+      void entityRenderer.animateEntityAlongPath('walker', route, {
+        speed: 2,
+        hopHeight: 1,
+      });
+
+      // Halfway up the climb from elevation 0 to 2, plus the top of the hop
+      await advance(750);
+      expect(mockModel.position.set).toHaveBeenLastCalledWith(15, 2.5, -10);
+    });
+
+    it("should default to the entity's movement speed", async () => {
+      walker.movementSpeed = 4;
+      void entityRenderer.animateEntityAlongPath('walker', route);
+
+      await advance(125);
+      expect(mockModel.position.set).toHaveBeenLastCalledWith(5, 0.5, -5);
+    });
+
+    it('should ease progress along the whole route', async () => {
+      void entityRenderer.animateEntityAlongPath('walker', route, {
+        easing: Easing.easeInQuad,
+      });
+
+      // Half the time has passed but only a quarter of the route
+      await advance(500);
+      expect(mockModel.position.set).toHaveBeenLastCalledWith(5, 0.5, -5);
+    });
+
+    it('should turn the model toward the direction of travel', async () => {
+      void entityRenderer.animateEntityAlongPath('walker', route);
+
+      await advance(250);
+      expect(mockModel.rotation.y).toBeCloseTo(Math.atan2(10, -10));
+
+      await advance(500);
+      expect(mockModel.rotation.y).toBeCloseTo(Math.PI / 2);
+    });
+
+    it('should leave the rotation alone when facing is turned off', async () => {
+      mockModel.rotation.y = 1;
+      void entityRenderer.animateEntityAlongPath('walker', route, {
+        faceDirection: false,
+      });
+
+      await advance(250);
+      expect(mockModel.rotation.y).toBe(1);
+    });
+
+    it('should tag the model with the destination while it walks', () => {
+      void entityRenderer.animateEntityAlongPath('walker', route);
+
+      expect(mockModel.userData.coordinates).toEqual({ q: 2, r: -1, s: -1 });
+    });
+
+    it('should resolve at once when there is nothing to animate', async () => {
+      await entityRenderer.animateEntityAlongPath('walker', [route[0]]);
+      await entityRenderer.animateEntityAlongPath('walker', route, {
+        speed: 0,
+      });
+      (mockEntityManager.getEntity as jest.Mock).mockReturnValue(undefined);
+      await entityRenderer.animateEntityAlongPath('missing', route);
+
+      expect(entityRenderer.isEntityAnimating('walker')).toBe(false);
+    });
+
+    it('should end an animation early when another one starts', async () => {
+      const first = entityRenderer.animateEntityAlongPath('walker', route);
+      void entityRenderer.animateEntityAlongPath('walker', route.slice(1));
+
+      await expect(first).resolves.toBeUndefined();
+      expect(entityRenderer.isEntityAnimating('walker')).toBe(true);
+    });
+
+    it('should end animations when their entity is removed or on dispose', async () => {
+      const removed = entityRenderer.animateEntityAlongPath('walker', route);
+      (mockEntityManager.getAllEntities as jest.Mock).mockReturnValue([]);
+      await entityRenderer.update();
+      await expect(removed).resolves.toBeUndefined();
+
+      (mockEntityManager.getAllEntities as jest.Mock).mockReturnValue([walker]);
+      await entityRenderer.update();
+      const disposed = entityRenderer.animateEntityAlongPath('walker', route);
+      entityRenderer.dispose();
+      await expect(disposed).resolves.toBeUndefined();
+    });
+  });
+
   describe('error handling', () => {
     it('should handle model creation errors gracefully', async () => {
       const testCell: Cell = {
@@ -351,10 +641,12 @@ describe('EntityRenderer', () => {
 
       const testEntity: Entity & { modelKey?: string } = {
         id: 'error-entity',
+        type: 'test',
         cellPosition: testCell,
         model: {} as THREE.Object3D,
         modelKey: 'error-model',
         movementSpeed: 1,
+        customProps: {},
         isInMovementMode: false,
       };
 
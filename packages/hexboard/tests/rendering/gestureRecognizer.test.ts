@@ -0,0 +1,196 @@
+import { GestureRecognizer } from '../../src/rendering/gestureRecognizer';
+
+describe('GestureRecognizer', () => {
+  let recognizer: GestureRecognizer;
+  let calls: string[];
+
+  const event = (
+    clientX: number,
+    init: { pointerId?: number; button?: number } = {}
+  ) =>
+    new PointerEvent('pointerdown', {
+      clientX,
+      clientY: 100,
+      pointerId: 1,
+      button: 0,
+      ...init,
+    });
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    calls = [];
+    recognizer = new GestureRecognizer();
+    recognizer.onTap = (point) => calls.push(`tap ${point.clientX}`);
+    recognizer.onDoubleTap = (point) =>
+      calls.push(`doubleTap ${point.clientX}`);
+    recognizer.onLongPress = (point) =>
+      calls.push(`longPress ${point.clientX}`);
+    recognizer.onDragStart = (point) =>
+      calls.push(`dragStart ${point.clientX}`);
+    recognizer.onDrag = (point) => calls.push(`drag ${point.clientX}`);
+    recognizer.onDragEnd = (point) => calls.push(`dragEnd ${point.clientX}`);
+    recognizer.onDragCancel = () => calls.push('dragCancel');
+  });
+
+  afterEach(() => {
+    recognizer.reset();
+    jest.useRealTimers();
+  });
+
+  it('should recognize a press and release in place as a tap', () => {
+    recognizer.pointerDown(event(100));
+    recognizer.pointerUp(event(100));
+
+    expect(calls).toEqual(['tap 100']);
+  });
+
+  it('should allow small movements within the tap tolerance', () => {
+    recognizer.pointerDown(event(100));
+    recognizer.pointerMove(event(108));
+    recognizer.pointerUp(event(108));
+
+    expect(calls).toEqual(['tap 108']);
+  });
+
+  it('should turn movement past the tap tolerance into a drag', () => {
+    recognizer.pointerDown(event(100));
+    recognizer.pointerMove(event(120));
+    recognizer.pointerMove(event(150));
+    recognizer.pointerUp(event(150));
+
+    expect(calls).toEqual([
+      'dragStart 100',
+      'drag 120',
+      'drag 150',
+      'dragEnd 150',
+    ]);
+  });
+
+  it('should report a double tap after the second tap', () => {
+    recognizer.pointerDown(event(100));
+    recognizer.pointerUp(event(100));
+    jest.advanceTimersByTime(200);
+    recognizer.pointerDown(event(110));
+    recognizer.pointerUp(event(110));
+
+    expect(calls).toEqual(['tap 100', 'tap 110', 'doubleTap 110']);
+  });
+
+  it('should not report a double tap for taps too far apart in time or space', () => {
+    recognizer.pointerDown(event(100));
+    recognizer.pointerUp(event(100));
+    jest.advanceTimersByTime(400);
+    recognizer.pointerDown(event(100));
+    recognizer.pointerUp(event(100));
+    recognizer.pointerDown(event(200));
+    recognizer.pointerUp(event(200));
+
+    expect(calls).toEqual(['tap 100', 'tap 100', 'tap 200']);
+  });
+
+  it('should start a new pair after a double tap', () => {
+    for (let i = 0; i < 3; i++) {
+      recognizer.pointerDown(event(100));
+      recognizer.pointerUp(event(100));
+    }
+
+    expect(calls.filter((call) => call.startsWith('doubleTap'))).toHaveLength(
+      1
+    );
+  });
+
+  it('should recognize holding still as a long press instead of a tap', () => {
+    recognizer.pointerDown(event(100));
+    jest.advanceTimersByTime(499);
+    expect(calls).toEqual([]);
+
+    jest.advanceTimersByTime(1);
+    recognizer.pointerUp(event(100));
+
+    expect(calls).toEqual(['longPress 100']);
+  });
+
+  it('should not long press once the pointer is dragged', () => {
+    recognizer.pointerDown(event(100));
+    recognizer.pointerMove(event(150));
+    jest.advanceTimersByTime(1000);
+
+    expect(calls).toEqual(['dragStart 100', 'drag 150']);
+  });
+
+  it('should abandon the gesture when a second pointer goes down', () => {
+    recognizer.pointerDown(event(100, { pointerId: 1 }));
+    recognizer.pointerMove(event(150, { pointerId: 1 }));
+    recognizer.pointerDown(event(300, { pointerId: 2 }));
+    recognizer.pointerMove(event(200, { pointerId: 1 }));
+    recognizer.pointerUp(event(300, { pointerId: 2 }));
+    recognizer.pointerUp(event(200, { pointerId: 1 }));
+
+    expect(calls).toEqual(['dragStart 100', 'drag 150', 'dragCancel']);
+  });
+
+  it('should not tap or long press during a pinch', () => {
+    recognizer.pointerDown(event(100, { pointerId: 1 }));
+    recognizer.pointerDown(event(300, { pointerId: 2 }));
+    jest.advanceTimersByTime(1000);
+    recognizer.pointerUp(event(100, { pointerId: 1 }));
+    recognizer.pointerUp(event(300, { pointerId: 2 }));
+
+    expect(calls).toEqual([]);
+  });
+
+  it('should recognize gestures again once every pointer is up', () => {
+    recognizer.pointerDown(event(100, { pointerId: 1 }));
+    recognizer.pointerDown(event(300, { pointerId: 2 }));
+    recognizer.pointerUp(event(100, { pointerId: 1 }));
+    recognizer.pointerUp(event(300, { pointerId: 2 }));
+    recognizer.pointerDown(event(100, { pointerId: 3 }));
+    recognizer.pointerUp(event(100, { pointerId: 3 }));
+
+    expect(calls).toEqual(['tap 100']);
+  });
+
+  it('should ignore buttons other than the main one', () => {
+    recognizer.pointerDown(event(100, { button: 2 }));
+    recognizer.pointerMove(event(200, { button: 2 }));
+    recognizer.pointerUp(event(200, { button: 2 }));
+
+    expect(calls).toEqual([]);
+  });
+
+  it('should cancel a drag when the pointer is cancelled', () => {
+    recognizer.pointerDown(event(100));
+    recognizer.pointerMove(event(150));
+    recognizer.pointerCancel(event(150));
+    recognizer.pointerUp(event(150));
+
+    expect(calls).toEqual(['dragStart 100', 'drag 150', 'dragCancel']);
+  });
+
+  it('should use custom thresholds', () => {
+    recognizer = new GestureRecognizer({
+      tapTolerance: 50,
+      longPressDelay: 100,
+    });
+    recognizer.onTap = () => calls.push('tap');
+    recognizer.onLongPress = () => calls.push('longPress');
+
+    recognizer.pointerDown(event(100));
+    recognizer.pointerMove(event(140));
+    recognizer.pointerUp(event(140));
+    recognizer.pointerDown(event(100));
+    jest.advanceTimersByTime(100);
+
+    expect(calls).toEqual(['tap', 'longPress']);
+  });
+
+  it('should forget pointers and pending long presses on reset', () => {
+    recognizer.pointerDown(event(100, { pointerId: 1 }));
+    recognizer.reset();
+    jest.advanceTimersByTime(1000);
+    recognizer.pointerDown(event(100, { pointerId: 2 }));
+    recognizer.pointerUp(event(100, { pointerId: 2 }));
+
+    expect(calls).toEqual(['tap 100']);
+  });
+});
@@ -1,6 +1,7 @@
 import { InputHandler } from '../../src/rendering/inputHandler';
 import { HexCoordinates } from '../../src/core/coordinates';
 import * as THREE from 'three';
+import { tap } from './test-helpers';
 
 // Mock Three.js components
 jest.mock('three');
@@ -82,11 +83,11 @@ describe('InputHandler', () => {
         inputHandler.initialize();
 
         expect(addEventListenerSpy).toHaveBeenCalledWith(
-          'click',
+          'pointerdown',
           expect.any(Function)
         );
         expect(addEventListenerSpy).toHaveBeenCalledWith(
-          'mousemove',
+          'pointermove',
           expect.any(Function)
         );
       });
@@ -98,7 +99,7 @@ describe('InputHandler', () => {
         inputHandler.initialize();
 
         // Should only be called once per event type
-        expect(addEventListenerSpy).toHaveBeenCalledTimes(2);
+        expect(addEventListenerSpy).toHaveBeenCalledTimes(6);
       });
     });
 
@@ -128,11 +129,10 @@ describe('InputHandler', () => {
         mockRaycaster.intersectObjects.mockReturnValue([mockIntersection]);
 
         // Simulate click event
-        const clickEvent = new MouseEvent('click', {
+        tap(mockCanvas, {
           clientX: 400,
           clientY: 300,
         });
-        mockCanvas.dispatchEvent(clickEvent);
 
         expect(mockRaycaster.setFromCamera).toHaveBeenCalledWith(
           mockMouse,
@@ -160,11 +160,10 @@ describe('InputHandler', () => {
 
         mockRaycaster.intersectObjects.mockReturnValue([mockIntersection]);
 
-        const clickEvent = new MouseEvent('click', {
+        tap(mockCanvas, {
           clientX: 400,
           clientY: 300,
         });
-        mockCanvas.dispatchEvent(clickEvent);
 
         expect(onCellClickMock).not.toHaveBeenCalled();
       });
@@ -172,11 +171,10 @@ describe('InputHandler', () => {
       it('should not trigger onCellClick when clicking on empty space', () => {
         mockRaycaster.intersectObjects.mockReturnValue([]);
 
-        const clickEvent = new MouseEvent('click', {
+        tap(mockCanvas, {
           clientX: 400,
           clientY: 300,
         });
-        mockCanvas.dispatchEvent(clickEvent);
 
         expect(onCellClickMock).not.toHaveBeenCalled();
       });
@@ -199,12 +197,12 @@ describe('InputHandler', () => {
 
         mockRaycaster.intersectObjects.mockReturnValue([mockIntersection]);
 
-        const clickEvent = new MouseEvent('click', {
-          clientX: 400,
-          clientY: 300,
-        });
-
-        expect(() => mockCanvas.dispatchEvent(clickEvent)).not.toThrow();
+        expect(() =>
+          tap(mockCanvas, {
+            clientX: 400,
+            clientY: 300,
+          })
+        ).not.toThrow();
       });
     });
 
@@ -214,39 +212,33 @@ describe('InputHandler', () => {
       });
 
       it('should convert screen coordinates to normalized device coordinates correctly', () => {
-        const clickEvent = new MouseEvent('click', {
+        tap(mockCanvas, {
           clientX: 400, // Center X (800/2)
           clientY: 300, // Center Y (600/2)
         });
 
-        mockCanvas.dispatchEvent(clickEvent);
-
         // Center of screen should be (0, 0) in NDC
         expect(mockMouse.x).toBe(0);
         expect(mockMouse.y).toBe(0);
       });
 
       it('should convert top-left corner coordinates correctly', () => {
-        const clickEvent = new MouseEvent('click', {
+        tap(mockCanvas, {
           clientX: 0,
           clientY: 0,
         });
 
-        mockCanvas.dispatchEvent(clickEvent);
-
         // Top-left should be (-1, 1) in NDC
         expect(mockMouse.x).toBe(-1);
         expect(mockMouse.y).toBe(1);
       });
 
       it('should convert bottom-right corner coordinates correctly', () => {
-        const clickEvent = new MouseEvent('click', {
+        tap(mockCanvas, {
           clientX: 800,
           clientY: 600,
         });
 
-        mockCanvas.dispatchEvent(clickEvent);
-
         // Bottom-right should be (1, -1) in NDC
         expect(mockMouse.x).toBe(1);
         expect(mockMouse.y).toBe(-1);
@@ -264,11 +256,27 @@ describe('InputHandler', () => {
         inputHandler.dispose();
 
         expect(removeEventListenerSpy).toHaveBeenCalledWith(
-          'click',
+          'pointerdown',
+          expect.any(Function)
+        );
+        expect(removeEventListenerSpy).toHaveBeenCalledWith(
+          'pointermove',
+          expect.any(Function)
+        );
+        expect(removeEventListenerSpy).toHaveBeenCalledWith(
+          'pointerup',
+          expect.any(Function)
+        );
+        expect(removeEventListenerSpy).toHaveBeenCalledWith(
+          'pointercancel',
+          expect.any(Function)
+        );
+        expect(removeEventListenerSpy).toHaveBeenCalledWith(
+          'lostpointercapture',
           expect.any(Function)
         );
         expect(removeEventListenerSpy).toHaveBeenCalledWith(
-          'mousemove',
+          'keydown',
           expect.any(Function)
         );
       });
@@ -312,7 +320,7 @@ describe('InputHandler', () => {
 
         mockRaycaster.intersectObjects.mockReturnValue([mockIntersection]);
 
-        const mouseMoveEvent = new MouseEvent('mousemove', {
+        const mouseMoveEvent = new PointerEvent('pointermove', {
           clientX: 400,
           clientY: 300,
         });
@@ -337,7 +345,7 @@ describe('InputHandler', () => {
 
         // First hover over a cell
         mockRaycaster.intersectObjects.mockReturnValue([mockIntersection]);
-        const firstMoveEvent = new MouseEvent('mousemove', {
+        const firstMoveEvent = new PointerEvent('pointermove', {
           clientX: 400,
           clientY: 300,
         });
@@ -348,7 +356,7 @@ describe('InputHandler', () => {
 
         // Then move to empty space
         mockRaycaster.intersectObjects.mockReturnValue([]);
-        const secondMoveEvent = new MouseEvent('mousemove', {
+        const secondMoveEvent = new PointerEvent('pointermove', {
           clientX: 100,
           clientY: 100,
         });
@@ -374,7 +382,7 @@ describe('InputHandler', () => {
         mockRaycaster.intersectObjects.mockReturnValue([mockIntersection]);
 
         // First hover
-        const firstMoveEvent = new MouseEvent('mousemove', {
+        const firstMoveEvent = new PointerEvent('pointermove', {
           clientX: 400,
           clientY: 300,
         });
@@ -385,7 +393,7 @@ describe('InputHandler', () => {
         onCellHoverMock.mockClear();
 
         // Second hover over same cell
-        const secondMoveEvent = new MouseEvent('mousemove', {
+        const secondMoveEvent = new PointerEvent('pointermove', {
           clientX: 405,
           clientY: 305,
         });
@@ -417,7 +425,7 @@ describe('InputHandler', () => {
           },
         ]);
 
-        const firstMoveEvent = new MouseEvent('mousemove', {
+        const firstMoveEvent = new PointerEvent('pointermove', {
           clientX: 400,
           clientY: 300,
         });
@@ -438,7 +446,7 @@ describe('InputHandler', () => {
           },
         ]);
 
-        const secondMoveEvent = new MouseEvent('mousemove', {
+        const secondMoveEvent = new PointerEvent('pointermove', {
           clientX: 500,
           clientY: 200,
         });
@@ -465,7 +473,7 @@ describe('InputHandler', () => {
 
         mockRaycaster.intersectObjects.mockReturnValue([mockIntersection]);
 
-        const mouseMoveEvent = new MouseEvent('mousemove', {
+        const mouseMoveEvent = new PointerEvent('pointermove', {
           clientX: 400,
           clientY: 300,
         });
@@ -484,7 +492,7 @@ describe('InputHandler', () => {
 
         // Start with no hover
         mockRaycaster.intersectObjects.mockReturnValue([]);
-        const emptyMoveEvent = new MouseEvent('mousemove', {
+        const emptyMoveEvent = new PointerEvent('pointermove', {
           clientX: 0,
           clientY: 0,
         });
@@ -503,7 +511,7 @@ describe('InputHandler', () => {
             uv: undefined,
           },
         ]);
-        const move1Event = new MouseEvent('mousemove', {
+        const move1Event = new PointerEvent('pointermove', {
           clientX: 100,
           clientY: 100,
         });
@@ -523,7 +531,7 @@ describe('InputHandler', () => {
             uv: undefined,
           },
         ]);
-        const move2Event = new MouseEvent('mousemove', {
+        const move2Event = new PointerEvent('pointermove', {
           clientX: 200,
           clientY: 200,
         });
@@ -534,7 +542,7 @@ describe('InputHandler', () => {
 
         // Move to empty space
         mockRaycaster.intersectObjects.mockReturnValue([]);
-        const move3Event = new MouseEvent('mousemove', {
+        const move3Event = new PointerEvent('pointermove', {
           clientX: 300,
           clientY: 300,
         });
@@ -545,6 +553,510 @@ describe('InputHandler', () => {
     });
   });
 
+  describe('Entity Picking', () => {
+    const entityCoordinates: HexCoordinates = { q: 1, r: 2, s: -3 };
+    const tileBehindCoordinates: HexCoordinates = { q: 4, r: 0, s: -4 };
+
+    // An entity model's root carries the tag; the raycaster hits its child mesh
+    const createEntityModel = (entityId: string) => {
+      const root = {
+        userData: { entityId, coordinates: entityCoordinates },
+        parent: null,
+        visible: true,
+      };
+      const child = { userData: {}, parent: root, visible: true };
+      return { root, child };
+    };
+
+    const intersect = (...objects: object[]) =>
+      objects.map((object, index) => ({
+        object: object as any,
+        distance: index + 1,
+        point: new THREE.Vector3(),
+        face: null,
+        faceIndex: undefined,
+        uv: undefined,
+      }));
+
+    const dispatch = (type: string) =>
+      mockCanvas.dispatchEvent(
+        new PointerEvent(type, { clientX: 400, clientY: 300 })
+      );
+
+    beforeEach(() => {
+      inputHandler.initialize();
+    });
+
+    it("should report a click on an entity model with the entity's cell", () => {
+      const onCellClick = jest.fn();
+      const onEntityClick = jest.fn();
+      inputHandler.onCellClick = onCellClick;
+      inputHandler.onEntityClick = onEntityClick;
+      const { child } = createEntityModel('knight');
+      const tileBehind = { userData: { coordinates: tileBehindCoordinates } };
+      mockRaycaster.intersectObjects.mockReturnValue(
+        intersect(child, tileBehind)
+      );
+
+      tap(mockCanvas, { clientX: 400, clientY: 300 });
+
+      expect(onCellClick).toHaveBeenCalledWith(entityCoordinates);
+      expect(onCellClick).toHaveBeenCalledTimes(1);
+      expect(onEntityClick).toHaveBeenCalledWith('knight', entityCoordinates);
+    });
+
+    it('should not report an entity when clicking a tile', () => {
+      const onEntityClick = jest.fn();
+      inputHandler.onEntityClick = onEntityClick;
+      mockRaycaster.intersectObjects.mockReturnValue(
+        intersect({ userData: { coordinates: tileBehindCoordinates } })
+      );
+
+      tap(mockCanvas, { clientX: 400, clientY: 300 });
+
+      expect(onEntityClick).not.toHaveBeenCalled();
+    });
+
+    it('should pass through hidden entity models to the tile beneath', () => {
+      const onCellClick = jest.fn();
+      const onEntityClick = jest.fn();
+      inputHandler.onCellClick = onCellClick;
+      inputHandler.onEntityClick = onEntityClick;
+      const { root, child } = createEntityModel('fogged');
+      root.visible = false;
+      mockRaycaster.intersectObjects.mockReturnValue(
+        intersect(child, { userData: { coordinates: tileBehindCoordinates } })
+      );
+
+      tap(mockCanvas, { clientX: 400, clientY: 300 });
+
+      expect(onEntityClick).not.toHaveBeenCalled();
+      expect(onCellClick).toHaveBeenCalledWith(tileBehindCoordinates);
+    });
+
+    it('should report entity hovers only when the hovered entity changes', () => {
+      const onEntityHover = jest.fn();
+      const onCellHover = jest.fn();
+      inputHandler.onEntityHover = onEntityHover;
+      inputHandler.onCellHover = onCellHover;
+      const knight = createEntityModel('knight');
+      const archer = createEntityModel('archer');
+
+      mockRaycaster.intersectObjects.mockReturnValue(intersect(knight.child));
+      dispatch('pointermove');
+      dispatch('pointermove');
+      mockRaycaster.intersectObjects.mockReturnValue(intersect(archer.child));
+      dispatch('pointermove');
+      mockRaycaster.intersectObjects.mockReturnValue(
+        intersect({ userData: { coordinates: entityCoordinates } })
+      );
+      dispatch('pointermove');
+
+      expect(onEntityHover.mock.calls).toEqual([
+        ['knight'],
+        ['archer'],
+        [null],
+      ]);
+      // Both entities stand on the same cell, so the cell hover fires once
+      expect(onCellHover.mock.calls).toEqual([[entityCoordinates]]);
+    });
+  });
+
+  describe('Keyboard Input', () => {
+    let onKeyAction: jest.Mock;
+
+    const keyDown = (key: string, init: { shiftKey?: boolean } = {}) => {
+      const event = new KeyboardEvent('keydown', {
+        key,
+        cancelable: true,
+        ...init,
+      });
+      mockCanvas.dispatchEvent(event);
+      return event;
+    };
+
+    beforeEach(() => {
+      onKeyAction = jest.fn();
+      inputHandler.onKeyAction = onKeyAction;
+      inputHandler.initialize();
+    });
+
+    it('should make the canvas focusable', () => {
+      expect(mockCanvas.tabIndex).toBe(0);
+    });
+
+    it('should keep a tab index the canvas already has', () => {
+      const canvas = document.createElement('canvas');
+      canvas.tabIndex = -1;
+      const handler = new InputHandler(
+        { domElement: canvas } as any,
+        mockCamera,
+        mockScene
+      );
+
+      handler.initialize();
+
+      expect(canvas.tabIndex).toBe(-1);
+      handler.dispose();
+    });
+
+    it('should report bound keys as actions and prevent their default', () => {
+      const event = keyDown('Tab', { shiftKey: true });
+
+      expect(onKeyAction).toHaveBeenCalledWith('previousEntity');
+      expect(event.defaultPrevented).toBe(true);
+    });
+
+    it('should ignore unbound keys', () => {
+      const event = keyDown('x');
+
+      expect(onKeyAction).not.toHaveBeenCalled();
+      expect(event.defaultPrevented).toBe(false);
+    });
+
+    it('should use rebound keys and keep the other bindings', () => {
+      inputHandler.setKeyBindings({ moveNorth: ['i'], confirm: [] });
+
+      keyDown('w');
+      keyDown('Enter');
+      keyDown('i');
+      keyDown('Escape');
+
+      expect(onKeyAction.mock.calls).toEqual([['moveNorth'], ['cancel']]);
+      expect(inputHandler.getKeyBindings().moveNorth).toEqual(['i']);
+    });
+
+    it('should stop reporting keys once disposed', () => {
+      inputHandler.dispose();
+      keyDown('w');
+
+      expect(onKeyAction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Pointer Gestures', () => {
+    const coordinates: HexCoordinates = { q: 2, r: -1, s: -1 };
+
+    const pointer = (
+      type: string,
+      clientX: number,
+      init: { pointerId?: number; button?: number; pointerType?: string } = {}
+    ) =>
+      mockCanvas.dispatchEvent(
+        new PointerEvent(type, {
+          clientX,
+          clientY: 300,
+          pointerId: 1,
+          pointerType: 'mouse',
+          button: 0,
+          ...init,
+        })
+      );
+
+    beforeEach(() => {
+      mockRaycaster.intersectObjects.mockReturnValue([
+        {
+          object: { userData: { coordinates } } as any,
+          distance: 1,
+          point: new THREE.Vector3(),
+          face: null,
+          faceIndex: undefined,
+          uv: undefined,
+        },
+      ]);
+      inputHandler.initialize();
+    });
+
+    it('should stop the browser from panning the page on touch', () => {
+      expect(mockCanvas.style.touchAction).toBe('none');
+    });
+
+    it('should not click when the pointer is dragged to pan the camera', () => {
+      const onCellClick = jest.fn();
+      const onDragStart = jest.fn();
+      const onDrag = jest.fn();
+      const onDragEnd = jest.fn();
+      inputHandler.onCellClick = onCellClick;
+      inputHandler.onDragStart = onDragStart;
+      inputHandler.onDrag = onDrag;
+      inputHandler.onDragEnd = onDragEnd;
+
+      pointer('pointerdown', 400);
+      pointer('pointermove', 450);
+      pointer('pointermove', 500);
+      pointer('pointerup', 500);
+
+      expect(onCellClick).not.toHaveBeenCalled();
+      expect(onDragStart).toHaveBeenCalledWith(coordinates, undefined);
+      expect(onDrag).toHaveBeenCalledTimes(2);
+      expect(onDragEnd).toHaveBeenCalledWith(coordinates);
+    });
+
+    it('should click when the pointer moves less than the tap tolerance', () => {
+      const onCellClick = jest.fn();
+      inputHandler.onCellClick = onCellClick;
+
+      pointer('pointerdown', 400);
+      pointer('pointermove', 405);
+      pointer('pointerup', 405);
+
+      expect(onCellClick).toHaveBeenCalledWith(coordinates);
+    });
+
+    it('should not click during a two-finger pinch', () => {
+      const onCellClick = jest.fn();
+      inputHandler.onCellClick = onCellClick;
+      const touch = { pointerType: 'touch' };
+
+      pointer('pointerdown', 400, { ...touch, pointerId: 1 });
+      pointer('pointerdown', 500, { ...touch, pointerId: 2 });
+      pointer('pointerup', 500, { ...touch, pointerId: 2 });
+      pointer('pointerup', 400, { ...touch, pointerId: 1 });
+
+      expect(onCellClick).not.toHaveBeenCalled();
+    });
+
+    it('should not click with the secondary mouse button', () => {
+      const onCellClick = jest.fn();
+      inputHandler.onCellClick = onCellClick;
+
+      pointer('pointerdown', 400, { button: 2 });
+      pointer('pointerup', 400, { button: 2 });
+
+      expect(onCellClick).not.toHaveBeenCalled();
+    });
+
+    it('should not hover with a touch pointer', () => {
+      const onCellHover = jest.fn();
+      inputHandler.onCellHover = onCellHover;
+
+      pointer('pointermove', 400, { pointerType: 'touch' });
+
+      expect(onCellHover).not.toHaveBeenCalled();
+    });
+
+    it('should report a double tap after the second click', () => {
+      const onCellClick = jest.fn();
+      const onCellDoubleTap = jest.fn();
+      inputHandler.onCellClick = onCellClick;
+      inputHandler.onCellDoubleTap = onCellDoubleTap;
+
+      tap(mockCanvas, { clientX: 400, clientY: 300 });
+      tap(mockCanvas, { clientX: 400, clientY: 300 });
+
+      expect(onCellClick).toHaveBeenCalledTimes(2);
+      expect(onCellDoubleTap).toHaveBeenCalledWith(coordinates, undefined);
+    });
+
+    it('should report a long press instead of a click', () => {
+      jest.useFakeTimers();
+      try {
+        const onCellClick = jest.fn();
+        const onCellLongPress = jest.fn();
+        inputHandler.onCellClick = onCellClick;
+        inputHandler.onCellLongPress = onCellLongPress;
+
+        pointer('pointerdown', 400);
+        jest.advanceTimersByTime(500);
+        pointer('pointerup', 400);
+
+        expect(onCellLongPress).toHaveBeenCalledWith(coordinates, undefined);
+        expect(onCellClick).not.toHaveBeenCalled();
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('should cancel a drag when the browser takes the pointer', () => {
+      const onDragEnd = jest.fn();
+      const onDragCancel = jest.fn();
+      inputHandler.onDragEnd = onDragEnd;
+      inputHandler.onDragCancel = onDragCancel;
+
+      pointer('pointerdown', 400);
+      pointer('pointermove', 500);
+      pointer('pointercancel', 500);
+
+      expect(onDragCancel).toHaveBeenCalledTimes(1);
+      expect(onDragEnd).not.toHaveBeenCalled();
+    });
+
+    it('should forget a pointer that loses capture without a pointerup', () => {
+      const onCellClick = jest.fn();
+      inputHandler.onCellClick = onCellClick;
+
+      pointer('pointerdown', 400, { pointerId: 1 });
+      pointer('lostpointercapture', 400, { pointerId: 1 });
+      pointer('pointerdown', 400, { pointerId: 2 });
+      pointer('pointerup', 400, { pointerId: 2 });
+
+      expect(onCellClick).toHaveBeenCalledTimes(1);
+    });
+
+    it('should report errors from long press listeners instead of throwing', () => {
+      jest.useFakeTimers();
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      try {
+        inputHandler.onCellLongPress = () => {
+          throw new Error('listener failed');
+        };
+
+        pointer('pointerdown', 400);
+        expect(() => jest.advanceTimersByTime(500)).not.toThrow();
+
+        expect(warnSpy).toHaveBeenCalledWith(
+          'InputHandler: Error during long press handling:',
+          expect.any(Error)
+        );
+      } finally {
+        warnSpy.mockRestore();
+        jest.useRealTimers();
+      }
+    });
+
+    it('should report errors from drag listeners instead of throwing', () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      const fail = (): never => {
+        throw new Error('listener failed');
+      };
+      inputHandler.onDragStart = fail;
+      inputHandler.onDrag = fail;
+      inputHandler.onDragEnd = fail;
+      inputHandler.onCellDoubleTap = fail;
+
+      try {
+        pointer('pointerdown', 400);
+        pointer('pointermove', 500);
+        pointer('pointerup', 500);
+        tap(mockCanvas, { clientX: 400, clientY: 300 });
+        tap(mockCanvas, { clientX: 400, clientY: 300 });
+
+        expect(warnSpy).toHaveBeenCalledTimes(4);
+      } finally {
+        warnSpy.mockRestore();
+      }
+    });
+  });
+
+  describe('Selection Drags', () => {
+    const pointer = (
+      type: string,
+      clientX: number,
+      init: { shiftKey?: boolean; ctrlKey?: boolean; altKey?: boolean } = {}
+    ) =>
+      mockCanvas.dispatchEvent(
+        new PointerEvent(type, {
+          clientX,
+          clientY: 300,
+          pointerId: 1,
+          pointerType: 'mouse',
+          button: 0,
+          shiftKey: true,
+          ...init,
+        })
+      );
+
+    const dragSelection = (
+      init: { shiftKey?: boolean; ctrlKey?: boolean; altKey?: boolean } = {}
+    ) => {
+      pointer('pointerdown', 100, init);
+      pointer('pointermove', 150, init);
+      pointer('pointermove', 200, init);
+      pointer('pointerup', 200, init);
+    };
+
+    beforeEach(() => {
+      inputHandler.initialize();
+    });
+
+    it('should report a Shift-drag as a selection instead of a drag', () => {
+      const onSelectionStart = jest.fn();
+      const onSelectionChange = jest.fn();
+      const onSelectionEnd = jest.fn();
+      const onDragStart = jest.fn();
+      inputHandler.onSelectionStart = onSelectionStart;
+      inputHandler.onSelectionChange = onSelectionChange;
+      inputHandler.onSelectionEnd = onSelectionEnd;
+      inputHandler.onDragStart = onDragStart;
+
+      dragSelection();
+
+      const points = [100, 150, 200, 200].map((clientX) => ({
+        clientX,
+        clientY: 300,
+      }));
+      expect(onSelectionStart).toHaveBeenCalledTimes(1);
+      expect(onSelectionChange).toHaveBeenLastCalledWith(points.slice(0, 3));
+      expect(onSelectionEnd).toHaveBeenCalledWith(points, 'replace');
+      expect(onDragStart).not.toHaveBeenCalled();
+    });
+
+    it('should add with Ctrl and subtract with Alt', () => {
+      const onSelectionEnd = jest.fn();
+      inputHandler.onSelectionEnd = onSelectionEnd;
+
+      dragSelection({ ctrlKey: true });
+      dragSelection({ altKey: true });
+
+      expect(onSelectionEnd.mock.calls.map(([, mode]) => mode)).toEqual([
+        'add',
+        'subtract',
+      ]);
+    });
+
+    it('should cancel the selection on a Shift-click and still click', () => {
+      const onSelectionCancel = jest.fn();
+      const onSelectionEnd = jest.fn();
+      const onCellClick = jest.fn();
+      inputHandler.onSelectionCancel = onSelectionCancel;
+      inputHandler.onSelectionEnd = onSelectionEnd;
+      inputHandler.onCellClick = onCellClick;
+      mockRaycaster.intersectObjects.mockReturnValue([
+        {
+          object: { userData: { coordinates: { q: 0, r: 0, s: 0 } } } as any,
+          distance: 1,
+          point: new THREE.Vector3(),
+          face: null,
+          faceIndex: undefined,
+          uv: undefined,
+        },
+      ]);
+
+      pointer('pointerdown', 100);
+      pointer('pointerup', 100);
+
+      expect(onSelectionCancel).toHaveBeenCalledTimes(1);
+      expect(onSelectionEnd).not.toHaveBeenCalled();
+      expect(onCellClick).toHaveBeenCalledTimes(1);
+    });
+
+    it('should cancel the selection when the browser takes the pointer', () => {
+      const onSelectionCancel = jest.fn();
+      const onDragCancel = jest.fn();
+      inputHandler.onSelectionCancel = onSelectionCancel;
+      inputHandler.onDragCancel = onDragCancel;
+
+      pointer('pointerdown', 100);
+      pointer('pointermove', 200);
+      pointer('pointercancel', 200);
+
+      expect(onSelectionCancel).toHaveBeenCalledTimes(1);
+      expect(onDragCancel).not.toHaveBeenCalled();
+    });
+
+    it('should drag normally without Shift', () => {
+      const onSelectionStart = jest.fn();
+      const onDragStart = jest.fn();
+      inputHandler.onSelectionStart = onSelectionStart;
+      inputHandler.onDragStart = onDragStart;
+
+      dragSelection({ shiftKey: false });
+
+      expect(onSelectionStart).not.toHaveBeenCalled();
+      expect(onDragStart).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe('Edge Cases and Error Handling', () => {
     beforeEach(() => {
       inputHandler.initialize();
@@ -564,12 +1076,12 @@ describe('InputHandler', () => {
           throw new Error('Raycasting failed');
         });
 
-        const clickEvent = new MouseEvent('click', {
-          clientX: 400,
-          clientY: 300,
-        });
-
-        expect(() => mockCanvas.dispatchEvent(clickEvent)).not.toThrow();
+        expect(() =>
+          tap(mockCanvas, {
+            clientX: 400,
+            clientY: 300,
+          })
+        ).not.toThrow();
         expect(onCellClickMock).not.toHaveBeenCalled();
       } finally {
         consoleSpy.mockRestore();
@@ -594,11 +1106,10 @@ describe('InputHandler', () => {
 
       mockRaycaster.intersectObjects.mockReturnValue([mockIntersection]);
 
-      const clickEvent = new MouseEvent('click', {
+      tap(mockCanvas, {
         clientX: 400,
         clientY: 300,
       });
-      mockCanvas.dispatchEvent(clickEvent);
 
       expect(onCellClickMock).not.toHaveBeenCalled();
     });
@@ -621,12 +1132,12 @@ describe('InputHandler', () => {
 
       mockRaycaster.intersectObjects.mockReturnValue([mockIntersection]);
 
-      const clickEvent = new MouseEvent('click', {
-        clientX: 400,
-        clientY: 300,
-      });
-
-      expect(() => mockCanvas.dispatchEvent(clickEvent)).not.toThrow();
+      expect(() =>
+        tap(mockCanvas, {
+          clientX: 400,
+          clientY: 300,
+        })
+      ).not.toThrow();
       expect(onCellClickMock).not.toHaveBeenCalled();
     });
 
@@ -661,12 +1172,12 @@ describe('InputHandler', () => {
         );
         zeroInputHandler.initialize();
 
-        const clickEvent = new MouseEvent('click', {
-          clientX: 0,
-          clientY: 0,
-        });
-
-        expect(() => zeroCanvas.dispatchEvent(clickEvent)).not.toThrow();
+        expect(() =>
+          tap(zeroCanvas, {
+            clientX: 0,
+            clientY: 0,
+          })
+        ).not.toThrow();
 
         zeroInputHandler.dispose();
       } finally {
@@ -708,11 +1219,10 @@ describe('InputHandler', () => {
         intersection2,
       ]);
 
-      const clickEvent = new MouseEvent('click', {
+      tap(mockCanvas, {
         clientX: 400,
         clientY: 300,
       });
-      mockCanvas.dispatchEvent(clickEvent);
 
       // Should select the first intersection (closest)
       expect(onCellClickMock).toHaveBeenCalledWith(coordinates1);
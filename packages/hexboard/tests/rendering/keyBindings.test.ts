@@ -0,0 +1,91 @@
+import {
+  DEFAULT_KEY_BINDINGS,
+  KEY_ACTION_DIRECTIONS,
+  KeyBindings,
+  findKeyAction,
+} from '../../src/rendering/keyBindings';
+import { Direction } from '../../src/core/types';
+
+const press = (
+  key: string,
+  modifiers: Partial<
+    Record<'ctrlKey' | 'altKey' | 'shiftKey' | 'metaKey', boolean>
+  > = {}
+) => ({
+  key,
+  ctrlKey: false,
+  altKey: false,
+  shiftKey: false,
+  metaKey: false,
+  ...modifiers,
+});
+
+describe('keyBindings', () => {
+  describe('findKeyAction', () => {
+    it('should find the default action for each movement key', () => {
+      expect(findKeyAction(DEFAULT_KEY_BINDINGS, press('w'))).toBe('moveNorth');
+      expect(findKeyAction(DEFAULT_KEY_BINDINGS, press('e'))).toBe(
+        'moveNortheast'
+      );
+      expect(findKeyAction(DEFAULT_KEY_BINDINGS, press('d'))).toBe(
+        'moveSoutheast'
+      );
+      expect(findKeyAction(DEFAULT_KEY_BINDINGS, press('s'))).toBe('moveSouth');
+      expect(findKeyAction(DEFAULT_KEY_BINDINGS, press('a'))).toBe(
+        'moveSouthwest'
+      );
+      expect(findKeyAction(DEFAULT_KEY_BINDINGS, press('q'))).toBe(
+        'moveNorthwest'
+      );
+      expect(findKeyAction(DEFAULT_KEY_BINDINGS, press('ArrowUp'))).toBe(
+        'moveNorth'
+      );
+    });
+
+    it('should match single characters regardless of case and Shift', () => {
+      expect(
+        findKeyAction(DEFAULT_KEY_BINDINGS, press('W', { shiftKey: true }))
+      ).toBe('moveNorth');
+    });
+
+    it('should tell keys apart by their modifiers', () => {
+      expect(findKeyAction(DEFAULT_KEY_BINDINGS, press('Tab'))).toBe(
+        'nextEntity'
+      );
+      expect(
+        findKeyAction(DEFAULT_KEY_BINDINGS, press('Tab', { shiftKey: true }))
+      ).toBe('previousEntity');
+      expect(
+        findKeyAction(DEFAULT_KEY_BINDINGS, press('w', { ctrlKey: true }))
+      ).toBeUndefined();
+    });
+
+    it('should return undefined for unbound keys', () => {
+      expect(findKeyAction(DEFAULT_KEY_BINDINGS, press('x'))).toBeUndefined();
+    });
+
+    it('should parse modifier prefixes in custom bindings', () => {
+      const bindings: KeyBindings = {
+        ...DEFAULT_KEY_BINDINGS,
+        cancel: ['Ctrl+Alt+z'],
+        confirm: ['+'],
+      };
+
+      expect(
+        findKeyAction(bindings, press('Z', { ctrlKey: true, altKey: true }))
+      ).toBe('cancel');
+      expect(findKeyAction(bindings, press('Escape'))).toBeUndefined();
+      expect(findKeyAction(bindings, press('+', { shiftKey: true }))).toBe(
+        'confirm'
+      );
+    });
+  });
+
+  it('should map every movement action to a distinct direction', () => {
+    const directions = Object.values(KEY_ACTION_DIRECTIONS);
+
+    expect(new Set(directions).size).toBe(6);
+    expect(KEY_ACTION_DIRECTIONS.moveNorth).toBe(Direction.North);
+    expect(KEY_ACTION_DIRECTIONS.moveNorthwest).toBe(Direction.Northwest);
+  });
+});
@@ -0,0 +1,178 @@
+import { HexGrid } from '../../src/core/hexGrid';
+import { Entity } from '../../src/core/entity';
+import { Direction } from '../../src/core/types';
+import { BoardRenderer } from '../../src/rendering/boardRenderer';
+import {
+  KeyboardCursor,
+  describeCell,
+} from '../../src/rendering/keyboardCursor';
+
+describe('KeyboardCursor', () => {
+  let hexGrid: HexGrid;
+  let renderer: {
+    highlightHexCell: jest.Mock;
+    removeHighlightFromHexCell: jest.Mock;
+  };
+  let container: HTMLElement;
+  let cursor: KeyboardCursor;
+
+  const createEntity = (id: string, q: number, r: number): Entity => ({
+    id,
+    type: 'unit',
+    cellPosition: hexGrid.getCell(q, r)!,
+    model: {} as Entity['model'],
+    movementSpeed: 1,
+    customProps: {},
+    isInMovementMode: false,
+  });
+
+  beforeEach(() => {
+    hexGrid = new HexGrid(1);
+    hexGrid.addCells([
+      { q: 0, r: 0 },
+      { q: 0, r: -1 },
+      { q: 1, r: 0, isImpassable: true },
+    ]);
+    renderer = {
+      highlightHexCell: jest.fn(),
+      removeHighlightFromHexCell: jest.fn(),
+    };
+    container = document.createElement('div');
+    document.body.appendChild(container);
+    cursor = new KeyboardCursor(
+      hexGrid,
+      renderer as unknown as BoardRenderer,
+      container
+    );
+  });
+
+  afterEach(() => {
+    cursor.dispose();
+    container.remove();
+  });
+
+  it('should add a polite ARIA live region to the container', () => {
+    const liveRegion = cursor.getLiveRegion();
+
+    expect(liveRegion.parentElement).toBe(container);
+    expect(liveRegion.getAttribute('role')).toBe('status');
+    expect(liveRegion.getAttribute('aria-live')).toBe('polite');
+  });
+
+  it('should highlight and announce a focused cell', () => {
+    const cell = cursor.focusCell({ q: 1, r: 0, s: -1 });
+
+    expect(cell?.id).toBe('1,0,-1');
+    expect(cursor.getFocusedCell()).toBe(cell);
+    expect(renderer.highlightHexCell).toHaveBeenCalledWith({
+      q: 1,
+      r: 0,
+      s: -1,
+    });
+    expect(cursor.getLiveRegion().textContent).toBe(
+      'Cell 1, 0, -1. Elevation 1. Impassable.'
+    );
+  });
+
+  it('should move the highlight when focus moves', () => {
+    cursor.focusCell({ q: 0, r: 0, s: 0 });
+    const cell = cursor.move(Direction.Northeast);
+
+    expect(cell?.id).toBe('0,-1,1');
+    expect(renderer.removeHighlightFromHexCell).toHaveBeenCalledWith({
+      q: 0,
+      r: 0,
+      s: 0,
+    });
+    expect(renderer.highlightHexCell).toHaveBeenLastCalledWith({
+      q: 0,
+      r: -1,
+      s: 1,
+    });
+  });
+
+  it('should stay put when there is no cell in the direction moved', () => {
+    cursor.focusCell({ q: 0, r: 0, s: 0 });
+
+    expect(cursor.move(Direction.South)).toBeNull();
+    expect(cursor.getFocusedCell()?.id).toBe('0,0,0');
+  });
+
+  it('should focus the first cell when moving with nothing focused', () => {
+    expect(cursor.move(Direction.North)).toBe(hexGrid.getAllCells()[0]);
+  });
+
+  it('should not focus coordinates without a cell', () => {
+    expect(cursor.focusCell({ q: 5, r: 5, s: -10 })).toBeNull();
+    expect(cursor.getFocusedCell()).toBeNull();
+    expect(renderer.highlightHexCell).not.toHaveBeenCalled();
+  });
+
+  it('should tab through entities in order and wrap around', () => {
+    const entities = [createEntity('a', 0, 0), createEntity('b', 1, 0)];
+
+    expect(cursor.focusNextEntity(entities)?.id).toBe('a');
+    expect(cursor.focusNextEntity(entities)?.id).toBe('b');
+    expect(cursor.getFocusedCell()?.id).toBe('1,0,-1');
+    expect(cursor.getFocusedEntityId()).toBe('b');
+    expect(cursor.focusNextEntity(entities)?.id).toBe('a');
+    expect(cursor.focusNextEntity(entities, -1)?.id).toBe('b');
+  });
+
+  it('should tab backwards from the end when no entity is focused', () => {
+    const entities = [createEntity('a', 0, 0), createEntity('b', 1, 0)];
+
+    expect(cursor.focusNextEntity(entities, -1)?.id).toBe('b');
+    expect(cursor.focusNextEntity([])).toBeUndefined();
+  });
+
+  it('should forget the focused entity when focus moves by direction', () => {
+    cursor.focusNextEntity([createEntity('a', 0, 0)]);
+    cursor.move(Direction.Northeast);
+
+    expect(cursor.getFocusedEntityId()).toBeNull();
+  });
+
+  it('should announce entities and use a custom describer', () => {
+    const entity = createEntity('knight', 0, 0);
+    cursor.dispose();
+    cursor = new KeyboardCursor(
+      hexGrid,
+      renderer as unknown as BoardRenderer,
+      container,
+      { getEntitiesAt: (cellId) => (cellId === '0,0,0' ? [entity] : []) }
+    );
+
+    cursor.focusCell({ q: 0, r: 0, s: 0 });
+    expect(cursor.getLiveRegion().textContent).toBe(
+      'Cell 0, 0, 0. Elevation 1. Entities: knight (unit).'
+    );
+
+    cursor.setCellDescriber(
+      (cell, entities) => `${cell.id}/${entities.length}`
+    );
+    cursor.focusCell({ q: 0, r: 0, s: 0 });
+    expect(cursor.getLiveRegion().textContent).toBe('0,0,0/1');
+  });
+
+  it('should remove the highlight and live region when disposed', () => {
+    cursor.focusCell({ q: 0, r: 0, s: 0 });
+    cursor.dispose();
+
+    expect(renderer.removeHighlightFromHexCell).toHaveBeenCalledWith({
+      q: 0,
+      r: 0,
+      s: 0,
+    });
+    expect(cursor.getFocusedCell()).toBeNull();
+    expect(container.contains(cursor.getLiveRegion())).toBe(false);
+  });
+
+  describe('describeCell', () => {
+    it('should describe coordinates and elevation', () => {
+      expect(describeCell(hexGrid.getCell(0, -1)!, [])).toBe(
+        'Cell 0, -1, 1. Elevation 1.'
+      );
+    });
+  });
+});
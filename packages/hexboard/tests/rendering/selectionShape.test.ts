@@ -0,0 +1,68 @@
+import {
+  getSelectionPolygon,
+  isPointInPolygon,
+} from '../../src/rendering/selectionShape';
+
+const point = (clientX: number, clientY: number) => ({ clientX, clientY });
+
+describe('getSelectionPolygon', () => {
+  it('should make a box from the first and last points', () => {
+    const polygon = getSelectionPolygon('box', [
+      point(10, 20),
+      point(500, 0),
+      point(50, 80),
+    ]);
+
+    expect(polygon).toEqual([
+      point(10, 20),
+      point(50, 20),
+      point(50, 80),
+      point(10, 80),
+    ]);
+  });
+
+  it('should use every point of a lasso', () => {
+    const points = [point(0, 0), point(10, 0), point(5, 10)];
+
+    expect(getSelectionPolygon('lasso', points)).toEqual(points);
+  });
+
+  it('should enclose nothing with too few points', () => {
+    expect(getSelectionPolygon('box', [point(0, 0)])).toEqual([]);
+    expect(getSelectionPolygon('lasso', [point(0, 0), point(10, 10)])).toEqual(
+      []
+    );
+  });
+});
+
+describe('isPointInPolygon', () => {
+  const square = [point(0, 0), point(10, 0), point(10, 10), point(0, 10)];
+
+  it('should find points inside and outside a box', () => {
+    expect(isPointInPolygon(point(5, 5), square)).toBe(true);
+    expect(isPointInPolygon(point(15, 5), square)).toBe(false);
+    expect(isPointInPolygon(point(5, -1), square)).toBe(false);
+  });
+
+  it('should follow the outline of a concave lasso', () => {
+    // A U shape opening upwards
+    const u = [
+      point(0, 0),
+      point(3, 0),
+      point(3, 7),
+      point(7, 7),
+      point(7, 0),
+      point(10, 0),
+      point(10, 10),
+      point(0, 10),
+    ];
+
+    expect(isPointInPolygon(point(1, 5), u)).toBe(true);
+    expect(isPointInPolygon(point(5, 5), u)).toBe(false);
+    expect(isPointInPolygon(point(5, 9), u)).toBe(true);
+  });
+
+  it('should find nothing inside an empty polygon', () => {
+    expect(isPointInPolygon(point(0, 0), [])).toBe(false);
+  });
+});
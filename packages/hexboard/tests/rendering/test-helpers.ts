@@ -26,4 +26,15 @@ export const createTestCell = (q: number, r: number, elevation = 0): Cell => ({
  * Helper to create Vector3 objects for testing
  */
 export const createVector3 = (x: number, y: number, z: number) =>
-  new Vector3(x, y, z);
\ No newline at end of file
+  new Vector3(x, y, z);
+/**
+ * Helper to tap an element with the mouse: a press and release in place
+ */
+export const tap = (
+  target: HTMLElement,
+  init: { clientX: number; clientY: number }
+) => {
+  const pointer = { ...init, pointerId: 1, pointerType: 'mouse', button: 0 };
+  target.dispatchEvent(new PointerEvent('pointerdown', pointer));
+  target.dispatchEvent(new PointerEvent('pointerup', pointer));
+};
@@ -0,0 +1,286 @@
+import { EntityManager } from '../../src/core/entity';
+import { HexGrid } from '../../src/core/hexGrid';
+import { Random } from '../../src/core/random';
+import {
+  BOARD_STATE_VERSION,
+  SerializedBoardState,
+  restoreBoardState,
+  serializeBoardState,
+  validateBoardState,
+} from '../../src/serialization/boardState';
+
+interface TestProps extends Record<string, unknown> {
+  terrain?: string;
+  health?: number;
+  tags?: string[];
+}
+
+describe('Board state serialization', () => {
+  let grid: HexGrid<TestProps>;
+  let entityManager: EntityManager<TestProps>;
+
+  beforeEach(() => {
+    grid = new HexGrid<TestProps>();
+    grid.addCell({ q: 0, r: 0, customProps: { terrain: 'grass' } });
+    grid.addCell({ q: 1, r: 0, elevation: 3, movementCost: 2 });
+    grid.addCell({
+      q: 1,
+      r: 1,
+      isImpassable: true,
+      customProps: { tags: ['wall'] },
+    });
+
+    entityManager = new EntityManager<TestProps>();
+    entityManager.addEntity({
+      id: 'knight',
+      type: 'infantry',
+      cellPosition: grid.getCell(0, 0)!,
+      movementSpeed: 3,
+      modelKey: 'knight-model',
+      owner: 'red',
+      customProps: { health: 10, tags: ['hero'] },
+    });
+    entityManager.addEntity({
+      id: 'crate',
+      type: 'prop',
+      cellPosition: grid.getCell(1, 0)!,
+    });
+    entityManager.startMovement('knight', [{ q: 1, r: 0, s: -1 }]);
+  });
+
+  describe('serializeBoardState', () => {
+    test('captures every cell with its properties', () => {
+      const state = serializeBoardState(grid, entityManager);
+
+      expect(state.version).toBe(BOARD_STATE_VERSION);
+      expect(state.cells).toEqual([
+        {
+          q: 0,
+          r: 0,
+          s: 0,
+          elevation: 1,
+          movementCost: 1,
+          isImpassable: false,
+          customProps: { terrain: 'grass' },
+        },
+        {
+          q: 1,
+          r: 0,
+          s: -1,
+          elevation: 3,
+          movementCost: 2,
+          isImpassable: false,
+          customProps: {},
+        },
+        {
+          q: 1,
+          r: 1,
+          s: -2,
+          elevation: 1,
+          movementCost: 1,
+          isImpassable: true,
+          customProps: { tags: ['wall'] },
+        },
+      ]);
+    });
+
+    test('captures every entity and movement session', () => {
+      const state = serializeBoardState(grid, entityManager);
+
+      expect(state.entities).toEqual([
+        {
+          id: 'knight',
+          type: 'infantry',
+          position: { q: 0, r: 0, s: 0 },
+          movementSpeed: 3,
+          modelKey: 'knight-model',
+          owner: 'red',
+          customProps: { health: 10, tags: ['hero'] },
+        },
+        {
+          id: 'crate',
+          type: 'prop',
+          position: { q: 1, r: 0, s: -1 },
+          movementSpeed: 1,
+          customProps: {},
+        },
+      ]);
+      expect(state.movementSessions).toEqual([
+        { entityId: 'knight', destinations: [{ q: 1, r: 0, s: -1 }] },
+      ]);
+    });
+
+    test('captures the random number generator state when given one', () => {
+      const random = new Random('save');
+
+      expect(serializeBoardState(grid, entityManager, random).random).toEqual(
+        random.getState()
+      );
+      expect(serializeBoardState(grid, entityManager)).not.toHaveProperty(
+        'random'
+      );
+    });
+
+    test('captures only cells when there is no entity manager', () => {
+      const state = serializeBoardState(grid);
+
+      expect(state.cells).toHaveLength(3);
+      expect(state.entities).toEqual([]);
+      expect(state.movementSessions).toEqual([]);
+    });
+
+    test('is unaffected by later changes to custom properties', () => {
+      const state = serializeBoardState(grid, entityManager);
+
+      grid.getCell(1, 1)!.customProps.tags!.push('door');
+      entityManager.getEntity('knight')!.customProps.health = 0;
+
+      expect(state.cells[2].customProps).toEqual({ tags: ['wall'] });
+      expect(state.entities[0].customProps.health).toBe(10);
+    });
+  });
+
+  describe('restoreBoardState', () => {
+    test('round-trips through JSON', () => {
+      const state = serializeBoardState(grid, entityManager);
+      const restoredGrid = new HexGrid<TestProps>();
+      const restoredManager = new EntityManager<TestProps>();
+
+      restoreBoardState(
+        JSON.parse(JSON.stringify(state)),
+        restoredGrid,
+        restoredManager
+      );
+
+      expect(serializeBoardState(restoredGrid, restoredManager)).toEqual(
+        JSON.parse(JSON.stringify(state))
+      );
+    });
+
+    test('resumes a random number generator from the snapshot', () => {
+      const random = new Random('save');
+      const state = serializeBoardState(grid, entityManager, random);
+      const expected = random.next();
+      const restored = new Random('other');
+
+      restoreBoardState(
+        state,
+        new HexGrid<TestProps>(),
+        new EntityManager<TestProps>(),
+        restored
+      );
+
+      expect(restored.next()).toBe(expected);
+    });
+
+    test('places entities on the restored cells', () => {
+      const state = serializeBoardState(grid, entityManager);
+      const restoredGrid = new HexGrid<TestProps>();
+      const restoredManager = new EntityManager<TestProps>();
+
+      restoreBoardState(state, restoredGrid, restoredManager);
+
+      const knight = restoredManager.getEntity('knight')!;
+      expect(knight.cellPosition).toBe(restoredGrid.getCell(0, 0));
+      expect(restoredManager.getEntitiesAt('1,0,-1')[0].id).toBe('crate');
+    });
+
+    test('restores movement sessions so moves can continue', () => {
+      const state = serializeBoardState(grid, entityManager);
+      const restoredGrid = new HexGrid<TestProps>();
+      const restoredManager = new EntityManager<TestProps>();
+
+      restoreBoardState(state, restoredGrid, restoredManager);
+
+      expect(restoredManager.getEntity('knight')!.isInMovementMode).toBe(true);
+      expect(restoredManager.getEntity('crate')!.isInMovementMode).toBe(false);
+      restoredManager.moveEntity('knight', restoredGrid.getCell(1, 0)!);
+      expect(restoredManager.getEntity('knight')!.cellPosition.q).toBe(1);
+    });
+
+    test('replaces existing cells and entities', () => {
+      const state = serializeBoardState(grid, entityManager);
+      grid.addCell({ q: 5, r: 5 });
+      entityManager.addEntity({
+        id: 'intruder',
+        type: 'prop',
+        cellPosition: grid.getCell(5, 5)!,
+      });
+      entityManager.cancelMovement('knight');
+
+      restoreBoardState(state, grid, entityManager);
+
+      expect(grid.size()).toBe(3);
+      expect(entityManager.getEntity('intruder')).toBeUndefined();
+      expect(entityManager.getEntity('knight')!.isInMovementMode).toBe(true);
+    });
+
+    test('leaves the board unchanged and reports every problem', () => {
+      const state: SerializedBoardState<TestProps> = {
+        ...serializeBoardState(grid, entityManager),
+        movementSessions: [
+          { entityId: 'knight', destinations: [] },
+          { entityId: 'knight', destinations: [] },
+          { entityId: 'ghost', destinations: [] },
+        ],
+      };
+      state.cells.push({ ...state.cells[0] });
+      state.entities.push({
+        ...state.entities[1],
+        position: { q: 9, r: 9, s: -18 },
+      });
+
+      expect(() => restoreBoardState(state, grid, entityManager)).toThrow(
+        [
+          'Invalid board state (5 errors):',
+          '  cell 3: Duplicate cell at q=0, r=0, s=0. Already defined by cell 0',
+          '  entity 2: Duplicate entity ID crate',
+          '  entity 2: No cell at q=9, r=9, s=-18 for entity crate',
+          '  movement session 1: Duplicate movement session for entity knight',
+          '  movement session 2: Entity with ID ghost not found',
+        ].join('\n')
+      );
+      expect(grid.size()).toBe(3);
+      expect(entityManager.getAllEntities()).toHaveLength(2);
+    });
+
+    test('counts a single problem in the singular', () => {
+      const state = serializeBoardState(grid, entityManager);
+      state.cells.push({ ...state.cells[0] });
+
+      expect(() => restoreBoardState(state, grid, entityManager)).toThrow(
+        [
+          'Invalid board state (1 error):',
+          '  cell 3: Duplicate cell at q=0, r=0, s=0. Already defined by cell 0',
+        ].join('\n')
+      );
+    });
+  });
+
+  describe('validateBoardState', () => {
+    test('accepts a freshly serialized board', () => {
+      expect(
+        validateBoardState(serializeBoardState(grid, entityManager))
+      ).toEqual([]);
+    });
+
+    test('rejects invalid random number generator states', () => {
+      const state = {
+        ...serializeBoardState(grid),
+        random: [1, 2, 3] as never,
+      };
+
+      expect(validateBoardState(state)).toEqual([
+        'random: Random number generator state must be four unsigned 32-bit integers',
+      ]);
+    });
+
+    test('rejects unsupported versions', () => {
+      const state = { ...serializeBoardState(grid), version: 99 };
+
+      expect(validateBoardState(state)).toEqual([
+        `Unsupported board state version: 99. Expected ${BOARD_STATE_VERSION}`,
+      ]);
+    });
+  });
+});
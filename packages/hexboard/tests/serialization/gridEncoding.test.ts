@@ -0,0 +1,191 @@
+import { HexGrid } from '../../src/core/hexGrid';
+import { hexagonShape } from '../../src/core/shapes';
+import {
+  GRID_ENCODING_VERSION,
+  decodeHexGrid,
+  decodeHexGridFromString,
+  encodeHexGrid,
+  encodeHexGridToString,
+} from '../../src/serialization/gridEncoding';
+import { serializeBoardState } from '../../src/serialization/boardState';
+
+interface TerrainProps extends Record<string, unknown> {
+  terrain?: string;
+  label?: string;
+}
+
+const TERRAINS = ['grass', 'forest', 'water', 'mountain'];
+
+// Compares grids by content, ignoring the -0 that the origin's s can carry
+const snapshot = (grid: HexGrid<TerrainProps>) =>
+  JSON.parse(JSON.stringify(serializeBoardState(grid).cells));
+
+describe('Grid encoding', () => {
+  let grid: HexGrid<TerrainProps>;
+
+  beforeEach(() => {
+    grid = new HexGrid<TerrainProps>();
+    grid.addCellsFromShape(hexagonShape(3, { q: -5, r: 2, s: 3 }));
+    grid.getAllCells().forEach((cell, index) => {
+      grid.updateCell(cell.q, cell.r, {
+        elevation: index % 5,
+        movementCost: 1 + (index % 3),
+        isImpassable: index % 7 === 0,
+        customProps: { terrain: TERRAINS[index % TERRAINS.length] },
+      });
+    });
+  });
+
+  describe('encodeHexGrid / decodeHexGrid', () => {
+    test('round-trips every cell', () => {
+      const decoded = decodeHexGrid<TerrainProps>(encodeHexGrid(grid));
+
+      expect(decoded.size()).toBe(37);
+      expect(snapshot(decoded)).toEqual(snapshot(grid));
+    });
+
+    test('starts with the magic bytes and format version', () => {
+      const bytes = encodeHexGrid(grid);
+
+      expect(Array.from(bytes.subarray(0, 3))).toEqual([
+        0x48,
+        0x58,
+        GRID_ENCODING_VERSION,
+      ]);
+    });
+
+    test('is much smaller than JSON', () => {
+      const bytes = encodeHexGrid(grid);
+      const json = JSON.stringify(serializeBoardState(grid).cells);
+
+      // Four bytes of cell data plus a shared dictionary entry per terrain
+      expect(bytes.length).toBeLessThan(37 * 6 + 100);
+      expect(bytes.length * 10).toBeLessThan(json.length);
+    });
+
+    test('stores each distinct customProps value once', () => {
+      const label = 'a-rather-long-label-shared-by-every-cell';
+      const withLabels = new HexGrid<TerrainProps>();
+      withLabels.addCellsFromShape(hexagonShape(4), {
+        customProps: { label },
+      });
+
+      const bytes = encodeHexGrid(withLabels);
+
+      // Six bytes per cell, plus the label only once
+      expect(bytes.length).toBeLessThan(61 * 6 + 2 * label.length);
+    });
+
+    test('preserves fractional and infinite values', () => {
+      grid.updateCell(-5, 2, { elevation: 1.25, movementCost: Infinity });
+      grid.updateCell(-4, 2, { elevation: -3 });
+
+      const decoded = decodeHexGrid<TerrainProps>(encodeHexGrid(grid));
+
+      expect(decoded.getCell(-5, 2)!.elevation).toBe(1.25);
+      expect(decoded.getCell(-5, 2)!.movementCost).toBe(Infinity);
+      expect(decoded.getCell(-4, 2)!.elevation).toBe(-3);
+    });
+
+    test('preserves non-ASCII custom properties', () => {
+      grid.updateCell(-5, 2, { customProps: { label: 'Château 🏰' } });
+
+      const decoded = decodeHexGrid<TerrainProps>(encodeHexGrid(grid));
+
+      expect(decoded.getCell(-5, 2)!.customProps).toEqual({
+        label: 'Château 🏰',
+      });
+    });
+
+    test('handles empty grids', () => {
+      const decoded = decodeHexGrid(encodeHexGrid(new HexGrid()));
+
+      expect(decoded.isEmpty()).toBe(true);
+    });
+
+    test('handles coordinates far from the origin', () => {
+      const far = new HexGrid();
+      far.addCell({ q: 100000, r: -250000 });
+      far.addCell({ q: 100003, r: -249999 });
+
+      const decoded = decodeHexGrid(encodeHexGrid(far));
+
+      expect(decoded.hasCell(100000, -250000)).toBe(true);
+      expect(decoded.hasCell(100003, -249999)).toBe(true);
+    });
+
+    test('rejects data without the header', () => {
+      expect(() => decodeHexGrid(new Uint8Array([1, 2, 3]))).toThrow(
+        'Invalid hex grid encoding: missing HX header'
+      );
+    });
+
+    test('rejects unsupported versions', () => {
+      const bytes = encodeHexGrid(grid);
+      bytes[2] = 99;
+
+      expect(() => decodeHexGrid(bytes)).toThrow(
+        'Invalid hex grid encoding: unsupported version 99'
+      );
+    });
+
+    test('rejects truncated and padded data', () => {
+      const bytes = encodeHexGrid(grid);
+
+      expect(() => decodeHexGrid(bytes.subarray(0, bytes.length - 1))).toThrow(
+        'Invalid hex grid encoding: unexpected end of data'
+      );
+      expect(() => decodeHexGrid(Uint8Array.from([...bytes, 0]))).toThrow(
+        'Invalid hex grid encoding: unexpected trailing bytes'
+      );
+    });
+
+    test('rejects customProps that are not valid JSON', () => {
+      // Header, version, origin (0, 0), no cells and a dictionary of just '{'
+      const bytes = new Uint8Array([0x48, 0x58, 1, 0, 0, 0, 1, 1, 123]);
+
+      expect(() => decodeHexGrid(bytes)).toThrow(
+        'Invalid hex grid encoding: customProps entry 0 is not valid JSON'
+      );
+    });
+  });
+
+  describe('encodeHexGridToString / decodeHexGridFromString', () => {
+    test('produces URL-safe text', () => {
+      const encoded = encodeHexGridToString(grid);
+
+      expect(encoded).toMatch(/^[A-Za-z0-9_-]+$/);
+      expect(encodeURIComponent(encoded)).toBe(encoded);
+    });
+
+    test('round-trips every cell', () => {
+      const decoded = decodeHexGridFromString<TerrainProps>(
+        encodeHexGridToString(grid)
+      );
+
+      expect(snapshot(decoded)).toEqual(snapshot(grid));
+    });
+
+    test('round-trips large grids', () => {
+      const large = new HexGrid();
+      large.addCellsFromShape(hexagonShape(40));
+
+      const decoded = decodeHexGridFromString(encodeHexGridToString(large));
+
+      expect(decoded.size()).toBe(large.size());
+    });
+
+    test('rejects text outside the base64url alphabet', () => {
+      expect(() => decodeHexGridFromString('SFg+/A==')).toThrow(
+        'Invalid hex grid encoding: not a base64url string'
+      );
+    });
+
+    test('rejects text cut off mid-character', () => {
+      // Five base64 characters leave a stray six bits
+      expect(() => decodeHexGridFromString('SFgBA')).toThrow(
+        'Invalid hex grid encoding: truncated base64url string'
+      );
+    });
+  });
+});
@@ -0,0 +1,226 @@
+import { HexGrid } from '../../src/core/hexGrid';
+import { MapDefinition } from '../../src/map/mapDefinition';
+import { MigrationRegistry } from '../../src/serialization/migrations';
+
+interface TerrainProps extends Record<string, unknown> {
+  terrain: string;
+  owner?: string;
+}
+
+// A map saved before cells had a terrain type or owner
+const legacyMap = {
+  name: 'Old Map',
+  defaults: {
+    elevation: 0,
+    movementCost: 1,
+    isImpassable: false,
+    customProps: {},
+  },
+  cells: [
+    { q: 0, r: 0, customProps: { kind: 'water' } },
+    { q: 1, r: 0 },
+  ],
+};
+
+const createMapMigrations = () =>
+  new MigrationRegistry<MapDefinition<TerrainProps>>()
+    .register({
+      version: 2,
+      description: 'Rename the cell kind property to terrain',
+      migrate: (document, report) => {
+        const cells = document.cells as {
+          customProps?: Record<string, unknown>;
+        }[];
+        cells.forEach((cell, index) => {
+          if (cell.customProps?.kind !== undefined) {
+            cell.customProps.terrain = cell.customProps.kind;
+            delete cell.customProps.kind;
+            report(`cell ${index}: renamed kind to terrain`);
+          }
+        });
+      },
+    })
+    .register({
+      version: 3,
+      description: 'Default terrain to plains',
+      migrate: (document, report) => {
+        report('added plains terrain to the map defaults');
+        return {
+          ...document,
+          defaults: {
+            ...(document.defaults as object),
+            customProps: { terrain: 'plains' },
+          },
+        };
+      },
+    });
+
+describe('MigrationRegistry', () => {
+  describe('versions', () => {
+    test('starts at the initial version', () => {
+      const registry = new MigrationRegistry();
+
+      expect(registry.getCurrentVersion()).toBe(1);
+      expect(registry.getVersion({})).toBe(1);
+      expect(registry.needsMigration({ version: 1 })).toBe(false);
+    });
+
+    test('reports the latest registered version', () => {
+      const registry = createMapMigrations();
+
+      expect(registry.getCurrentVersion()).toBe(3);
+      expect(registry.needsMigration(legacyMap)).toBe(true);
+      expect(registry.needsMigration({ version: 3 })).toBe(false);
+    });
+
+    test('reads the version from a custom key', () => {
+      const registry = new MigrationRegistry({
+        versionKey: 'dataVersion',
+        initialVersion: 0,
+      });
+
+      expect(registry.getVersion({ version: 7 })).toBe(0);
+      expect(registry.getVersion({ dataVersion: 2 })).toBe(2);
+    });
+
+    test('rejects non-integer document versions', () => {
+      expect(() =>
+        new MigrationRegistry().getVersion({ version: '2' })
+      ).toThrow('Invalid document version: 2. Must be an integer');
+    });
+  });
+
+  describe('register', () => {
+    test('rejects versions at or below the initial version', () => {
+      const registry = new MigrationRegistry();
+      const migrate = jest.fn();
+
+      expect(() =>
+        registry.register({ version: 1, description: '', migrate })
+      ).toThrow(
+        'Invalid migration version: 1. Must be an integer greater than 1'
+      );
+      expect(() =>
+        registry.register({ version: 2.5, description: '', migrate })
+      ).toThrow('Invalid migration version: 2.5');
+    });
+
+    test('rejects a second migration to the same version', () => {
+      const registry = createMapMigrations();
+
+      expect(() =>
+        registry.register({ version: 2, description: '', migrate: jest.fn() })
+      ).toThrow('Migration to version 2 already registered');
+    });
+  });
+
+  describe('migrate', () => {
+    test('runs every migration in order and stamps the latest version', () => {
+      const { document } = createMapMigrations().migrate(legacyMap);
+
+      expect(document.version).toBe(3);
+      expect(document.defaults.customProps).toEqual({ terrain: 'plains' });
+      expect(document.cells[0].customProps).toEqual({ terrain: 'water' });
+    });
+
+    test('reports what each step changed', () => {
+      const { report } = createMapMigrations().migrate(legacyMap);
+
+      expect(report).toEqual({
+        fromVersion: 1,
+        toVersion: 3,
+        steps: [
+          {
+            fromVersion: 1,
+            toVersion: 2,
+            description: 'Rename the cell kind property to terrain',
+            changes: ['cell 0: renamed kind to terrain'],
+          },
+          {
+            fromVersion: 2,
+            toVersion: 3,
+            description: 'Default terrain to plains',
+            changes: ['added plains terrain to the map defaults'],
+          },
+        ],
+      });
+    });
+
+    test('only runs the migrations after the document version', () => {
+      const { report } = createMapMigrations().migrate({
+        ...legacyMap,
+        version: 2,
+      });
+
+      expect(report.steps.map((step) => step.toVersion)).toEqual([3]);
+    });
+
+    test('returns current documents unchanged with an empty report', () => {
+      const current = { ...legacyMap, version: 3 };
+      const { document, report } = createMapMigrations().migrate(current);
+
+      expect(document).toEqual(current);
+      expect(document).not.toBe(current);
+      expect(report).toEqual({ fromVersion: 3, toVersion: 3, steps: [] });
+    });
+
+    test('never modifies the original document', () => {
+      const original = JSON.parse(JSON.stringify(legacyMap));
+
+      createMapMigrations().migrate(legacyMap);
+
+      expect(legacyMap).toEqual(original);
+    });
+
+    test('accepts migrations registered out of order', () => {
+      const registry = new MigrationRegistry()
+        .register({
+          version: 3,
+          description: 'Third',
+          migrate: (document) => {
+            document.steps = [...(document.steps as string[]), 'third'];
+          },
+        })
+        .register({
+          version: 2,
+          description: 'Second',
+          migrate: (document) => {
+            document.steps = ['second'];
+          },
+        });
+
+      expect(registry.migrate({}).document).toEqual({
+        version: 3,
+        steps: ['second', 'third'],
+      });
+    });
+
+    test('rejects documents newer than the latest version', () => {
+      expect(() =>
+        createMapMigrations().migrate({ ...legacyMap, version: 4 })
+      ).toThrow(
+        'Document version 4 is newer than the latest supported version 3'
+      );
+    });
+
+    test('rejects gaps in the chain', () => {
+      const registry = new MigrationRegistry().register({
+        version: 3,
+        description: 'Skips version 2',
+        migrate: jest.fn(),
+      });
+
+      expect(() => registry.migrate({})).toThrow(
+        'No migration registered from version 1 to 2'
+      );
+    });
+
+    test('produces maps that load into a grid', () => {
+      const { document } = createMapMigrations().migrate(legacyMap);
+      const grid = HexGrid.fromMapDefinition(document);
+
+      expect(grid.getCell(0, 0)!.customProps).toEqual({ terrain: 'water' });
+      expect(grid.getCell(1, 0)!.customProps).toEqual({ terrain: 'plains' });
+    });
+  });
+});
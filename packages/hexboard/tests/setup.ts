@@ -42,4 +42,22 @@ if (!globalThis.cancelAnimationFrame) {
   };
 }
 
+// jsdom has no PointerEvent, so provide the parts InputHandler reads
+if (!globalThis.PointerEvent) {
+  class PointerEventPolyfill extends MouseEvent {
+    readonly pointerId: number;
+    readonly pointerType: string;
+    readonly isPrimary: boolean;
+
+    constructor(type: string, init: PointerEventInit = {}) {
+      super(type, init);
+      this.pointerId = init.pointerId ?? 0;
+      this.pointerType = init.pointerType ?? '';
+      this.isPrimary = init.isPrimary ?? false;
+    }
+  }
+  globalThis.PointerEvent =
+    PointerEventPolyfill as unknown as typeof PointerEvent;
+}
+
 export {};
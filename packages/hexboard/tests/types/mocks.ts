@@ -37,6 +37,7 @@ export interface MockObject3D {
 
 export interface MockEntityManager {
   getAllEntities: jest.Mock;
+  getEntity: jest.Mock;
 }
 
 export interface MockModelRegistry {